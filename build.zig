@@ -72,6 +72,16 @@ pub fn build(b: *std.Build) void {
     });
     copy_css.step.dependOn(&make_dirs.step);
 
+    // Write a hash of the copied module into the copied index.html, so deploys bust cached copies of it
+    const stamp_wasm_cmd = if (builtin.os.tag == .windows)
+        &[_][]const u8{ "cmd", "/c", "bun", "scripts/stamp-wasm.ts" }
+    else
+        &[_][]const u8{ "bun", "scripts/stamp-wasm.ts" };
+
+    const stamp_wasm = b.addSystemCommand(stamp_wasm_cmd);
+    stamp_wasm.step.dependOn(&copy_wasm.step);
+    stamp_wasm.step.dependOn(&copy_html.step);
+
     // Add a run step to start Bun's development server
     const bun_serve_cmd = if (builtin.os.tag == .windows)
         &[_][]const u8{ "cmd", "/c", "bun", "run", "dev" }
@@ -82,6 +92,7 @@ pub fn build(b: *std.Build) void {
     run_cmd.step.dependOn(&copy_wasm.step);
     run_cmd.step.dependOn(&copy_public.step);
     run_cmd.step.dependOn(&copy_html.step);
+    run_cmd.step.dependOn(&stamp_wasm.step);
     run_cmd.step.dependOn(&copy_css.step);
 
     const run_step = b.step("run", "Build, deploy, and start Bun development server");
@@ -92,5 +103,17 @@ pub fn build(b: *std.Build) void {
     deploy_step.dependOn(&copy_wasm.step);
     deploy_step.dependOn(&copy_public.step);
     deploy_step.dependOn(&copy_html.step);
+    deploy_step.dependOn(&stamp_wasm.step);
     deploy_step.dependOn(&copy_css.step);
+
+    // Add a test step, the tests run natively and only reach code that doesn't call the host imports
+    const snapshot_tests = b.addTest(.{
+        .root_source_file = b.path("src/snapshot.zig"),
+        .target = b.graph.host,
+        .optimize = optimize,
+    });
+    const run_snapshot_tests = b.addRunArtifact(snapshot_tests);
+
+    const test_step = b.step("test", "Run the Zig unit tests");
+    test_step.dependOn(&run_snapshot_tests.step);
 }
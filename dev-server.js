@@ -2,9 +2,12 @@
 import { spawn } from 'node:child_process';
 import { watch } from 'fs';
 
+// Page and game worker entry points, bundled side by side into dist/js
+const BUILD_ARGS = ['build', 'web/src/main.ts', 'web/src/worker.ts', '--outdir', 'dist/js'];
+
 // Build the TypeScript files initially
 console.log('🔨 Building TypeScript files...');
-const initialBuild = spawn('bun', ['build', 'web/src/main.ts', '--outdir', 'dist/js'], { stdio: 'inherit' });
+const initialBuild = spawn('bun', BUILD_ARGS, { stdio: 'inherit' });
 
 initialBuild.on('close', (code) => {
   if (code !== 0) {
@@ -64,7 +67,7 @@ function startServer() {
       console.log(`🔄 TypeScript file changed: ${filename}`);
       console.log('🔨 Rebuilding...');
       
-      const rebuild = spawn('bun', ['build', 'web/src/main.ts', '--outdir', 'dist/js'], { stdio: 'inherit' });
+      const rebuild = spawn('bun', BUILD_ARGS, { stdio: 'inherit' });
       
       rebuild.on('close', (code) => {
         if (code === 0) {
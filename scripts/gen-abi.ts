@@ -0,0 +1,292 @@
+// Generates web/src/wasm/wasm-abi.ts from the ABI manifest in src/abi.json
+//
+//   bun run abi        regenerate the bindings
+//   bun run abi:check  fail if the manifest, the Zig sources and the bindings disagree
+//
+// Both modes compare the manifest with the `export fn` and `extern "env" fn` declarations in src/
+// and with ABI_VERSION in src/main.zig, so a signature changed on one side only is caught before it ships.
+// Groups marked "debug" list functions exported with @export from Debug builds only, they are optional in the bindings.
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+const MANIFEST_PATH = 'src/abi.json';
+const ZIG_ROOT = 'src';
+const ZIG_MAIN = 'src/main.zig';
+const OUTPUT_PATH = 'web/src/wasm/wasm-abi.ts';
+
+type AbiType = 'f32' | 'u32' | 'usize' | 'bool' | 'ptr' | 'void';
+
+const ABI_TYPES: AbiType[] = ['f32', 'u32', 'usize', 'bool', 'ptr', 'void'];
+
+// Zig spellings of each ABI type, pointers of any element type cross the boundary as a u32 offset
+const ZIG_TYPES: Record<string, AbiType> = {
+  'f32': 'f32',
+  'u32': 'u32',
+  'usize': 'usize',
+  'bool': 'bool',
+  'void': 'void',
+  '[*]u8': 'ptr',
+  '[*]const u8': 'ptr',
+  '[*]u32': 'ptr',
+  '[*]const u32': 'ptr'
+};
+
+interface AbiFunction {
+  name: string;
+  params: Record<string, AbiType>;
+  returns: AbiType;
+}
+
+interface AbiGroup {
+  group: string;
+  debug?: boolean; // Only exported from Debug builds
+  functions: AbiFunction[];
+}
+
+interface AbiManifest {
+  version: number;
+  exports: AbiGroup[];
+  imports: Record<string, AbiGroup[]>;
+}
+
+// A function as declared in the Zig sources, keyed by name (exports) or module.name (imports)
+interface ZigFunction {
+  file: string;
+  params: AbiType[];
+  returns: AbiType;
+  debug: boolean; // Exported with @export from Debug builds only
+}
+
+function readManifest(): AbiManifest {
+  const manifest = JSON.parse(readFileSync(MANIFEST_PATH, 'utf8')) as AbiManifest;
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error(`${MANIFEST_PATH}: version must be a positive integer`);
+  }
+
+  const groups = [...manifest.exports, ...Object.values(manifest.imports).flat()];
+  for (const fn of groups.flatMap(group => group.functions)) {
+    for (const type of [...Object.values(fn.params), fn.returns]) {
+      if (!ABI_TYPES.includes(type)) throw new Error(`${MANIFEST_PATH}: ${fn.name} uses unknown type "${type}"`);
+    }
+    if (Object.values(fn.params).includes('void')) throw new Error(`${MANIFEST_PATH}: ${fn.name} has a void parameter`);
+  }
+  return manifest;
+}
+
+function zigFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return zigFiles(path);
+    return entry.name.endsWith('.zig') ? [path] : [];
+  });
+}
+
+function parseZigType(type: string, where: string, problems: string[]): AbiType {
+  const abiType = ZIG_TYPES[type.trim()];
+  if (!abiType) {
+    problems.push(`${where}: type "${type.trim()}" has no ABI equivalent`);
+    return 'void';
+  }
+  return abiType;
+}
+
+function parseZigParams(params: string, where: string, problems: string[]): AbiType[] {
+  return params.split(',')
+    .map(param => param.trim())
+    .filter(param => param.length > 0)
+    .map(param => parseZigType(param.slice(param.indexOf(':') + 1), where, problems));
+}
+
+/**
+ * Collect the exported and imported functions declared in the Zig sources
+ */
+function readZigSources(problems: string[]): { exports: Map<string, ZigFunction>, imports: Map<string, ZigFunction> } {
+  const exports = new Map<string, ZigFunction>();
+  const imports = new Map<string, ZigFunction>();
+
+  for (const file of zigFiles(ZIG_ROOT)) {
+    const source = readFileSync(file, 'utf8');
+
+    for (const match of source.matchAll(/^\s*export fn (\w+)\(([^)]*)\)\s*([^{]+?)\s*\{/gm)) {
+      const [, name, params, returns] = match;
+      const where = `${file}: ${name}`;
+      exports.set(name, { file, params: parseZigParams(params, where, problems), returns: parseZigType(returns, where, problems), debug: false });
+    }
+
+    // Debug exports are plain functions named by @export calls in a comptime block
+    for (const [, fn, name] of source.matchAll(/@export\(&(\w+), \.\{ \.name = "(\w+)" \}\)/g)) {
+      const where = `${file}: ${name}`;
+      const definition = new RegExp(`^fn ${fn}\\(([^)]*)\\)\\s*callconv\\(\\.c\\)\\s*([^{]+?)\\s*\\{`, 'm').exec(source);
+      if (!definition) {
+        problems.push(`${where}: @export of ${fn}, which is not a callconv(.c) function in the same file`);
+        continue;
+      }
+      exports.set(name, { file, params: parseZigParams(definition[1], where, problems), returns: parseZigType(definition[2], where, problems), debug: true });
+    }
+
+    for (const match of source.matchAll(/^\s*extern "(\w+)" fn (\w+)\(([^)]*)\)\s*([^;]+?)\s*;/gm)) {
+      const [, module, name, params, returns] = match;
+      const where = `${file}: ${name}`;
+      imports.set(`${module}.${name}`, { file, params: parseZigParams(params, where, problems), returns: parseZigType(returns, where, problems), debug: false });
+    }
+  }
+
+  return { exports, imports };
+}
+
+function signature(params: AbiType[], returns: AbiType): string {
+  return `(${params.join(', ')}) ${returns}`;
+}
+
+/**
+ * Compare manifest entries with the Zig declarations of the same kind
+ */
+function compareFunctions(kind: string, manifest: Map<string, AbiFunction>, debug: Set<string>, zig: Map<string, ZigFunction>, problems: string[]): void {
+  for (const [key, fn] of manifest) {
+    const declared = zig.get(key);
+    if (!declared) {
+      problems.push(`${kind} ${key} is in ${MANIFEST_PATH} but not declared in ${ZIG_ROOT}/`);
+      continue;
+    }
+
+    const expected = signature(Object.values(fn.params), fn.returns);
+    const actual = signature(declared.params, declared.returns);
+    if (expected !== actual) {
+      problems.push(`${kind} ${key} is ${actual} in ${declared.file} but ${expected} in ${MANIFEST_PATH}`);
+    }
+    if (declared.debug !== debug.has(key)) {
+      const where = declared.debug ? 'a debug group' : 'a group that is not marked debug';
+      problems.push(`${kind} ${key} is ${declared.debug ? '' : 'not '}a Debug only export in ${declared.file}, move it to ${where} in ${MANIFEST_PATH}`);
+    }
+  }
+
+  for (const [key, declared] of zig) {
+    if (!manifest.has(key)) problems.push(`${kind} ${key} is declared in ${declared.file} but missing from ${MANIFEST_PATH}`);
+  }
+}
+
+function checkZigSources(manifest: AbiManifest, problems: string[]): void {
+  const zig = readZigSources(problems);
+
+  const exports = new Map(manifest.exports.flatMap(group => group.functions).map(fn => [fn.name, fn] as const));
+  const debugExports = new Set(manifest.exports.filter(group => group.debug).flatMap(group => group.functions).map(fn => fn.name));
+  const imports = new Map(Object.entries(manifest.imports).flatMap(([module, groups]) =>
+    groups.flatMap(group => group.functions).map(fn => [`${module}.${fn.name}`, fn] as const)));
+  compareFunctions('Export', exports, debugExports, zig.exports, problems);
+  compareFunctions('Import', imports, new Set(), zig.imports, problems);
+
+  const version = /const ABI_VERSION: u32 = (\d+);/.exec(readFileSync(ZIG_MAIN, 'utf8'));
+  if (!version) {
+    problems.push(`${ZIG_MAIN} does not declare ABI_VERSION`);
+  } else if (Number(version[1]) !== manifest.version) {
+    problems.push(`ABI_VERSION is ${version[1]} in ${ZIG_MAIN} but ${manifest.version} in ${MANIFEST_PATH}`);
+  }
+}
+
+function camelCase(name: string): string {
+  return name.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function tsSignature(fn: AbiFunction, optional: boolean): string {
+  const params = Object.keys(fn.params).map(name => `${camelCase(name)}: number`).join(', ');
+  return `${fn.name}${optional ? '?' : ''}(${params}): ${fn.returns === 'void' ? 'void' : 'number'};`;
+}
+
+function renderGroups(groups: AbiGroup[], indent: string): string[] {
+  return groups.flatMap((group, index) => [
+    ...(index > 0 ? [''] : []),
+    `${indent}// ${group.group}`,
+    ...group.functions.map(fn => `${indent}${tsSignature(fn, group.debug === true)}`)
+  ]);
+}
+
+/**
+ * Render the TypeScript bindings for a manifest
+ */
+function render(manifest: AbiManifest): string {
+  const exported = manifest.exports.flatMap(group => group.functions.map(fn => ({ fn, debug: group.debug === true })));
+  const imported = Object.entries(manifest.imports).flatMap(([module, groups]) =>
+    groups.flatMap(group => group.functions).map(fn => ({ module, fn })));
+
+  return [
+    `// Generated by scripts/gen-abi.ts from ${MANIFEST_PATH}, do not edit`,
+    '// Run `bun run abi` after changing the manifest',
+    '//',
+    '// Pointers are byte offsets into memory, and bool results arrive as 0 or 1.',
+    '',
+    '// Version of the ABI these bindings were generated for, must match getAbiVersion()',
+    `export const ABI_VERSION = ${manifest.version};`,
+    '',
+    '/**',
+    ' * Functions exported by towerd.wasm',
+    ' */',
+    'export interface WasmExports {',
+    ...renderGroups(manifest.exports, '  '),
+    '',
+    '  // Linear memory the pointers above point into',
+    '  memory: WebAssembly.Memory;',
+    '}',
+    '',
+    '/**',
+    ' * Functions towerd.wasm imports from the page, by module',
+    ' */',
+    'export interface WasmImports {',
+    ...Object.entries(manifest.imports).flatMap(([module, groups]) => [
+      `  ${module}: {`,
+      ...renderGroups(groups, '    '),
+      '  };'
+    ]),
+    '}',
+    '',
+    '/**',
+    ' * A function the ABI expects to find, and how many parameters it takes',
+    ' */',
+    'export interface AbiFunction {',
+    '  module?: string; // Only set for imports',
+    '  name: string;',
+    '  params: number;',
+    '  debug?: boolean; // Only exported from Debug builds',
+    '}',
+    '',
+    'export const WASM_EXPORTS: readonly AbiFunction[] = [',
+    ...exported.map(({ fn, debug }, index) =>
+      `  { name: '${fn.name}', params: ${Object.keys(fn.params).length}${debug ? ', debug: true' : ''} }${index < exported.length - 1 ? ',' : ''}`),
+    '];',
+    '',
+    'export const WASM_IMPORTS: readonly AbiFunction[] = [',
+    ...imported.map(({ module, fn }, index) =>
+      `  { module: '${module}', name: '${fn.name}', params: ${Object.keys(fn.params).length} }${index < imported.length - 1 ? ',' : ''}`),
+    '];',
+    ''
+  ].join('\n');
+}
+
+function main(): void {
+  const checkOnly = process.argv.includes('--check');
+  const manifest = readManifest();
+  const problems: string[] = [];
+
+  checkZigSources(manifest, problems);
+
+  const output = render(manifest);
+  if (checkOnly) {
+    if (!existsSync(OUTPUT_PATH) || readFileSync(OUTPUT_PATH, 'utf8') !== output) {
+      problems.push(`${OUTPUT_PATH} is out of date, run \`bun run abi\``);
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error(`ABI check failed:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    process.exit(1);
+  }
+
+  if (checkOnly) {
+    console.log(`ABI v${manifest.version} is consistent`);
+    return;
+  }
+
+  writeFileSync(OUTPUT_PATH, output);
+  console.log(`Wrote ${OUTPUT_PATH} (ABI v${manifest.version})`);
+}
+
+main();
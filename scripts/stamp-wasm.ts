@@ -0,0 +1,30 @@
+// Writes a hash of dist/towerd.wasm into dist/index.html, so browsers fetch the new module after a deploy
+//
+//   bun scripts/stamp-wasm.ts
+//
+// The page appends the hash to the module URL as ?v=, run by `zig build deploy` after both files are copied.
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const WASM_PATH = 'dist/towerd.wasm';
+const HTML_PATH = 'dist/index.html';
+
+// Hex digits of the SHA-256 kept, plenty to tell builds apart
+const HASH_LENGTH = 12;
+
+const HASH_META = /(<meta name="towerd-wasm-hash" content=")[^"]*(">)/;
+
+function main(): void {
+  const hash = createHash('sha256').update(readFileSync(WASM_PATH)).digest('hex').slice(0, HASH_LENGTH);
+
+  const html = readFileSync(HTML_PATH, 'utf8');
+  if (!HASH_META.test(html)) {
+    console.error(`${HTML_PATH} has no towerd-wasm-hash meta tag`);
+    process.exit(1);
+  }
+
+  writeFileSync(HTML_PATH, html.replace(HASH_META, `$1${hash}$2`));
+  console.log(`Stamped ${HTML_PATH} with ${WASM_PATH} hash ${hash}`);
+}
+
+main();
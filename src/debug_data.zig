@@ -0,0 +1,85 @@
+// debug_data.zig
+// What the debug overlays draw, written for the frontend by the Debug-only exports
+//
+// Layout (little-endian), must match web/src/game/debug-data.ts:
+//   tower count u8, then per tower: x f32, y f32, range f32, target u8 (index of the enemy it would shoot, 0xFF for none)
+//   enemy count u8, then per enemy: x f32, y f32, prev x f32, prev y f32, radius f32, progress f32, waypoint u8
+//   projectile count u8, then per projectile: x f32, y f32, prev x f32, prev y f32
+//   splash radius f32, impact count u8, then per impact: x f32, y f32, hit x f32, hit y f32, age f32
+//   then per grid cell, row by row: placement u8 (a PlacementResult, Ok where a tower could be built)
+
+const constants = @import("utils/constants.zig");
+const binary = @import("utils/binary.zig");
+const Game = @import("game.zig").Game;
+
+const TOWER_SIZE: usize = 3 * 4 + 1;
+const ENEMY_SIZE: usize = 6 * 4 + 1;
+const PROJECTILE_SIZE: usize = 4 * 4;
+const IMPACT_SIZE: usize = 5 * 4;
+
+/// Size of the largest block write can produce
+pub const MAX_SIZE: usize = 1 + constants.MAX_TOWERS * TOWER_SIZE +
+    1 + constants.MAX_ENEMIES * ENEMY_SIZE +
+    1 + constants.MAX_PROJECTILES * PROJECTILE_SIZE +
+    4 + 1 + constants.MAX_SPLASH_IMPACTS * IMPACT_SIZE +
+    constants.GRID_COLS * constants.GRID_ROWS;
+
+// Target written for towers with no enemy in range
+const NO_TARGET: u8 = 0xFF;
+
+/// Write the towers' targets, the enemies, projectiles, recent splash impacts and where towers could be built
+pub fn write(game: *const Game, w: *binary.Writer) binary.Error!void {
+    const towers = game.tower_manager.towers[0..game.tower_manager.count];
+    try w.writeU8(@intCast(towers.len));
+    for (towers) |tower| {
+        try w.writeF32(tower.x);
+        try w.writeF32(tower.y);
+        try w.writeF32(tower.range);
+        const target = game.findTarget(tower);
+        try w.writeU8(if (target) |index| @intCast(index) else NO_TARGET);
+    }
+
+    const enemies = game.enemy_manager.enemies[0..game.enemy_manager.count];
+    try w.writeU8(@intCast(enemies.len));
+    for (enemies) |enemy| {
+        try w.writeF32(enemy.x);
+        try w.writeF32(enemy.y);
+        try w.writeF32(enemy.prev_x);
+        try w.writeF32(enemy.prev_y);
+        try w.writeF32(enemy.radius);
+        try w.writeF32(enemy.progress);
+        try w.writeU8(@intCast(enemy.path_index));
+    }
+
+    const projectiles = game.projectile_manager.projectiles[0..game.projectile_manager.count];
+    try w.writeU8(@intCast(projectiles.len));
+    for (projectiles) |projectile| {
+        const prev = projectile.getPrevPosition();
+        try w.writeF32(projectile.x);
+        try w.writeF32(projectile.y);
+        try w.writeF32(prev.x);
+        try w.writeF32(prev.y);
+    }
+
+    const impacts = game.projectile_manager.impacts[0..game.projectile_manager.impact_count];
+    try w.writeF32(constants.SPLASH_RADIUS);
+    try w.writeU8(@intCast(impacts.len));
+    for (impacts) |impact| {
+        try w.writeF32(impact.x);
+        try w.writeF32(impact.y);
+        try w.writeF32(impact.hit_x);
+        try w.writeF32(impact.hit_y);
+        try w.writeF32(impact.age);
+    }
+
+    // Check each cell at its centre, the way a click there would
+    var row: u32 = 0;
+    while (row < constants.GRID_ROWS) : (row += 1) {
+        var col: u32 = 0;
+        while (col < constants.GRID_COLS) : (col += 1) {
+            const x = (@as(f32, @floatFromInt(col)) + 0.5) * constants.GRID_SIZE;
+            const y = (@as(f32, @floatFromInt(row)) + 0.5) * constants.GRID_SIZE;
+            try w.writeU8(@intCast(@intFromEnum(game.tower_manager.checkSite(x, y, &game.map))));
+        }
+    }
+}
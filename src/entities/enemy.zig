@@ -4,16 +4,28 @@
 const std = @import("std");
 const constants = @import("../utils/constants.zig");
 const math = @import("../utils/math.zig");
+const events = @import("../utils/events.zig");
+const sounds = @import("../utils/sounds.zig");
+const Random = @import("../utils/random.zig").Random;
 const Vector2 = math.Vector2;
+const gfx = @import("../rendering/draw.zig");
 const path_module = @import("path.zig");
-const PathPoint = path_module.PathPoint;
-
-// Audio functions
-extern "env" fn playEnemyHitSound() void;
-extern "env" fn playEnemyExplosionSound() void;
+const enemy_types = @import("enemy_types.zig");
+const EnemyKind = enemy_types.EnemyKind;
+const Shape = enemy_types.Shape;
+const wave_script = @import("wave_script.zig");
+const Wave = wave_script.Wave;
+const Path = path_module.Path;
+
+/// Damage and kills caused by a hit, credited to the tower that fired it
+pub const DamageResult = struct {
+    damage: f32 = 0, // Health actually removed, overkill is not counted
+    kills: u32 = 0,
+};
 
 /// Enemy structure
 pub const Enemy = struct {
+    kind: EnemyKind,
     x: f32,
     y: f32,
     radius: f32,
@@ -22,68 +34,88 @@ pub const Enemy = struct {
     speed: f32,
     value: u32,
     active: bool,
-    path_index: usize,
+    path_index: usize, // Waypoint the enemy is heading to
+    progress: f32, // Distance travelled along the path, used to find the enemy furthest ahead
     hit_flash: f32, // Visual indicator when enemy is hit
+    prev_x: f32, // Position before the last update, drawn interpolated towards x/y
+    prev_y: f32,
 
     /// Create a new enemy
-    pub fn init(x: f32, y: f32, health: f32, speed: f32, value: u32) Enemy {
+    pub fn init(kind: EnemyKind, x: f32, y: f32, health: f32, speed: f32, value: u32) Enemy {
         return Enemy{
+            .kind = kind,
             .x = x,
             .y = y,
-            .radius = constants.ENEMY_RADIUS,
+            .radius = enemy_types.get(kind).radius,
             .health = health,
             .max_health = health,
             .speed = speed,
             .value = value,
             .active = true,
             .path_index = 0,
+            .progress = 0,
             .hit_flash = 0,
+            .prev_x = x,
+            .prev_y = y,
         };
     }
 
-    /// Update enemy position along path
-    pub fn update(self: *Enemy, delta_time: f32, path: []const PathPoint) bool {
+    /// Update enemy position along path, picking a branch at each fork
+    pub fn update(self: *Enemy, delta_time: f32, path: *Path, rng: *Random) bool {
         if (!self.active) return false;
 
+        // Store previous position for interpolated drawing
+        self.prev_x = self.x;
+        self.prev_y = self.y;
+
         // Update hit flash effect
         if (self.hit_flash > 0) {
             self.hit_flash -= delta_time;
             if (self.hit_flash < 0) self.hit_flash = 0;
         }
 
-        if (self.path_index >= path.len) {
+        if (self.path_index >= path.length) {
             return true; // Reached end of path
         }
 
-        const target = path[self.path_index];
+        const target = path.points[self.path_index];
         const dx = target.x - self.x;
         const dy = target.y - self.y;
         const distance = @sqrt(dx * dx + dy * dy);
 
         if (distance < 5) {
             // Reached waypoint, move to next
-            self.path_index += 1;
-            if (self.path_index >= path.len) {
-                return true; // Reached end of path
-            }
+            self.path_index = path.nextWaypoint(self.path_index, rng) orelse return true; // Reached an exit
         } else {
             // Move toward waypoint
             const move_distance = self.speed * delta_time;
             const ratio = move_distance / distance;
             self.x += dx * ratio;
             self.y += dy * ratio;
+            self.progress += move_distance;
         }
 
         return false;
     }
 
+    /// Reduce a hit by the archetype's armor and, for splash damage, its splash resistance
+    pub fn mitigate(self: Enemy, damage: f32, splash: bool) f32 {
+        const archetype = enemy_types.get(self.kind);
+        var amount = damage;
+        if (splash) amount *= 1 - archetype.splash_resistance;
+        if (archetype.armor > 0) {
+            amount = @max(amount - archetype.armor, amount * constants.ENEMY_ARMOR_MIN_DAMAGE_SHARE);
+        }
+        return amount;
+    }
+
     /// Take damage and check if dead
     pub fn takeDamage(self: *Enemy, amount: f32) bool {
         self.health -= amount;
         self.hit_flash = constants.ENEMY_HIT_FLASH_DURATION;
 
-        // Play enemy hit sound
-        playEnemyHitSound();
+        // Play the archetype's hit sound from where the enemy is
+        sounds.playAt(.EnemyHit, self.x, self.y, @intFromEnum(self.kind));
 
         return self.health <= 0;
     }
@@ -94,25 +126,37 @@ pub const Enemy = struct {
     }
 
     /// Draw the enemy
-    pub fn draw(self: Enemy) void {
+    /// alpha: Fraction of the next update already elapsed, used to interpolate from the previous position
+    pub fn draw(self: Enemy, alpha: f32) void {
         if (!self.active) return;
 
-        // Draw enemy circle - flash white when hit
+        const x = math.lerp(self.prev_x, self.x, alpha);
+        const y = math.lerp(self.prev_y, self.y, alpha);
+
+        // Draw the archetype's shape - flash white when hit
+        const archetype = enemy_types.get(self.kind);
+        var r = archetype.red();
+        var g = archetype.green();
+        var b = archetype.blue();
         if (self.hit_flash > 0) {
-            // Flash white when hit
             const flash_intensity = @as(u8, @intFromFloat(255.0 * (self.hit_flash / constants.ENEMY_HIT_FLASH_DURATION)));
-            drawCircle(self.x, self.y, self.radius, 255, flash_intensity, flash_intensity, true);
-        } else {
-            // Normal red color
-            drawCircle(self.x, self.y, self.radius, 255, 0, 0, true);
+            r = @max(r, flash_intensity);
+            g = @max(g, flash_intensity);
+            b = @max(b, flash_intensity);
+        }
+        drawBody(x, y, self.radius, archetype.shape, r, g, b);
+
+        // Healers show the area they heal
+        if (archetype.heal_rate > 0) {
+            gfx.circle(x, y, constants.HEALER_RADIUS, archetype.red() / 3, archetype.green() / 3, archetype.blue() / 3, false);
         }
 
         // Draw health bar background (black)
         const health_bar_width = self.radius * 2.0;
         const health_bar_height = 5.0;
-        const health_x = self.x - self.radius;
-        const health_y = self.y - self.radius - 10;
-        drawRect(health_x, health_y, health_bar_width, health_bar_height, 0, 0, 0);
+        const health_x = x - self.radius;
+        const health_y = y - self.radius - 10;
+        gfx.rect(health_x, health_y, health_bar_width, health_bar_height, 0, 0, 0);
 
         // Draw health bar (green to red gradient based on health percentage)
         const health_percent = self.health / self.max_health;
@@ -122,82 +166,168 @@ pub const Enemy = struct {
         const r: u8 = @intFromFloat(255.0 * (1.0 - health_percent));
         const g: u8 = @intFromFloat(255.0 * health_percent);
 
-        drawRect(health_x, health_y, health_width, health_bar_height, r, g, 0);
+        gfx.rect(health_x, health_y, health_width, health_bar_height, r, g, 0);
 
         // Draw health bar border
-        drawLine(health_x, health_y, health_x + health_bar_width, health_y, 1, 255, 255, 255);
-        drawLine(health_x + health_bar_width, health_y, health_x + health_bar_width, health_y + health_bar_height, 1, 255, 255, 255);
-        drawLine(health_x + health_bar_width, health_y + health_bar_height, health_x, health_y + health_bar_height, 1, 255, 255, 255);
-        drawLine(health_x, health_y + health_bar_height, health_x, health_y, 1, 255, 255, 255);
+        gfx.line(health_x, health_y, health_x + health_bar_width, health_y, 1, 255, 255, 255);
+        gfx.line(health_x + health_bar_width, health_y, health_x + health_bar_width, health_y + health_bar_height, 1, 255, 255, 255);
+        gfx.line(health_x + health_bar_width, health_y + health_bar_height, health_x, health_y + health_bar_height, 1, 255, 255, 255);
+        gfx.line(health_x, health_y + health_bar_height, health_x, health_y, 1, 255, 255, 255);
     }
 };
 
+// Corners of a hexagon of radius 1, starting on the right
+const HEXAGON = [6][2]f32{ .{ 1, 0 }, .{ 0.5, 0.866 }, .{ -0.5, 0.866 }, .{ -1, 0 }, .{ -0.5, -0.866 }, .{ 0.5, -0.866 } };
+
+/// Draw an enemy's body in its archetype's shape
+fn drawBody(x: f32, y: f32, radius: f32, shape: Shape, r: u8, g: u8, b: u8) void {
+    switch (shape) {
+        .Circle => gfx.circle(x, y, radius, r, g, b, true),
+        .Diamond => {
+            gfx.triangle(x, y - radius, x - radius, y, x + radius, y, r, g, b, true);
+            gfx.triangle(x - radius, y, x + radius, y, x, y + radius, r, g, b, true);
+        },
+        .Square => {
+            // Plated: a filled block with a white rim
+            const half = radius * 0.85;
+            gfx.rect(x - half, y - half, half * 2, half * 2, r, g, b);
+            gfx.line(x - half, y - half, x + half, y - half, 2, 255, 255, 255);
+            gfx.line(x + half, y - half, x + half, y + half, 2, 255, 255, 255);
+            gfx.line(x + half, y + half, x - half, y + half, 2, 255, 255, 255);
+            gfx.line(x - half, y + half, x - half, y - half, 2, 255, 255, 255);
+        },
+        .Star => {
+            gfx.triangle(x, y - radius, x - radius * 0.866, y + radius * 0.5, x + radius * 0.866, y + radius * 0.5, r, g, b, true);
+            gfx.triangle(x, y + radius, x - radius * 0.866, y - radius * 0.5, x + radius * 0.866, y - radius * 0.5, r, g, b, true);
+        },
+        .Hexagon => {
+            for (HEXAGON, 0..) |corner, i| {
+                const next = HEXAGON[(i + 1) % HEXAGON.len];
+                gfx.triangle(x, y, x + corner[0] * radius, y + corner[1] * radius, x + next[0] * radius, y + next[1] * radius, r, g, b, true);
+            }
+        },
+        .Triangle => gfx.triangle(x, y - radius, x - radius, y + radius * 0.8, x + radius, y + radius * 0.8, r, g, b, true),
+        .Cross => {
+            const arm = radius / 3;
+            gfx.rect(x - radius, y - arm, radius * 2, arm * 2, r, g, b);
+            gfx.rect(x - arm, y - radius, arm * 2, radius * 2, r, g, b);
+        },
+        .Ring => {
+            // A hollow core hints at what's inside
+            gfx.circle(x, y, radius, r, g, b, true);
+            gfx.circle(x, y, radius * 0.45, 0, 0, 0, true);
+        },
+    }
+}
+
 /// Enemy Manager to handle multiple enemies
 pub const EnemyManager = struct {
     enemies: [constants.MAX_ENEMIES]Enemy,
     count: usize,
-    enemies_to_spawn: u32,
-    spawn_timer: f32,
     wave: u32,
+    current: Wave, // Schedule of the wave being spawned, a copy so loading a new script doesn't disturb it
+    group: usize, // Index of the group being spawned
+    group_spawned: u32, // Enemies of that group spawned so far
+    enemies_to_spawn: u32, // Left to spawn in the whole wave
+    spawn_timer: f32, // Seconds until the next spawn
+    discovered: u32, // Bit per EnemyKind already spawned this game
 
     /// Initialize a new enemy manager
     pub fn init() EnemyManager {
         return EnemyManager{
             .enemies = undefined,
             .count = 0,
+            .wave = 0,
+            .current = Wave.empty,
+            .group = 0,
+            .group_spawned = 0,
             .enemies_to_spawn = 0,
             .spawn_timer = 0,
-            .wave = 0,
+            .discovered = 0,
         };
     }
 
-    /// Start a new wave
+    /// Start the next wave of the wave script
     pub fn startWave(self: *EnemyManager) void {
         self.wave += 1;
-        self.enemies_to_spawn = 5 + self.wave * 2;
-        self.spawn_timer = 0;
+        self.current = wave_script.getWave(self.wave);
+        self.group = 0;
+        self.group_spawned = 0;
+        self.enemies_to_spawn = self.current.enemyCount();
+        self.spawn_timer = if (self.current.group_count > 0) self.current.groups[0].delay else 0;
+        events.waveStarted(self.wave, self.enemies_to_spawn, self.current.boss);
+        sounds.play(.WaveStarted, if (self.current.boss) 1 else 0);
     }
 
-    /// Spawn a new enemy
+    /// Spawn the next enemy of the current group
     pub fn spawnEnemy(self: *EnemyManager, path: anytype) bool {
         if (self.count >= constants.MAX_ENEMIES) return false;
-        if (self.enemies_to_spawn == 0) return false;
-
-        const health = constants.ENEMY_BASE_HEALTH + @as(f32, @floatFromInt(self.wave)) * constants.ENEMY_HEALTH_SCALING;
-        const speed = constants.ENEMY_BASE_SPEED + @as(f32, @floatFromInt(self.wave)) * constants.ENEMY_SPEED_SCALING;
-        const value = constants.ENEMY_BASE_VALUE + self.wave;
+        if (self.enemies_to_spawn == 0 or self.group >= self.current.group_count) return false;
 
-        // Get the first point on the path
-        const path_points = path.getPoints();
-        if (path_points.len == 0) return false;
+        // Start at the group's spawn point
+        const group = self.current.groups[self.group];
+        const spawn = path.nextSpawn(group.spawn) orelse return false;
 
-        const start_point = path_points[0];
-        self.enemies[self.count] = Enemy.init(start_point.x, start_point.y, health, speed, value);
+        const start_point = path.points[spawn];
+        self.enemies[self.count] = Enemy.init(group.kind, start_point.x, start_point.y, group.health, group.speed, group.bounty);
+        self.enemies[self.count].path_index = spawn;
         self.count += 1;
         self.enemies_to_spawn -= 1;
+        self.group_spawned += 1;
+        self.discover(self.enemies[self.count - 1]);
         return true;
     }
 
+    /// Tell the frontend the first time an archetype appears in a game, for the bestiary
+    fn discover(self: *EnemyManager, enemy: Enemy) void {
+        const bit = @as(u32, 1) << @intCast(@intFromEnum(enemy.kind));
+        if (self.discovered & bit != 0) return;
+
+        self.discovered |= bit;
+        events.enemyDiscovered(@intFromEnum(enemy.kind), enemy.max_health, enemy.speed);
+    }
+
+    /// Set the time until the next spawn, moving on to the next group once the current one is out
+    fn scheduleNextSpawn(self: *EnemyManager, rng: *Random) void {
+        const group = self.current.groups[self.group];
+        if (self.group_spawned < group.count) {
+            // Start the next interval slightly early or late so enemies don't march in lockstep
+            self.spawn_timer = group.interval + rng.range(-constants.ENEMY_SPAWN_JITTER, constants.ENEMY_SPAWN_JITTER);
+            return;
+        }
+
+        self.group += 1;
+        self.group_spawned = 0;
+        if (self.group < self.current.group_count) {
+            self.spawn_timer = self.current.groups[self.group].delay;
+        }
+    }
+
     /// Update all enemies
-    pub fn update(self: *EnemyManager, delta_time: f32, path: anytype, lives: *u32) void {
-        // Update spawn timer
+    /// lives: Lost one by one as enemies reach an exit, null to let them through for free
+    pub fn update(self: *EnemyManager, delta_time: f32, path: anytype, lives: ?*u32, rng: *Random) void {
+        // Update spawn timer, a spawn that fails because the field is full is retried next update
         if (self.enemies_to_spawn > 0) {
-            self.spawn_timer += delta_time;
-            if (self.spawn_timer > constants.ENEMY_SPAWN_INTERVAL) {
-                self.spawn_timer = 0;
-                _ = self.spawnEnemy(path);
+            self.spawn_timer -= delta_time;
+            if (self.spawn_timer <= 0 and self.spawnEnemy(path)) {
+                self.scheduleNextSpawn(rng);
             }
         }
 
+        self.applyHealing(delta_time);
+
         // Update existing enemies
         var i: usize = 0;
         while (i < self.count) {
-            const reached_end = self.enemies[i].update(delta_time, path.getPoints());
+            const reached_end = self.enemies[i].update(delta_time, path, rng);
 
             if (reached_end) {
                 // Enemy reached the end, lose a life
-                if (lives.* > 0) {
-                    lives.* -= 1;
+                if (lives) |left| {
+                    if (left.* > 0) {
+                        left.* -= 1;
+                        events.lifeLost(left.*);
+                    }
                 }
 
                 // Remove enemy
@@ -209,85 +339,178 @@ pub const EnemyManager = struct {
         }
     }
 
+    /// Let healers restore the health of the other enemies around them
+    fn applyHealing(self: *EnemyManager, delta_time: f32) void {
+        for (self.enemies[0..self.count], 0..) |healer, h| {
+            const rate = enemy_types.get(healer.kind).heal_rate;
+            if (rate <= 0) continue;
+
+            for (self.enemies[0..self.count], 0..) |*enemy, i| {
+                if (i == h) continue;
+
+                const dx = enemy.x - healer.x;
+                const dy = enemy.y - healer.y;
+                if (dx * dx + dy * dy > constants.HEALER_RADIUS * constants.HEALER_RADIUS) continue;
+
+                enemy.health = @min(enemy.max_health, enemy.health + enemy.max_health * rate * delta_time);
+            }
+        }
+    }
+
     /// Draw all enemies
-    pub fn draw(self: EnemyManager) void {
+    pub fn draw(self: EnemyManager, alpha: f32) void {
         for (self.enemies[0..self.count]) |enemy| {
-            enemy.draw();
+            enemy.draw(alpha);
         }
     }
 
     /// Apply damage to an enemy
-    pub fn damageEnemy(self: *EnemyManager, index: usize, damage: f32, money: *u32) bool {
-        if (index >= self.count) return false;
+    pub fn damageEnemy(self: *EnemyManager, index: usize, damage: f32, money: *u32, score: *u32) DamageResult {
+        if (index >= self.count) return .{};
+
+        const enemy = &self.enemies[index];
+        const amount = enemy.mitigate(damage, false);
+        const dealt = @min(amount, @max(enemy.health, 0));
+        if (enemy.takeDamage(amount)) {
+            self.killEnemy(index, money, score);
+            return .{ .damage = dealt, .kills = 1 };
+        }
+        return .{ .damage = dealt };
+    }
+
+    /// Pay out an enemy's bounty and remove it, releasing splitlings if it was a splitter
+    fn killEnemy(self: *EnemyManager, index: usize, money: *u32, score: *u32) void {
+        const enemy = self.enemies[index];
 
-        const killed = self.enemies[index].takeDamage(damage);
-        if (killed) {
-            // Play explosion sound
-            playEnemyExplosionSound();
+        // Play the archetype's explosion from where the enemy died
+        sounds.playAt(.EnemyExplosion, enemy.x, enemy.y, @intFromEnum(enemy.kind));
 
-            // Add money for kill
-            money.* += self.enemies[index].value;
+        // Add money and score for kill
+        money.* += enemy.value;
+        score.* += enemy.value * constants.SCORE_PER_BOUNTY;
+        events.enemyKilled(enemy.x, enemy.y, enemy.value);
 
-            // Remove enemy
-            self.enemies[index] = self.enemies[self.count - 1];
-            self.count -= 1;
-            return true;
+        // Remove enemy
+        self.enemies[index] = self.enemies[self.count - 1];
+        self.count -= 1;
+
+        self.split(enemy);
+    }
+
+    /// Release a killed splitter's splitlings where it died, lined up along its heading
+    fn split(self: *EnemyManager, parent: Enemy) void {
+        const split_count = enemy_types.get(parent.kind).split_count;
+        if (split_count == 0) return;
+
+        // Heading from the last update, enemies that haven't moved yet spread sideways
+        var dir_x = parent.x - parent.prev_x;
+        var dir_y = parent.y - parent.prev_y;
+        const length = @sqrt(dir_x * dir_x + dir_y * dir_y);
+        if (length > 0) {
+            dir_x /= length;
+            dir_y /= length;
+        } else {
+            dir_x = 1;
+            dir_y = 0;
+        }
+
+        // Splitlings share half of the splitter's bounty
+        const value = @max(parent.value / 2 / split_count, 1);
+        const middle = @as(f32, @floatFromInt(split_count - 1)) / 2;
+
+        var i: u32 = 0;
+        while (i < split_count and self.count < constants.MAX_ENEMIES) : (i += 1) {
+            const offset = (@as(f32, @floatFromInt(i)) - middle) * constants.SPLIT_SPREAD;
+            var child = Enemy.init(.Splitling, parent.x + dir_x * offset, parent.y + dir_y * offset, parent.max_health * constants.SPLIT_HEALTH_SHARE, parent.speed * constants.SPLIT_SPEED_SCALE, value);
+            child.path_index = parent.path_index;
+            child.progress = parent.progress + offset;
+
+            self.enemies[self.count] = child;
+            self.count += 1;
+            self.discover(child);
         }
-        return false;
     }
 
     /// Apply area damage to enemies within a radius
-    pub fn applyAreaDamage(self: *EnemyManager, center_x: f32, center_y: f32, radius: f32, damage: f32, money: *u32) u32 {
-        var enemies_hit: u32 = 0;
-        var i: usize = 0;
-        while (i < self.count) {
-            const enemy = &self.enemies[i];
+    pub fn applyAreaDamage(self: *EnemyManager, center_x: f32, center_y: f32, radius: f32, damage: f32, money: *u32, score: *u32) DamageResult {
+        var result = DamageResult{};
+
+        // Damage everything in the blast first, so splitlings released by a kill aren't caught by it
+        for (self.enemies[0..self.count]) |*enemy| {
             const dx = enemy.x - center_x;
             const dy = enemy.y - center_y;
             const distance = @sqrt(dx * dx + dy * dy);
+            if (distance >= radius) continue;
 
-            if (distance < radius) {
-                // Calculate damage based on distance from center (more damage at center)
-                const scaled_damage = damage * (1.0 - distance / radius);
-                const killed = enemy.takeDamage(scaled_damage);
-                enemies_hit += 1;
-
-                if (killed) {
-                    // Play explosion sound
-                    playEnemyExplosionSound();
-
-                    // Add money for kill
-                    money.* += enemy.value;
-
-                    // Remove enemy
-                    self.enemies[i] = self.enemies[self.count - 1];
-                    self.count -= 1;
-                    // Don't increment i since we've replaced this enemy
-                } else {
-                    i += 1;
-                }
+            // Calculate damage based on distance from center (more damage at center)
+            const scaled_damage = enemy.mitigate(damage * (1.0 - distance / radius), true);
+            result.damage += @min(scaled_damage, @max(enemy.health, 0));
+            if (enemy.takeDamage(scaled_damage)) result.kills += 1;
+        }
+
+        // Then remove the dead
+        var i: usize = 0;
+        while (i < self.count) {
+            if (self.enemies[i].health <= 0) {
+                // Don't increment i since we've replaced this enemy
+                self.killEnemy(i, money, score);
             } else {
                 i += 1;
             }
         }
-        return enemies_hit;
+        return result;
     }
 
     /// Apply slowing effect to an enemy
     pub fn slowEnemy(self: *EnemyManager, index: usize, slow_factor: f32) bool {
         if (index >= self.count) return false;
+        if (enemy_types.get(self.enemies[index].kind).slow_immune) return false;
 
         self.enemies[index].speed *= slow_factor;
         return true;
     }
 
+    /// Add an enemy outside the wave schedule, at the spawn points in turn, returns false if the field is full
+    pub fn spawnExtra(self: *EnemyManager, kind: EnemyKind, health: f32, speed: f32, value: u32, path: anytype) bool {
+        if (self.count >= constants.MAX_ENEMIES) return false;
+
+        const spawn = path.nextSpawn(constants.SPAWN_ANY) orelse return false;
+        const start_point = path.points[spawn];
+        self.enemies[self.count] = Enemy.init(kind, start_point.x, start_point.y, health, speed, value);
+        self.enemies[self.count].path_index = spawn;
+        self.count += 1;
+        self.discover(self.enemies[self.count - 1]);
+        return true;
+    }
+
+    /// Kill every enemy on the field, paying out their bounties, returns how many died
+    /// Splitlings released by the kills die too, enemies still to spawn in the wave are unaffected
+    pub fn killAll(self: *EnemyManager, money: *u32, score: *u32) u32 {
+        var kills: u32 = 0;
+        while (self.count > 0) : (kills += 1) {
+            self.killEnemy(self.count - 1, money, score);
+        }
+        return kills;
+    }
+
+    /// Move every enemy on the field to a waypoint, from where they carry on along the path
+    /// Returns how many were moved, 0 if there is no such waypoint
+    pub fn teleportAll(self: *EnemyManager, path: anytype, waypoint: usize) u32 {
+        if (waypoint >= path.length) return 0;
+
+        const point = path.points[waypoint];
+        for (self.enemies[0..self.count]) |*enemy| {
+            enemy.x = point.x;
+            enemy.y = point.y;
+            enemy.prev_x = point.x;
+            enemy.prev_y = point.y;
+            enemy.path_index = waypoint;
+        }
+        return @intCast(self.count);
+    }
+
     /// Check if all enemies are defeated
     pub fn allEnemiesDefeated(self: EnemyManager) bool {
         return self.count == 0 and self.enemies_to_spawn == 0;
     }
 };
-
-// External drawing functions
-extern "env" fn drawCircle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void;
-extern "env" fn drawRect(x: f32, y: f32, width: f32, height: f32, r: u8, g: u8, b: u8) void;
-extern "env" fn drawLine(x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void;
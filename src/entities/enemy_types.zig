@@ -0,0 +1,97 @@
+// enemy_types.zig
+// Enemy archetypes that wave scripts spawn: how each one is drawn and how it resists towers
+//
+// Wire layout (little-endian), used to export the archetypes to the frontend's bestiary:
+//   count u8, then per archetype: radius f32, colour u32 (0xRRGGBB), shape u8, armor f32,
+//   slow immune u8, splash resistance f32, heal rate f32, split count u8
+
+const constants = @import("../utils/constants.zig");
+const binary = @import("../utils/binary.zig");
+
+/// Enemy archetype, must match EnemyKind in web/src/game/enemy-types.ts
+pub const EnemyKind = enum(u8) {
+    Normal = 0,
+    Fast = 1, // Quick and fragile
+    Armored = 2, // Flat reduction on every hit
+    Boss = 3,
+    SlowImmune = 4,
+    SplashResistant = 5,
+    Healer = 6, // Restores the health of enemies around it
+    Splitter = 7, // Breaks into splitlings when killed
+    Splitling = 8, // Only spawned by splitters
+};
+
+/// Outline an archetype is drawn with, must match EnemyShape in web/src/game/enemy-types.ts
+pub const Shape = enum(u8) {
+    Circle = 0,
+    Diamond = 1,
+    Square = 2,
+    Star = 3,
+    Hexagon = 4,
+    Triangle = 5,
+    Cross = 6,
+    Ring = 7,
+};
+
+/// Appearance and resistances of an archetype, its health, speed and bounty come from the wave script
+pub const Archetype = struct {
+    radius: f32,
+    color: u32, // 0xRRGGBB
+    shape: Shape,
+    armor: f32 = 0, // Subtracted from every hit, down to ENEMY_ARMOR_MIN_DAMAGE_SHARE of it
+    slow_immune: bool = false,
+    splash_resistance: f32 = 0, // Share of splash damage ignored
+    heal_rate: f32 = 0, // Share of their max health restored each second to other enemies within HEALER_RADIUS
+    split_count: u32 = 0, // Splitlings released when killed
+
+    pub fn red(self: Archetype) u8 {
+        return @truncate(self.color >> 16);
+    }
+
+    pub fn green(self: Archetype) u8 {
+        return @truncate(self.color >> 8);
+    }
+
+    pub fn blue(self: Archetype) u8 {
+        return @truncate(self.color);
+    }
+};
+
+/// Look up an archetype
+pub fn get(kind: EnemyKind) Archetype {
+    return switch (kind) {
+        .Normal => .{ .radius = constants.ENEMY_RADIUS, .color = 0xFF0000, .shape = .Circle },
+        .Fast => .{ .radius = 11, .color = 0xFF8800, .shape = .Diamond },
+        .Armored => .{ .radius = 17, .color = 0x8899AA, .shape = .Square, .armor = 4 },
+        .Boss => .{ .radius = 24, .color = 0xFF0088, .shape = .Star, .armor = 3, .splash_resistance = 0.3 },
+        .SlowImmune => .{ .radius = 15, .color = 0x00CCFF, .shape = .Hexagon, .slow_immune = true },
+        .SplashResistant => .{ .radius = 16, .color = 0x66FF66, .shape = .Triangle, .splash_resistance = 0.75 },
+        .Healer => .{ .radius = 14, .color = 0xFF66CC, .shape = .Cross, .heal_rate = 0.05 },
+        .Splitter => .{ .radius = 17, .color = 0xAA00FF, .shape = .Ring, .split_count = 3 },
+        .Splitling => .{ .radius = 8, .color = 0xCC66FF, .shape = .Circle },
+    };
+}
+
+/// Size of the exported archetype table
+pub const WIRE_SIZE: usize = 1 + @typeInfo(EnemyKind).@"enum".fields.len * (4 * 5 + 3);
+
+/// Serialize every archetype, in EnemyKind order, into buf, returning the number of bytes written
+pub fn write(buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+    const fields = @typeInfo(EnemyKind).@"enum".fields;
+
+    try w.writeU8(fields.len);
+    inline for (fields) |field| {
+        const archetype = get(@enumFromInt(field.value));
+        try w.writeF32(archetype.radius);
+        try w.writeU32(archetype.color);
+        try w.writeU8(@intFromEnum(archetype.shape));
+        try w.writeF32(archetype.armor);
+        try w.writeU8(if (archetype.slow_immune) 1 else 0);
+        try w.writeF32(archetype.splash_resistance);
+        try w.writeF32(archetype.heal_rate);
+        try w.writeU8(@intCast(archetype.split_count));
+    }
+
+    return w.pos;
+}
@@ -0,0 +1,94 @@
+// level.zig
+// Rules of the level being played: starting money and lives, the wave that wins it and the towers it allows
+//
+// Wire layout (little-endian), used to load campaign levels:
+//   level number u8 (0 = endless play), money u32, lives u32, waves to clear u8 (0 = endless),
+//   allowed tower types u32 (bit per tower catalog id)
+
+const constants = @import("../utils/constants.zig");
+const binary = @import("../utils/binary.zig");
+
+/// Size of a level in the wire layout
+pub const WIRE_SIZE: usize = 1 + 4 + 4 + 1 + 4;
+
+/// Every tower catalog id, 1 to MAX_TOWER_TYPES
+const ALL_TOWERS: u32 = (@as(u32, 1) << @intCast(constants.MAX_TOWER_TYPES + 1)) - 2;
+
+pub const Level = struct {
+    number: u8, // Campaign level number from 1, 0 for endless play
+    money: u32,
+    lives: u32,
+    waves: u32, // Clearing this wave wins the level, 0 to play on until the lives run out
+    towers: u32, // Bit per tower catalog id the player may build
+
+    /// Endless play with the built-in starting money and lives and every tower
+    pub fn endless() Level {
+        return Level{
+            .number = 0,
+            .money = constants.INITIAL_MONEY,
+            .lives = constants.INITIAL_LIVES,
+            .waves = 0,
+            .towers = ALL_TOWERS,
+        };
+    }
+
+    /// Check if the player may build a tower type, id is a tower catalog id
+    pub fn allowsTower(self: Level, id: u32) bool {
+        return id < 32 and self.towers & (@as(u32, 1) << @intCast(id)) != 0;
+    }
+
+    /// Check if clearing a wave wins the level
+    pub fn isFinalWave(self: Level, wave: u32) bool {
+        return self.waves > 0 and wave >= self.waves;
+    }
+
+    /// Serialize the level in the wire layout
+    pub fn write(self: *const Level, w: *binary.Writer) binary.Error!void {
+        try w.writeU8(self.number);
+        try w.writeU32(self.money);
+        try w.writeU32(self.lives);
+        try w.writeU8(@intCast(self.waves));
+        try w.writeU32(self.towers);
+    }
+
+    /// Read and validate a level in the wire layout
+    ///
+    /// The player needs at least one life and one tower type, and the level can't outlast the wave limit.
+    pub fn read(r: *binary.Reader) binary.Error!Level {
+        var level: Level = undefined;
+        level.number = try r.readU8();
+        level.money = try r.readU32();
+        level.lives = try r.readU32();
+        level.waves = try r.readU8();
+        level.towers = try r.readU32();
+
+        if (level.lives == 0 or level.waves > constants.MAX_WAVES) return error.InvalidData;
+        if (level.towers == 0 or level.towers & ~ALL_TOWERS != 0) return error.InvalidData;
+
+        return level;
+    }
+};
+
+// The level new games are played on, like the map it lives outside Game
+var active: Level = Level.endless();
+
+/// Get the level new games are played on
+pub fn get() Level {
+    return active;
+}
+
+/// Serialize the active level into buf, returning the number of bytes written
+pub fn write(buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+    try active.write(&w);
+    return w.pos;
+}
+
+/// Validate a level and make it the active one, a game under way keeps the rules it started with
+pub fn read(data: []const u8) binary.Error!void {
+    var r = binary.Reader{ .data = data };
+    const level = try Level.read(&r);
+    if (r.pos != data.len) return error.InvalidData;
+
+    active = level;
+}
@@ -0,0 +1,163 @@
+// map.zig
+// Playfield layout: the path enemies follow and the cells towers can't be built on
+//
+// Wire layout, used to export the map and to load map files:
+//   waypoint count u8, then per waypoint: column u8, row u8 (grid intersections, from 0,0 to GRID_COLS,GRID_ROWS),
+//   branch count u8, then per branch: target waypoint u8, weight u8,
+//   then branching mode u8, then the blocked cells as a bitset of GRID_COLS * GRID_ROWS bits, row by row, lowest bit first
+
+const constants = @import("../utils/constants.zig");
+const binary = @import("../utils/binary.zig");
+const gfx = @import("../rendering/draw.zig");
+const path_module = @import("path.zig");
+const Path = path_module.Path;
+const Branching = path_module.Branching;
+
+pub const CELL_COUNT: usize = constants.GRID_COLS * constants.GRID_ROWS;
+
+/// Size of the blocked cell bitset in bytes
+pub const BLOCKED_SIZE: usize = (CELL_COUNT + 7) / 8;
+
+/// Largest map the wire format can carry
+pub const WIRE_SIZE: usize = 1 + constants.MAX_PATH_POINTS * (3 + constants.MAX_PATH_BRANCHES * 2) + 1 + BLOCKED_SIZE;
+
+pub const Map = struct {
+    path: Path,
+    blocked: [BLOCKED_SIZE]u8, // Bit per grid cell, row by row
+
+    /// The built-in map: the default path and no blocked cells
+    pub fn defaults() Map {
+        return Map{ .path = Path.init(), .blocked = [_]u8{0} ** BLOCKED_SIZE };
+    }
+
+    /// Check if the grid cell containing a position is blocked, positions off the grid count as blocked
+    pub fn isBlocked(self: *const Map, x: f32, y: f32) bool {
+        if (x < 0 or y < 0) return true;
+
+        const col: usize = @intFromFloat(x / constants.GRID_SIZE);
+        const row: usize = @intFromFloat(y / constants.GRID_SIZE);
+        if (col >= constants.GRID_COLS or row >= constants.GRID_ROWS) return true;
+
+        return self.isCellBlocked(row * constants.GRID_COLS + col);
+    }
+
+    fn isCellBlocked(self: *const Map, cell: usize) bool {
+        return self.blocked[cell / 8] & (@as(u8, 1) << @intCast(cell % 8)) != 0;
+    }
+
+    /// Draw the blocked cells and the path
+    pub fn draw(self: *const Map) void {
+        for (0..CELL_COUNT) |cell| {
+            if (!self.isCellBlocked(cell)) continue;
+
+            const x = @as(f32, @floatFromInt(cell % constants.GRID_COLS)) * constants.GRID_SIZE;
+            const y = @as(f32, @floatFromInt(cell / constants.GRID_COLS)) * constants.GRID_SIZE;
+            gfx.rect(x + 2, y + 2, constants.GRID_SIZE - 4, constants.GRID_SIZE - 4, 40, 20, 20);
+            gfx.line(x + 8, y + 8, x + constants.GRID_SIZE - 8, y + constants.GRID_SIZE - 8, 2, 90, 40, 40);
+            gfx.line(x + constants.GRID_SIZE - 8, y + 8, x + 8, y + constants.GRID_SIZE - 8, 2, 90, 40, 40);
+        }
+
+        self.path.draw();
+    }
+
+    /// Serialize the map in the wire layout, the path must lie on grid intersections
+    pub fn write(self: *const Map, w: *binary.Writer) binary.Error!void {
+        try w.writeU8(@intCast(self.path.length));
+        for (self.path.getPoints(), self.path.links[0..self.path.length]) |point, *links| {
+            try w.writeU8(@intFromFloat(point.x / constants.GRID_SIZE));
+            try w.writeU8(@intFromFloat(point.y / constants.GRID_SIZE));
+            try w.writeU8(@intCast(links.count));
+            for (links.getTargets(), links.getWeights()) |target, weight| {
+                try w.writeU8(target);
+                try w.writeU8(weight);
+            }
+        }
+        try w.writeU8(@intFromEnum(self.path.branching));
+        try w.writeBytes(&self.blocked);
+    }
+
+    /// Read and validate a map in the wire layout
+    ///
+    /// The path needs at least two waypoints, no two in the same place, joined by weighted branches
+    /// that never loop back. Spawn points and exits must lie on the edge of the grid, and there may be
+    /// at most MAX_SPAWN_POINTS spawn points.
+    pub fn read(r: *binary.Reader) binary.Error!Map {
+        var map = Map{ .path = Path.empty, .blocked = undefined };
+
+        const count = try r.readU8();
+        if (count < 2 or count > constants.MAX_PATH_POINTS) return error.InvalidData;
+
+        var cols: [constants.MAX_PATH_POINTS]u8 = undefined;
+        var rows: [constants.MAX_PATH_POINTS]u8 = undefined;
+        var branches: [constants.MAX_PATH_POINTS]path_module.Links = undefined;
+        for (0..count) |i| {
+            cols[i] = try r.readU8();
+            rows[i] = try r.readU8();
+            if (cols[i] > constants.GRID_COLS or rows[i] > constants.GRID_ROWS) return error.InvalidData;
+            for (0..i) |other| {
+                if (cols[other] == cols[i] and rows[other] == rows[i]) return error.InvalidData;
+            }
+
+            const x = @as(f32, @floatFromInt(cols[i])) * constants.GRID_SIZE;
+            const y = @as(f32, @floatFromInt(rows[i])) * constants.GRID_SIZE;
+            if (!map.path.addPoint(x, y)) return error.InvalidData;
+
+            // Branches may lead to waypoints not read yet, so they are joined once all are in
+            const links = &branches[i];
+            links.count = try r.readU8();
+            if (links.count > constants.MAX_PATH_BRANCHES) return error.InvalidData;
+            for (0..links.count) |b| {
+                links.targets[b] = try r.readU8();
+                links.weights[b] = try r.readU8();
+            }
+        }
+
+        for (branches[0..count], 0..) |*links, i| {
+            for (links.getTargets(), links.getWeights()) |target, weight| {
+                if (!map.path.addBranch(i, target, weight)) return error.InvalidData;
+            }
+        }
+        map.path.branching = try r.readEnum(Branching);
+
+        if (!map.path.isValid()) return error.InvalidData;
+        for (0..count) |i| {
+            const is_end = map.path.isSpawn(i) or map.path.isExit(i);
+            if (is_end and !isOnEdge(cols[i], rows[i])) return error.InvalidData;
+        }
+        if (map.path.spawnCount() > constants.MAX_SPAWN_POINTS) return error.InvalidData;
+
+        @memcpy(&map.blocked, try r.readBytes(BLOCKED_SIZE));
+        // Bits past the last cell must be clear
+        if (CELL_COUNT % 8 != 0 and map.blocked[BLOCKED_SIZE - 1] >> @intCast(CELL_COUNT % 8) != 0) return error.InvalidData;
+
+        return map;
+    }
+};
+
+fn isOnEdge(col: u8, row: u8) bool {
+    return col == 0 or row == 0 or col == constants.GRID_COLS or row == constants.GRID_ROWS;
+}
+
+// The map new games are played on, like the wave script it lives outside Game
+var active: Map = Map.defaults();
+
+/// Get the map new games are played on
+pub fn get() Map {
+    return active;
+}
+
+/// Serialize the active map into buf, returning the number of bytes written
+pub fn write(buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+    try active.write(&w);
+    return w.pos;
+}
+
+/// Validate a map and make it the active one, a game under way keeps the map it started on
+pub fn read(data: []const u8) binary.Error!void {
+    var r = binary.Reader{ .data = data };
+    const map = try Map.read(&r);
+    if (r.pos != data.len) return error.InvalidData;
+
+    active = map;
+}
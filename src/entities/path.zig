@@ -1,10 +1,16 @@
 // path.zig
 // Path system for enemy movement
+//
+// The path is a graph of waypoints joined by one-way branches. Waypoints no branch leads to are the
+// spawn points, waypoints with no branches leaving them are the exits, and enemies arriving at a fork
+// pick a branch by the path's branching mode.
 
 const std = @import("std");
 const constants = @import("../utils/constants.zig");
 const math = @import("../utils/math.zig");
 const Vector2 = math.Vector2;
+const Random = @import("../utils/random.zig").Random;
+const gfx = @import("../rendering/draw.zig");
 
 /// A point on the enemy path
 pub const PathPoint = struct {
@@ -20,56 +26,231 @@ pub const PathPoint = struct {
     }
 };
 
+/// How enemies arriving at a fork pick the branch they take, must match BranchMode in web/src/game/game-map.ts
+pub const Branching = enum(u8) {
+    Weighted = 0, // At random, in proportion to the branch weights
+    RoundRobin = 1, // In turn, each branch taken as many times in a row as its weight
+};
+
+/// The branches leaving a waypoint
+pub const Links = struct {
+    targets: [constants.MAX_PATH_BRANCHES]u8,
+    weights: [constants.MAX_PATH_BRANCHES]u8,
+    count: usize,
+
+    pub const none = Links{ .targets = undefined, .weights = undefined, .count = 0 };
+
+    pub fn getTargets(self: *const Links) []const u8 {
+        return self.targets[0..self.count];
+    }
+
+    pub fn getWeights(self: *const Links) []const u8 {
+        return self.weights[0..self.count];
+    }
+
+    fn totalWeight(self: *const Links) u32 {
+        var total: u32 = 0;
+        for (self.getWeights()) |weight| {
+            total += weight;
+        }
+        return total;
+    }
+
+    /// Find the branch a ticket in 0..totalWeight falls on
+    fn pick(self: *const Links, ticket: u32) usize {
+        var remaining = ticket;
+        for (self.getWeights(), 0..) |weight, i| {
+            if (remaining < weight) return i;
+            remaining -= weight;
+        }
+        return self.count - 1;
+    }
+};
+
 /// Path system for enemy movement
 pub const Path = struct {
     points: [constants.MAX_PATH_POINTS]PathPoint,
+    links: [constants.MAX_PATH_POINTS]Links,
+    turns: [constants.MAX_PATH_POINTS]u32, // Enemies that have left each waypoint, for round-robin branching
     length: usize,
+    branching: Branching,
+    spawn_turn: u32, // Enemies spawned at any spawn point, for round-robin spawning
+
+    /// A path with no waypoints
+    pub const empty = Path{
+        .points = undefined,
+        .links = [_]Links{Links.none} ** constants.MAX_PATH_POINTS,
+        .turns = [_]u32{0} ** constants.MAX_PATH_POINTS,
+        .length = 0,
+        .branching = .Weighted,
+        .spawn_turn = 0,
+    };
 
     /// Initialize a default path
     pub fn init() Path {
-        var path = Path{
-            .points = undefined,
-            .length = 0,
-        };
+        var path = Path.empty;
 
         // Initialize default path
-        path.points[0] = PathPoint.init(0, 120);
-        path.points[1] = PathPoint.init(200, 120);
-        path.points[2] = PathPoint.init(200, 280);
-        path.points[3] = PathPoint.init(400, 280);
-        path.points[4] = PathPoint.init(400, 120);
-        path.points[5] = PathPoint.init(600, 120);
-        path.points[6] = PathPoint.init(600, 400);
-        path.points[7] = PathPoint.init(800, 400);
-        path.length = 8;
+        _ = path.addPoint(0, 120);
+        _ = path.addPoint(200, 120);
+        _ = path.addPoint(200, 280);
+        _ = path.addPoint(400, 280);
+        _ = path.addPoint(400, 120);
+        _ = path.addPoint(600, 120);
+        _ = path.addPoint(600, 400);
+        _ = path.addPoint(800, 400);
+        for (1..path.length) |i| {
+            _ = path.addBranch(i - 1, i, 1);
+        }
 
         return path;
     }
 
-    /// Add a point to the path
+    /// Add a point to the path, not joined to any other yet
     pub fn addPoint(self: *Path, x: f32, y: f32) bool {
         if (self.length >= constants.MAX_PATH_POINTS) {
             return false;
         }
 
         self.points[self.length] = PathPoint.init(x, y);
+        self.links[self.length] = Links.none;
+        self.turns[self.length] = 0;
         self.length += 1;
         return true;
     }
 
+    /// Add a branch from one waypoint to another, enemies take it in proportion to its weight
+    pub fn addBranch(self: *Path, from: usize, to: usize, weight: u8) bool {
+        if (from >= self.length or to >= self.length or from == to or weight == 0) return false;
+
+        const links = &self.links[from];
+        if (links.count >= constants.MAX_PATH_BRANCHES) return false;
+        for (links.getTargets()) |target| {
+            if (target == to) return false;
+        }
+
+        links.targets[links.count] = @intCast(to);
+        links.weights[links.count] = weight;
+        links.count += 1;
+        return true;
+    }
+
     /// Get a slice of the path points
     pub fn getPoints(self: Path) []const PathPoint {
         return self.points[0..self.length];
     }
 
-    /// Check if a position is too close to the path
+    /// Check if any branch leads to a waypoint
+    pub fn isEntered(self: *const Path, index: usize) bool {
+        for (self.links[0..self.length]) |*links| {
+            for (links.getTargets()) |target| {
+                if (target == index) return true;
+            }
+        }
+        return false;
+    }
+
+    /// Check if a waypoint is a spawn point, one no branch leads to
+    pub fn isSpawn(self: *const Path, index: usize) bool {
+        return index < self.length and !self.isEntered(index);
+    }
+
+    /// Check if a waypoint is an exit, one with no branches leaving it
+    pub fn isExit(self: *const Path, index: usize) bool {
+        return index < self.length and self.links[index].count == 0;
+    }
+
+    /// Number of spawn points
+    pub fn spawnCount(self: *const Path) usize {
+        var count: usize = 0;
+        for (0..self.length) |i| {
+            if (self.isSpawn(i)) count += 1;
+        }
+        return count;
+    }
+
+    /// Pick the waypoint an enemy spawns at
+    /// spawn: Index into the spawn points in waypoint order, wrapping around, or SPAWN_ANY to take them in turn
+    pub fn nextSpawn(self: *Path, spawn: u8) ?usize {
+        const count = self.spawnCount();
+        if (count == 0) return null;
+
+        var nth: usize = spawn;
+        if (spawn == constants.SPAWN_ANY) {
+            nth = self.spawn_turn;
+            self.spawn_turn +%= 1;
+        }
+        nth %= count;
+
+        for (0..self.length) |i| {
+            if (!self.isSpawn(i)) continue;
+            if (nth == 0) return i;
+            nth -= 1;
+        }
+        return null;
+    }
+
+    /// Pick the waypoint an enemy heads to after reaching one, null at an exit
+    pub fn nextWaypoint(self: *Path, index: usize, rng: *Random) ?usize {
+        const links = &self.links[index];
+        if (links.count == 0) return null;
+        if (links.count == 1) return links.targets[0];
+
+        const total = links.totalWeight();
+        const ticket = switch (self.branching) {
+            .Weighted => rng.next() % total,
+            .RoundRobin => self.turns[index] % total,
+        };
+        self.turns[index] +%= 1;
+        return links.targets[links.pick(ticket)];
+    }
+
+    /// Check that every waypoint is joined to the path and that no branches loop back on themselves
+    pub fn isValid(self: *const Path) bool {
+        var entries = [_]u32{0} ** constants.MAX_PATH_POINTS;
+        for (self.links[0..self.length]) |*links| {
+            for (links.getTargets()) |target| {
+                entries[target] += 1;
+            }
+        }
+
+        for (0..self.length) |i| {
+            if (entries[i] == 0 and self.links[i].count == 0) return false;
+        }
+
+        // Remove waypoints nothing leads to until none are left, anything left over is part of a loop
+        var queue: [constants.MAX_PATH_POINTS]usize = undefined;
+        var queued: usize = 0;
+        for (0..self.length) |i| {
+            if (entries[i] == 0) {
+                queue[queued] = i;
+                queued += 1;
+            }
+        }
+
+        var visited: usize = 0;
+        while (visited < queued) : (visited += 1) {
+            for (self.links[queue[visited]].getTargets()) |target| {
+                entries[target] -= 1;
+                if (entries[target] == 0) {
+                    queue[queued] = target;
+                    queued += 1;
+                }
+            }
+        }
+
+        return queued == self.length;
+    }
+
+    /// Check if a position is too close to any branch of the path
     pub fn isTooCloseToPath(self: Path, x: f32, y: f32, min_distance: f32) bool {
-        for (self.points[0..self.length]) |point| {
-            const dx = point.x - x;
-            const dy = point.y - y;
-            const distance = @sqrt(dx * dx + dy * dy);
-            if (distance < min_distance) {
-                return true;
+        for (self.links[0..self.length], 0..) |*links, i| {
+            const start = self.points[i];
+            for (links.getTargets()) |target| {
+                const end = self.points[target];
+                if (math.lineCircleIntersection(start.x, start.y, end.x, end.y, x, y, min_distance)) {
+                    return true;
+                }
             }
         }
         return false;
@@ -78,19 +259,21 @@ pub const Path = struct {
     /// Draw the path
     pub fn draw(self: Path) void {
         // Draw path segments
-        for (1..self.length) |i| {
-            const start = self.points[i - 1];
-            const end = self.points[i];
-            drawLine(start.x, start.y, end.x, end.y, 20, 30, 30, 80);
+        for (self.links[0..self.length], 0..) |*links, i| {
+            const start = self.points[i];
+            for (links.getTargets()) |target| {
+                const end = self.points[target];
+                gfx.line(start.x, start.y, end.x, end.y, 20, 30, 30, 80);
+            }
         }
 
-        // Draw path points
-        for (self.points[0..self.length]) |point| {
-            drawCircle(point.x, point.y, 10, 40, 40, 120, true);
+        // Draw path points, spawn points in green
+        for (self.points[0..self.length], 0..) |point, i| {
+            if (self.isSpawn(i)) {
+                gfx.circle(point.x, point.y, 10, 40, 120, 40, true);
+            } else {
+                gfx.circle(point.x, point.y, 10, 40, 40, 120, true);
+            }
         }
     }
 };
-
-// External drawing functions
-extern "env" fn drawLine(x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void;
-extern "env" fn drawCircle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void;
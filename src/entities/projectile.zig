@@ -5,8 +5,10 @@ const std = @import("std");
 const constants = @import("../utils/constants.zig");
 const math = @import("../utils/math.zig");
 const Vector2 = math.Vector2;
+const gfx = @import("../rendering/draw.zig");
 const tower_module = @import("tower.zig");
 const TowerType = tower_module.TowerType;
+const Attack = @import("tower_catalog.zig").Attack;
 
 /// Projectile structure
 pub const Projectile = struct {
@@ -18,11 +20,12 @@ pub const Projectile = struct {
     damage: f32,
     active: bool,
     tower_type: TowerType,
+    tower_id: u32, // Tower credited with the damage and kills
     prev_x: f32, // Track previous position for better collision detection
     prev_y: f32,
 
     /// Create a new projectile
-    pub fn init(x: f32, y: f32, target_x: f32, target_y: f32, damage: f32, tower_type: TowerType) Projectile {
+    pub fn init(x: f32, y: f32, target_x: f32, target_y: f32, damage: f32, tower_type: TowerType, tower_id: u32) Projectile {
         return Projectile{
             .x = x,
             .y = y,
@@ -32,6 +35,7 @@ pub const Projectile = struct {
             .damage = damage,
             .active = true,
             .tower_type = tower_type,
+            .tower_id = tower_id,
             .prev_x = x,
             .prev_y = y,
         };
@@ -78,52 +82,63 @@ pub const Projectile = struct {
     }
 
     /// Draw the projectile
-    pub fn draw(self: Projectile) void {
+    /// alpha: Fraction of the next update already elapsed, used to interpolate from the previous position
+    pub fn draw(self: Projectile, alpha: f32) void {
         if (!self.active) return;
 
-        // Draw projectile based on tower type
-        switch (self.tower_type) {
-            .Line => {
-                drawCircle(self.x, self.y, 3, 0, 255, 255, true);
-            },
-            .Triangle => {
-                drawCircle(self.x, self.y, 4, 255, 0, 255, true);
-            },
-            .Square => {
-                drawCircle(self.x, self.y, 3, 255, 255, 0, true);
-            },
-            .Pentagon => {
-                drawCircle(self.x, self.y, 5, 255, 0, 0, true);
-            },
-            .None => {},
-        }
+        const x = math.lerp(self.prev_x, self.x, alpha);
+        const y = math.lerp(self.prev_y, self.y, alpha);
+
+        // Draw projectile in the colour of the tower that fired it
+        const def = self.tower_type.getDef() orelse return;
+        const radius: f32 = switch (def.shape) {
+            .Cross, .Square => 3,
+            .Triangle => 4,
+            .Circle => 5,
+        };
+        gfx.circle(x, y, radius, def.red(), def.green(), def.blue(), true);
     }
 };
 
+/// Where a splash projectile hit and the area it damaged, kept for a moment for the debug overlay
+pub const SplashImpact = struct {
+    x: f32, // Centre of the damaged area
+    y: f32,
+    hit_x: f32, // Where the projectile touched the enemy it hit
+    hit_y: f32,
+    age: f32, // Seconds since the impact
+};
+
 /// Projectile Manager to handle multiple projectiles
 pub const ProjectileManager = struct {
     projectiles: [constants.MAX_PROJECTILES]Projectile,
     count: usize,
+    impacts: [constants.MAX_SPLASH_IMPACTS]SplashImpact, // Recent splash impacts, the oldest dropped when full
+    impact_count: usize,
 
     /// Initialize a new projectile manager
     pub fn init() ProjectileManager {
         return ProjectileManager{
             .projectiles = undefined,
             .count = 0,
+            .impacts = undefined,
+            .impact_count = 0,
         };
     }
 
     /// Add a new projectile
-    pub fn addProjectile(self: *ProjectileManager, x: f32, y: f32, target_x: f32, target_y: f32, damage: f32, tower_type: TowerType) bool {
+    pub fn addProjectile(self: *ProjectileManager, x: f32, y: f32, target_x: f32, target_y: f32, damage: f32, tower_type: TowerType, tower_id: u32) bool {
         if (self.count >= constants.MAX_PROJECTILES) return false;
 
-        self.projectiles[self.count] = Projectile.init(x, y, target_x, target_y, damage, tower_type);
+        self.projectiles[self.count] = Projectile.init(x, y, target_x, target_y, damage, tower_type, tower_id);
         self.count += 1;
         return true;
     }
 
     /// Update all projectiles
     pub fn update(self: *ProjectileManager, delta_time: f32, screen_width: f32, screen_height: f32) void {
+        self.ageImpacts(delta_time);
+
         var i: usize = 0;
         while (i < self.count) {
             const hit = self.projectiles[i].update(delta_time);
@@ -138,15 +153,46 @@ pub const ProjectileManager = struct {
         }
     }
 
+    /// Remember a splash impact, impacts are kept in the order they happened
+    fn recordImpact(self: *ProjectileManager, projectile: Projectile) void {
+        if (self.impact_count == constants.MAX_SPLASH_IMPACTS) {
+            std.mem.copyForwards(SplashImpact, self.impacts[0 .. self.impact_count - 1], self.impacts[1..self.impact_count]);
+            self.impact_count -= 1;
+        }
+
+        self.impacts[self.impact_count] = SplashImpact{
+            .x = projectile.target_x,
+            .y = projectile.target_y,
+            .hit_x = projectile.x,
+            .hit_y = projectile.y,
+            .age = 0,
+        };
+        self.impact_count += 1;
+    }
+
+    /// Age the splash impacts, forgetting them after SPLASH_IMPACT_TIME
+    fn ageImpacts(self: *ProjectileManager, delta_time: f32) void {
+        var kept: usize = 0;
+        for (self.impacts[0..self.impact_count]) |impact| {
+            const age = impact.age + delta_time;
+            if (age >= constants.SPLASH_IMPACT_TIME) continue;
+
+            self.impacts[kept] = impact;
+            self.impacts[kept].age = age;
+            kept += 1;
+        }
+        self.impact_count = kept;
+    }
+
     /// Draw all projectiles
-    pub fn draw(self: ProjectileManager) void {
+    pub fn draw(self: ProjectileManager, alpha: f32) void {
         for (self.projectiles[0..self.count]) |projectile| {
-            projectile.draw();
+            projectile.draw(alpha);
         }
     }
 
-    /// Check for collision with enemies
-    pub fn checkCollisions(self: *ProjectileManager, enemy_manager: anytype, money: *u32) void {
+    /// Check for collision with enemies, crediting each hit to the tower that fired it
+    pub fn checkCollisions(self: *ProjectileManager, enemy_manager: anytype, tower_manager: anytype, money: *u32, score: *u32) void {
         var i: usize = 0;
         while (i < self.count) {
             var hit_enemy = false;
@@ -176,21 +222,24 @@ pub const ProjectileManager = struct {
                     distance + prev_distance < @sqrt((self.projectiles[i].x - self.projectiles[i].prev_x) * (self.projectiles[i].x - self.projectiles[i].prev_x) +
                     (self.projectiles[i].y - self.projectiles[i].prev_y) * (self.projectiles[i].y - self.projectiles[i].prev_y)) * 1.5))
                 {
-                    // Apply damage based on tower type
+                    // Apply damage based on the firing tower's attack
                     const damage = self.projectiles[i].damage;
+                    const attack = if (self.projectiles[i].tower_type.getDef()) |def| def.attack else Attack.Direct;
 
-                    // Triangle towers do area damage
-                    if (self.projectiles[i].tower_type == TowerType.Triangle) {
-                        // Apply area damage to all enemies within range
-                        _ = enemy_manager.applyAreaDamage(self.projectiles[i].target_x, self.projectiles[i].target_y, constants.SPLASH_RADIUS, damage, money);
-                    } else if (self.projectiles[i].tower_type == TowerType.Square) {
-                        // Square towers slow enemies
-                        enemy.speed *= constants.SLOW_EFFECT;
-                        _ = enemy_manager.damageEnemy(j, damage, money);
-                    } else {
-                        // Normal damage for other tower types
-                        _ = enemy_manager.damageEnemy(j, damage, money);
-                    }
+                    const result = switch (attack) {
+                        .Splash => blk: {
+                            // Apply area damage to all enemies within range
+                            self.recordImpact(self.projectiles[i]);
+                            break :blk enemy_manager.applyAreaDamage(self.projectiles[i].target_x, self.projectiles[i].target_y, constants.SPLASH_RADIUS, damage, money, score);
+                        },
+                        .Slow => blk: {
+                            // Slow the enemy hit, unless its archetype is immune
+                            _ = enemy_manager.slowEnemy(j, constants.SLOW_EFFECT);
+                            break :blk enemy_manager.damageEnemy(j, damage, money, score);
+                        },
+                        .Direct => enemy_manager.damageEnemy(j, damage, money, score),
+                    };
+                    tower_manager.recordHit(self.projectiles[i].tower_id, result.damage, result.kills);
 
                     hit_enemy = true;
                     break;
@@ -208,6 +257,3 @@ pub const ProjectileManager = struct {
         }
     }
 };
-
-// External drawing functions
-extern "env" fn drawCircle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void;
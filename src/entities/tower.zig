@@ -5,19 +5,49 @@ const std = @import("std");
 const constants = @import("../utils/constants.zig");
 const math = @import("../utils/math.zig");
 const Vector2 = math.Vector2;
+const gfx = @import("../rendering/draw.zig");
 const logger = @import("../utils/logger.zig");
+const binary = @import("../utils/binary.zig");
+const tower_catalog = @import("tower_catalog.zig");
+const TowerDef = tower_catalog.TowerDef;
+const Targeting = tower_catalog.Targeting;
+
+/// Tower type id, an index into the tower catalog starting at 1
+pub const TowerType = enum(u8) {
+    None = 0,
+    _,
+
+    /// Look up the type's definition in the tower catalog
+    pub fn getDef(self: TowerType) ?*const TowerDef {
+        return tower_catalog.get(@intFromEnum(self));
+    }
+};
+
+/// Outcome of a tower placement check, sent to the frontend with rejected placements
+pub const PlacementResult = enum(u32) {
+    Ok = 0,
+    NoTowerSelected = 1,
+    InsufficientFunds = 2,
+    BlockedByPath = 3,
+    Occupied = 4,
+    TowerLimit = 5,
+    BlockedTerrain = 6,
+};
 
-/// Tower types
-pub const TowerType = enum {
-    None,
-    Line, // Straight line attack
-    Triangle, // Area damage
-    Square, // Slowing effect
-    Pentagon, // High damage
+/// Outcome of upgrading or selling a tower
+pub const TowerActionResult = enum(u32) {
+    Ok = 0,
+    NotFound = 1,
+    MaxLevel = 2,
+    InsufficientFunds = 3,
 };
 
+/// Size of the block written by Tower.writeInfo
+pub const INFO_SIZE: usize = 14 * 4;
+
 /// Tower structure
 pub const Tower = struct {
+    id: u32, // Stable id, unlike the index it survives other towers being sold
     x: f32,
     y: f32,
     type: TowerType,
@@ -26,59 +56,81 @@ pub const Tower = struct {
     cooldown_max: f32,
     range: f32,
     damage: f32,
-    cost: u32,
-
-    /// Create a new tower
-    pub fn init(x: f32, y: f32, tower_type: TowerType) Tower {
-        return switch (tower_type) {
-            .None => unreachable,
-            .Line => Tower{
-                .x = x,
-                .y = y,
-                .type = tower_type,
-                .level = 1,
-                .cooldown = 0,
-                .cooldown_max = constants.TOWER_COOLDOWN_LINE,
-                .range = constants.TOWER_RANGE_LINE,
-                .damage = constants.TOWER_DAMAGE_LINE,
-                .cost = constants.TOWER_COST_LINE,
-            },
-            .Triangle => Tower{
-                .x = x,
-                .y = y,
-                .type = tower_type,
-                .level = 1,
-                .cooldown = 0,
-                .cooldown_max = constants.TOWER_COOLDOWN_TRIANGLE,
-                .range = constants.TOWER_RANGE_TRIANGLE,
-                .damage = constants.TOWER_DAMAGE_TRIANGLE,
-                .cost = constants.TOWER_COST_TRIANGLE,
-            },
-            .Square => Tower{
-                .x = x,
-                .y = y,
-                .type = tower_type,
-                .level = 1,
-                .cooldown = 0,
-                .cooldown_max = constants.TOWER_COOLDOWN_SQUARE,
-                .range = constants.TOWER_RANGE_SQUARE,
-                .damage = constants.TOWER_DAMAGE_SQUARE,
-                .cost = constants.TOWER_COST_SQUARE,
-            },
-            .Pentagon => Tower{
-                .x = x,
-                .y = y,
-                .type = tower_type,
-                .level = 1,
-                .cooldown = 0,
-                .cooldown_max = constants.TOWER_COOLDOWN_PENTAGON,
-                .range = constants.TOWER_RANGE_PENTAGON,
-                .damage = constants.TOWER_DAMAGE_PENTAGON,
-                .cost = constants.TOWER_COST_PENTAGON,
-            },
+    cost: u32, // Money spent on the tower, including upgrades
+    targeting: Targeting,
+    kills: u32,
+    damage_dealt: f32,
+
+    /// Create a new tower with the stats of its catalog definition
+    pub fn init(id: u32, x: f32, y: f32, tower_type: TowerType, def: *const TowerDef) Tower {
+        return Tower{
+            .id = id,
+            .x = x,
+            .y = y,
+            .type = tower_type,
+            .level = 1,
+            .cooldown = 0,
+            .cooldown_max = def.cooldown,
+            .range = def.range,
+            .damage = def.damage,
+            .cost = def.cost,
+            .targeting = def.targeting,
+            .kills = 0,
+            .damage_dealt = 0,
         };
     }
 
+    /// Get the price of the next upgrade, null at the maximum level
+    pub fn getUpgradeCost(self: Tower) ?u32 {
+        if (self.level >= constants.TOWER_MAX_LEVEL) return null;
+        const def = self.type.getDef() orelse return null;
+
+        const cost = @as(u64, def.cost) * self.level * constants.TOWER_UPGRADE_COST_PERCENT / 100;
+        const price: u32 = @intCast(@min(cost, std.math.maxInt(u32)));
+        return price;
+    }
+
+    /// Raise the tower one level, scaling its damage, range and rate of fire
+    pub fn upgrade(self: *Tower, price: u32) void {
+        self.level += 1;
+        self.damage *= constants.TOWER_UPGRADE_DAMAGE_SCALE;
+        self.range *= constants.TOWER_UPGRADE_RANGE_SCALE;
+        self.cooldown_max *= constants.TOWER_UPGRADE_COOLDOWN_SCALE;
+        self.cost +|= price;
+    }
+
+    /// Get the money refunded when the tower is sold
+    pub fn getSellValue(self: Tower) u32 {
+        return @intCast(@as(u64, self.cost) * constants.TOWER_SELL_REFUND_PERCENT / 100);
+    }
+
+    /// Check if a point lies within the grid cell the tower stands on
+    pub fn containsPoint(self: Tower, x: f32, y: f32) bool {
+        const half = constants.GRID_SIZE / 2;
+        return @abs(x - self.x) <= half and @abs(y - self.y) <= half;
+    }
+
+    /// Write the tower's stats for the frontend's tower panel
+    ///
+    /// Layout (little-endian, 4 bytes each): id, type, level, max level, x, y, damage, range,
+    /// cooldown, kills, damage dealt, upgrade cost (0 at the maximum level), sell value, targeting
+    pub fn writeInfo(self: Tower, w: *binary.Writer) binary.Error!void {
+        try w.writeU32(self.id);
+        try w.writeU32(@intFromEnum(self.type));
+        try w.writeU32(self.level);
+        try w.writeU32(constants.TOWER_MAX_LEVEL);
+        try w.writeF32(self.x);
+        try w.writeF32(self.y);
+        try w.writeF32(self.damage);
+        try w.writeF32(self.range);
+        try w.writeF32(self.cooldown_max);
+        try w.writeU32(self.kills);
+        try w.writeF32(self.damage_dealt);
+        try w.writeU32(self.getUpgradeCost() orelse 0);
+        try w.writeU32(self.getSellValue());
+        try w.writeU32(@intFromEnum(self.targeting));
+    }
+
     /// Update tower cooldown
     pub fn update(self: *Tower, delta_time: f32) void {
         if (self.cooldown > 0) {
@@ -114,31 +166,41 @@ pub const Tower = struct {
 
     /// Draw the tower
     pub fn draw(self: Tower) void {
+        const def = self.type.getDef() orelse return;
         const size: f32 = 15;
+        const r = def.red();
+        const g = def.green();
+        const b = def.blue();
 
-        // Draw tower based on type
-        switch (self.type) {
-            .Line => {
+        // Draw tower based on its catalog shape
+        switch (def.shape) {
+            .Cross => {
                 // Draw line tower (vertical and horizontal lines)
-                drawLine(self.x - size, self.y, self.x + size, self.y, 2, 0, 255, 255);
-                drawLine(self.x, self.y - size, self.x, self.y + size, 2, 0, 255, 255);
+                gfx.line(self.x - size, self.y, self.x + size, self.y, 2, r, g, b);
+                gfx.line(self.x, self.y - size, self.x, self.y + size, 2, r, g, b);
             },
             .Triangle => {
                 // Draw triangle tower
-                drawTriangle(self.x, self.y - size, self.x - size, self.y + size, self.x + size, self.y + size, 255, 0, 255, false);
+                gfx.triangle(self.x, self.y - size, self.x - size, self.y + size, self.x + size, self.y + size, r, g, b, false);
             },
             .Square => {
                 // Draw square tower
-                drawLine(self.x - size, self.y - size, self.x + size, self.y - size, 2, 255, 255, 0);
-                drawLine(self.x + size, self.y - size, self.x + size, self.y + size, 2, 255, 255, 0);
-                drawLine(self.x + size, self.y + size, self.x - size, self.y + size, 2, 255, 255, 0);
-                drawLine(self.x - size, self.y + size, self.x - size, self.y - size, 2, 255, 255, 0);
+                gfx.line(self.x - size, self.y - size, self.x + size, self.y - size, 2, r, g, b);
+                gfx.line(self.x + size, self.y - size, self.x + size, self.y + size, 2, r, g, b);
+                gfx.line(self.x + size, self.y + size, self.x - size, self.y + size, 2, r, g, b);
+                gfx.line(self.x - size, self.y + size, self.x - size, self.y - size, 2, r, g, b);
             },
-            .Pentagon => {
+            .Circle => {
                 // Draw pentagon tower (simplified as a circle for now)
-                drawCircle(self.x, self.y, size, 255, 0, 0, false);
+                gfx.circle(self.x, self.y, size, r, g, b, false);
             },
-            .None => {},
+        }
+
+        // One pip per upgrade below the tower
+        var pip: u32 = 1;
+        while (pip < self.level) : (pip += 1) {
+            const offset = (@as(f32, @floatFromInt(pip)) - @as(f32, @floatFromInt(self.level)) / 2) * 6;
+            gfx.circle(self.x + offset, self.y + size + 4, 2, r, g, b, true);
         }
     }
 };
@@ -148,45 +210,113 @@ pub const TowerManager = struct {
     towers: [constants.MAX_TOWERS]Tower,
     count: usize,
     selected_type: TowerType,
+    selected_tower: u32, // Id of the tower shown in the tower panel, 0 for none
+    next_id: u32,
 
     /// Initialize a new tower manager
     pub fn init() TowerManager {
         return TowerManager{
             .towers = undefined,
             .count = 0,
-            .selected_type = TowerType.Line,
+            .selected_type = @enumFromInt(1), // First catalog entry
+            .selected_tower = 0,
+            .next_id = 1,
         };
     }
 
     /// Add a tower if placement is valid
-    pub fn addTower(self: *TowerManager, x: f32, y: f32, money: *u32, path: anytype) bool {
-        if (self.count >= constants.MAX_TOWERS) return false;
-        if (self.selected_type == TowerType.None) return false;
+    pub fn addTower(self: *TowerManager, x: f32, y: f32, money: *u32, map: anytype) PlacementResult {
+        const result = self.checkPlacement(x, y, money.*, map);
+        if (result != PlacementResult.Ok) return result;
 
-        const tower = Tower.init(x, y, self.selected_type);
+        const def = self.selected_type.getDef().?;
+        const tower = Tower.init(self.next_id, x, y, self.selected_type, def);
+        self.towers[self.count] = tower;
+        self.count += 1;
+        self.next_id += 1;
+        money.* -= tower.cost;
 
-        // Check if we can afford it
-        if (money.* < tower.cost) return false;
+        logger.logGameEvent("Tower placed: {s} at ({d:.1}, {d:.1})", .{ def.getName(), x, y });
+        return PlacementResult.Ok;
+    }
 
-        // Check if tower placement is valid (not on path)
-        if (path.isTooCloseToPath(x, y, constants.GRID_SIZE)) return false;
+    /// Find the index of a tower by id
+    fn indexOf(self: TowerManager, id: u32) ?usize {
+        if (id == 0) return null;
+        for (self.towers[0..self.count], 0..) |tower, i| {
+            if (tower.id == id) return i;
+        }
+        return null;
+    }
 
-        // Check if tower placement overlaps with another tower
-        for (self.towers[0..self.count]) |other| {
-            const dx = other.x - x;
-            const dy = other.y - y;
-            const distance = @sqrt(dx * dx + dy * dy);
-            if (distance < constants.GRID_SIZE) return false;
+    /// Look up a tower by id
+    pub fn getTower(self: *TowerManager, id: u32) ?*Tower {
+        const index = self.indexOf(id) orelse return null;
+        return &self.towers[index];
+    }
+
+    /// Find the tower standing on the grid cell containing a point
+    pub fn towerAt(self: *TowerManager, x: f32, y: f32) ?*Tower {
+        for (self.towers[0..self.count]) |*tower| {
+            if (tower.containsPoint(x, y)) return tower;
         }
+        return null;
+    }
 
-        self.towers[self.count] = tower;
-        self.count += 1;
-        money.* -= tower.cost;
+    /// Get the tower shown in the tower panel
+    pub fn getSelectedTower(self: *TowerManager) ?*Tower {
+        return self.getTower(self.selected_tower);
+    }
+
+    /// Show a tower in the tower panel, 0 clears the selection
+    pub fn selectTower(self: *TowerManager, id: u32) void {
+        self.selected_tower = if (self.indexOf(id) != null) id else 0;
+    }
+
+    /// Upgrade a tower to its next level if the player can afford it
+    pub fn upgradeTower(self: *TowerManager, id: u32, money: *u32) TowerActionResult {
+        const tower = self.getTower(id) orelse return TowerActionResult.NotFound;
+        const price = tower.getUpgradeCost() orelse return TowerActionResult.MaxLevel;
+        if (money.* < price) return TowerActionResult.InsufficientFunds;
 
-        logger.logGameEvent("Tower placed: {s} at ({d:.1}, {d:.1})", .{ @tagName(self.selected_type), x, y });
+        money.* -= price;
+        tower.upgrade(price);
+
+        logger.logGameEvent("Tower upgraded to level {d} at ({d:.1}, {d:.1})", .{ tower.level, tower.x, tower.y });
+        return TowerActionResult.Ok;
+    }
+
+    /// Remove a tower and refund part of the money spent on it
+    /// Returns the removed tower so the caller can report where it stood
+    pub fn sellTower(self: *TowerManager, id: u32, money: *u32) ?Tower {
+        const index = self.indexOf(id) orelse return null;
+        const tower = self.towers[index];
+        money.* +|= tower.getSellValue();
+
+        self.towers[index] = self.towers[self.count - 1];
+        self.count -= 1;
+        if (self.selected_tower == id) self.selected_tower = 0;
+
+        logger.logGameEvent("Tower sold for {d} at ({d:.1}, {d:.1})", .{ tower.getSellValue(), tower.x, tower.y });
+        return tower;
+    }
+
+    /// Change which enemies a tower shoots at first
+    pub fn setTargeting(self: *TowerManager, id: u32, targeting: Targeting) bool {
+        const tower = self.getTower(id) orelse return false;
+        tower.targeting = targeting;
+
+        logger.logGameEvent("Tower targeting set to {s} at ({d:.1}, {d:.1})", .{ @tagName(targeting), tower.x, tower.y });
         return true;
     }
 
+    /// Credit a tower with damage and kills from one of its projectiles
+    pub fn recordHit(self: *TowerManager, id: u32, damage: f32, kills: u32) void {
+        const tower = self.getTower(id) orelse return; // The tower was sold while the projectile was in flight
+        tower.damage_dealt += damage;
+        tower.kills += kills;
+    }
+
     /// Update all towers
     pub fn update(self: *TowerManager, delta_time: f32) void {
         for (self.towers[0..self.count]) |*tower| {
@@ -203,49 +333,52 @@ pub const TowerManager = struct {
 
     /// Select a tower type
     pub fn selectTowerType(self: *TowerManager, tower_type: u32) void {
-        self.selected_type = switch (tower_type) {
-            1 => TowerType.Line,
-            2 => TowerType.Triangle,
-            3 => TowerType.Square,
-            4 => TowerType.Pentagon,
-            else => TowerType.None,
+        const def = tower_catalog.get(tower_type) orelse {
+            self.selected_type = TowerType.None;
+            logger.logGameEvent("Selected tower: None", .{});
+            return;
         };
 
-        logger.logGameEvent("Selected tower: {s}", .{@tagName(self.selected_type)});
+        self.selected_type = @enumFromInt(@as(u8, @intCast(tower_type)));
+        logger.logGameEvent("Selected tower: {s}", .{def.getName()});
     }
 
     /// Get the range of the currently selected tower type
     pub fn getSelectedTowerRange(self: TowerManager) f32 {
-        if (self.selected_type == TowerType.None) return 0;
-
-        const tower = Tower.init(0, 0, self.selected_type);
-        return tower.range;
+        const def = self.selected_type.getDef() orelse return 0;
+        return def.range;
     }
 
     /// Check if a tower can be placed at the given coordinates
-    pub fn canPlaceTower(self: TowerManager, x: f32, y: f32, money: u32, path: anytype) bool {
-        if (self.selected_type == TowerType.None) return false;
+    pub fn canPlaceTower(self: TowerManager, x: f32, y: f32, money: u32, map: anytype) bool {
+        return self.checkPlacement(x, y, money, map) == PlacementResult.Ok;
+    }
+
+    /// Check whether the selected tower type can be placed, and why not
+    pub fn checkPlacement(self: TowerManager, x: f32, y: f32, money: u32, map: anytype) PlacementResult {
+        const def = self.selected_type.getDef() orelse return PlacementResult.NoTowerSelected;
+        if (self.count >= constants.MAX_TOWERS) return PlacementResult.TowerLimit;
 
         // Check if we can afford it
-        const tower = Tower.init(x, y, self.selected_type);
-        if (money < tower.cost) return false;
+        if (money < def.cost) return PlacementResult.InsufficientFunds;
 
-        // Check if tower placement is valid (not on path)
-        if (path.isTooCloseToPath(x, y, constants.GRID_SIZE)) return false;
+        return self.checkSite(x, y, map);
+    }
+
+    /// Check whether the ground at a position takes a tower, whatever the type, tower limit and money
+    pub fn checkSite(self: TowerManager, x: f32, y: f32, map: anytype) PlacementResult {
+        // Check if tower placement is valid (not on path or blocked terrain)
+        if (map.path.isTooCloseToPath(x, y, constants.GRID_SIZE)) return PlacementResult.BlockedByPath;
+        if (map.isBlocked(x, y)) return PlacementResult.BlockedTerrain;
 
         // Check if tower placement overlaps with another tower
         for (self.towers[0..self.count]) |other| {
             const dx = other.x - x;
             const dy = other.y - y;
             const distance = @sqrt(dx * dx + dy * dy);
-            if (distance < constants.GRID_SIZE) return false;
+            if (distance < constants.GRID_SIZE) return PlacementResult.Occupied;
         }
 
-        return true;
+        return PlacementResult.Ok;
     }
 };
-
-// External drawing functions
-extern "env" fn drawLine(x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void;
-extern "env" fn drawCircle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void;
-extern "env" fn drawTriangle(x1: f32, y1: f32, x2: f32, y2: f32, x3: f32, y3: f32, r: u8, g: u8, b: u8, fill: bool) void;
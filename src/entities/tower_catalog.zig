@@ -0,0 +1,176 @@
+// tower_catalog.zig
+// Data-driven tower definitions, shared with the frontend's tower picker
+//
+// Wire layout (little-endian), used to export the catalog and to load balance files:
+//   count u8, then per tower type: name length u8, name bytes,
+//   cost u32, range f32, damage f32, cooldown f32, colour u32 (0xRRGGBB), shape u8, attack u8, targeting u8
+
+const constants = @import("../utils/constants.zig");
+const binary = @import("../utils/binary.zig");
+
+/// How a tower's projectiles affect enemies, must match TowerAttack in web/src/game/tower-catalog.ts
+pub const Attack = enum(u8) {
+    Direct = 0, // Damages the enemy hit
+    Splash = 1, // Damages every enemy near the impact
+    Slow = 2, // Damages and slows the enemy hit
+};
+
+/// Outline a tower is drawn with, must match TowerShape in web/src/game/tower-catalog.ts
+pub const Shape = enum(u8) {
+    Cross = 0,
+    Triangle = 1,
+    Square = 2,
+    Circle = 3,
+};
+
+/// Which enemy in range a tower shoots at, must match TowerTargeting in web/src/game/tower-catalog.ts
+pub const Targeting = enum(u8) {
+    First = 0, // Furthest along the path
+    Last = 1, // Least far along the path
+    Strongest = 2, // Most health left
+    Weakest = 3, // Least health left
+    Closest = 4,
+    Fastest = 5,
+};
+
+/// Stats and appearance of one tower type
+pub const TowerDef = struct {
+    name: [constants.MAX_TOWER_NAME_LEN]u8,
+    name_len: usize,
+    cost: u32,
+    range: f32,
+    damage: f32,
+    cooldown: f32,
+    color: u32, // 0xRRGGBB
+    shape: Shape,
+    attack: Attack,
+    targeting: Targeting, // Default for towers of this type, each tower can change it
+
+    /// Get the display name
+    pub fn getName(self: *const TowerDef) []const u8 {
+        return self.name[0..self.name_len];
+    }
+
+    pub fn red(self: TowerDef) u8 {
+        return @truncate(self.color >> 16);
+    }
+
+    pub fn green(self: TowerDef) u8 {
+        return @truncate(self.color >> 8);
+    }
+
+    pub fn blue(self: TowerDef) u8 {
+        return @truncate(self.color);
+    }
+};
+
+/// Largest catalog the wire format can carry
+pub const WIRE_SIZE: usize = 1 + constants.MAX_TOWER_TYPES * (1 + constants.MAX_TOWER_NAME_LEN + 4 * 5 + 3);
+
+/// Tower types in id order, id 0 means no tower so ids start at 1
+pub const Catalog = struct {
+    defs: [constants.MAX_TOWER_TYPES]TowerDef,
+    count: usize,
+
+    /// The built-in towers, with stats from constants.zig
+    pub fn defaults() Catalog {
+        var catalog = Catalog{ .defs = undefined, .count = 4 };
+        catalog.defs[0] = define("Line", constants.TOWER_COST_LINE, constants.TOWER_RANGE_LINE, constants.TOWER_DAMAGE_LINE, constants.TOWER_COOLDOWN_LINE, 0x00FFFF, .Cross, .Direct, .First);
+        catalog.defs[1] = define("Triangle", constants.TOWER_COST_TRIANGLE, constants.TOWER_RANGE_TRIANGLE, constants.TOWER_DAMAGE_TRIANGLE, constants.TOWER_COOLDOWN_TRIANGLE, 0xFF00FF, .Triangle, .Splash, .First);
+        catalog.defs[2] = define("Square", constants.TOWER_COST_SQUARE, constants.TOWER_RANGE_SQUARE, constants.TOWER_DAMAGE_SQUARE, constants.TOWER_COOLDOWN_SQUARE, 0xFFFF00, .Square, .Slow, .Fastest);
+        catalog.defs[3] = define("Pentagon", constants.TOWER_COST_PENTAGON, constants.TOWER_RANGE_PENTAGON, constants.TOWER_DAMAGE_PENTAGON, constants.TOWER_COOLDOWN_PENTAGON, 0xFF0000, .Circle, .Direct, .Strongest);
+        return catalog;
+    }
+
+    /// Look up a tower type by id
+    pub fn get(self: *const Catalog, id: u32) ?*const TowerDef {
+        if (id == 0 or id > self.count) return null;
+        return &self.defs[id - 1];
+    }
+};
+
+fn define(comptime name: []const u8, cost: u32, range: f32, damage: f32, cooldown: f32, color: u32, shape: Shape, attack: Attack, targeting: Targeting) TowerDef {
+    var def = TowerDef{
+        .name = [_]u8{0} ** constants.MAX_TOWER_NAME_LEN,
+        .name_len = name.len,
+        .cost = cost,
+        .range = range,
+        .damage = damage,
+        .cooldown = cooldown,
+        .color = color,
+        .shape = shape,
+        .attack = attack,
+        .targeting = targeting,
+    };
+    @memcpy(def.name[0..name.len], name);
+    return def;
+}
+
+// The catalog in use, tower types are static data rather than game state so it lives outside Game
+var active: Catalog = Catalog.defaults();
+
+/// Look up a tower type in the active catalog
+pub fn get(id: u32) ?*const TowerDef {
+    return active.get(id);
+}
+
+/// Number of tower types in the active catalog
+pub fn count() usize {
+    return active.count;
+}
+
+/// Serialize the active catalog into buf, returning the number of bytes written
+pub fn write(buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+
+    try w.writeU8(@intCast(active.count));
+    for (active.defs[0..active.count]) |*def| {
+        const name = def.getName();
+        try w.writeU8(@intCast(name.len));
+        try w.writeBytes(name);
+        try w.writeU32(def.cost);
+        try w.writeF32(def.range);
+        try w.writeF32(def.damage);
+        try w.writeF32(def.cooldown);
+        try w.writeU32(def.color);
+        try w.writeU8(@intFromEnum(def.shape));
+        try w.writeU8(@intFromEnum(def.attack));
+        try w.writeU8(@intFromEnum(def.targeting));
+    }
+
+    return w.pos;
+}
+
+/// Validate a catalog and make it the active one
+///
+/// Towers already placed keep the stats they were built with.
+pub fn read(data: []const u8) binary.Error!void {
+    var r = binary.Reader{ .data = data };
+    var catalog = Catalog{ .defs = undefined, .count = 0 };
+
+    catalog.count = try r.readU8();
+    if (catalog.count == 0 or catalog.count > constants.MAX_TOWER_TYPES) return error.InvalidData;
+
+    for (catalog.defs[0..catalog.count]) |*def| {
+        const name_len = try r.readU8();
+        if (name_len == 0 or name_len > constants.MAX_TOWER_NAME_LEN) return error.InvalidData;
+
+        def.name = [_]u8{0} ** constants.MAX_TOWER_NAME_LEN;
+        @memcpy(def.name[0..name_len], try r.readBytes(name_len));
+        def.name_len = name_len;
+        def.cost = try r.readU32();
+        def.range = try r.readF32();
+        def.damage = try r.readF32();
+        def.cooldown = try r.readF32();
+        def.color = try r.readU32();
+        def.shape = try r.readEnum(Shape);
+        def.attack = try r.readEnum(Attack);
+        def.targeting = try r.readEnum(Targeting);
+
+        if (def.range <= 0 or def.damage < 0 or def.cooldown <= 0 or def.color > 0xFFFFFF) return error.InvalidData;
+    }
+
+    if (r.pos != data.len) return error.InvalidData;
+
+    active = catalog;
+}
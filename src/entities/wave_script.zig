@@ -0,0 +1,209 @@
+// wave_script.zig
+// Declarative wave schedule: which enemies each wave sends, how many and how quickly
+//
+// Wire layout (little-endian), used to export the script and to load wave files:
+//   wave count u8, then per wave: flags u8 (bit 0 = boss wave), group count u8,
+//   then per group: enemy kind u8, count u16, health f32, speed f32, bounty u32, interval f32, delay f32,
+//   spawn point u8 (0 = the map's first, SPAWN_ANY = each in turn)
+
+const constants = @import("../utils/constants.zig");
+const binary = @import("../utils/binary.zig");
+const EnemyKind = @import("enemy_types.zig").EnemyKind;
+
+const BOSS_FLAG: u8 = 1;
+
+/// A run of identical enemies spawned one after another
+pub const Group = struct {
+    kind: EnemyKind,
+    count: u32,
+    health: f32,
+    speed: f32,
+    bounty: u32,
+    interval: f32, // Seconds between spawns within the group
+    delay: f32, // Seconds from the previous group's last spawn, or the start of the wave, to this group's first
+    spawn: u8, // Spawn point, counted in waypoint order and wrapping around on maps with fewer, or SPAWN_ANY
+};
+
+/// The groups of one wave, spawned in order
+pub const Wave = struct {
+    groups: [constants.MAX_WAVE_GROUPS]Group,
+    group_count: usize,
+    boss: bool,
+
+    /// A wave that spawns nothing
+    pub const empty = Wave{ .groups = undefined, .group_count = 0, .boss = false };
+
+    pub fn getGroups(self: *const Wave) []const Group {
+        return self.groups[0..self.group_count];
+    }
+
+    /// Total number of enemies the wave spawns
+    pub fn enemyCount(self: *const Wave) u32 {
+        var total: u32 = 0;
+        for (self.getGroups()) |group| {
+            total += group.count;
+        }
+        return total;
+    }
+
+    /// Serialize the wave in the wire layout
+    pub fn write(self: *const Wave, w: *binary.Writer) binary.Error!void {
+        try w.writeU8(if (self.boss) BOSS_FLAG else 0);
+        try w.writeU8(@intCast(self.group_count));
+        for (self.getGroups()) |group| {
+            try w.writeU8(@intFromEnum(group.kind));
+            try w.writeU16(@intCast(group.count));
+            try w.writeF32(group.health);
+            try w.writeF32(group.speed);
+            try w.writeU32(group.bounty);
+            try w.writeF32(group.interval);
+            try w.writeF32(group.delay);
+            try w.writeU8(group.spawn);
+        }
+    }
+
+    /// Read and validate a wave in the wire layout, a wave may have no groups
+    pub fn read(r: *binary.Reader) binary.Error!Wave {
+        var wave = Wave.empty;
+
+        const flags = try r.readU8();
+        if (flags & ~BOSS_FLAG != 0) return error.InvalidData;
+        wave.boss = flags & BOSS_FLAG != 0;
+        wave.group_count = try r.readU8();
+        if (wave.group_count > constants.MAX_WAVE_GROUPS) return error.InvalidData;
+
+        for (wave.groups[0..wave.group_count]) |*group| {
+            group.kind = try r.readEnum(EnemyKind);
+            group.count = try r.readU16();
+            group.health = try r.readF32();
+            group.speed = try r.readF32();
+            group.bounty = try r.readU32();
+            group.interval = try r.readF32();
+            group.delay = try r.readF32();
+            group.spawn = try r.readU8();
+
+            if (group.count == 0 or group.health <= 0 or group.speed <= 0) return error.InvalidData;
+            if (!(group.interval >= 0) or !(group.delay >= 0)) return error.InvalidData;
+            if (group.spawn >= constants.MAX_SPAWN_POINTS and group.spawn != constants.SPAWN_ANY) return error.InvalidData;
+        }
+
+        return wave;
+    }
+};
+
+/// Largest single wave the wire format can carry
+pub const WAVE_WIRE_SIZE: usize = 2 + constants.MAX_WAVE_GROUPS * (1 + 2 + 4 * 5 + 1);
+
+/// Largest script the wire format can carry
+pub const WIRE_SIZE: usize = 1 + constants.MAX_WAVES * WAVE_WIRE_SIZE;
+
+/// Waves in play order, wave 1 first
+pub const Script = struct {
+    waves: [constants.MAX_WAVES]Wave,
+    count: usize,
+
+    /// The built-in script: a single group per wave growing by the ENEMY_*_SCALING constants,
+    /// with a boss following the last wave's group
+    pub fn defaults() Script {
+        var script = Script{ .waves = undefined, .count = constants.DEFAULT_WAVE_COUNT };
+
+        for (script.waves[0..script.count], 1..) |*wave, number| {
+            const n: u32 = @intCast(number);
+            const scale: f32 = @floatFromInt(n);
+
+            wave.* = Wave.empty;
+            wave.group_count = 1;
+            wave.groups[0] = .{
+                .kind = .Normal,
+                .count = 5 + n * 2,
+                .health = constants.ENEMY_BASE_HEALTH + scale * constants.ENEMY_HEALTH_SCALING,
+                .speed = constants.ENEMY_BASE_SPEED + scale * constants.ENEMY_SPEED_SCALING,
+                .bounty = constants.ENEMY_BASE_VALUE + n,
+                .interval = constants.ENEMY_SPAWN_INTERVAL,
+                .delay = constants.ENEMY_SPAWN_INTERVAL,
+                .spawn = constants.SPAWN_ANY,
+            };
+        }
+
+        const last = &script.waves[script.count - 1];
+        const escort = last.groups[0];
+        last.boss = true;
+        last.group_count = 2;
+        last.groups[1] = .{
+            .kind = .Boss,
+            .count = 1,
+            .health = escort.health * 20,
+            .speed = escort.speed * 0.6,
+            .bounty = escort.bounty * 20,
+            .interval = 0,
+            .delay = constants.ENEMY_SPAWN_INTERVAL * 3,
+            .spawn = constants.SPAWN_ANY,
+        };
+
+        return script;
+    }
+};
+
+// The script in use, like the tower catalog it is static data rather than game state so it lives outside Game
+var active: Script = Script.defaults();
+
+/// Number of waves in the active script
+pub fn count() usize {
+    return active.count;
+}
+
+/// Get a wave of the active script by its number, starting at 1
+///
+/// Waves past the end of the script repeat its last wave, with every enemy's health raised by
+/// WAVE_ENDLESS_HEALTH_SCALING for each wave beyond it.
+pub fn getWave(number: u32) Wave {
+    const index: usize = @max(number, 1) - 1;
+    if (index < active.count) return active.waves[index];
+
+    var wave = active.waves[active.count - 1];
+    const extra: f32 = @floatFromInt(index + 1 - active.count);
+    for (wave.groups[0..wave.group_count]) |*group| {
+        group.health *= 1 + extra * constants.WAVE_ENDLESS_HEALTH_SCALING;
+    }
+    return wave;
+}
+
+/// Serialize the active script into buf, returning the number of bytes written
+pub fn write(buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+
+    try w.writeU8(@intCast(active.count));
+    for (active.waves[0..active.count]) |*wave| {
+        try wave.write(&w);
+    }
+
+    return w.pos;
+}
+
+/// Serialize a single wave, as it will be played, into buf, returning the number of bytes written
+pub fn writeWave(number: u32, buf: []u8) binary.Error!usize {
+    var w = binary.Writer{ .buf = buf };
+    const wave = getWave(number);
+    try wave.write(&w);
+    return w.pos;
+}
+
+/// Validate a script and make it the active one
+///
+/// A wave already being spawned finishes with the schedule it started with.
+pub fn read(data: []const u8) binary.Error!void {
+    var r = binary.Reader{ .data = data };
+    var script = Script{ .waves = undefined, .count = 0 };
+
+    script.count = try r.readU8();
+    if (script.count == 0 or script.count > constants.MAX_WAVES) return error.InvalidData;
+
+    for (script.waves[0..script.count]) |*wave| {
+        wave.* = try Wave.read(&r);
+        if (wave.group_count == 0) return error.InvalidData;
+    }
+
+    if (r.pos != data.len) return error.InvalidData;
+
+    active = script;
+}
@@ -4,55 +4,69 @@
 const std = @import("std");
 const constants = @import("utils/constants.zig");
 const logger = @import("utils/logger.zig");
+const events = @import("utils/events.zig");
+const sounds = @import("utils/sounds.zig");
 const math = @import("utils/math.zig");
 const Vector2 = math.Vector2;
+const random = @import("utils/random.zig");
+const Random = random.Random;
 
 const tower_module = @import("entities/tower.zig");
 const Tower = tower_module.Tower;
 const TowerManager = tower_module.TowerManager;
 const TowerType = tower_module.TowerType;
+const PlacementResult = tower_module.PlacementResult;
+const Targeting = @import("entities/tower_catalog.zig").Targeting;
+const TowerActionResult = tower_module.TowerActionResult;
 
 const enemy_module = @import("entities/enemy.zig");
 const Enemy = enemy_module.Enemy;
 const EnemyManager = enemy_module.EnemyManager;
+const EnemyKind = @import("entities/enemy_types.zig").EnemyKind;
+const wave_script = @import("entities/wave_script.zig");
 
 const projectile_module = @import("entities/projectile.zig");
 const Projectile = projectile_module.Projectile;
 const ProjectileManager = projectile_module.ProjectileManager;
 
-const path_module = @import("entities/path.zig");
-const Path = path_module.Path;
-const PathPoint = path_module.PathPoint;
+const map_module = @import("entities/map.zig");
+const Map = map_module.Map;
+
+const level_module = @import("entities/level.zig");
+const Level = level_module.Level;
+const tower_catalog = @import("entities/tower_catalog.zig");
 
 const renderer_module = @import("rendering/renderer.zig");
 const Renderer = renderer_module.Renderer;
+const gfx = @import("rendering/draw.zig");
 
 const ui_module = @import("rendering/ui.zig");
 const UIManager = ui_module.UIManager;
 const GameState = ui_module.GameState;
 
-// Audio functions
-extern "env" fn playLevelCompleteSound() void;
-extern "env" fn playLevelFailSound() void;
-extern "env" fn playTowerShootSound() void;
-
 /// Game class to manage the game state and main loop
 pub const Game = struct {
     state: GameState,
     tower_manager: TowerManager,
     enemy_manager: EnemyManager,
     projectile_manager: ProjectileManager,
-    path: Path,
+    map: Map,
+    level: Level, // Rules of the level being played
     money: u32,
     lives: u32,
+    score: u32,
     wave_timer: f32,
+    seed: u32, // Seed the RNG restarts from on reset
+    god_mode: bool, // Enemies reaching an exit cost no lives, set from the developer console
+    rng: Random,
+    static_layer_dirty: bool, // Grid or map changed and the static layer must be rebuilt
     renderer: Renderer,
     ui_manager: UIManager,
     canvas_width: f32,
     canvas_height: f32,
 
-    /// Initialize a new game
-    pub fn init(width: f32, height: f32) Game {
+    /// Initialize a new game, played by the rules of level
+    pub fn init(width: f32, height: f32, level: Level) Game {
         const renderer = Renderer.init(width, height);
 
         var game = Game{
@@ -60,10 +74,16 @@ pub const Game = struct {
             .tower_manager = TowerManager.init(),
             .enemy_manager = EnemyManager.init(),
             .projectile_manager = ProjectileManager.init(),
-            .path = Path.init(),
-            .money = constants.INITIAL_MONEY,
-            .lives = constants.INITIAL_LIVES,
+            .map = map_module.get(),
+            .level = level,
+            .money = level.money,
+            .lives = level.lives,
+            .score = 0,
             .wave_timer = 0,
+            .seed = random.DEFAULT_SEED,
+            .god_mode = false,
+            .rng = Random.init(random.DEFAULT_SEED),
+            .static_layer_dirty = true,
             .renderer = renderer,
             .ui_manager = undefined,
             .canvas_width = width,
@@ -71,55 +91,103 @@ pub const Game = struct {
         };
 
         game.ui_manager = UIManager.init(&game.renderer);
+        game.selectFirstAllowedTower();
 
         logger.log("Game initialized");
         return game;
     }
 
-    /// Reset the game to initial state
-    pub fn reset(self: *Game) void {
+    /// Reset the game to initial state, played by the rules of level
+    pub fn reset(self: *Game, level: Level) void {
         self.state = GameState.Playing;
         self.tower_manager = TowerManager.init();
         self.enemy_manager = EnemyManager.init();
         self.projectile_manager = ProjectileManager.init();
-        self.path = Path.init();
-        self.money = constants.INITIAL_MONEY;
-        self.lives = constants.INITIAL_LIVES;
+        self.map = map_module.get();
+        self.level = level;
+        self.money = level.money;
+        self.lives = level.lives;
+        self.score = 0;
         self.wave_timer = 0;
+        self.rng = Random.init(self.seed);
+        self.static_layer_dirty = true;
+        self.selectFirstAllowedTower();
 
         logger.log("Game reset");
     }
 
-    /// Update the game state for one frame
+    /// Start with the first tower type the level allows selected
+    fn selectFirstAllowedTower(self: *Game) void {
+        for (1..tower_catalog.count() + 1) |id| {
+            if (self.level.allowsTower(@intCast(id))) {
+                self.tower_manager.selectTowerType(@intCast(id));
+                return;
+            }
+        }
+        self.tower_manager.selectTowerType(0);
+    }
+
+    /// Switch to the active map if no game is under way, returns false if the current game keeps its map
+    pub fn reloadMap(self: *Game) bool {
+        if (self.state != GameState.Menu) return false;
+
+        self.map = map_module.get();
+        self.static_layer_dirty = true;
+        return true;
+    }
+
+    /// Set the RNG seed used from the next reset onwards
+    pub fn setSeed(self: *Game, seed: u32) void {
+        self.seed = seed;
+        self.rng = Random.init(seed);
+        logger.logFmt("RNG seed set to {d}", .{seed});
+    }
+
+    /// Advance the simulation by one time step
     pub fn update(self: *Game, delta_time: f32) void {
+        if (self.state == GameState.Playing) {
+            self.updatePlaying(delta_time);
+        }
+    }
+
+    /// Record the draw commands for the current state
+    /// alpha: Fraction of the next update already elapsed, moving entities are interpolated by it
+    pub fn render(self: *Game, alpha: f32) void {
         switch (self.state) {
             .Menu => self.ui_manager.drawMenu(),
-            .Playing => self.updatePlaying(delta_time),
+            .Playing => self.drawPlaying(alpha),
+            // Entities don't move while stopped, so draw them where they are
             .Paused => {
-                self.updatePlaying(0); // Draw but don't update
+                self.drawPlaying(1);
                 self.ui_manager.drawPaused();
             },
             .GameOver => {
-                self.updatePlaying(0); // Draw but don't update
-                self.ui_manager.drawGameOver();
+                self.drawPlaying(1);
+                // Games only end with lives left when the level was won
+                self.ui_manager.drawGameOver(self.lives > 0);
             },
         }
     }
 
     /// Update the game when in playing state
     fn updatePlaying(self: *Game, delta_time: f32) void {
-        // Clear the canvas
-        self.renderer.clear();
-
-        // Draw grid and path
-        self.renderer.drawGrid();
-        self.path.draw();
-
         // Update wave timer and check for new wave
         if (self.enemy_manager.allEnemiesDefeated()) {
-            // If this is the first frame after all enemies are defeated, play level complete sound
+            // If this is the first frame after all enemies are defeated, the wave has been cleared
             if (self.wave_timer == 0 and self.enemy_manager.wave > 0) {
-                playLevelCompleteSound();
+                const bonus = constants.SCORE_WAVE_BONUS * self.enemy_manager.wave;
+                self.score += bonus;
+                events.waveCleared(self.enemy_manager.wave, bonus);
+
+                // Clearing the level's last wave wins it
+                if (self.level.isFinalWave(self.enemy_manager.wave)) {
+                    self.state = GameState.GameOver;
+                    logger.log("Victory!");
+                    sounds.play(.Victory, 0);
+                    events.gameOver(true, self.score, self.enemy_manager.wave);
+                    return;
+                }
+                sounds.play(.WaveCleared, 0);
             }
 
             self.wave_timer += delta_time;
@@ -134,29 +202,48 @@ pub const Game = struct {
 
         // Update game entities
         self.tower_manager.update(delta_time);
-        self.enemy_manager.update(delta_time, &self.path, &self.lives);
+        self.enemy_manager.update(delta_time, &self.map.path, if (self.god_mode) null else &self.lives, &self.rng);
         self.projectile_manager.update(delta_time, self.canvas_width, self.canvas_height);
 
         // Check for tower targeting and shooting
         self.updateTowerTargeting();
 
         // Check for projectile collisions
-        self.projectile_manager.checkCollisions(&self.enemy_manager, &self.money);
+        self.projectile_manager.checkCollisions(&self.enemy_manager, &self.tower_manager, &self.money, &self.score);
 
         // Check for game over
         if (self.lives == 0) {
             self.state = GameState.GameOver;
             logger.log("Game Over!");
-            playLevelFailSound();
+            sounds.play(.Defeat, 0);
+            events.gameOver(false, self.score, self.enemy_manager.wave);
+        }
+    }
+
+    /// Draw the playfield, entities and HUD
+    fn drawPlaying(self: *Game, alpha: f32) void {
+        // Rebuild the cached grid and map layer if they changed
+        if (self.static_layer_dirty) {
+            gfx.beginStaticLayer();
+            self.renderer.drawGrid();
+            self.map.draw();
+            gfx.endStaticLayer();
+            self.static_layer_dirty = false;
         }
 
+        // Clear the canvas
+        self.renderer.clear();
+
+        // Draw grid and map
+        self.renderer.drawStaticLayer();
+
         // Draw game entities
         self.tower_manager.draw();
-        self.enemy_manager.draw();
-        self.projectile_manager.draw();
+        self.enemy_manager.draw(alpha);
+        self.projectile_manager.draw(alpha);
 
         // Draw UI
-        self.ui_manager.drawUI(self.money, self.lives, self.enemy_manager.wave, self.tower_manager.selected_type);
+        self.ui_manager.drawUI(self.money, self.lives, self.enemy_manager.wave, self.level.waves, self.tower_manager.selected_type);
 
         // Draw wave timer if between waves
         if (self.enemy_manager.allEnemiesDefeated()) {
@@ -168,34 +255,55 @@ pub const Game = struct {
     fn updateTowerTargeting(self: *Game) void {
         for (self.tower_manager.towers[0..self.tower_manager.count]) |*tower| {
             if (tower.canAttack()) {
-                var closest_enemy: ?*Enemy = null;
-                var closest_distance: f32 = tower.range;
-
-                for (self.enemy_manager.enemies[0..self.enemy_manager.count]) |*enemy| {
-                    if (!enemy.active) continue;
-
-                    const dx = enemy.x - tower.x;
-                    const dy = enemy.y - tower.y;
-                    const distance = @sqrt(dx * dx + dy * dy);
-
-                    if (distance < closest_distance) {
-                        closest_enemy = enemy;
-                        closest_distance = distance;
-                    }
-                }
+                if (self.findTarget(tower.*)) |target| {
+                    const enemy = self.enemy_manager.enemies[target];
 
-                if (closest_enemy) |enemy| {
                     // Create projectile
-                    _ = self.projectile_manager.addProjectile(tower.x, tower.y, enemy.x, enemy.y, tower.damage, tower.type);
+                    _ = self.projectile_manager.addProjectile(tower.x, tower.y, enemy.x, enemy.y, tower.damage, tower.type, tower.id);
                     tower.resetCooldown();
 
-                    // Play tower shoot sound
-                    playTowerShootSound();
+                    // Play the tower type's shot from where the tower stands
+                    sounds.playAt(.TowerShoot, tower.x, tower.y, @intFromEnum(tower.type));
                 }
             }
         }
     }
 
+    /// Find the index of the enemy in range that ranks highest for a tower's targeting mode
+    pub fn findTarget(self: *const Game, tower: Tower) ?usize {
+        var best_enemy: ?usize = null;
+        var best_rank: f32 = 0;
+
+        for (self.enemy_manager.enemies[0..self.enemy_manager.count], 0..) |*enemy, i| {
+            if (!enemy.active) continue;
+
+            const dx = enemy.x - tower.x;
+            const dy = enemy.y - tower.y;
+            const distance = @sqrt(dx * dx + dy * dy);
+            if (distance >= tower.range) continue;
+
+            const rank = targetRank(tower.targeting, enemy, distance);
+            if (best_enemy == null or rank > best_rank) {
+                best_enemy = i;
+                best_rank = rank;
+            }
+        }
+
+        return best_enemy;
+    }
+
+    /// Score an enemy for a targeting mode, the highest score is shot first
+    fn targetRank(targeting: Targeting, enemy: *const Enemy, distance: f32) f32 {
+        return switch (targeting) {
+            .First => enemy.progress,
+            .Last => -enemy.progress,
+            .Strongest => enemy.health,
+            .Weakest => -enemy.health,
+            .Closest => -distance,
+            .Fastest => enemy.speed,
+        };
+    }
+
     /// Handle mouse click
     pub fn handleClick(self: *Game, x: f32, y: f32) void {
         switch (self.state) {
@@ -208,48 +316,155 @@ pub const Game = struct {
                 self.state = GameState.Playing;
             },
             .GameOver => {
-                // Reset game if game over
-                self.reset();
+                // Reset game if game over, to the level new games are played on
+                self.reset(level_module.get());
             },
             .Playing => {
+                // Clicking a built tower opens it in the tower panel
+                if (self.tower_manager.towerAt(x, y)) |tower| {
+                    self.tower_manager.selectTower(tower.id);
+                    return;
+                }
+                self.tower_manager.selectTower(0);
+
                 // Handle tower placement
                 if (self.tower_manager.selected_type != TowerType.None) {
                     // Snap to grid
                     const grid_pos = math.snapToGrid(x, y, constants.GRID_SIZE);
 
-                    if (self.tower_manager.addTower(grid_pos.x, grid_pos.y, &self.money, &self.path)) {
+                    const result = self.tower_manager.addTower(grid_pos.x, grid_pos.y, &self.money, &self.map);
+                    if (result == PlacementResult.Ok) {
                         logger.log("Tower placed");
+                        events.towerPlaced(grid_pos.x, grid_pos.y, @intFromEnum(self.tower_manager.selected_type));
+                        sounds.playAt(.TowerPlaced, grid_pos.x, grid_pos.y, @intFromEnum(self.tower_manager.selected_type));
                     } else {
-                        logger.log("Cannot place tower here");
+                        logger.logFmt("Cannot place tower here: {s}", .{@tagName(result)});
+                        events.towerRejected(grid_pos.x, grid_pos.y, @intFromEnum(result));
+                        sounds.playAt(.TowerRejected, grid_pos.x, grid_pos.y, 0);
                     }
                 }
             },
         }
     }
 
-    /// Toggle pause state
-    pub fn togglePause(self: *Game) void {
+    /// Pause the game if it is being played
+    pub fn pause(self: *Game) void {
         if (self.state == GameState.Playing) {
             self.state = GameState.Paused;
             logger.log("Game paused");
-        } else if (self.state == GameState.Paused) {
+        }
+    }
+
+    /// Resume a paused game
+    pub fn unpause(self: *Game) void {
+        if (self.state == GameState.Paused) {
             self.state = GameState.Playing;
             logger.log("Game resumed");
         }
     }
 
-    /// Select tower type
+    /// Toggle pause state
+    pub fn togglePause(self: *Game) void {
+        if (self.state == GameState.Playing) {
+            self.pause();
+        } else if (self.state == GameState.Paused) {
+            self.unpause();
+        }
+    }
+
+    /// Advance a paused game by a single step, for debugging
+    pub fn stepPaused(self: *Game, delta_time: f32) void {
+        if (self.state == GameState.Paused) {
+            self.updatePlaying(delta_time);
+        }
+    }
+
+    /// Select tower type, types the level doesn't allow select none
     pub fn selectTowerType(self: *Game, tower_type: u32) void {
+        if (tower_type != 0 and !self.level.allowsTower(tower_type)) {
+            logger.logFmt("Tower type {d} is not allowed in this level", .{tower_type});
+            self.tower_manager.selectTowerType(0);
+            return;
+        }
         self.tower_manager.selectTowerType(tower_type);
     }
 
+    /// Show a tower in the tower panel, 0 clears the selection
+    pub fn selectTower(self: *Game, id: u32) void {
+        self.tower_manager.selectTower(id);
+    }
+
+    /// Upgrade a tower, paid for from the player's money
+    pub fn upgradeTower(self: *Game, id: u32) void {
+        if (self.state != GameState.Playing) return;
+
+        const result = self.tower_manager.upgradeTower(id, &self.money);
+        if (result != TowerActionResult.Ok) {
+            logger.logFmt("Cannot upgrade tower: {s}", .{@tagName(result)});
+            return;
+        }
+
+        const tower = self.tower_manager.getTower(id).?;
+        events.towerUpgraded(tower.x, tower.y, tower.level);
+    }
+
+    /// Sell a tower for part of the money spent on it
+    pub fn sellTower(self: *Game, id: u32) void {
+        if (self.state != GameState.Playing) return;
+
+        const tower = self.tower_manager.sellTower(id, &self.money) orelse {
+            logger.logFmt("Cannot sell tower: no tower with id {d}", .{id});
+            return;
+        };
+        events.towerSold(tower.x, tower.y, tower.getSellValue());
+    }
+
+    /// Change a tower's targeting mode, mode is a Targeting value
+    pub fn setTowerTargeting(self: *Game, id: u32, mode: u32) void {
+        const targeting = std.meta.intToEnum(Targeting, mode) catch {
+            logger.logFmt("ERROR: Unknown targeting mode {d}", .{mode});
+            return;
+        };
+        if (!self.tower_manager.setTargeting(id, targeting)) {
+            logger.logFmt("Cannot set targeting: no tower with id {d}", .{id});
+        }
+    }
+
     /// Check if a tower can be placed at the given coordinates
     pub fn canPlaceTower(self: Game, x: f32, y: f32) bool {
-        return self.tower_manager.canPlaceTower(x, y, self.money, &self.path);
+        return self.tower_manager.canPlaceTower(x, y, self.money, &self.map);
     }
 
     /// Get the range of the currently selected tower type
     pub fn getSelectedTowerRange(self: Game) f32 {
         return self.tower_manager.getSelectedTowerRange();
     }
+
+    /// Get the seconds left before the next wave starts, or -1 while a wave is under way or the game isn't running
+    pub fn getNextWaveIn(self: Game) f32 {
+        if (self.state != GameState.Playing and self.state != GameState.Paused) return -1;
+        if (!self.enemy_manager.allEnemiesDefeated()) return -1;
+        return @max(constants.WAVE_COOLDOWN - self.wave_timer, 0);
+    }
+
+    /// Clear the field and start a wave on the next update, for the developer console
+    pub fn skipToWave(self: *Game, wave: u32) void {
+        self.enemy_manager.count = 0;
+        self.enemy_manager.enemies_to_spawn = 0;
+        self.enemy_manager.wave = wave -| 1;
+        self.projectile_manager.count = 0;
+        // A full cooldown starts the wave straight away without counting the skipped one as cleared
+        self.wave_timer = constants.WAVE_COOLDOWN;
+    }
+
+    /// Add enemies of a kind with the current wave's stats, for the developer console
+    /// Returns how many were spawned, fewer than asked for once the field is full
+    pub fn spawnEnemies(self: *Game, kind: EnemyKind, count: u32) u32 {
+        const group = wave_script.getWave(@max(self.enemy_manager.wave, 1)).groups[0];
+        var spawned: u32 = 0;
+        while (spawned < count) : (spawned += 1) {
+            if (!self.enemy_manager.spawnExtra(kind, group.health, group.speed, group.bounty, &self.map.path)) break;
+        }
+        return spawned;
+    }
 };
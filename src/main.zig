@@ -2,35 +2,116 @@
 // Entry point for the Neon Geometry Tower Defense game
 
 const std = @import("std");
+const builtin = @import("builtin");
 const logger = @import("utils/logger.zig");
 const Game = @import("game.zig").Game;
+const gfx = @import("rendering/draw.zig");
+const snapshot = @import("snapshot.zig");
+const debug_data = @import("debug_data.zig");
+const tower_catalog = @import("entities/tower_catalog.zig");
+const tower_module = @import("entities/tower.zig");
+const wave_script = @import("entities/wave_script.zig");
+const enemy_types = @import("entities/enemy_types.zig");
+const map_module = @import("entities/map.zig");
+const level_module = @import("entities/level.zig");
+const binary = @import("utils/binary.zig");
+
+// Version of the exports and imports listed in src/abi.json, must match its "version"
+// Bump it whenever a function is added, removed or changes signature
+const ABI_VERSION: u32 = 3;
 
 // Global state
 var canvas_width: f32 = 800;
 var canvas_height: f32 = 600;
 var game: Game = undefined;
 
+// Buffer shared with the frontend for exporting and importing save snapshots
+var snapshot_buffer: [snapshot.MAX_SIZE]u8 = undefined;
+
+// Buffer shared with the frontend for exporting the tower catalog and loading balance files
+var catalog_buffer: [tower_catalog.WIRE_SIZE]u8 = undefined;
+
+// Buffer shared with the frontend for exporting and loading wave scripts, and for next wave previews
+var wave_buffer: [wave_script.WIRE_SIZE]u8 = undefined;
+
+// Buffer shared with the frontend for exporting maps and loading map files
+var map_buffer: [map_module.WIRE_SIZE]u8 = undefined;
+
+// Buffer shared with the frontend for exporting and loading level rules
+var level_buffer: [level_module.WIRE_SIZE]u8 = undefined;
+
+// Buffer the enemy archetypes are exported to for the bestiary
+var enemy_types_buffer: [enemy_types.WIRE_SIZE]u8 = undefined;
+
+// Buffer the stats of a single tower are written to for the tower panel
+var tower_info_buffer: [tower_module.INFO_SIZE]u8 = undefined;
+
+// Buffer the debug overlay data is written to, only used by Debug builds
+var debug_data_buffer: [debug_data.MAX_SIZE]u8 = undefined;
+
+// Get the ABI version, the frontend checks it before calling anything else
+export fn getAbiVersion() u32 {
+    return ABI_VERSION;
+}
+
 // Initialize the WASM module
 export fn init(width: f32, height: f32) void {
     canvas_width = width;
     canvas_height = height;
 
     // Initialize game
-    game = Game.init(width, height);
+    game = Game.init(width, height, level_module.get());
 
     logger.log("Tower Defense initialized");
 }
 
-// Start or reset the game
+// Start or reset the game, on the level new games are played on
 export fn resetGame() void {
-    game.reset();
+    game.reset(level_module.get());
 }
 
-// Update animation frame
+// Seed the simulation RNG, replays use this to reproduce a run
+export fn setSeed(seed: u32) void {
+    game.setSeed(seed);
+}
+
+// Get the seed the simulation RNG restarts from on reset
+export fn getSeed() u32 {
+    return game.seed;
+}
+
+// Advance the simulation by one fixed time step
 export fn update(delta_time: f32) void {
     game.update(delta_time);
 }
 
+// Record the draw commands for the current frame
+// alpha is the fraction of the next step already elapsed, used to interpolate moving entities
+export fn render(alpha: f32) void {
+    game.render(alpha);
+}
+
+// Pause the game if it is being played
+export fn pauseGame() void {
+    game.pause();
+}
+
+// Resume a paused game
+export fn resumeGame() void {
+    game.unpause();
+}
+
+// Advance a paused game by a single step
+export fn stepFrame(delta_time: f32) void {
+    game.stepPaused(delta_time);
+}
+
+// Get the game state, must match GameState in web/src/game/game-state.ts
+// 0 = menu, 1 = playing, 2 = paused, 3 = game over
+export fn getGameState() u32 {
+    return @intFromEnum(game.state);
+}
+
 // Handle mouse click
 export fn handleClick(x: f32, y: f32) void {
     game.handleClick(x, y);
@@ -50,3 +131,374 @@ export fn canPlaceTower(x: f32, y: f32) bool {
 export fn getTowerRange() f32 {
     return game.getSelectedTowerRange();
 }
+
+// Get the id of the tower shown in the tower panel, 0 for none
+export fn getSelectedTower() u32 {
+    return game.tower_manager.selected_tower;
+}
+
+// Show a tower in the tower panel, 0 clears the selection
+export fn selectTower(id: u32) void {
+    game.selectTower(id);
+}
+
+// Upgrade a tower to its next level
+export fn upgradeTower(id: u32) void {
+    game.upgradeTower(id);
+}
+
+// Sell a tower
+export fn sellTower(id: u32) void {
+    game.sellTower(id);
+}
+
+// Change which enemies a tower shoots at first
+export fn setTowerTargeting(id: u32, mode: u32) void {
+    game.setTowerTargeting(id, mode);
+}
+
+// Get a pointer to the tower info buffer
+export fn getTowerInfoPtr() [*]u8 {
+    return &tower_info_buffer;
+}
+
+// Write a tower's stats into the tower info buffer, returns their length or 0 if there is no such tower
+export fn saveTowerInfo(id: u32) usize {
+    const tower = game.tower_manager.getTower(id) orelse return 0;
+    var w = binary.Writer{ .buf = &tower_info_buffer };
+    tower.writeInfo(&w) catch return 0;
+    return w.pos;
+}
+
+// Get the player's current money
+export fn getMoney() u32 {
+    return game.money;
+}
+
+// Get the player's remaining lives
+export fn getLives() u32 {
+    return game.lives;
+}
+
+// Get the current wave number
+export fn getWave() u32 {
+    return game.enemy_manager.wave;
+}
+
+// Get the seconds left before the next wave starts, or -1 while a wave is under way
+export fn getNextWaveIn() f32 {
+    return game.getNextWaveIn();
+}
+
+// Get the player's current score
+export fn getScore() u32 {
+    return game.score;
+}
+
+// Get a pointer to the packed draw commands of a layer (0 = frame, 1 = static)
+export fn getDrawCommandsPtr(layer: u32) [*]const u32 {
+    return gfx.getBuffer(layer).words.ptr;
+}
+
+// Get the number of 32-bit words written to a layer's command buffer
+export fn getDrawCommandsLen(layer: u32) usize {
+    return gfx.getBuffer(layer).len;
+}
+
+// Get a pointer to the text referenced by a layer's draw commands
+export fn getDrawTextPtr(layer: u32) [*]const u8 {
+    return gfx.getBuffer(layer).text.ptr;
+}
+
+// Get the number of text bytes written to a layer
+export fn getDrawTextLen(layer: u32) usize {
+    return gfx.getBuffer(layer).text_len;
+}
+
+// Get the static layer version, incremented whenever the grid or path is redrawn
+export fn getStaticLayerVersion() u32 {
+    return gfx.getStaticVersion();
+}
+
+// Get a pointer to the snapshot buffer
+export fn getSnapshotPtr() [*]u8 {
+    return &snapshot_buffer;
+}
+
+// Get the size of the snapshot buffer in bytes
+export fn getSnapshotCapacity() usize {
+    return snapshot_buffer.len;
+}
+
+// Serialize the game into the snapshot buffer, returns the snapshot length or 0 on failure
+export fn saveSnapshot() usize {
+    return snapshot.write(&game, &snapshot_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to save snapshot: {s}", .{@errorName(err)});
+        return 0;
+    };
+}
+
+// Restore the game from the first len bytes of the snapshot buffer
+// Returns 0 on success or a status code describing why the snapshot was rejected
+export fn loadSnapshot(len: usize) u32 {
+    if (len > snapshot_buffer.len) return snapshot.statusCode(error.BufferTooSmall);
+
+    snapshot.read(&game, snapshot_buffer[0..len]) catch |err| {
+        logger.logFmt("ERROR: Rejected snapshot: {s}", .{@errorName(err)});
+        return snapshot.statusCode(err);
+    };
+
+    logger.logGameEvent("Snapshot loaded: wave {d}", .{game.enemy_manager.wave});
+    return 0;
+}
+
+// Get a pointer to the tower catalog buffer
+export fn getTowerCatalogPtr() [*]u8 {
+    return &catalog_buffer;
+}
+
+// Get the size of the tower catalog buffer in bytes
+export fn getTowerCatalogCapacity() usize {
+    return catalog_buffer.len;
+}
+
+// Serialize the tower catalog into the catalog buffer, returns its length or 0 on failure
+export fn saveTowerCatalog() usize {
+    return tower_catalog.write(&catalog_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to export tower catalog: {s}", .{@errorName(err)});
+        return 0;
+    };
+}
+
+// Replace the tower catalog with the first len bytes of the catalog buffer
+// Returns 0 on success or a snapshot status code describing why the catalog was rejected
+export fn loadTowerCatalog(len: usize) u32 {
+    if (len > catalog_buffer.len) return snapshot.statusCode(error.BufferTooSmall);
+
+    tower_catalog.read(catalog_buffer[0..len]) catch |err| {
+        logger.logFmt("ERROR: Rejected tower catalog: {s}", .{@errorName(err)});
+        return snapshot.statusCode(err);
+    };
+
+    logger.logGameEvent("Tower catalog loaded: {d} tower types", .{tower_catalog.count()});
+    return 0;
+}
+
+// Get a pointer to the wave script buffer
+export fn getWaveScriptPtr() [*]u8 {
+    return &wave_buffer;
+}
+
+// Get the size of the wave script buffer in bytes
+export fn getWaveScriptCapacity() usize {
+    return wave_buffer.len;
+}
+
+// Serialize the wave script into the wave script buffer, returns its length or 0 on failure
+export fn saveWaveScript() usize {
+    return wave_script.write(&wave_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to export wave script: {s}", .{@errorName(err)});
+        return 0;
+    };
+}
+
+// Replace the wave script with the first len bytes of the wave script buffer, taking effect from the next wave
+// Returns 0 on success or a snapshot status code describing why the script was rejected
+export fn loadWaveScript(len: usize) u32 {
+    if (len > wave_buffer.len) return snapshot.statusCode(error.BufferTooSmall);
+
+    wave_script.read(wave_buffer[0..len]) catch |err| {
+        logger.logFmt("ERROR: Rejected wave script: {s}", .{@errorName(err)});
+        return snapshot.statusCode(err);
+    };
+
+    logger.logGameEvent("Wave script loaded: {d} waves", .{wave_script.count()});
+    return 0;
+}
+
+// Write a single wave, as it will be played, into the wave script buffer
+// Returns its length or 0 on failure
+export fn saveWavePreview(wave: u32) usize {
+    return wave_script.writeWave(wave, &wave_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to export wave {d}: {s}", .{ wave, @errorName(err) });
+        return 0;
+    };
+}
+
+// Get a pointer to the enemy archetype buffer
+export fn getEnemyTypesPtr() [*]u8 {
+    return &enemy_types_buffer;
+}
+
+// Serialize the enemy archetypes into the enemy archetype buffer, returns its length or 0 on failure
+export fn saveEnemyTypes() usize {
+    return enemy_types.write(&enemy_types_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to export enemy types: {s}", .{@errorName(err)});
+        return 0;
+    };
+}
+
+// Get a pointer to the map buffer
+export fn getMapPtr() [*]u8 {
+    return &map_buffer;
+}
+
+// Get the size of the map buffer in bytes
+export fn getMapCapacity() usize {
+    return map_buffer.len;
+}
+
+// Serialize the map new games are played on into the map buffer, returns its length or 0 on failure
+export fn saveMap() usize {
+    return map_module.write(&map_buffer) catch |err| {
+        logger.logFmt("ERROR: Failed to export map: {s}", .{@errorName(err)});
+        return 0;
+    };
+}
+
+// Replace the map with the first len bytes of the map buffer, used straight away on the menu screen
+// and otherwise from the next game
+// Returns 0 on success or a snapshot status code describing why the map was rejected
+export fn loadMap(len: usize) u32 {
+    if (len > map_buffer.len) return snapshot.statusCode(error.BufferTooSmall);
+
+    map_module.read(map_buffer[0..len]) catch |err| {
+        logger.logFmt("ERROR: Rejected map: {s}", .{@errorName(err)});
+        return snapshot.statusCode(err);
+    };
+
+    const path_length = map_module.get().path.length;
+    if (game.reloadMap()) {
+        logger.logGameEvent("Map loaded: {d} waypoints", .{path_length});
+    } else {
+        logger.logGameEvent("Map loaded: {d} waypoints, used from the next game", .{path_length});
+    }
+    return 0;
+}
+
+// Get a pointer to the level buffer
+export fn getLevelPtr() [*]u8 {
+    return &level_buffer;
+}
+
+// Get the size of the level buffer in bytes
+export fn getLevelCapacity() usize {
+    return level_buffer.len;
+}
+
+// Serialize the rules of the level being played into the level buffer, returns its length or 0 on failure
+export fn saveLevel() usize {
+    var w = binary.Writer{ .buf = &level_buffer };
+    game.level.write(&w) catch |err| {
+        logger.logFmt("ERROR: Failed to export level: {s}", .{@errorName(err)});
+        return 0;
+    };
+    return w.pos;
+}
+
+// Replace the level rules with the first len bytes of the level buffer, used from the next game
+// Returns 0 on success or a snapshot status code describing why the level was rejected
+export fn loadLevel(len: usize) u32 {
+    if (len > level_buffer.len) return snapshot.statusCode(error.BufferTooSmall);
+
+    level_module.read(level_buffer[0..len]) catch |err| {
+        logger.logFmt("ERROR: Rejected level: {s}", .{@errorName(err)});
+        return snapshot.statusCode(err);
+    };
+
+    const level = level_module.get();
+    if (level.number == 0) {
+        logger.logGameEvent("Endless play loaded, used from the next game", .{});
+    } else {
+        logger.logGameEvent("Level {d} loaded, used from the next game", .{level.number});
+    }
+    return 0;
+}
+
+// Developer console, only exported from Debug builds so release modules can't be cheated with
+comptime {
+    if (builtin.mode == .Debug) {
+        @export(&debugSetMoney, .{ .name = "debugSetMoney" });
+        @export(&debugSetLives, .{ .name = "debugSetLives" });
+        @export(&debugSkipToWave, .{ .name = "debugSkipToWave" });
+        @export(&debugSpawn, .{ .name = "debugSpawn" });
+        @export(&debugKillAll, .{ .name = "debugKillAll" });
+        @export(&debugToggleGodMode, .{ .name = "debugToggleGodMode" });
+        @export(&debugTeleport, .{ .name = "debugTeleport" });
+        @export(&debugGetEnemyCount, .{ .name = "debugGetEnemyCount" });
+        @export(&debugGetTowerCount, .{ .name = "debugGetTowerCount" });
+        @export(&debugGetProjectileCount, .{ .name = "debugGetProjectileCount" });
+        @export(&debugGetDataPtr, .{ .name = "debugGetDataPtr" });
+        @export(&debugSaveData, .{ .name = "debugSaveData" });
+    }
+}
+
+// Set the player's money
+fn debugSetMoney(amount: u32) callconv(.c) void {
+    game.money = amount;
+}
+
+// Set the player's lives, 0 ends the game on the next update
+fn debugSetLives(lives: u32) callconv(.c) void {
+    game.lives = lives;
+}
+
+// Clear the field and start a wave on the next update
+fn debugSkipToWave(wave: u32) callconv(.c) void {
+    game.skipToWave(wave);
+}
+
+// Spawn enemies of a kind with the current wave's stats, returns how many fit on the field
+fn debugSpawn(kind: u32, count: u32) callconv(.c) u32 {
+    const enemy_kind = std.meta.intToEnum(enemy_types.EnemyKind, kind) catch {
+        logger.logFmt("ERROR: Unknown enemy kind {d}", .{kind});
+        return 0;
+    };
+    return game.spawnEnemies(enemy_kind, count);
+}
+
+// Kill every enemy on the field, paying out their bounties, returns how many died
+fn debugKillAll() callconv(.c) u32 {
+    return game.enemy_manager.killAll(&game.money, &game.score);
+}
+
+// Toggle whether enemies reaching an exit cost lives, returns true when they no longer do
+fn debugToggleGodMode() callconv(.c) bool {
+    game.god_mode = !game.god_mode;
+    return game.god_mode;
+}
+
+// Move every enemy on the field to a waypoint, returns how many were moved or 0 if there is no such waypoint
+fn debugTeleport(waypoint: u32) callconv(.c) u32 {
+    return game.enemy_manager.teleportAll(&game.map.path, waypoint);
+}
+
+// Get the number of enemies on the field
+fn debugGetEnemyCount() callconv(.c) u32 {
+    return @intCast(game.enemy_manager.count);
+}
+
+// Get the number of towers built
+fn debugGetTowerCount() callconv(.c) u32 {
+    return @intCast(game.tower_manager.count);
+}
+
+// Get the number of projectiles in flight
+fn debugGetProjectileCount() callconv(.c) u32 {
+    return @intCast(game.projectile_manager.count);
+}
+
+// Get a pointer to the debug overlay data buffer
+fn debugGetDataPtr() callconv(.c) [*]u8 {
+    return &debug_data_buffer;
+}
+
+// Write what the debug overlays draw into the debug data buffer, returns its length or 0 on failure
+fn debugSaveData() callconv(.c) usize {
+    var w = binary.Writer{ .buf = &debug_data_buffer };
+    debug_data.write(&game, &w) catch |err| {
+        logger.logFmt("ERROR: Failed to export debug data: {s}", .{@errorName(err)});
+        return 0;
+    };
+    return w.pos;
+}
@@ -0,0 +1,204 @@
+// draw.zig
+// Packed draw-command buffers decoded by the TypeScript CommandBufferRenderer
+
+const std = @import("std");
+const logger = @import("../utils/logger.zig");
+
+/// Command opcodes, must match DrawOpcode in web/src/renderer/command-buffer-renderer.ts
+pub const Opcode = enum(u8) {
+    StaticLayer = 1, // Composite the cached static layer
+    Rect = 2,
+    Circle = 3,
+    Line = 4,
+    Triangle = 5,
+    Text = 6,
+};
+
+/// Command buffers exposed to the frontend
+pub const Layer = enum(u32) {
+    Frame = 0, // Rebuilt every frame
+    Static = 1, // Grid and path, rebuilt only when they change
+};
+
+/// Header flag marking a filled (rather than stroked) shape
+pub const FLAG_FILL: u32 = 1 << 8;
+
+// Buffer capacities, sized for MAX_ENEMIES/MAX_PROJECTILES/MAX_TOWERS at their limits
+const FRAME_MAX_WORDS: usize = 16384;
+const FRAME_MAX_TEXT: usize = 4096;
+const STATIC_MAX_WORDS: usize = 4096;
+const STATIC_MAX_TEXT: usize = 256;
+
+/// A buffer of packed draw commands and the text they reference
+///
+/// Each command is a header word (opcode | flags), a colour word (0xRRGGBB) and
+/// its arguments. Coordinates are stored as raw f32 bits, text as an offset and
+/// length into the text arena.
+pub const CommandBuffer = struct {
+    words: []u32,
+    len: usize,
+    text: []u8,
+    text_len: usize,
+    overflowed: bool,
+
+    fn init(words: []u32, text_arena: []u8) CommandBuffer {
+        return CommandBuffer{
+            .words = words,
+            .len = 0,
+            .text = text_arena,
+            .text_len = 0,
+            .overflowed = false,
+        };
+    }
+
+    /// Discard all recorded commands
+    pub fn reset(self: *CommandBuffer) void {
+        self.len = 0;
+        self.text_len = 0;
+        self.overflowed = false;
+    }
+
+    /// Reserve space for a command and write its header, returning the argument words
+    fn begin(self: *CommandBuffer, opcode: Opcode, flags: u32, r: u8, g: u8, b: u8, arg_count: usize) ?[]u32 {
+        const needed = 2 + arg_count;
+        if (self.len + needed > self.words.len) {
+            self.markOverflow();
+            return null;
+        }
+
+        const command = self.words[self.len .. self.len + needed];
+        command[0] = @as(u32, @intFromEnum(opcode)) | flags;
+        command[1] = packColor(r, g, b);
+        self.len += needed;
+        return command[2..];
+    }
+
+    /// Copy text into the arena, returning its offset
+    fn pushText(self: *CommandBuffer, str: []const u8) ?usize {
+        if (self.text_len + str.len > self.text.len) {
+            self.markOverflow();
+            return null;
+        }
+
+        const offset = self.text_len;
+        @memcpy(self.text[offset .. offset + str.len], str);
+        self.text_len += str.len;
+        return offset;
+    }
+
+    fn markOverflow(self: *CommandBuffer) void {
+        if (!self.overflowed) {
+            logger.logError("Draw command buffer full, dropping commands");
+        }
+        self.overflowed = true;
+    }
+};
+
+var frame_words: [FRAME_MAX_WORDS]u32 = undefined;
+var frame_text: [FRAME_MAX_TEXT]u8 = undefined;
+var static_words: [STATIC_MAX_WORDS]u32 = undefined;
+var static_text: [STATIC_MAX_TEXT]u8 = undefined;
+
+var frame_buffer = CommandBuffer.init(&frame_words, &frame_text);
+var static_buffer = CommandBuffer.init(&static_words, &static_text);
+
+// Buffer that draw calls are currently recorded into
+var target: *CommandBuffer = &frame_buffer;
+
+// Incremented every time the static layer is rebuilt so the frontend knows to re-cache it
+var static_version: u32 = 0;
+
+fn packColor(r: u8, g: u8, b: u8) u32 {
+    return (@as(u32, r) << 16) | (@as(u32, g) << 8) | @as(u32, b);
+}
+
+fn bits(value: f32) u32 {
+    return @bitCast(value);
+}
+
+/// Start recording a new frame
+pub fn beginFrame() void {
+    frame_buffer.reset();
+    target = &frame_buffer;
+}
+
+/// Redirect draw calls into the static layer until endStaticLayer
+pub fn beginStaticLayer() void {
+    static_buffer.reset();
+    target = &static_buffer;
+}
+
+/// Finish the static layer and resume recording the frame
+pub fn endStaticLayer() void {
+    static_version +%= 1;
+    target = &frame_buffer;
+}
+
+/// Get the current static layer version
+pub fn getStaticVersion() u32 {
+    return static_version;
+}
+
+/// Get a command buffer by layer id
+pub fn getBuffer(layer: u32) *const CommandBuffer {
+    return if (layer == @intFromEnum(Layer.Static)) &static_buffer else &frame_buffer;
+}
+
+/// Composite the cached static layer at this point in the frame
+pub fn staticLayer() void {
+    _ = target.begin(.StaticLayer, 0, 0, 0, 0, 0);
+}
+
+/// Draw a filled rectangle
+pub fn rect(x: f32, y: f32, width: f32, height: f32, r: u8, g: u8, b: u8) void {
+    if (target.begin(.Rect, FLAG_FILL, r, g, b, 4)) |args| {
+        args[0] = bits(x);
+        args[1] = bits(y);
+        args[2] = bits(width);
+        args[3] = bits(height);
+    }
+}
+
+/// Draw a filled or outlined circle
+pub fn circle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void {
+    if (target.begin(.Circle, if (fill) FLAG_FILL else 0, r, g, b, 3)) |args| {
+        args[0] = bits(x);
+        args[1] = bits(y);
+        args[2] = bits(radius);
+    }
+}
+
+/// Draw a line
+pub fn line(x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void {
+    if (target.begin(.Line, 0, r, g, b, 5)) |args| {
+        args[0] = bits(x1);
+        args[1] = bits(y1);
+        args[2] = bits(x2);
+        args[3] = bits(y2);
+        args[4] = bits(thickness);
+    }
+}
+
+/// Draw a filled or outlined triangle
+pub fn triangle(x1: f32, y1: f32, x2: f32, y2: f32, x3: f32, y3: f32, r: u8, g: u8, b: u8, fill: bool) void {
+    if (target.begin(.Triangle, if (fill) FLAG_FILL else 0, r, g, b, 6)) |args| {
+        args[0] = bits(x1);
+        args[1] = bits(y1);
+        args[2] = bits(x2);
+        args[3] = bits(y2);
+        args[4] = bits(x3);
+        args[5] = bits(y3);
+    }
+}
+
+/// Draw text
+pub fn text(x: f32, y: f32, str: []const u8, size: f32, r: u8, g: u8, b: u8) void {
+    const offset = target.pushText(str) orelse return;
+    if (target.begin(.Text, 0, r, g, b, 5)) |args| {
+        args[0] = bits(x);
+        args[1] = bits(y);
+        args[2] = bits(size);
+        args[3] = @intCast(offset);
+        args[4] = @intCast(str.len);
+    }
+}
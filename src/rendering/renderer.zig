@@ -3,14 +3,7 @@
 
 const std = @import("std");
 const constants = @import("../utils/constants.zig");
-
-// WASM imports for browser interaction
-extern "env" fn clearCanvas() void;
-extern "env" fn drawRect(x: f32, y: f32, width: f32, height: f32, r: u8, g: u8, b: u8) void;
-extern "env" fn drawCircle(x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void;
-extern "env" fn drawLine(x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void;
-extern "env" fn drawTriangle(x1: f32, y1: f32, x2: f32, y2: f32, x3: f32, y3: f32, r: u8, g: u8, b: u8, fill: bool) void;
-extern "env" fn drawText(x: f32, y: f32, text_ptr: [*]const u8, text_len: usize, size: f32, r: u8, g: u8, b: u8) void;
+const gfx = @import("draw.zig");
 
 /// Renderer for the game
 pub const Renderer = struct {
@@ -25,10 +18,16 @@ pub const Renderer = struct {
         };
     }
 
-    /// Clear the canvas
+    /// Clear the canvas by starting a new frame of draw commands
     pub fn clear(self: Renderer) void {
         _ = self;
-        clearCanvas();
+        gfx.beginFrame();
+    }
+
+    /// Draw the cached static layer (grid and path)
+    pub fn drawStaticLayer(self: Renderer) void {
+        _ = self;
+        gfx.staticLayer();
     }
 
     /// Draw the game grid
@@ -48,31 +47,31 @@ pub const Renderer = struct {
     /// Draw a rectangle
     pub fn drawRectShape(self: Renderer, x: f32, y: f32, width: f32, height: f32, r: u8, g: u8, b: u8) void {
         _ = self;
-        drawRect(x, y, width, height, r, g, b);
+        gfx.rect(x, y, width, height, r, g, b);
     }
 
     /// Draw a circle
     pub fn drawCircleShape(self: Renderer, x: f32, y: f32, radius: f32, r: u8, g: u8, b: u8, fill: bool) void {
         _ = self;
-        drawCircle(x, y, radius, r, g, b, fill);
+        gfx.circle(x, y, radius, r, g, b, fill);
     }
 
     /// Draw a line
     pub fn drawLineShape(self: Renderer, x1: f32, y1: f32, x2: f32, y2: f32, thickness: f32, r: u8, g: u8, b: u8) void {
         _ = self;
-        drawLine(x1, y1, x2, y2, thickness, r, g, b);
+        gfx.line(x1, y1, x2, y2, thickness, r, g, b);
     }
 
     /// Draw a triangle
     pub fn drawTriangleShape(self: Renderer, x1: f32, y1: f32, x2: f32, y2: f32, x3: f32, y3: f32, r: u8, g: u8, b: u8, fill: bool) void {
         _ = self;
-        drawTriangle(x1, y1, x2, y2, x3, y3, r, g, b, fill);
+        gfx.triangle(x1, y1, x2, y2, x3, y3, r, g, b, fill);
     }
 
     /// Draw text
     pub fn drawTextString(self: Renderer, x: f32, y: f32, text: []const u8, size: f32, r: u8, g: u8, b: u8) void {
         _ = self;
-        drawText(x, y, text.ptr, text.len, size, r, g, b);
+        gfx.text(x, y, text, size, r, g, b);
     }
 
     /// Draw tower placement preview
@@ -81,17 +80,17 @@ pub const Renderer = struct {
         if (x < 0 or y < 0) return;
 
         // Draw tower placement indicator
-        drawCircle(x, y, 20, if (can_place) 0 else 255, if (can_place) 255 else 0, if (can_place) 238 else 0, false);
+        gfx.circle(x, y, 20, if (can_place) 0 else 255, if (can_place) 255 else 0, if (can_place) 238 else 0, false);
 
         // Draw tower range indicator if placement is valid
         if (can_place and range > 0) {
-            drawCircle(x, y, range, 0, 255, 238, false);
+            gfx.circle(x, y, range, 0, 255, 238, false);
         }
 
         if (!can_place) {
             // Draw X
-            drawLine(x - 15, y - 15, x + 15, y + 15, 2, 255, 0, 0);
-            drawLine(x + 15, y - 15, x - 15, y + 15, 2, 255, 0, 0);
+            gfx.line(x - 15, y - 15, x + 15, y + 15, 2, 255, 0, 0);
+            gfx.line(x + 15, y - 15, x - 15, y + 15, 2, 255, 0, 0);
         }
     }
 };
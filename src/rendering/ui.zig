@@ -8,7 +8,7 @@ const Renderer = renderer_module.Renderer;
 const tower_module = @import("../entities/tower.zig");
 const TowerType = tower_module.TowerType;
 
-/// Game state enum
+/// Game state enum, values are reported to the frontend by getGameState
 pub const GameState = enum {
     Menu,
     Playing,
@@ -28,7 +28,8 @@ pub const UIManager = struct {
     }
 
     /// Draw the game UI
-    pub fn drawUI(self: UIManager, money: u32, lives: u32, wave: u32, selected_tower_type: TowerType) void {
+    /// final_wave: Wave that wins the level, 0 for endless play
+    pub fn drawUI(self: UIManager, money: u32, lives: u32, wave: u32, final_wave: u32, selected_tower_type: TowerType) void {
         // Draw money
         var money_text_buf: [32]u8 = undefined;
         const money_text = std.fmt.bufPrint(&money_text_buf, "Money: {d}", .{money}) catch "Money: ???";
@@ -41,20 +42,16 @@ pub const UIManager = struct {
 
         // Draw wave
         var wave_text_buf: [32]u8 = undefined;
-        const wave_text = std.fmt.bufPrint(&wave_text_buf, "Wave: {d}", .{wave}) catch "Wave: ???";
+        const wave_text = if (final_wave > 0)
+            std.fmt.bufPrint(&wave_text_buf, "Wave: {d}/{d}", .{ wave, final_wave }) catch "Wave: ???"
+        else
+            std.fmt.bufPrint(&wave_text_buf, "Wave: {d}", .{wave}) catch "Wave: ???";
         self.renderer.drawTextString(10, 60, wave_text, 16, 0, 255, 255);
 
         // Draw selected tower info
-        if (selected_tower_type != TowerType.None) {
+        if (selected_tower_type.getDef()) |def| {
             var tower_text_buf: [64]u8 = undefined;
-            const tower_cost = switch (selected_tower_type) {
-                .Line => constants.TOWER_COST_LINE,
-                .Triangle => constants.TOWER_COST_TRIANGLE,
-                .Square => constants.TOWER_COST_SQUARE,
-                .Pentagon => constants.TOWER_COST_PENTAGON,
-                .None => 0,
-            };
-            const tower_text = std.fmt.bufPrint(&tower_text_buf, "Selected: {s} (Cost: {d})", .{ @tagName(selected_tower_type), tower_cost }) catch "Selected Tower";
+            const tower_text = std.fmt.bufPrint(&tower_text_buf, "Selected: {s} (Cost: {d})", .{ def.getName(), def.cost }) catch "Selected Tower";
             self.renderer.drawTextString(self.renderer.canvas_width - 300, 20, tower_text, 16, 255, 255, 255);
         }
     }
@@ -84,7 +81,13 @@ pub const UIManager = struct {
     }
 
     /// Draw the game over screen
-    pub fn drawGameOver(self: UIManager) void {
+    pub fn drawGameOver(self: UIManager, victory: bool) void {
+        if (victory) {
+            const victory_text = "VICTORY - Click to play again";
+            self.renderer.drawTextString(self.renderer.canvas_width / 2 - 170, self.renderer.canvas_height / 2, victory_text, 30, 0, 255, 0);
+            return;
+        }
+
         const game_over_text = "GAME OVER - Click to restart";
         self.renderer.drawTextString(self.renderer.canvas_width / 2 - 150, self.renderer.canvas_height / 2, game_over_text, 30, 255, 0, 0);
     }
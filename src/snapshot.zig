@@ -0,0 +1,406 @@
+// snapshot.zig
+// Versioned binary save format for the full game state
+//
+// Layout (little-endian):
+//   magic "TDSV", version u16, reserved u16,
+//   game fields, level rules, current wave schedule, map (in the map wire layout), branch and spawn turns,
+//   towers, enemies, projectiles,
+//   FNV-1a checksum of everything before it (u32)
+
+const std = @import("std");
+const constants = @import("utils/constants.zig");
+const binary = @import("utils/binary.zig");
+const Writer = binary.Writer;
+const Reader = binary.Reader;
+const Game = @import("game.zig").Game;
+
+const tower_module = @import("entities/tower.zig");
+const TowerManager = tower_module.TowerManager;
+const TowerType = tower_module.TowerType;
+const Targeting = @import("entities/tower_catalog.zig").Targeting;
+
+const enemy_module = @import("entities/enemy.zig");
+const Enemy = enemy_module.Enemy;
+const EnemyManager = enemy_module.EnemyManager;
+const EnemyKind = @import("entities/enemy_types.zig").EnemyKind;
+const Wave = @import("entities/wave_script.zig").Wave;
+
+const projectile_module = @import("entities/projectile.zig");
+const ProjectileManager = projectile_module.ProjectileManager;
+
+const map_module = @import("entities/map.zig");
+const Map = map_module.Map;
+const Level = @import("entities/level.zig").Level;
+
+const GameState = @import("rendering/ui.zig").GameState;
+const Random = @import("utils/random.zig").Random;
+
+pub const MAGIC = "TDSV";
+pub const VERSION: u16 = 8;
+
+/// Largest snapshot the format can produce with every array full
+pub const MAX_SIZE: usize = 16384;
+
+pub const SnapshotError = binary.Error || error{
+    BadMagic,
+    UnsupportedVersion,
+    ChecksumMismatch,
+};
+
+/// Status codes returned to the frontend, must match SaveStatus in web/src/game/save-manager.ts
+pub fn statusCode(err: SnapshotError) u32 {
+    return switch (err) {
+        error.BufferTooSmall => 1,
+        error.UnexpectedEnd => 2,
+        error.BadMagic => 3,
+        error.UnsupportedVersion => 4,
+        error.ChecksumMismatch => 5,
+        error.InvalidData => 6,
+    };
+}
+
+/// FNV-1a hash used to detect corrupted saves
+fn checksum(bytes: []const u8) u32 {
+    var hash: u32 = 2166136261;
+    for (bytes) |byte| {
+        hash ^= byte;
+        hash *%= 16777619;
+    }
+    return hash;
+}
+
+/// Read the id of a tower type defined in the tower catalog
+fn readTowerType(r: *Reader) SnapshotError!TowerType {
+    const tower_type: TowerType = @enumFromInt(try r.readU8());
+    if (tower_type.getDef() == null) return error.InvalidData;
+    return tower_type;
+}
+
+/// Check the values drawing and updating an enemy rely on, the health bar and hit flash colours are converted to u8
+/// Written so NaN fails every comparison
+fn isValidEnemy(enemy: Enemy) bool {
+    for ([_]f32{ enemy.x, enemy.y, enemy.speed, enemy.progress }) |value| {
+        if (!std.math.isFinite(value)) return false;
+    }
+    if (!(enemy.max_health > 0 and std.math.isFinite(enemy.max_health))) return false;
+    if (!(enemy.health > 0 and enemy.health <= enemy.max_health)) return false;
+    return enemy.hit_flash >= 0 and enemy.hit_flash <= constants.ENEMY_HIT_FLASH_DURATION;
+}
+
+/// Count the enemies of a wave not spawned yet, rejecting a spawn position outside the wave
+fn countUnspawned(wave: *const Wave, group: usize, group_spawned: u32) SnapshotError!u32 {
+    if (group > wave.group_count) return error.InvalidData;
+    if (group == wave.group_count) {
+        if (group_spawned != 0) return error.InvalidData;
+        return 0;
+    }
+
+    const groups = wave.getGroups();
+    if (group_spawned >= groups[group].count) return error.InvalidData;
+
+    var remaining = groups[group].count - group_spawned;
+    for (groups[group + 1 ..]) |later| {
+        remaining += later.count;
+    }
+    return remaining;
+}
+
+/// Serialize the game into buf, returning the number of bytes written
+pub fn write(game: *const Game, buf: []u8) SnapshotError!usize {
+    var w = Writer{ .buf = buf };
+
+    try w.writeBytes(MAGIC);
+    try w.writeU16(VERSION);
+    try w.writeU16(0);
+
+    // Game fields
+    try w.writeU8(@intFromEnum(game.state));
+    try w.writeU32(game.money);
+    try w.writeU32(game.lives);
+    try w.writeU32(game.score);
+    try w.writeF32(game.wave_timer);
+    try w.writeU32(game.seed);
+    try w.writeU32(game.rng.state);
+    try w.writeU32(game.enemy_manager.wave);
+    try w.writeU32(@intCast(game.enemy_manager.group));
+    try w.writeU32(game.enemy_manager.group_spawned);
+    try w.writeF32(game.enemy_manager.spawn_timer);
+    try w.writeU8(@intFromEnum(game.tower_manager.selected_type));
+    try w.writeU32(game.tower_manager.next_id);
+
+    // Level rules
+    try game.level.write(&w);
+
+    // Schedule of the wave being spawned
+    try game.enemy_manager.current.write(&w);
+
+    // Map, then where round-robin branching and spawning have got to
+    try game.map.write(&w);
+    for (game.map.path.turns[0..game.map.path.length]) |turn| {
+        try w.writeU32(turn);
+    }
+    try w.writeU32(game.map.path.spawn_turn);
+
+    // Towers
+    try w.writeU32(@intCast(game.tower_manager.count));
+    for (game.tower_manager.towers[0..game.tower_manager.count]) |tower| {
+        try w.writeU32(tower.id);
+        try w.writeF32(tower.x);
+        try w.writeF32(tower.y);
+        try w.writeU8(@intFromEnum(tower.type));
+        try w.writeU32(tower.level);
+        try w.writeU8(@intFromEnum(tower.targeting));
+        try w.writeF32(tower.cooldown);
+        try w.writeU32(tower.kills);
+        try w.writeF32(tower.damage_dealt);
+    }
+
+    // Enemies
+    try w.writeU32(@intCast(game.enemy_manager.count));
+    for (game.enemy_manager.enemies[0..game.enemy_manager.count]) |enemy| {
+        try w.writeU8(@intFromEnum(enemy.kind));
+        try w.writeF32(enemy.x);
+        try w.writeF32(enemy.y);
+        try w.writeF32(enemy.health);
+        try w.writeF32(enemy.max_health);
+        try w.writeF32(enemy.speed);
+        try w.writeU32(enemy.value);
+        try w.writeU32(@intCast(enemy.path_index));
+        try w.writeF32(enemy.progress);
+        try w.writeF32(enemy.hit_flash);
+    }
+
+    // Projectiles
+    try w.writeU32(@intCast(game.projectile_manager.count));
+    for (game.projectile_manager.projectiles[0..game.projectile_manager.count]) |projectile| {
+        try w.writeF32(projectile.x);
+        try w.writeF32(projectile.y);
+        try w.writeF32(projectile.target_x);
+        try w.writeF32(projectile.target_y);
+        try w.writeF32(projectile.damage);
+        try w.writeU8(@intFromEnum(projectile.tower_type));
+        try w.writeU32(projectile.tower_id);
+        try w.writeF32(projectile.prev_x);
+        try w.writeF32(projectile.prev_y);
+    }
+
+    try w.writeU32(checksum(buf[0..w.pos]));
+    return w.pos;
+}
+
+/// Validate a snapshot and restore it into the game
+///
+/// The game is only modified once the whole snapshot has been read successfully.
+pub fn read(game: *Game, data: []const u8) SnapshotError!void {
+    if (data.len < MAGIC.len + 4 + 4) return error.UnexpectedEnd;
+    if (!std.mem.eql(u8, data[0..MAGIC.len], MAGIC)) return error.BadMagic;
+
+    const body = data[0 .. data.len - 4];
+    const stored_checksum = std.mem.readInt(u32, data[data.len - 4 ..][0..4], .little);
+
+    var r = Reader{ .data = body, .pos = MAGIC.len };
+    if (try r.readU16() != VERSION) return error.UnsupportedVersion;
+    _ = try r.readU16();
+
+    if (checksum(body) != stored_checksum) return error.ChecksumMismatch;
+
+    // Game fields
+    var state = try r.readEnum(GameState);
+    const money = try r.readU32();
+    const lives = try r.readU32();
+    const score = try r.readU32();
+    const wave_timer = try r.readF32();
+    const seed = try r.readU32();
+    const rng = Random.init(try r.readU32());
+
+    var enemy_manager = EnemyManager.init();
+    enemy_manager.wave = try r.readU32();
+    enemy_manager.group = try r.readU32();
+    enemy_manager.group_spawned = try r.readU32();
+    enemy_manager.spawn_timer = try r.readF32();
+
+    var tower_manager = TowerManager.init();
+    tower_manager.selected_type = @enumFromInt(try r.readU8());
+    if (tower_manager.selected_type != TowerType.None and tower_manager.selected_type.getDef() == null) return error.InvalidData;
+    tower_manager.next_id = try r.readU32();
+
+    // Level rules, the selected tower type must be one the level allows
+    const level = try Level.read(&r);
+    if (tower_manager.selected_type != TowerType.None and !level.allowsTower(@intFromEnum(tower_manager.selected_type))) return error.InvalidData;
+
+    // Schedule of the wave being spawned, the enemies still to come are counted from the spawn position
+    enemy_manager.current = try Wave.read(&r);
+    enemy_manager.enemies_to_spawn = try countUnspawned(&enemy_manager.current, enemy_manager.group, enemy_manager.group_spawned);
+
+    // Map, then where round-robin branching and spawning have got to
+    var map = try Map.read(&r);
+    for (map.path.turns[0..map.path.length]) |*turn| {
+        turn.* = try r.readU32();
+    }
+    map.path.spawn_turn = try r.readU32();
+
+    // Towers
+    tower_manager.count = try r.readCount(constants.MAX_TOWERS);
+    for (tower_manager.towers[0..tower_manager.count]) |*tower| {
+        const id = try r.readU32();
+        const x = try r.readF32();
+        const y = try r.readF32();
+        const tower_type = try readTowerType(&r);
+        const tower_level = try r.readU32();
+        if (id == 0 or id >= tower_manager.next_id) return error.InvalidData;
+        if (tower_level < 1 or tower_level > constants.TOWER_MAX_LEVEL) return error.InvalidData;
+
+        // Stats are rebuilt from the catalog by replaying the upgrades
+        tower.* = tower_module.Tower.init(id, x, y, tower_type, tower_type.getDef().?);
+        while (tower.level < tower_level) {
+            tower.upgrade(tower.getUpgradeCost().?);
+        }
+        tower.targeting = try r.readEnum(Targeting);
+        tower.cooldown = try r.readF32();
+        tower.kills = try r.readU32();
+        tower.damage_dealt = try r.readF32();
+    }
+
+    // Enemies
+    enemy_manager.count = try r.readCount(constants.MAX_ENEMIES);
+    for (enemy_manager.enemies[0..enemy_manager.count]) |*enemy| {
+        const kind = try r.readEnum(EnemyKind);
+        const x = try r.readF32();
+        const y = try r.readF32();
+        const health = try r.readF32();
+        const max_health = try r.readF32();
+        const speed = try r.readF32();
+        const value = try r.readU32();
+
+        enemy.* = Enemy.init(kind, x, y, max_health, speed, value);
+        enemy.health = health;
+        enemy.path_index = try r.readU32();
+        enemy.progress = try r.readF32();
+        enemy.hit_flash = try r.readF32();
+        if (enemy.path_index >= map.path.length or !isValidEnemy(enemy.*)) return error.InvalidData;
+    }
+
+    // Projectiles
+    var projectile_manager = ProjectileManager.init();
+    projectile_manager.count = try r.readCount(constants.MAX_PROJECTILES);
+    for (projectile_manager.projectiles[0..projectile_manager.count]) |*projectile| {
+        const x = try r.readF32();
+        const y = try r.readF32();
+        const target_x = try r.readF32();
+        const target_y = try r.readF32();
+        const damage = try r.readF32();
+        const tower_type = try readTowerType(&r);
+        const tower_id = try r.readU32();
+
+        projectile.* = projectile_module.Projectile.init(x, y, target_x, target_y, damage, tower_type, tower_id);
+        projectile.prev_x = try r.readF32();
+        projectile.prev_y = try r.readF32();
+    }
+
+    if (r.pos != body.len) return error.InvalidData;
+
+    // A save made on the menu screen resumes straight into play
+    if (state == GameState.Menu) state = GameState.Playing;
+
+    game.state = state;
+    game.money = money;
+    game.lives = lives;
+    game.score = score;
+    game.wave_timer = wave_timer;
+    game.seed = seed;
+    game.rng = rng;
+    game.tower_manager = tower_manager;
+    game.enemy_manager = enemy_manager;
+    game.projectile_manager = projectile_manager;
+    game.map = map;
+    game.level = level;
+    game.static_layer_dirty = true;
+}
+
+// A game with one enemy on the path, built from the parts snapshots save so no host imports are needed
+fn testGame() Game {
+    var game: Game = undefined;
+    game.state = GameState.Playing;
+    game.money = 100;
+    game.lives = 10;
+    game.score = 0;
+    game.wave_timer = 0;
+    game.seed = 1;
+    game.rng = Random.init(1);
+    game.tower_manager = TowerManager.init();
+    game.enemy_manager = EnemyManager.init();
+    game.map = map_module.get();
+    game.level = Level.endless();
+
+    const start = game.map.path.points[0];
+    game.enemy_manager.enemies[0] = Enemy.init(EnemyKind.Normal, start.x, start.y, 50, 40, 5);
+    game.enemy_manager.count = 1;
+    return game;
+}
+
+// Save the test game after corrupting its enemy, with a checksum that still matches, and load the save back
+fn readCorruptEnemy(corrupt: *const fn (*Enemy) void) SnapshotError!void {
+    var game = testGame();
+    corrupt(&game.enemy_manager.enemies[0]);
+
+    var buf: [MAX_SIZE]u8 = undefined;
+    const len = try write(&game, &buf);
+    var loaded = testGame();
+    return read(&loaded, buf[0..len]);
+}
+
+test "read accepts an enemy with valid values" {
+    const Keep = struct {
+        fn corrupt(_: *Enemy) void {}
+    };
+    try readCorruptEnemy(&Keep.corrupt);
+}
+
+test "read rejects enemies whose values would trap when drawn" {
+    const cases = [_]*const fn (*Enemy) void{
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.health = enemy.max_health * 2;
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.health = -1;
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.health = std.math.nan(f32);
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.max_health = std.math.nan(f32);
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.hit_flash = constants.ENEMY_HIT_FLASH_DURATION * 10;
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.hit_flash = -1;
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.x = std.math.inf(f32);
+            }
+        }.corrupt,
+        &struct {
+            fn corrupt(enemy: *Enemy) void {
+                enemy.progress = std.math.nan(f32);
+            }
+        }.corrupt,
+    };
+
+    for (cases) |corrupt| {
+        try std.testing.expectError(error.InvalidData, readCorruptEnemy(corrupt));
+    }
+}
@@ -0,0 +1,86 @@
+// binary.zig
+// Little-endian readers and writers for the binary formats shared with the frontend
+
+const std = @import("std");
+
+pub const Error = error{
+    BufferTooSmall,
+    UnexpectedEnd,
+    InvalidData,
+};
+
+pub const Writer = struct {
+    buf: []u8,
+    pos: usize = 0,
+
+    pub fn writeBytes(self: *Writer, bytes: []const u8) Error!void {
+        if (self.pos + bytes.len > self.buf.len) return error.BufferTooSmall;
+        @memcpy(self.buf[self.pos .. self.pos + bytes.len], bytes);
+        self.pos += bytes.len;
+    }
+
+    pub fn writeU8(self: *Writer, value: u8) Error!void {
+        try self.writeBytes(&[_]u8{value});
+    }
+
+    pub fn writeU16(self: *Writer, value: u16) Error!void {
+        var tmp: [2]u8 = undefined;
+        std.mem.writeInt(u16, &tmp, value, .little);
+        try self.writeBytes(&tmp);
+    }
+
+    pub fn writeU32(self: *Writer, value: u32) Error!void {
+        var tmp: [4]u8 = undefined;
+        std.mem.writeInt(u32, &tmp, value, .little);
+        try self.writeBytes(&tmp);
+    }
+
+    pub fn writeF32(self: *Writer, value: f32) Error!void {
+        try self.writeU32(@bitCast(value));
+    }
+};
+
+pub const Reader = struct {
+    data: []const u8,
+    pos: usize = 0,
+
+    pub fn readBytes(self: *Reader, len: usize) Error![]const u8 {
+        if (self.pos + len > self.data.len) return error.UnexpectedEnd;
+        const bytes = self.data[self.pos .. self.pos + len];
+        self.pos += len;
+        return bytes;
+    }
+
+    pub fn readU8(self: *Reader) Error!u8 {
+        const bytes = try self.readBytes(1);
+        return bytes[0];
+    }
+
+    pub fn readU16(self: *Reader) Error!u16 {
+        const bytes = try self.readBytes(2);
+        return std.mem.readInt(u16, bytes[0..2], .little);
+    }
+
+    pub fn readU32(self: *Reader) Error!u32 {
+        const bytes = try self.readBytes(4);
+        return std.mem.readInt(u32, bytes[0..4], .little);
+    }
+
+    /// Read a float, rejecting NaN and infinity
+    pub fn readF32(self: *Reader) Error!f32 {
+        const value: f32 = @bitCast(try self.readU32());
+        if (!std.math.isFinite(value)) return error.InvalidData;
+        return value;
+    }
+
+    /// Read an element count, rejecting counts above the array capacity
+    pub fn readCount(self: *Reader, max: usize) Error!usize {
+        const count = try self.readU32();
+        if (count > max) return error.InvalidData;
+        return count;
+    }
+
+    pub fn readEnum(self: *Reader, comptime T: type) Error!T {
+        return std.meta.intToEnum(T, try self.readU8()) catch return error.InvalidData;
+    }
+};
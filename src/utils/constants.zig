@@ -6,6 +6,7 @@ pub const GRID_SIZE: f32 = 40;
 pub const GRID_COLS: u32 = 20;
 pub const GRID_ROWS: u32 = 15;
 
+// Built-in tower catalog, a balance file loaded by the frontend can replace it
 // Tower costs
 pub const TOWER_COST_LINE: u32 = 50;
 pub const TOWER_COST_TRIANGLE: u32 = 100;
@@ -30,11 +31,20 @@ pub const TOWER_COOLDOWN_TRIANGLE: f32 = 1.0;
 pub const TOWER_COOLDOWN_SQUARE: f32 = 0.8;
 pub const TOWER_COOLDOWN_PENTAGON: f32 = 1.5;
 
+// Tower upgrades
+pub const TOWER_MAX_LEVEL: u32 = 3;
+pub const TOWER_UPGRADE_COST_PERCENT: u32 = 75; // Upgrading from level n costs n times this share of the base cost
+pub const TOWER_UPGRADE_DAMAGE_SCALE: f32 = 1.3;
+pub const TOWER_UPGRADE_RANGE_SCALE: f32 = 1.1;
+pub const TOWER_UPGRADE_COOLDOWN_SCALE: f32 = 0.85;
+pub const TOWER_SELL_REFUND_PERCENT: u32 = 70; // Share of the money spent on a tower returned when it is sold
+
 // Game settings
 pub const INITIAL_MONEY: u32 = 250;
 pub const INITIAL_LIVES: u32 = 20;
 pub const WAVE_COOLDOWN: f32 = 5.0;
 pub const ENEMY_SPAWN_INTERVAL: f32 = 1.0;
+pub const ENEMY_SPAWN_JITTER: f32 = 0.2; // Random offset applied to each spawn interval
 
 // Enemy settings
 pub const ENEMY_BASE_HEALTH: f32 = 20.0;
@@ -44,14 +54,36 @@ pub const ENEMY_SPEED_SCALING: f32 = 2.0;
 pub const ENEMY_BASE_VALUE: u32 = 5;
 pub const ENEMY_RADIUS: f32 = 15;
 pub const ENEMY_HIT_FLASH_DURATION: f32 = 0.2;
+pub const ENEMY_ARMOR_MIN_DAMAGE_SHARE: f32 = 0.25; // Armor never cuts a hit below this share of its damage
+pub const HEALER_RADIUS: f32 = 80.0;
+pub const SPLIT_HEALTH_SHARE: f32 = 0.3; // Each splitling's health, as a share of the splitter's max health
+pub const SPLIT_SPEED_SCALE: f32 = 1.25;
+pub const SPLIT_SPREAD: f32 = 10.0; // Distance between splitlings released by the same splitter
+
+// Wave script settings
+pub const DEFAULT_WAVE_COUNT: usize = 10; // Waves in the built-in script, the last one brings a boss
+pub const WAVE_ENDLESS_HEALTH_SCALING: f32 = 0.15; // Health added per wave played past the end of the script, as a share of the last wave's
+
+// Score settings
+pub const SCORE_PER_BOUNTY: u32 = 10; // Score awarded per unit of enemy bounty
+pub const SCORE_WAVE_BONUS: u32 = 100; // Multiplied by the wave number when a wave is cleared
 
 // Projectile settings
 pub const PROJECTILE_SPEED: f32 = 300;
 pub const SPLASH_RADIUS: f32 = 50.0;
 pub const SLOW_EFFECT: f32 = 0.8;
+pub const SPLASH_IMPACT_TIME: f32 = 0.5; // Seconds splash impacts are remembered for the debug overlay
 
 // Array size limits
 pub const MAX_TOWERS: usize = 100;
 pub const MAX_ENEMIES: usize = 100;
 pub const MAX_PROJECTILES: usize = 200;
-pub const MAX_PATH_POINTS: usize = 20;
+pub const MAX_SPLASH_IMPACTS: usize = 16;
+pub const MAX_PATH_POINTS: usize = 32;
+pub const MAX_PATH_BRANCHES: usize = 4; // Branches leaving any one waypoint
+pub const MAX_SPAWN_POINTS: usize = 4;
+pub const SPAWN_ANY: u8 = 0xFF; // Wave group spawn point meaning take the map's spawn points in turn
+pub const MAX_TOWER_TYPES: usize = 16;
+pub const MAX_TOWER_NAME_LEN: usize = 16;
+pub const MAX_WAVES: usize = 50;
+pub const MAX_WAVE_GROUPS: usize = 8;
@@ -0,0 +1,77 @@
+// events.zig
+// Game lifecycle events sent to the TypeScript frontend
+
+// WASM import for the event channel
+extern "env" fn emitGameEvent(event_type: u32, a: f32, b: f32, c: f32) void;
+
+/// Event types, must match GameEventType in web/src/wasm/game-events.ts
+pub const EventType = enum(u32) {
+    WaveStarted = 1,
+    WaveCleared = 2,
+    EnemyKilled = 3,
+    LifeLost = 4,
+    TowerPlaced = 5,
+    TowerRejected = 6,
+    GameOver = 7,
+    TowerUpgraded = 8,
+    TowerSold = 9,
+    EnemyDiscovered = 10,
+};
+
+fn emit(event_type: EventType, a: f32, b: f32, c: f32) void {
+    emitGameEvent(@intFromEnum(event_type), a, b, c);
+}
+
+fn toF32(value: u32) f32 {
+    return @floatFromInt(value);
+}
+
+/// A new wave has started spawning
+pub fn waveStarted(wave: u32, enemy_count: u32, boss: bool) void {
+    emit(.WaveStarted, toF32(wave), toF32(enemy_count), if (boss) 1 else 0);
+}
+
+/// Every enemy of the wave has been killed or has escaped
+pub fn waveCleared(wave: u32, bonus: u32) void {
+    emit(.WaveCleared, toF32(wave), toF32(bonus), 0);
+}
+
+/// An enemy was killed and its bounty paid out
+pub fn enemyKilled(x: f32, y: f32, bounty: u32) void {
+    emit(.EnemyKilled, x, y, toF32(bounty));
+}
+
+/// An enemy reached the end of the path
+pub fn lifeLost(lives_remaining: u32) void {
+    emit(.LifeLost, toF32(lives_remaining), 0, 0);
+}
+
+/// A tower was placed on the grid
+pub fn towerPlaced(x: f32, y: f32, tower_type: u32) void {
+    emit(.TowerPlaced, x, y, toF32(tower_type));
+}
+
+/// A tower placement was refused, reason is a PlacementResult value
+pub fn towerRejected(x: f32, y: f32, reason: u32) void {
+    emit(.TowerRejected, x, y, toF32(reason));
+}
+
+/// A tower was upgraded to a new level
+pub fn towerUpgraded(x: f32, y: f32, level: u32) void {
+    emit(.TowerUpgraded, x, y, toF32(level));
+}
+
+/// A tower was sold and part of its cost refunded
+pub fn towerSold(x: f32, y: f32, refund: u32) void {
+    emit(.TowerSold, x, y, toF32(refund));
+}
+
+/// An enemy archetype appeared for the first time this game, kind is an EnemyKind value
+pub fn enemyDiscovered(kind: u32, health: f32, speed: f32) void {
+    emit(.EnemyDiscovered, toF32(kind), health, speed);
+}
+
+/// The game has ended
+pub fn gameOver(victory: bool, score: u32, wave: u32) void {
+    emit(.GameOver, if (victory) 1 else 0, toF32(score), toF32(wave));
+}
@@ -75,6 +75,11 @@ pub const Vector2 = struct {
     }
 };
 
+/// Linearly interpolate between two values
+pub fn lerp(a: f32, b: f32, t: f32) f32 {
+    return a + (b - a) * t;
+}
+
 /// Check if a point is inside a circle
 pub fn pointInCircle(point_x: f32, point_y: f32, circle_x: f32, circle_y: f32, radius: f32) bool {
     const dx = point_x - circle_x;
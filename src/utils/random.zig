@@ -0,0 +1,36 @@
+// random.zig
+// Seedable pseudo-random number generator for deterministic simulation
+
+/// Seed used until the frontend picks one
+pub const DEFAULT_SEED: u32 = 0x9E3779B9;
+
+/// Xorshift32 generator, small enough to store in save snapshots and replays
+pub const Random = struct {
+    state: u32,
+
+    /// Create a generator from a seed
+    pub fn init(seed: u32) Random {
+        // Xorshift never leaves an all-zero state
+        return Random{ .state = if (seed == 0) DEFAULT_SEED else seed };
+    }
+
+    /// Get the next 32-bit value
+    pub fn next(self: *Random) u32 {
+        var x = self.state;
+        x ^= x << 13;
+        x ^= x >> 17;
+        x ^= x << 5;
+        self.state = x;
+        return x;
+    }
+
+    /// Get a float in [0, 1)
+    pub fn float(self: *Random) f32 {
+        return @as(f32, @floatFromInt(self.next() >> 8)) / 16777216.0;
+    }
+
+    /// Get a float in [min, max)
+    pub fn range(self: *Random, min: f32, max: f32) f32 {
+        return min + (max - min) * self.float();
+    }
+};
@@ -0,0 +1,30 @@
+// sounds.zig
+// Sound effects requested from the TypeScript frontend, placed in the world so they can be panned
+
+const std = @import("std");
+
+// WASM import for the sound channel, x and y are NaN for sounds that aren't placed in the world
+extern "env" fn playSound(sound: u32, x: f32, y: f32, variant: u32) void;
+
+/// Sound effects, must match SoundType in web/src/wasm/game-events.ts
+pub const Sound = enum(u32) {
+    TowerShoot = 1, // Variant is the tower catalog id
+    EnemyHit = 2, // Variant is the EnemyKind value
+    EnemyExplosion = 3, // Variant is the EnemyKind value
+    TowerPlaced = 4, // Variant is the tower catalog id
+    TowerRejected = 5,
+    WaveStarted = 6, // Variant is 1 for boss waves
+    WaveCleared = 7,
+    Victory = 8,
+    Defeat = 9,
+};
+
+/// Play a sound coming from a point on the playfield
+pub fn playAt(sound: Sound, x: f32, y: f32, variant: u32) void {
+    playSound(@intFromEnum(sound), x, y, variant);
+}
+
+/// Play a sound that isn't placed in the world
+pub fn play(sound: Sound, variant: u32) void {
+    playSound(@intFromEnum(sound), std.math.nan(f32), std.math.nan(f32), variant);
+}
@@ -0,0 +1,193 @@
+// Web Audio engine: sounds decoded once into AudioBuffers and played through master, effects and music gain buses
+
+/**
+ * Gain stages of the mix, effects and music both feed master
+ */
+export type AudioBus = 'master' | 'sfx' | 'music';
+
+export const AUDIO_BUSES: AudioBus[] = ['master', 'sfx', 'music'];
+
+// Most copies of one sound playing at once, the oldest is cut off to make room for a new one
+const DEFAULT_MAX_VOICES = 4;
+
+interface Voice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * How a single play of a sound is shaped
+ */
+export interface PlayOptions {
+  volume?: number; // Gain from 0, defaults to 1
+  rate?: number; // Playback rate, raising or lowering the pitch with it, defaults to 1
+  pan?: number; // Stereo position from -1 (left) to 1 (right), defaults to the centre
+}
+
+/**
+ * Check whether the browser has the Web Audio API
+ */
+export function isWebAudioSupported(): boolean {
+  return typeof AudioContext !== 'undefined';
+}
+
+export class AudioEngine {
+  private context: AudioContext;
+  private buses: Record<AudioBus, GainNode>;
+  private maxVoices: number;
+  private buffers = new Map<string, AudioBuffer>(); // By sound name
+  private decoding = new Map<string, Promise<AudioBuffer>>(); // By URL, so a file shared by several sounds is decoded once
+  private voices = new Map<string, Voice[]>(); // Playing copies by sound name, oldest first
+  private music: AudioBufferSourceNode | null = null;
+
+  /**
+   * @param context Context to play through, browsers start it suspended until a user gesture resumes it
+   * @param maxVoices Most copies of one sound playing at once
+   */
+  constructor(context: AudioContext, maxVoices: number = DEFAULT_MAX_VOICES) {
+    this.context = context;
+    this.maxVoices = maxVoices;
+
+    const master = context.createGain();
+    master.connect(context.destination);
+    const sfx = context.createGain();
+    sfx.connect(master);
+    const music = context.createGain();
+    music.connect(master);
+    this.buses = { master, sfx, music };
+  }
+
+  /**
+   * Fetch and decode a sound file under a name
+   */
+  async load(name: string, url: string): Promise<void> {
+    let buffer = this.decoding.get(url);
+    if (!buffer) {
+      buffer = this.decode(url);
+      this.decoding.set(url, buffer);
+      // Let a failed file be tried again by the next sound that uses it
+      buffer.catch(() => this.decoding.delete(url));
+    }
+    this.buffers.set(name, await buffer);
+  }
+
+  private async decode(url: string): Promise<AudioBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return this.context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  /**
+   * Check whether a sound has been loaded
+   */
+  has(name: string): boolean {
+    return this.buffers.has(name);
+  }
+
+  /**
+   * Check whether the context is allowed to play
+   */
+  isRunning(): boolean {
+    return this.context.state === 'running';
+  }
+
+  /**
+   * Resume the context, call from a user gesture to satisfy the autoplay policy
+   */
+  async resume(): Promise<void> {
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  /**
+   * Set the gain of a bus, from 0 to 1
+   */
+  setVolume(bus: AudioBus, volume: number): void {
+    this.buses[bus].gain.value = volume;
+  }
+
+  /**
+   * Play a sound once on the effects bus, cutting off its oldest copy if it is already playing maxVoices times
+   * @returns False if the sound isn't loaded
+   */
+  play(name: string, options: PlayOptions = {}): boolean {
+    const buffer = this.buffers.get(name);
+    if (!buffer) return false;
+
+    // Sounds started while suspended would all play at once on resume, so drop them instead
+    if (!this.isRunning()) return true;
+
+    const voices = this.voices.get(name) ?? [];
+    while (voices.length >= this.maxVoices) {
+      voices.shift()?.source.stop();
+    }
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = options.rate ?? 1;
+    const gain = this.context.createGain();
+    gain.gain.value = options.volume ?? 1;
+    source.connect(gain);
+
+    // Older browsers without StereoPannerNode play every sound centred
+    const panner = options.pan && this.context.createStereoPanner ? this.context.createStereoPanner() : null;
+    if (panner) {
+      panner.pan.value = options.pan ?? 0;
+      gain.connect(panner).connect(this.buses.sfx);
+    } else {
+      gain.connect(this.buses.sfx);
+    }
+
+    const voice: Voice = { source, gain };
+    source.addEventListener('ended', () => {
+      const index = voices.indexOf(voice);
+      if (index >= 0) voices.splice(index, 1);
+      gain.disconnect();
+      panner?.disconnect();
+    });
+    source.start();
+
+    voices.push(voice);
+    this.voices.set(name, voices);
+    return true;
+  }
+
+  /**
+   * Loop a sound on the music bus, replacing the music playing
+   * @returns False if the sound isn't loaded
+   */
+  startMusic(name: string): boolean {
+    const buffer = this.buffers.get(name);
+    if (!buffer) return false;
+
+    this.stopMusic();
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(this.buses.music);
+    source.start();
+    this.music = source;
+    return true;
+  }
+
+  /**
+   * Stop the music, if any is playing
+   */
+  stopMusic(): void {
+    if (!this.music) return;
+
+    this.music.stop();
+    this.music.disconnect();
+    this.music = null;
+  }
+
+  /**
+   * Check whether music is playing
+   */
+  isMusicPlaying(): boolean {
+    return this.music !== null;
+  }
+}
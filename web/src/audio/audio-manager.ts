@@ -1,4 +1,7 @@
 // Audio manager for handling game sounds and music
+import type { GameEventBus, SoundName } from '../wasm/game-events';
+import { AUDIO_BUSES, AudioEngine, isWebAudioSupported } from './audio-engine';
+import type { AudioBus } from './audio-engine';
 
 interface Logger {
   log(message: string): void;
@@ -6,72 +9,137 @@ interface Logger {
   warn(message: string): void;
 }
 
-interface SoundMap {
-  [key: string]: HTMLAudioElement;
+/**
+ * Volumes of the mixer buses, from 0 to 1, and the mute toggle
+ */
+export interface MixerSettings {
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
 }
 
+const DEFAULT_MIXER: MixerSettings = { master: 1, sfx: 0.7, music: 0.3, muted: false };
+
+const STORAGE_KEY = 'towerd.mixer';
+
+const MUSIC = 'music';
+
+// Sound files, several sounds share a file and it is decoded once
+const SOUND_FILES: Record<SoundName | typeof MUSIC, string> = {
+  towerShoot: 'audio/tower-shoot.ogg',
+  enemyHit: 'audio/enemy-hit.ogg',
+  enemyExplosion: 'audio/enemy-explosion.ogg',
+  towerPlaced: 'audio/tower-shoot.ogg',
+  towerRejected: 'audio/enemy-hit.ogg',
+  towerSelected: 'audio/tower-shoot.ogg',
+  waveStarted: 'audio/enemy-explosion.ogg',
+  waveCleared: 'audio/level-complete.ogg',
+  victory: 'audio/level-complete.ogg',
+  defeat: 'audio/level-fail.ogg',
+
+  // Use level-complete as background music since we don't have a dedicated one
+  [MUSIC]: 'audio/level-complete.ogg'
+};
+
+// Samples replacing a sound for one variant: a tower catalog id, an EnemyKind index or 1 for boss waves
+const VARIANT_FILES: Partial<Record<SoundName, Record<number, string>>> = {
+  towerShoot: { 2: 'audio/enemy-explosion.ogg' }, // The splash tower fires shells
+  waveStarted: { 1: 'audio/level-fail.ogg' }
+};
+
+/**
+ * Random spread applied to each play of a sound, so repeats don't sound identical
+ */
+interface Variation {
+  pitch: number; // Largest change in playback rate either way, as a fraction
+  volume: number; // Largest drop in volume, as a fraction
+}
+
+const VARIATIONS: Partial<Record<SoundName, Variation>> = {
+  towerShoot: { pitch: 0.08, volume: 0.25 },
+  enemyHit: { pitch: 0.12, volume: 0.3 },
+  enemyExplosion: { pitch: 0.06, volume: 0.15 }
+};
+
+// Sounds at the edge of the playfield are panned this far, so neither side goes silent in one ear
+const MAX_PAN = 0.7;
+
 export class AudioManager {
-  private sounds: SoundMap = {};
-  private backgroundMusic: HTMLAudioElement | null = null;
+  private engine: AudioEngine | null = null;
   private logger: Logger;
-  private isMuted: boolean = false;
+  private storage: Storage | null;
+  private mixer: MixerSettings = { ...DEFAULT_MIXER };
+  private worldWidth: number = 800; // Width of the playfield, placed sounds are panned across it
+  private wantsMusic: boolean = false; // Music was asked for, it starts once the context may play
+  private isSuppressed: boolean = false; // Silenced while fast-forwarding, without changing the mute setting
 
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, storage?: Storage | null) {
     this.logger = logger || console;
+    this.storage = storage !== undefined ? storage : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.load();
+
+    if (isWebAudioSupported()) {
+      this.engine = new AudioEngine(new AudioContext());
+      this.applyMixer();
+    } else {
+      this.logger.warn('Web Audio is not supported, the game will be silent');
+    }
+  }
+
+  /**
+   * Play the sounds requested by the game
+   */
+  bindEvents(events: GameEventBus): void {
+    events.on('sound', ({ name, x, variant }) => this.playSound(name, x, variant));
+  }
+
+  /**
+   * Set the width of the playfield sounds are panned across
+   */
+  setWorldWidth(width: number): void {
+    if (width > 0) this.worldWidth = width;
+  }
+
+  /**
+   * Resume audio on the first click, tap or key press, browsers don't let pages play sound before one
+   */
+  bindUnlock(target: EventTarget = window): void {
+    const unlock = () => {
+      target.removeEventListener('pointerdown', unlock);
+      target.removeEventListener('keydown', unlock);
+      this.engine?.resume()
+        .then(() => this.updateMusic())
+        .catch(err => this.logger.warn(`Audio could not be started: ${err}`));
+    };
+    target.addEventListener('pointerdown', unlock);
+    target.addEventListener('keydown', unlock);
   }
 
   /**
    * Load all game sound effects and music
    */
   async loadSounds(): Promise<void> {
+    const engine = this.engine;
+    if (!engine) return;
+
     try {
       this.logger.log('Loading audio assets...');
 
-      // Define sound effects to load - only using the available .ogg files
-      const soundEffects = {
-        // Original sounds that exist in the public directory
-        'enemyHit': 'audio/enemy-hit.ogg',
-        'levelComplete': 'audio/level-complete.ogg',
-        'levelFail': 'audio/level-fail.ogg',
-        'towerShoot': 'audio/tower-shoot.ogg',
-        'enemyExplosion': 'audio/enemy-explosion.ogg',
-        
-        // Map missing sounds to existing ones
-        'place': 'audio/tower-shoot.ogg',     // Use tower-shoot for place
-        'shoot': 'audio/tower-shoot.ogg',     // Use tower-shoot for shoot
-        'hit': 'audio/enemy-hit.ogg',         // Use enemy-hit for hit
-        'error': 'audio/enemy-hit.ogg',       // Use enemy-hit for error
-        'wave': 'audio/enemy-explosion.ogg',  // Use enemy-explosion for wave
-        'victory': 'audio/level-complete.ogg', // Use level-complete for victory
-        'defeat': 'audio/level-fail.ogg',     // Use level-fail for defeat
-        'select': 'audio/tower-shoot.ogg'     // Use tower-shoot for select
-      };
-
-      // Load each sound effect
-      const promises = Object.entries(soundEffects).map(async ([name, path]) => {
+      const files: [string, string][] = Object.entries(SOUND_FILES);
+      for (const [name, variants] of Object.entries(VARIANT_FILES)) {
+        for (const [variant, path] of Object.entries(variants)) files.push([variantName(name, Number(variant)), path]);
+      }
+
+      await Promise.all(files.map(async ([name, path]) => {
         try {
-          const audio = new Audio(path);
-          await this.preloadAudio(audio);
-          this.sounds[name] = audio;
+          await engine.load(name, path);
           this.logger.log(`Loaded audio: ${name}`);
         } catch (err) {
-          this.logger.warn(`Failed to load sound: ${name} (${path})`);
+          this.logger.warn(`Failed to load sound: ${name} (${path}): ${err}`);
         }
-      });
-
-      // Use level-complete as background music since we don't have a dedicated one
-      try {
-        this.backgroundMusic = new Audio('audio/level-complete.ogg');
-        this.backgroundMusic.loop = true;
-        this.backgroundMusic.volume = 0.3; // Lower volume for background music
-        await this.preloadAudio(this.backgroundMusic);
-        this.logger.log('Background music loaded');
-      } catch (err) {
-        this.logger.warn('Failed to load background music');
-      }
+      }));
 
-      // Wait for all sounds to load
-      await Promise.all(promises);
       this.logger.log('All audio files loaded successfully');
     } catch (error) {
       this.logger.error(`Error loading audio: ${error}`);
@@ -79,105 +147,168 @@ export class AudioManager {
     }
   }
 
-  /**
-   * Preload an audio element by forcing it to load its data
-   */
-  private preloadAudio(audio: HTMLAudioElement): Promise<void> {
-    return new Promise((resolve, reject) => {
-      audio.addEventListener('canplaythrough', () => resolve(), { once: true });
-      audio.addEventListener('error', (e) => reject(e), { once: true });
-      audio.load();
-    });
-  }
-
   /**
    * Play a sound effect by name
+   * @param x Position on the playfield to pan the sound to, null to play it centred
+   * @param variant Picks the variant's own sample if it has one, see VARIANT_FILES
    */
-  playSound(name: string): void {
-    if (this.isMuted) return;
-    
-    const sound = this.sounds[name];
-    if (sound) {
-      // Clone the audio to allow overlapping sounds
-      const clone = sound.cloneNode() as HTMLAudioElement;
-      clone.volume = 0.7;
-      clone.play().catch(err => this.logger.error(`Error playing sound ${name}: ${err}`));
-    } else {
+  playSound(name: SoundName, x: number | null = null, variant: number = 0): void {
+    const engine = this.engine;
+    if (!engine || this.mixer.muted || this.isSuppressed) return;
+
+    const sample = engine.has(variantName(name, variant)) ? variantName(name, variant) : name;
+    const variation = VARIATIONS[name];
+    const pan = x === null ? 0 : (Math.min(Math.max(x / this.worldWidth, 0), 1) * 2 - 1) * MAX_PAN;
+    const played = engine.play(sample, {
+      pan,
+      rate: variation ? 1 + (Math.random() * 2 - 1) * variation.pitch : 1,
+      volume: variation ? 1 - Math.random() * variation.volume : 1
+    });
+    if (!played) {
       this.logger.warn(`Sound not found: ${name}`);
     }
   }
 
   /**
-   * Play background music
+   * Play background music, from the first user gesture if there hasn't been one yet
    */
   playBackgroundMusic(): void {
-    if (this.isMuted || !this.backgroundMusic) return;
-    
-    this.backgroundMusic.currentTime = 0;
-    this.backgroundMusic.play().catch(err => 
-      this.logger.error(`Error playing background music: ${err}`)
-    );
+    this.wantsMusic = true;
+    this.engine?.stopMusic();
+    this.updateMusic();
   }
 
   /**
    * Stop background music
    */
   stopBackgroundMusic(): void {
-    if (!this.backgroundMusic) return;
-    
-    this.backgroundMusic.pause();
-    this.backgroundMusic.currentTime = 0;
+    this.wantsMusic = false;
+    this.engine?.stopMusic();
   }
 
   /**
    * Toggle mute state for all audio
    */
   toggleMute(): boolean {
-    this.isMuted = !this.isMuted;
-    
-    if (this.isMuted) {
-      this.stopBackgroundMusic();
-    } else if (this.backgroundMusic) {
-      this.playBackgroundMusic();
+    this.setMuted(!this.mixer.muted);
+    return this.mixer.muted;
+  }
+
+  /**
+   * Mute or unmute all audio, music carries on silently while muted
+   */
+  setMuted(muted: boolean): void {
+    this.mixer.muted = muted;
+    this.applyMixer();
+    this.save();
+  }
+
+  /**
+   * Set the volume of a mixer bus, from 0 to 1
+   */
+  setVolume(bus: AudioBus, volume: number): void {
+    this.mixer[bus] = Math.min(Math.max(volume, 0), 1);
+    this.applyMixer();
+    this.save();
+  }
+
+  /**
+   * Get the mixer volumes and mute setting
+   */
+  getMixer(): Readonly<MixerSettings> {
+    return this.mixer;
+  }
+
+  /**
+   * Temporarily silence sound effects, e.g. while a replay is fast-forwarded
+   */
+  setSuppressed(suppressed: boolean): void {
+    this.isSuppressed = suppressed;
+  }
+
+  private updateMusic(): void {
+    const engine = this.engine;
+    if (!engine || !this.wantsMusic || !engine.isRunning() || engine.isMusicPlaying()) return;
+
+    if (!engine.startMusic(MUSIC)) {
+      this.logger.warn('Background music not loaded');
+    }
+  }
+
+  private applyMixer(): void {
+    if (!this.engine) return;
+
+    this.engine.setVolume('master', this.mixer.muted ? 0 : this.mixer.master);
+    this.engine.setVolume('sfx', this.mixer.sfx);
+    this.engine.setVolume('music', this.mixer.music);
+  }
+
+  private load(): void {
+    const raw = this.storage?.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    try {
+      const stored: unknown = JSON.parse(raw);
+      if (typeof stored !== 'object' || stored === null) throw new Error('not an object');
+
+      const settings = stored as Record<string, unknown>;
+      for (const bus of AUDIO_BUSES) {
+        const volume = settings[bus];
+        if (typeof volume === 'number' && volume >= 0 && volume <= 1) this.mixer[bus] = volume;
+      }
+      if (typeof settings.muted === 'boolean') this.mixer.muted = settings.muted;
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable mixer settings: ${error}`);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.mixer));
+    } catch (error) {
+      this.logger.warn(`Mixer settings could not be saved: ${error}`);
     }
-    
-    return this.isMuted;
   }
 
   // Specific sound methods to match the original API
-  
+
   /**
    * Play enemy hit sound
    */
   playEnemyHitSound(): void {
     this.playSound('enemyHit');
   }
-  
+
   /**
    * Play level complete sound
    */
   playLevelCompleteSound(): void {
-    this.playSound('levelComplete');
+    this.playSound('waveCleared');
   }
-  
+
   /**
    * Play level fail sound
    */
   playLevelFailSound(): void {
-    this.playSound('levelFail');
+    this.playSound('defeat');
   }
-  
+
   /**
    * Play tower shoot sound
    */
   playTowerShootSound(): void {
     this.playSound('towerShoot');
   }
-  
+
   /**
    * Play enemy explosion sound
    */
   playEnemyExplosionSound(): void {
     this.playSound('enemyExplosion');
   }
-} 
\ No newline at end of file
+}
+
+// Name a variant's own sample is loaded under
+function variantName(name: string, variant: number): string {
+  return `${name}#${variant}`;
+}
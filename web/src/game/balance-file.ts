@@ -0,0 +1,121 @@
+// JSON balance file that lets designers tune or add tower types without rebuilding the WASM module
+//
+// Layout:
+//   { "version": 1, "towers": [
+//     { "name": "Line", "cost": 50, "range": 150, "damage": 10, "cooldown": 0.5,
+//       "color": "#00ffff", "shape": "cross", "attack": "direct", "targeting": "first" }, ...
+//   ] }
+//
+// Tower ids and hotkeys follow the order of the towers array. targeting is optional and defaults to "first".
+
+import { MAX_TOWER_NAME_LENGTH, MAX_TOWER_TYPES, TOWER_ATTACKS, TOWER_SHAPES, TOWER_TARGETINGS } from './tower-catalog';
+import type { TowerAttack, TowerShape, TowerStats, TowerTargeting } from './tower-catalog';
+
+export const BALANCE_FILE_URL = 'towers.json';
+
+const BALANCE_FILE_VERSION = 1;
+
+/**
+ * Raised when a balance file is malformed
+ */
+export class BalanceFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BalanceFileError';
+  }
+}
+
+/**
+ * Fetch and parse a balance file
+ * @returns The tower types, or null if there is no balance file at the URL
+ */
+export async function fetchBalanceFile(url: string = BALANCE_FILE_URL): Promise<TowerStats[] | null> {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new BalanceFileError(`Balance file could not be loaded (HTTP ${response.status})`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new BalanceFileError('Balance file is not valid JSON');
+  }
+  return parseBalanceFile(json);
+}
+
+/**
+ * Validate a parsed balance file, throwing a BalanceFileError that names the offending field
+ */
+export function parseBalanceFile(json: unknown): TowerStats[] {
+  if (!isObject(json)) {
+    throw new BalanceFileError('Balance file must be a JSON object');
+  }
+  if (json.version !== BALANCE_FILE_VERSION) {
+    throw new BalanceFileError(`Unsupported balance file version ${json.version}`);
+  }
+
+  const towers = json.towers;
+  if (!Array.isArray(towers) || towers.length === 0 || towers.length > MAX_TOWER_TYPES) {
+    throw new BalanceFileError(`towers must be an array of 1 to ${MAX_TOWER_TYPES} tower types`);
+  }
+
+  return towers.map((tower, i) => parseTower(tower, `towers[${i}]`));
+}
+
+function parseTower(tower: unknown, path: string): TowerStats {
+  if (!isObject(tower)) {
+    throw new BalanceFileError(`${path} must be an object`);
+  }
+
+  const { name, cost, range, damage, cooldown, color, shape, attack, targeting = 'first' } = tower;
+
+  if (typeof name !== 'string' || name.length === 0 || new TextEncoder().encode(name).length > MAX_TOWER_NAME_LENGTH) {
+    throw new BalanceFileError(`${path}.name must be a string of 1 to ${MAX_TOWER_NAME_LENGTH} bytes`);
+  }
+  if (!Number.isInteger(cost) || (cost as number) < 0 || (cost as number) > 0xffffffff) {
+    throw new BalanceFileError(`${path}.cost must be a whole number of at least 0`);
+  }
+  if (!isNumberAbove(range, 0)) {
+    throw new BalanceFileError(`${path}.range must be a positive number`);
+  }
+  if (!isNumberAbove(damage, 0, true)) {
+    throw new BalanceFileError(`${path}.damage must be a number of at least 0`);
+  }
+  if (!isNumberAbove(cooldown, 0)) {
+    throw new BalanceFileError(`${path}.cooldown must be a positive number of seconds`);
+  }
+  if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new BalanceFileError(`${path}.color must be a colour like "#00ffff"`);
+  }
+  if (!TOWER_SHAPES.includes(shape as TowerShape)) {
+    throw new BalanceFileError(`${path}.shape must be one of ${TOWER_SHAPES.join(', ')}`);
+  }
+  if (!TOWER_ATTACKS.includes(attack as TowerAttack)) {
+    throw new BalanceFileError(`${path}.attack must be one of ${TOWER_ATTACKS.join(', ')}`);
+  }
+  if (!TOWER_TARGETINGS.includes(targeting as TowerTargeting)) {
+    throw new BalanceFileError(`${path}.targeting must be one of ${TOWER_TARGETINGS.join(', ')}`);
+  }
+
+  return {
+    name,
+    cost: cost as number,
+    range,
+    damage,
+    cooldown,
+    color: parseInt(color.slice(1), 16),
+    shape: shape as TowerShape,
+    attack: attack as TowerAttack,
+    targeting: targeting as TowerTargeting
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberAbove(value: unknown, min: number, inclusive: boolean = false): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && (inclusive ? value >= min : value > min);
+}
@@ -0,0 +1,91 @@
+// Bestiary of the enemy archetypes the player has run into, kept in localStorage across games
+import { ENEMY_KINDS } from './enemy-types';
+import type { EnemyKind } from './enemy-types';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * What the player has seen of an archetype
+ */
+export interface BestiaryEntry {
+  kind: EnemyKind;
+  firstSeen: number; // Timestamp
+  maxHealth: number; // Toughest seen
+  maxSpeed: number; // Fastest seen, in pixels per second
+}
+
+const STORAGE_KEY = 'towerd.bestiary';
+
+export class Bestiary {
+  private logger: Logger;
+  private storage: Storage | null;
+  private entries = new Map<EnemyKind, BestiaryEntry>();
+
+  constructor(logger?: Logger, storage?: Storage | null) {
+    this.logger = logger || console;
+    this.storage = storage !== undefined ? storage : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.load();
+  }
+
+  /**
+   * Get the archetypes seen so far, in EnemyKind order
+   */
+  getEntries(): BestiaryEntry[] {
+    return ENEMY_KINDS.flatMap(kind => this.entries.get(kind) ?? []);
+  }
+
+  /**
+   * Record an archetype appearing in a game
+   * @returns True if the player has never seen it before
+   */
+  record(kind: EnemyKind, health: number, speed: number): boolean {
+    const entry = this.entries.get(kind);
+    if (entry) {
+      entry.maxHealth = Math.max(entry.maxHealth, health);
+      entry.maxSpeed = Math.max(entry.maxSpeed, speed);
+    } else {
+      this.entries.set(kind, { kind, firstSeen: Date.now(), maxHealth: health, maxSpeed: speed });
+    }
+
+    this.save();
+    return !entry;
+  }
+
+  private load(): void {
+    const raw = this.storage?.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    try {
+      const stored: unknown = JSON.parse(raw);
+      if (!Array.isArray(stored)) throw new Error('not an array');
+
+      for (const entry of stored) {
+        if (isBestiaryEntry(entry)) this.entries.set(entry.kind, entry);
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable bestiary: ${error}`);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.getEntries()));
+    } catch (error) {
+      this.logger.warn(`Bestiary could not be saved: ${error}`);
+    }
+  }
+}
+
+function isBestiaryEntry(value: unknown): value is BestiaryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return ENEMY_KINDS.includes(entry.kind as EnemyKind) &&
+    typeof entry.firstSeen === 'number' &&
+    typeof entry.maxHealth === 'number' &&
+    typeof entry.maxSpeed === 'number';
+}
@@ -0,0 +1,149 @@
+// JSON campaign file: the sequence of levels played in the campaign, each with its own map, waves and rules
+//
+// Layout:
+//   { "version": 1, "levels": [
+//     { "name": "Crossroads", "description": "...", "money": 300, "lives": 20, "towers": ["Line", "Square"],
+//       "map": { "version": 2, "waypoints": ..., "branches": ... },
+//       "waves": [{ "boss": false, "groups": [...] }, ...] }, ...
+//   ] }
+//
+// Levels unlock in the order of the levels array, each once the one before it is won, and a level is won by
+// clearing its last wave. map is laid out like a map file and waves like the waves array of a wave file.
+// description defaults to none, money and lives to the built-in starting money and lives, and towers, which
+// names the tower types that may be built, to every type in the tower catalog.
+
+import { INITIAL_LIVES, INITIAL_MONEY } from './game-level';
+import type { MapLayout } from './game-map';
+import { parseMapFile } from './map-file';
+import { parseWaves } from './wave-file';
+import type { WaveDefinition } from './wave-script';
+
+export const CAMPAIGN_FILE_URL = 'campaign.json';
+
+// Level numbers are a single byte in the WASM level format, 0 meaning endless play
+export const MAX_CAMPAIGN_LEVELS = 99;
+
+const CAMPAIGN_FILE_VERSION = 1;
+const MAX_STARTING_AMOUNT = 0xffffffff;
+
+/**
+ * A level of the campaign
+ */
+export interface CampaignLevel {
+  name: string;
+  description: string;
+  money: number;
+  lives: number;
+  towers: string[] | null; // Tower type names, null for every type
+  map: MapLayout;
+  waves: WaveDefinition[]; // Clearing the last one wins the level
+}
+
+/**
+ * Raised when a campaign file is malformed
+ */
+export class CampaignFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignFileError';
+  }
+}
+
+/**
+ * Fetch and parse a campaign file
+ * @returns The levels, or null if there is no campaign file at the URL
+ */
+export async function fetchCampaignFile(url: string = CAMPAIGN_FILE_URL): Promise<CampaignLevel[] | null> {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new CampaignFileError(`Campaign file could not be loaded (HTTP ${response.status})`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new CampaignFileError('Campaign file is not valid JSON');
+  }
+  return parseCampaignFile(json);
+}
+
+/**
+ * Validate a parsed campaign file, throwing a CampaignFileError that names the offending field
+ */
+export function parseCampaignFile(json: unknown): CampaignLevel[] {
+  if (!isObject(json)) {
+    throw new CampaignFileError('Campaign file must be a JSON object');
+  }
+  if (json.version !== CAMPAIGN_FILE_VERSION) {
+    throw new CampaignFileError(`Unsupported campaign file version ${json.version}`);
+  }
+
+  const { levels } = json;
+  if (!Array.isArray(levels) || levels.length === 0 || levels.length > MAX_CAMPAIGN_LEVELS) {
+    throw new CampaignFileError(`levels must be an array of 1 to ${MAX_CAMPAIGN_LEVELS} levels`);
+  }
+
+  const parsed = levels.map((level, i) => parseLevel(level, `levels[${i}]`));
+  const names = new Set<string>();
+  parsed.forEach((level, i) => {
+    // Progress is kept by level name, so two levels can't share one
+    if (names.has(level.name)) {
+      throw new CampaignFileError(`levels[${i}].name '${level.name}' is used by an earlier level`);
+    }
+    names.add(level.name);
+  });
+  return parsed;
+}
+
+function parseLevel(level: unknown, path: string): CampaignLevel {
+  if (!isObject(level)) {
+    throw new CampaignFileError(`${path} must be an object`);
+  }
+
+  const { name, description = '', money = INITIAL_MONEY, lives = INITIAL_LIVES, towers = null } = level;
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new CampaignFileError(`${path}.name must be a non-empty string`);
+  }
+  if (typeof description !== 'string') {
+    throw new CampaignFileError(`${path}.description must be a string`);
+  }
+  if (!isWholeNumber(money, 0)) {
+    throw new CampaignFileError(`${path}.money must be a whole number from 0`);
+  }
+  if (!isWholeNumber(lives, 1)) {
+    throw new CampaignFileError(`${path}.lives must be a whole number from 1`);
+  }
+  if (towers !== null && (!Array.isArray(towers) || towers.length === 0 || !towers.every(tower => typeof tower === 'string'))) {
+    throw new CampaignFileError(`${path}.towers must be a non-empty array of tower names`);
+  }
+
+  return {
+    name,
+    description,
+    money,
+    lives,
+    towers: towers === null ? null : [...new Set(towers as string[])],
+    map: parseNested(() => parseMapFile(level.map), `${path}.map`),
+    waves: parseNested(() => parseWaves(level.waves), `${path}.waves`)
+  };
+}
+
+// Map and wave errors name fields within the map or waves, so prefix them with the level they belong to
+function parseNested<T>(parse: () => T, path: string): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw new CampaignFileError(`${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= MAX_STARTING_AMOUNT;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
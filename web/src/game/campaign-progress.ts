@@ -0,0 +1,89 @@
+// Campaign progress: the best star rating won on each level, kept in localStorage across games
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+export const MAX_STARS = 3;
+
+// Share of the starting lives that must be left for each rating above one star
+const THREE_STAR_LIVES = 0.8;
+const TWO_STAR_LIVES = 0.4;
+
+const STORAGE_KEY = 'towerd.campaign';
+
+/**
+ * Rate a won level from 1 to MAX_STARS by the lives left
+ */
+export function rateVictory(lives: number, startingLives: number): number {
+  const kept = startingLives > 0 ? lives / startingLives : 0;
+  if (kept >= THREE_STAR_LIVES) return 3;
+  if (kept >= TWO_STAR_LIVES) return 2;
+  return 1;
+}
+
+export class CampaignProgress {
+  private logger: Logger;
+  private storage: Storage | null;
+  private stars = new Map<string, number>(); // Best rating by level name
+
+  constructor(logger?: Logger, storage?: Storage | null) {
+    this.logger = logger || console;
+    this.storage = storage !== undefined ? storage : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.load();
+  }
+
+  /**
+   * Get the best rating won on a level, 0 if it hasn't been won
+   */
+  getStars(name: string): number {
+    return this.stars.get(name) ?? 0;
+  }
+
+  /**
+   * Check whether a level can be played, the first level always can and the others once the one before is won
+   * @param names Level names in campaign order
+   */
+  isUnlocked(names: ReadonlyArray<string>, index: number): boolean {
+    return index === 0 || this.getStars(names[index - 1]) > 0;
+  }
+
+  /**
+   * Record a won level
+   * @returns True if the rating beats the level's best so far
+   */
+  record(name: string, stars: number): boolean {
+    if (stars <= this.getStars(name)) return false;
+
+    this.stars.set(name, stars);
+    this.save();
+    return true;
+  }
+
+  private load(): void {
+    const raw = this.storage?.getItem(STORAGE_KEY);
+    if (!raw) return;
+
+    try {
+      const stored: unknown = JSON.parse(raw);
+      if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) throw new Error('not an object');
+
+      for (const [name, stars] of Object.entries(stored)) {
+        if (Number.isInteger(stars) && stars >= 1 && stars <= MAX_STARS) this.stars.set(name, stars);
+      }
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable campaign progress: ${error}`);
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.stars)));
+    } catch (error) {
+      this.logger.warn(`Campaign progress could not be saved: ${error}`);
+    }
+  }
+}
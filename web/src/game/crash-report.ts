@@ -0,0 +1,58 @@
+// Crash report put together when the WASM module traps, as text players can paste into a bug report
+import { encodeReplay } from './replay-file';
+import type { Replay, ReplayInput } from './replay-file';
+import { encodeBase64 } from './save-manager';
+import type { WasmTrap } from '../wasm/wasm-trap';
+
+// Log lines and inputs listed in the report, the most recent ones
+export const CRASH_LOG_LINES = 50;
+export const CRASH_INPUTS = 20;
+
+/**
+ * Everything known about a crash
+ */
+export interface CrashReport {
+  time: Date;
+  userAgent: string;
+  trap: WasmTrap;
+  log: string[]; // Oldest first
+  inputs: ReplayInput[]; // Latest inputs, oldest first, recorded or not
+  updates: number; // Updates run since the page loaded, the frame inputs are stamped with
+  replay: Replay | null; // The run up to the crash, null if none was being recorded
+}
+
+/**
+ * Format a crash report as plain text
+ *
+ * The replay and snapshot are included in full as base64, the replay reproduces the crash when loaded as a replay file.
+ */
+export function formatCrashReport(report: CrashReport): string {
+  const { trap, replay } = report;
+  const lines = [
+    'Neon Geometry Tower Defense crash report',
+    `Time: ${report.time.toISOString()}`,
+    `Browser: ${report.userAgent}`,
+    '',
+    `Trap in ${trap.call}: ${trap.message}`,
+    ...(trap.stack ? ['Stack:', ...trap.stack.split('\n').map(line => `  ${line.trim()}`)] : []),
+    ''
+  ];
+
+  const recent = report.inputs.slice(-CRASH_INPUTS);
+  lines.push(`Recent inputs (${recent.length}, crashed after update ${report.updates}):`);
+  for (const { frame, deltaTime: _deltaTime, ...action } of recent) {
+    lines.push(`  update ${frame}: ${JSON.stringify(action)}`);
+  }
+  if (replay) {
+    lines.push(`Recording: seed ${replay.seed}, crashed on frame ${replay.frameCount} with ${replay.inputs.length} inputs`);
+  }
+  lines.push('');
+
+  const log = report.log.slice(-CRASH_LOG_LINES);
+  lines.push(`Recent log (${log.length} lines):`, ...log.map(line => `  ${line}`), '');
+
+  lines.push(`Snapshot: ${trap.snapshot ? encodeBase64(trap.snapshot) : 'could not be taken'}`);
+  lines.push(`Replay: ${replay ? encodeBase64(encodeReplay(replay)) : 'no game was being recorded'}`);
+
+  return lines.join('\n');
+}
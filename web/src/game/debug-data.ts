@@ -0,0 +1,116 @@
+// Entity state behind the debug overlays, written by the Debug-only exports of the WASM module
+//
+// Wire layout (little-endian), must match src/debug_data.zig:
+//   tower count u8, then per tower: x f32, y f32, range f32, target u8 (index of the enemy it would shoot, 0xFF for none)
+//   enemy count u8, then per enemy: x f32, y f32, prev x f32, prev y f32, radius f32, progress f32, waypoint u8
+//   projectile count u8, then per projectile: x f32, y f32, prev x f32, prev y f32
+//   splash radius f32, impact count u8, then per impact: x f32, y f32, hit x f32, hit y f32, age f32
+//   then per grid cell, row by row: placement u8 (a PlacementResult in src/entities/tower.zig)
+
+import { GRID_COLS, GRID_ROWS } from './game-map';
+
+const NO_TARGET = 0xff;
+
+/**
+ * Whether a tower could be built on a grid cell, and what is in the way if not
+ */
+export type CellSite = 'buildable' | 'path' | 'occupied' | 'terrain';
+
+// PlacementResult values checkSite can return
+const CELL_SITES: Record<number, CellSite> = {
+  0: 'buildable',
+  3: 'path',
+  4: 'occupied',
+  6: 'terrain'
+};
+
+export interface DebugTower {
+  x: number;
+  y: number;
+  range: number;
+  target: number | null; // Index into enemies of the enemy the tower would shoot now
+}
+
+export interface DebugEnemy {
+  x: number;
+  y: number;
+  prevX: number; // Position before the last update, for interpolating like the frame does
+  prevY: number;
+  radius: number;
+  progress: number; // Distance travelled along the path
+  waypoint: number; // Waypoint the enemy is heading to
+}
+
+/**
+ * A projectile and the segment it swept in the last update, the one collisions are checked along
+ */
+export interface DebugProjectile {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+}
+
+/**
+ * A recent splash hit, the area is centred where the projectile was aimed rather than where it hit
+ */
+export interface DebugImpact {
+  x: number;
+  y: number;
+  hitX: number;
+  hitY: number;
+  age: number; // Seconds since the hit
+}
+
+export interface DebugData {
+  towers: DebugTower[];
+  enemies: DebugEnemy[];
+  projectiles: DebugProjectile[];
+  splashRadius: number;
+  impacts: DebugImpact[];
+  cells: CellSite[]; // GRID_COLS * GRID_ROWS, row by row
+}
+
+/**
+ * Decode the debug data written by the WASM module
+ * @returns The data, or null if the block is truncated or malformed
+ */
+export function decodeDebugData(bytes: Uint8Array): DebugData | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 0;
+  const u8 = () => view.getUint8(pos++);
+  const f32 = () => {
+    const value = view.getFloat32(pos, true);
+    pos += 4;
+    return value;
+  };
+  const list = <T>(read: () => T): T[] => Array.from({ length: u8() }, read);
+
+  try {
+    const towers = list(() => {
+      const tower = { x: f32(), y: f32(), range: f32() };
+      const target = u8();
+      return { ...tower, target: target === NO_TARGET ? null : target };
+    });
+    const enemies = list(() => ({
+      x: f32(), y: f32(), prevX: f32(), prevY: f32(), radius: f32(), progress: f32(), waypoint: u8()
+    }));
+    const projectiles = list(() => ({ x: f32(), y: f32(), prevX: f32(), prevY: f32() }));
+    const splashRadius = f32();
+    const impacts = list(() => ({ x: f32(), y: f32(), hitX: f32(), hitY: f32(), age: f32() }));
+
+    const cells: CellSite[] = [];
+    for (let i = 0; i < GRID_COLS * GRID_ROWS; i++) {
+      const site = CELL_SITES[u8()];
+      if (!site) return null;
+      cells.push(site);
+    }
+
+    if (towers.some(tower => tower.target !== null && tower.target >= enemies.length)) return null;
+    return { towers, enemies, projectiles, splashRadius, impacts, cells };
+  } catch (error) {
+    // DataView throws a RangeError when reading past the end
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+}
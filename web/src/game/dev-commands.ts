@@ -0,0 +1,163 @@
+// Commands typed into the developer console, parsed here and run by GameApplication
+import { ENEMY_KINDS } from './enemy-types';
+import type { EnemyKind } from './enemy-types';
+import { GAME_SPEEDS, isGameSpeed } from './game-speed';
+import type { GameSpeed } from './game-speed';
+import { DEBUG_OVERLAY_LAYERS } from '../renderer/debug-overlay';
+import type { DebugOverlayLayer } from '../renderer/debug-overlay';
+
+// Largest value the u32 parameters of the debug exports take
+const MAX_U32 = 0xffffffff;
+
+// Most enemies a single spawn command asks for, the field holds MAX_ENEMIES in src/utils/constants.zig
+const MAX_SPAWN = 100;
+
+/**
+ * A command run by the debug exports of the WASM module, which only Debug builds have
+ */
+export type DebugCommand =
+  | { type: 'money'; amount: number }
+  | { type: 'lives'; lives: number }
+  | { type: 'wave'; wave: number }
+  | { type: 'spawn'; kind: EnemyKind; count: number }
+  | { type: 'kill' }
+  | { type: 'god' }
+  | { type: 'tp'; waypoint: number };
+
+/**
+ * A parsed console line, the debug commands and the ones the frontend handles by itself
+ */
+export type DevCommand =
+  | DebugCommand
+  | { type: 'speed'; speed: GameSpeed }
+  | { type: 'overlay'; layer: DebugOverlayLayer | 'all' | 'off' }
+  | { type: 'state' }
+  | { type: 'help' };
+
+export type DevCommandName = DevCommand['type'];
+
+/**
+ * Number of entities alive in the module, for the state command
+ */
+export interface EntityCounts {
+  enemies: number;
+  towers: number;
+  projectiles: number;
+}
+
+interface CommandHelp {
+  usage: string;
+  description: string;
+}
+
+// Every command, in the order help lists them
+export const DEV_COMMANDS: Record<DevCommandName, CommandHelp> = {
+  money: { usage: 'money <amount>', description: 'Set the money' },
+  lives: { usage: 'lives <count>', description: 'Set the lives, 0 ends the game' },
+  wave: { usage: 'wave <number>', description: 'Clear the field and start a wave' },
+  spawn: { usage: `spawn <${ENEMY_KINDS.join('|')}> [count]`, description: 'Spawn enemies with the current wave\'s stats' },
+  kill: { usage: 'kill all', description: 'Kill every enemy on the field, paying their bounties' },
+  god: { usage: 'god', description: 'Toggle whether leaking enemies cost lives' },
+  speed: { usage: `speed <${GAME_SPEEDS.join('|')}>`, description: 'Set the game speed' },
+  tp: { usage: 'tp <waypoint>', description: 'Move every enemy on the field to a path waypoint' },
+  overlay: { usage: `overlay <${DEBUG_OVERLAY_LAYERS.join('|')}|all|off>`, description: 'Toggle a debug overlay, or switch them all on or off' },
+  state: { usage: 'state', description: 'Print the game state, stats, seed and entity counts' },
+  help: { usage: 'help', description: 'List the commands' }
+};
+
+const COMMAND_NAMES = Object.keys(DEV_COMMANDS) as DevCommandName[];
+
+const OVERLAY_ARGUMENTS: readonly string[] = [...DEBUG_OVERLAY_LAYERS, 'all', 'off'];
+
+/**
+ * Error thrown for a console line that isn't a valid command, the message says what to type instead
+ */
+export class DevCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DevCommandError';
+  }
+}
+
+function isCommandName(name: string): name is DevCommandName {
+  return (COMMAND_NAMES as string[]).includes(name);
+}
+
+function parseInteger(text: string | undefined, name: DevCommandName, min: number, max: number): number {
+  const value = Number(text);
+  if (text === undefined || !/^\d+$/.test(text) || value < min || value > max) {
+    throw new DevCommandError(`Usage: ${DEV_COMMANDS[name].usage} (${min} to ${max})`);
+  }
+  return value;
+}
+
+/**
+ * Parse a console line
+ * @throws DevCommandError if the line isn't a valid command
+ */
+export function parseDevCommand(line: string): DevCommand {
+  const [name = '', ...args] = line.trim().toLowerCase().split(/\s+/);
+  if (!isCommandName(name)) {
+    throw new DevCommandError(`Unknown command "${name}", type help for a list`);
+  }
+
+  const usage = `Usage: ${DEV_COMMANDS[name].usage}`;
+  switch (name) {
+    case 'money':
+      return { type: 'money', amount: parseInteger(args[0], name, 0, MAX_U32) };
+    case 'lives':
+      return { type: 'lives', lives: parseInteger(args[0], name, 0, MAX_U32) };
+    case 'wave':
+      return { type: 'wave', wave: parseInteger(args[0], name, 1, MAX_U32) };
+    case 'spawn': {
+      const kind = ENEMY_KINDS.find(candidate => candidate === args[0]);
+      if (!kind) throw new DevCommandError(usage);
+      const count = args.length > 1 ? parseInteger(args[1], name, 1, MAX_SPAWN) : 1;
+      return { type: 'spawn', kind, count };
+    }
+    case 'kill':
+      if (args[0] !== 'all') throw new DevCommandError(usage);
+      return { type: 'kill' };
+    case 'speed': {
+      const speed = Number(args[0]);
+      if (!isGameSpeed(speed)) throw new DevCommandError(usage);
+      return { type: 'speed', speed };
+    }
+    case 'tp':
+      return { type: 'tp', waypoint: parseInteger(args[0], name, 0, MAX_U32) };
+    case 'overlay': {
+      const layer = DEBUG_OVERLAY_LAYERS.find(candidate => candidate === args[0]);
+      if (layer) return { type: 'overlay', layer };
+      if (args[0] === 'all' || args[0] === 'off') return { type: 'overlay', layer: args[0] };
+      throw new DevCommandError(usage);
+    }
+    case 'god':
+    case 'state':
+    case 'help':
+      return { type: name };
+  }
+}
+
+/**
+ * Complete the last word of a console line
+ * @returns The completed lines, in command list order, empty if nothing matches
+ */
+export function completeDevCommand(line: string): string[] {
+  const words = line.trimStart().toLowerCase().split(/\s+/);
+  const prefix = words[words.length - 1];
+  const head = line.slice(0, line.length - prefix.length);
+
+  let candidates: readonly string[] = [];
+  if (words.length === 1) {
+    candidates = COMMAND_NAMES;
+  } else if (words.length === 2) {
+    switch (words[0]) {
+      case 'spawn': candidates = ENEMY_KINDS; break;
+      case 'kill': candidates = ['all']; break;
+      case 'speed': candidates = GAME_SPEEDS.map(String); break;
+      case 'overlay': candidates = OVERLAY_ARGUMENTS; break;
+    }
+  }
+
+  return candidates.filter(candidate => candidate.startsWith(prefix)).map(candidate => head + candidate);
+}
@@ -0,0 +1,165 @@
+// Enemy archetypes exported by the WASM module, drive the bestiary
+//
+// Wire layout (little-endian), must match src/entities/enemy_types.zig:
+//   count u8, then per archetype: radius f32, colour u32 (0xRRGGBB), shape u8, armor f32,
+//   slow immune u8, splash resistance f32, heal rate f32, split count u8
+
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Enemy archetype, indexed by EnemyKind in src/entities/enemy_types.zig
+ */
+export type EnemyKind =
+  | 'normal'
+  | 'fast'
+  | 'armored'
+  | 'boss'
+  | 'slow-immune'
+  | 'splash-resistant'
+  | 'healer'
+  | 'splitter'
+  | 'splitling';
+export const ENEMY_KINDS: EnemyKind[] = [
+  'normal', 'fast', 'armored', 'boss', 'slow-immune', 'splash-resistant', 'healer', 'splitter', 'splitling'
+];
+
+// Player-facing names of the enemy archetypes
+export const ENEMY_KIND_LABELS: Record<EnemyKind, string> = {
+  normal: 'Normal',
+  fast: 'Fast',
+  armored: 'Armored',
+  boss: 'Boss',
+  'slow-immune': 'Slow immune',
+  'splash-resistant': 'Splash resistant',
+  healer: 'Healer',
+  splitter: 'Splitter',
+  splitling: 'Splitling'
+};
+
+/**
+ * Outline an enemy is drawn with, indexed by Shape in src/entities/enemy_types.zig
+ */
+export type EnemyShape = 'circle' | 'diamond' | 'square' | 'star' | 'hexagon' | 'triangle' | 'cross' | 'ring';
+export const ENEMY_SHAPES: EnemyShape[] = ['circle', 'diamond', 'square', 'star', 'hexagon', 'triangle', 'cross', 'ring'];
+
+// Radius of the area healers cover, must match HEALER_RADIUS in constants.zig
+export const HEALER_RADIUS = 80;
+
+const ARCHETYPE_SIZE = 23;
+
+/**
+ * Appearance and resistances of an archetype, health, speed and bounty come from the wave script
+ */
+export interface EnemyArchetype {
+  kind: EnemyKind;
+  radius: number;
+  color: number; // 0xRRGGBB
+  shape: EnemyShape;
+  armor: number; // Subtracted from every hit, a hit always deals at least a quarter of its damage
+  slowImmune: boolean;
+  splashResistance: number; // Share of splash damage ignored
+  healRate: number; // Share of their max health restored each second to enemies within HEALER_RADIUS
+  splitCount: number; // Splitlings released when killed
+}
+
+/**
+ * Raised when the archetypes cannot be exported or decoded
+ */
+export class EnemyTypesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnemyTypesError';
+  }
+}
+
+/**
+ * Decode the archetypes exported by the WASM module, throwing an EnemyTypesError if they are malformed
+ */
+export function decodeEnemyTypes(bytes: Uint8Array): EnemyArchetype[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 1 || bytes.length < 1 + bytes[0] * ARCHETYPE_SIZE) {
+    throw new EnemyTypesError('Enemy types are truncated');
+  }
+
+  const archetypes: EnemyArchetype[] = [];
+  for (let i = 0; i < bytes[0]; i++) {
+    const offset = 1 + i * ARCHETYPE_SIZE;
+    const kind = ENEMY_KINDS[i];
+    const shape = ENEMY_SHAPES[bytes[offset + 8]];
+    if (!kind || !shape) {
+      throw new EnemyTypesError(`Enemy type ${i} has an unknown kind or shape`);
+    }
+
+    archetypes.push({
+      kind,
+      radius: view.getFloat32(offset, true),
+      color: view.getUint32(offset + 4, true),
+      shape,
+      armor: view.getFloat32(offset + 9, true),
+      slowImmune: bytes[offset + 13] !== 0,
+      splashResistance: view.getFloat32(offset + 14, true),
+      healRate: view.getFloat32(offset + 18, true),
+      splitCount: bytes[offset + 22]
+    });
+  }
+
+  return archetypes;
+}
+
+/**
+ * Describe what sets an archetype apart, one short phrase per trait
+ */
+export function describeTraits(archetype: EnemyArchetype): string[] {
+  const traits: string[] = [];
+  if (archetype.armor > 0) traits.push(`Armor ${formatAmount(archetype.armor)}`);
+  if (archetype.slowImmune) traits.push('Immune to slow');
+  if (archetype.splashResistance > 0) traits.push(`Ignores ${Math.round(archetype.splashResistance * 100)}% of splash`);
+  if (archetype.healRate > 0) {
+    traits.push(`Heals nearby enemies ${formatAmount(archetype.healRate * 100)}% per second`);
+  }
+  if (archetype.splitCount > 0) traits.push(`Splits into ${archetype.splitCount} when killed`);
+  return traits;
+}
+
+function formatAmount(value: number): string {
+  return parseFloat(value.toPrecision(3)).toString();
+}
+
+export class EnemyTypes {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private archetypes: EnemyArchetype[] = [];
+
+  constructor(wasmLoader: WasmGame, logger?: Logger) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Look up an archetype, undefined until the archetypes have been read
+   */
+  get(kind: EnemyKind): EnemyArchetype | undefined {
+    return this.archetypes.find(archetype => archetype.kind === kind);
+  }
+
+  /**
+   * Read the archetypes from the WASM module
+   */
+  async refresh(): Promise<ReadonlyArray<EnemyArchetype>> {
+    const bytes = await this.wasmLoader.exportEnemyTypes();
+    if (!bytes) {
+      throw new EnemyTypesError('Enemy types could not be exported');
+    }
+
+    this.archetypes = decodeEnemyTypes(bytes);
+    this.logger.log(`Enemy types loaded: ${this.archetypes.length} archetypes`);
+    return this.archetypes;
+  }
+}
@@ -0,0 +1,137 @@
+// Level rules exported by the WASM module: starting money and lives, the wave that wins and the towers allowed
+//
+// Wire layout (little-endian), must match src/entities/level.zig:
+//   level number u8 (0 = endless play), money u32, lives u32, waves to clear u8 (0 = endless),
+//   allowed tower types u32 (bit per tower catalog id)
+
+import { MAX_TOWER_TYPES } from './tower-catalog';
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+// Built-in starting money and lives, must match constants.zig
+export const INITIAL_MONEY = 250;
+export const INITIAL_LIVES = 20;
+
+const LEVEL_SIZE = 14;
+
+/**
+ * Rules a game is played by
+ */
+export interface LevelRules {
+  number: number; // Campaign level number from 1, 0 for endless play
+  money: number;
+  lives: number;
+  waves: number; // Clearing this wave wins, 0 to play on until the lives run out
+  towers: number[]; // Tower catalog ids the player may build, in id order
+}
+
+/**
+ * Endless play with the built-in starting money and lives and every tower type
+ */
+export function endlessLevel(): LevelRules {
+  return {
+    number: 0,
+    money: INITIAL_MONEY,
+    lives: INITIAL_LIVES,
+    waves: 0,
+    towers: Array.from({ length: MAX_TOWER_TYPES }, (_, i) => i + 1)
+  };
+}
+
+/**
+ * Raised when level rules cannot be decoded or are rejected by the WASM module
+ */
+export class LevelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LevelError';
+  }
+}
+
+/**
+ * Encode level rules in the WASM level format
+ */
+export function encodeLevel(level: LevelRules): Uint8Array {
+  const bytes = new Uint8Array(LEVEL_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  let towers = 0;
+  for (const id of level.towers) towers |= 1 << id;
+
+  bytes[0] = level.number;
+  view.setUint32(1, level.money, true);
+  view.setUint32(5, level.lives, true);
+  bytes[9] = level.waves;
+  view.setUint32(10, towers >>> 0, true);
+  return bytes;
+}
+
+/**
+ * Decode level rules exported by the WASM module, throwing a LevelError if they are malformed
+ */
+export function decodeLevel(bytes: Uint8Array): LevelRules {
+  if (bytes.length !== LEVEL_SIZE) {
+    throw new LevelError(`Level is ${bytes.length} bytes, expected ${LEVEL_SIZE}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const towers = view.getUint32(10, true);
+  return {
+    number: bytes[0],
+    money: view.getUint32(1, true),
+    lives: view.getUint32(5, true),
+    waves: bytes[9],
+    towers: Array.from({ length: MAX_TOWER_TYPES }, (_, i) => i + 1).filter(id => (towers & (1 << id)) !== 0)
+  };
+}
+
+export class GameLevel {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private rules: LevelRules = endlessLevel();
+
+  constructor(wasmLoader: WasmGame, logger?: Logger) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Get the rules of the level being played
+   */
+  getRules(): LevelRules {
+    return this.rules;
+  }
+
+  /**
+   * Read the rules of the level being played from the WASM module
+   */
+  async refresh(): Promise<LevelRules> {
+    const bytes = await this.wasmLoader.exportLevel();
+    if (!bytes) {
+      throw new LevelError('Level could not be exported');
+    }
+
+    this.rules = decodeLevel(bytes);
+    return this.rules;
+  }
+
+  /**
+   * Replace the level rules in the WASM module, used from the next game
+   *
+   * The rules of the game under way are kept until then, so getRules doesn't change until the next refresh.
+   */
+  async apply(level: LevelRules): Promise<void> {
+    const status = await this.wasmLoader.importLevel(encodeLevel(level));
+    if (status !== 0) {
+      throw new LevelError(`Level rejected (status ${status})`);
+    }
+
+    this.logger.log(level.number === 0 ? 'Level rules set to endless play' : `Level rules set to level ${level.number}`);
+  }
+}
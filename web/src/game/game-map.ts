@@ -0,0 +1,208 @@
+// Map exported by the WASM module: the path enemies follow and the cells towers can't be built on
+//
+// Wire layout, must match src/entities/map.zig:
+//   waypoint count u8, then per waypoint: column u8, row u8 (grid intersections, from 0,0 to GRID_COLS,GRID_ROWS),
+//   branch count u8, then per branch: target waypoint u8, weight u8,
+//   then branching mode u8, then the blocked cells as a bitset of GRID_COLS * GRID_ROWS bits, row by row, lowest bit first
+
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+// Grid the map is laid out on, must match constants.zig
+export const GRID_SIZE = 40;
+export const GRID_COLS = 20;
+export const GRID_ROWS = 15;
+export const MAX_PATH_POINTS = 32;
+export const MAX_PATH_BRANCHES = 4; // Branches leaving any one waypoint
+export const MAX_SPAWN_POINTS = 4;
+export const MAX_BRANCH_WEIGHT = 0xff;
+
+const BLOCKED_SIZE = Math.ceil((GRID_COLS * GRID_ROWS) / 8);
+
+/**
+ * How enemies arriving at a fork pick the branch they take, in the order of Branching in src/entities/path.zig
+ */
+export type BranchMode = 'weighted' | 'round-robin';
+
+export const BRANCH_MODES: BranchMode[] = ['weighted', 'round-robin'];
+
+/**
+ * A grid position, a grid intersection for waypoints and a cell for blocked cells
+ */
+export interface GridPoint {
+  col: number;
+  row: number;
+}
+
+/**
+ * A one-way link between two waypoints, by index
+ */
+export interface MapBranch {
+  from: number;
+  to: number;
+  weight: number; // Share of the enemies arriving at a fork that take this branch
+}
+
+/**
+ * Path waypoints and the branches joining them, and the cells towers can't be built on
+ *
+ * Waypoints no branch leads to are spawn points and waypoints with no branches leaving them are exits.
+ */
+export interface MapLayout {
+  waypoints: GridPoint[];
+  branches: MapBranch[];
+  branching: BranchMode;
+  blocked: GridPoint[];
+}
+
+/**
+ * Raised when a map cannot be decoded or is rejected by the WASM module
+ */
+export class MapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapError';
+  }
+}
+
+/**
+ * Check whether a grid intersection lies on the edge of the playfield
+ */
+export function isOnEdge(point: GridPoint): boolean {
+  return point.col === 0 || point.row === 0 || point.col === GRID_COLS || point.row === GRID_ROWS;
+}
+
+/**
+ * Check whether a waypoint is a spawn point, one no branch leads to
+ */
+export function isSpawnPoint(layout: MapLayout, index: number): boolean {
+  return !layout.branches.some(branch => branch.to === index);
+}
+
+/**
+ * Check whether a waypoint is an exit, one with no branches leaving it
+ */
+export function isExit(layout: MapLayout, index: number): boolean {
+  return !layout.branches.some(branch => branch.from === index);
+}
+
+/**
+ * Encode a map in the WASM map format
+ */
+export function encodeMap(layout: MapLayout): Uint8Array {
+  const bytes = new Uint8Array(1 + layout.waypoints.length * 3 + layout.branches.length * 2 + 1 + BLOCKED_SIZE);
+  let offset = 0;
+
+  bytes[offset++] = layout.waypoints.length;
+  layout.waypoints.forEach((point, index) => {
+    const branches = layout.branches.filter(branch => branch.from === index);
+    bytes[offset++] = point.col;
+    bytes[offset++] = point.row;
+    bytes[offset++] = branches.length;
+    for (const branch of branches) {
+      bytes[offset++] = branch.to;
+      bytes[offset++] = branch.weight;
+    }
+  });
+  bytes[offset++] = BRANCH_MODES.indexOf(layout.branching);
+  for (const cell of layout.blocked) {
+    const index = cell.row * GRID_COLS + cell.col;
+    bytes[offset + (index >> 3)] |= 1 << (index & 7);
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a map exported by the WASM module, throwing a MapError if it is malformed
+ */
+export function decodeMap(bytes: Uint8Array): MapLayout {
+  let offset = 0;
+  const need = (count: number) => {
+    if (offset + count > bytes.length) throw new MapError('Map is truncated');
+  };
+
+  need(1);
+  const count = bytes[offset++];
+  const waypoints: GridPoint[] = [];
+  const branches: MapBranch[] = [];
+  for (let from = 0; from < count; from++) {
+    need(3);
+    waypoints.push({ col: bytes[offset], row: bytes[offset + 1] });
+    const branchCount = bytes[offset + 2];
+    offset += 3;
+
+    need(branchCount * 2);
+    for (let i = 0; i < branchCount; i++) {
+      branches.push({ from, to: bytes[offset], weight: bytes[offset + 1] });
+      offset += 2;
+    }
+  }
+
+  need(1 + BLOCKED_SIZE);
+  const branching = BRANCH_MODES[bytes[offset++]];
+  if (!branching) {
+    throw new MapError('Map has an unknown branching mode');
+  }
+
+  const blocked: GridPoint[] = [];
+  for (let index = 0; index < GRID_COLS * GRID_ROWS; index++) {
+    if (bytes[offset + (index >> 3)] & (1 << (index & 7))) {
+      blocked.push({ col: index % GRID_COLS, row: Math.floor(index / GRID_COLS) });
+    }
+  }
+
+  return { waypoints, branches, branching, blocked };
+}
+
+export class GameMap {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private layout: MapLayout = { waypoints: [], branches: [], branching: 'weighted', blocked: [] };
+
+  constructor(wasmLoader: WasmGame, logger?: Logger) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Get the map new games are played on
+   */
+  getLayout(): MapLayout {
+    return this.layout;
+  }
+
+  /**
+   * Read the map from the WASM module
+   */
+  async refresh(): Promise<MapLayout> {
+    const bytes = await this.wasmLoader.exportMap();
+    if (!bytes) {
+      throw new MapError('Map could not be exported');
+    }
+
+    this.layout = decodeMap(bytes);
+    return this.layout;
+  }
+
+  /**
+   * Replace the map in the WASM module, used straight away on the menu screen and otherwise from the next game
+   */
+  async apply(layout: MapLayout): Promise<MapLayout> {
+    const status = await this.wasmLoader.importMap(encodeMap(layout));
+    if (status !== 0) {
+      throw new MapError(`Map rejected (status ${status})`);
+    }
+
+    await this.refresh();
+    this.logger.log(`Map updated: ${this.layout.waypoints.length} waypoints, ${this.layout.branches.length} branches, ` +
+      `${this.layout.blocked.length} blocked cells`);
+    return this.layout;
+  }
+}
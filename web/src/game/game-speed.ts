@@ -0,0 +1,10 @@
+// Game speed multipliers offered in the UI, cycled with [ and ]
+export const GAME_SPEEDS = [0.5, 1, 2, 4] as const;
+export type GameSpeed = typeof GAME_SPEEDS[number];
+
+/**
+ * Check if a value is one of the supported game speeds
+ */
+export function isGameSpeed(value: number): value is GameSpeed {
+  return (GAME_SPEEDS as readonly number[]).includes(value);
+}
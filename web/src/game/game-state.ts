@@ -0,0 +1,84 @@
+// Mirror of the Zig GameState machine, the WASM module stays the source of truth
+
+/**
+ * Game states, must match GameState in src/rendering/ui.zig
+ */
+export enum GameState {
+  Menu = 0,
+  Playing = 1,
+  Paused = 2,
+  GameOver = 3
+}
+
+// Transitions the simulation can make between two polls
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  [GameState.Menu]: [GameState.Playing],
+  [GameState.Playing]: [GameState.Paused, GameState.GameOver],
+  [GameState.Paused]: [GameState.Playing, GameState.GameOver],
+  [GameState.GameOver]: [GameState.Playing]
+};
+
+type StateListener = (state: GameState, previous: GameState) => void;
+
+/**
+ * Check if a number reported by the WASM module is a known game state
+ */
+export function isGameState(value: number): value is GameState {
+  return value in TRANSITIONS;
+}
+
+export class GameStateMachine {
+  private state: GameState = GameState.Menu;
+  private listeners: Set<StateListener> = new Set();
+  private onUnexpected: ((message: string) => void) | null;
+
+  /**
+   * @param onUnexpected Called when the WASM module makes a transition the machine doesn't allow
+   */
+  constructor(onUnexpected?: (message: string) => void) {
+    this.onUnexpected = onUnexpected ?? null;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Check if the machine is in a state
+   */
+  is(state: GameState): boolean {
+    return this.state === state;
+  }
+
+  /**
+   * Adopt the state reported by the WASM module, notifying listeners if it changed
+   * @returns True if the state changed
+   */
+  sync(state: GameState): boolean {
+    const previous = this.state;
+    if (state === previous) return false;
+
+    // Saves, replays and resets can jump anywhere, so unexpected transitions are reported but still followed
+    if (!TRANSITIONS[previous].includes(state) && this.onUnexpected) {
+      this.onUnexpected(`Unexpected game state change: ${GameState[previous]} -> ${GameState[state]}`);
+    }
+
+    this.state = state;
+    for (const listener of this.listeners) {
+      listener(state, previous);
+    }
+    return true;
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns A function that removes the listener
+   */
+  onChange(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
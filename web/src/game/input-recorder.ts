@@ -0,0 +1,114 @@
+// Input recorder that captures a run for deterministic replay, and the latest inputs for crash reports
+import type { GameStats } from '../wasm/wasm-loader';
+import type { Replay, ReplayAction, ReplayInput, ReplaySetup } from './replay-file';
+
+export class InputRecorder {
+  private recentLimit: number;
+  private recent: ReplayInput[] = []; // Oldest first, frames count every update since the page loaded
+  private updates: number = 0;
+  private recording: boolean = false;
+  private seed: number = 0;
+  private timestep: number = 0;
+  private setup: ReplaySetup | null = null;
+  private frame: number = 0;
+  private inputs: ReplayInput[] = [];
+
+  /**
+   * @param recentLimit Inputs kept whether or not a recording is running
+   */
+  constructor(recentLimit: number) {
+    this.recentLimit = recentLimit;
+  }
+
+  /**
+   * Start a new recording
+   * @param seed RNG seed the game was reset with
+   * @param timestep Fixed time step the game is updated with
+   * @param setup Towers, waves, map and level rules loaded when the game was reset
+   */
+  start(seed: number, timestep: number, setup: ReplaySetup): void {
+    this.recording = true;
+    this.seed = seed;
+    this.timestep = timestep;
+    this.setup = setup;
+    this.frame = 0;
+    this.inputs = [];
+  }
+
+  /**
+   * Stop recording
+   * @param finalStats Game stats at the end of the run, stored as the replay's expected result
+   * @returns The recorded replay
+   */
+  stop(finalStats: GameStats | null): Replay {
+    if (!this.setup) {
+      throw new Error('Recording was never started');
+    }
+
+    this.recording = false;
+    return {
+      seed: this.seed,
+      timestep: this.timestep,
+      frameCount: this.frame,
+      setup: this.setup,
+      inputs: this.inputs,
+      expected: finalStats ? { ...finalStats } : null
+    };
+  }
+
+  /**
+   * Check if a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Get the number of frames recorded so far
+   */
+  getFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Record an input, applied before the next update
+   * @param action The input
+   * @param deltaTime Time step of a step input, other inputs take the step of the update that follows
+   */
+  record(action: ReplayAction, deltaTime?: number): void {
+    this.recent.push({ ...action, frame: this.updates, deltaTime: deltaTime ?? this.timestep });
+    if (this.recent.length > this.recentLimit) this.recent.shift();
+
+    if (!this.recording) return;
+    this.inputs.push({ ...action, frame: this.frame, deltaTime: deltaTime ?? this.timestep });
+  }
+
+  /**
+   * Record a simulation update
+   * @param deltaTime Time step passed to the update
+   */
+  recordFrame(deltaTime: number): void {
+    this.updates++;
+    if (!this.recording) return;
+
+    // Inputs since the last frame were applied before an update with this step
+    for (let i = this.inputs.length - 1; i >= 0 && this.inputs[i].frame === this.frame; i--) {
+      if (this.inputs[i].type !== 'step') this.inputs[i].deltaTime = deltaTime;
+    }
+    this.frame++;
+  }
+
+  /**
+   * Get the latest inputs, recorded or not, oldest first
+   */
+  getRecentInputs(): ReplayInput[] {
+    return [...this.recent];
+  }
+
+  /**
+   * Get the number of updates since the page loaded, the frame recent inputs are stamped with
+   */
+  getUpdates(): number {
+    return this.updates;
+  }
+}
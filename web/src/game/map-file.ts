@@ -0,0 +1,241 @@
+// JSON map file that lets designers lay out the playfield without rebuilding the WASM module
+//
+// Layout:
+//   { "version": 2,
+//     "waypoints": [[0, 3], [5, 3], ...],
+//     "branches": [[0, 1], [1, 2, 3], ...],
+//     "branching": "weighted",
+//     "blocked": [[2, 6], ...] }
+//
+// waypoints lists [column, row] grid intersections, from [0, 0] to [20, 15]. branches joins them one way as
+// [from, to] or [from, to, weight], by their index in waypoints. Waypoints no branch leads to are spawn points
+// and waypoints with no branches leaving them are exits, both must lie on the edge of the playfield.
+// Enemies arriving at a fork pick a branch at random in proportion to the weights ("weighted", the default)
+// or take the branches in turn, each as many times in a row as its weight ("round-robin"). Weights default to 1.
+// blocked lists [column, row] cells towers can't be built on, from [0, 0] to [19, 14], and defaults to none.
+//
+// Version 1 files, with a "path" of waypoints walked in order instead of waypoints and branches, are still read.
+
+import {
+  BRANCH_MODES, GRID_COLS, GRID_ROWS, MAX_BRANCH_WEIGHT, MAX_PATH_BRANCHES, MAX_PATH_POINTS, MAX_SPAWN_POINTS,
+  isExit, isOnEdge, isSpawnPoint
+} from './game-map';
+import type { BranchMode, GridPoint, MapBranch, MapLayout } from './game-map';
+
+export const MAP_FILE_URL = 'map.json';
+
+const MAP_FILE_VERSION = 2;
+const LINEAR_MAP_FILE_VERSION = 1;
+
+/**
+ * Raised when a map file is malformed
+ */
+export class MapFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapFileError';
+  }
+}
+
+/**
+ * Fetch and parse a map file
+ * @returns The map, or null if there is no map file at the URL
+ */
+export async function fetchMapFile(url: string = MAP_FILE_URL): Promise<MapLayout | null> {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new MapFileError(`Map file could not be loaded (HTTP ${response.status})`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new MapFileError('Map file is not valid JSON');
+  }
+  return parseMapFile(json);
+}
+
+/**
+ * Validate a parsed map file, throwing a MapFileError that names the offending field
+ */
+export function parseMapFile(json: unknown): MapLayout {
+  if (!isObject(json)) {
+    throw new MapFileError('Map file must be a JSON object');
+  }
+  if (json.version !== MAP_FILE_VERSION && json.version !== LINEAR_MAP_FILE_VERSION) {
+    throw new MapFileError(`Unsupported map file version ${json.version}`);
+  }
+
+  const { blocked = [] } = json;
+  if (!Array.isArray(blocked)) {
+    throw new MapFileError('blocked must be an array of [column, row] cells');
+  }
+  const cells = blocked.map((cell, i) => parsePoint(cell, `blocked[${i}]`));
+
+  if (json.version === LINEAR_MAP_FILE_VERSION) {
+    const { path } = json;
+    if (!Array.isArray(path)) {
+      throw new MapFileError('path must be an array of [column, row] waypoints');
+    }
+    return checkMapLayout({
+      waypoints: path.map((point, i) => parsePoint(point, `path[${i}]`)),
+      branches: path.slice(1).map((_, i) => ({ from: i, to: i + 1, weight: 1 })),
+      branching: 'weighted',
+      blocked: cells
+    });
+  }
+
+  const { waypoints, branches, branching = 'weighted' } = json;
+  if (!Array.isArray(waypoints)) {
+    throw new MapFileError('waypoints must be an array of [column, row] grid intersections');
+  }
+  if (!Array.isArray(branches)) {
+    throw new MapFileError('branches must be an array of [from, to] or [from, to, weight] waypoint links');
+  }
+  if (!BRANCH_MODES.includes(branching as BranchMode)) {
+    throw new MapFileError(`branching must be one of ${BRANCH_MODES.join(', ')}`);
+  }
+
+  return checkMapLayout({
+    waypoints: waypoints.map((point, i) => parsePoint(point, `waypoints[${i}]`)),
+    branches: branches.map((branch, i) => parseBranch(branch, `branches[${i}]`)),
+    branching: branching as BranchMode,
+    blocked: cells
+  });
+}
+
+/**
+ * Check that a map can be played, the map editor checks its layout with this before applying it
+ * @returns The layout, with duplicate blocked cells removed
+ */
+export function checkMapLayout(layout: MapLayout): MapLayout {
+  const { waypoints, branches, blocked } = layout;
+
+  if (waypoints.length < 2 || waypoints.length > MAX_PATH_POINTS) {
+    throw new MapFileError(`The path needs 2 to ${MAX_PATH_POINTS} waypoints`);
+  }
+  waypoints.forEach((point, i) => {
+    if (!isInRange(point, GRID_COLS, GRID_ROWS)) {
+      throw new MapFileError(`Waypoint ${i + 1} is off the grid`);
+    }
+    const other = waypoints.findIndex(earlier => earlier.col === point.col && earlier.row === point.row);
+    if (other < i) {
+      throw new MapFileError(`Waypoint ${i + 1} is on top of waypoint ${other + 1}`);
+    }
+  });
+
+  branches.forEach((branch, i) => {
+    const name = `Branch ${branch.from + 1} to ${branch.to + 1}`;
+    if (!isIndex(branch.from, waypoints.length) || !isIndex(branch.to, waypoints.length)) {
+      throw new MapFileError(`Branch ${i + 1} links a waypoint that doesn't exist`);
+    }
+    if (branch.from === branch.to) {
+      throw new MapFileError(`${name} links the waypoint to itself`);
+    }
+    if (!Number.isInteger(branch.weight) || branch.weight < 1 || branch.weight > MAX_BRANCH_WEIGHT) {
+      throw new MapFileError(`${name} needs a whole number weight from 1 to ${MAX_BRANCH_WEIGHT}`);
+    }
+    if (branches.findIndex(other => other.from === branch.from && other.to === branch.to) < i) {
+      throw new MapFileError(`${name} is listed twice`);
+    }
+  });
+
+  waypoints.forEach((point, i) => {
+    const spawn = isSpawnPoint(layout, i);
+    const exit = isExit(layout, i);
+    if (spawn && exit) {
+      throw new MapFileError(`Waypoint ${i + 1} is not joined to the path`);
+    }
+    if (branches.filter(branch => branch.from === i).length > MAX_PATH_BRANCHES) {
+      throw new MapFileError(`Waypoint ${i + 1} has more than ${MAX_PATH_BRANCHES} branches`);
+    }
+    if (spawn && !isOnEdge(point)) {
+      throw new MapFileError(`Spawn point at waypoint ${i + 1} must be on the edge of the playfield`);
+    }
+    if (exit && !isOnEdge(point)) {
+      throw new MapFileError(`Exit at waypoint ${i + 1} must be on the edge of the playfield`);
+    }
+  });
+  if (waypoints.filter((_, i) => isSpawnPoint(layout, i)).length > MAX_SPAWN_POINTS) {
+    throw new MapFileError(`The path can have at most ${MAX_SPAWN_POINTS} spawn points`);
+  }
+  const loop = findLoop(waypoints.length, branches);
+  if (loop !== null) {
+    throw new MapFileError(`The path loops back on itself at waypoint ${loop + 1}`);
+  }
+
+  const cells = new Map<number, GridPoint>();
+  blocked.forEach((cell, i) => {
+    if (!isInRange(cell, GRID_COLS - 1, GRID_ROWS - 1)) {
+      throw new MapFileError(`Blocked cell ${i + 1} is off the grid`);
+    }
+    cells.set(cell.row * GRID_COLS + cell.col, cell);
+  });
+
+  return {
+    waypoints: waypoints.map(point => ({ ...point })),
+    branches: branches.map(branch => ({ ...branch })),
+    branching: layout.branching,
+    blocked: [...cells.values()].map(cell => ({ ...cell }))
+  };
+}
+
+/**
+ * Write a map as a map file
+ */
+export function serializeMapFile(layout: MapLayout): string {
+  const points = (list: GridPoint[]) => list.map(point => `[${point.col}, ${point.row}]`).join(', ');
+  const branches = layout.branches
+    .map(branch => branch.weight === 1 ? `[${branch.from}, ${branch.to}]` : `[${branch.from}, ${branch.to}, ${branch.weight}]`)
+    .join(', ');
+  return `{\n  "version": ${MAP_FILE_VERSION},\n  "waypoints": [${points(layout.waypoints)}],\n` +
+    `  "branches": [${branches}],\n  "branching": "${layout.branching}",\n  "blocked": [${points(layout.blocked)}]\n}\n`;
+}
+
+/**
+ * Find a waypoint on a loop, by repeatedly removing waypoints no remaining branch leads to
+ * @returns The index of a waypoint left over, or null if the branches never loop
+ */
+function findLoop(count: number, branches: MapBranch[]): number | null {
+  const entries = new Array<number>(count).fill(0);
+  for (const branch of branches) entries[branch.to]++;
+
+  const queue = entries.flatMap((entered, index) => entered === 0 ? [index] : []);
+  for (let i = 0; i < queue.length; i++) {
+    for (const branch of branches) {
+      if (branch.from === queue[i] && --entries[branch.to] === 0) queue.push(branch.to);
+    }
+  }
+
+  const left = entries.findIndex(entered => entered > 0);
+  return left < 0 ? null : left;
+}
+
+function parseBranch(value: unknown, path: string): MapBranch {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3 || !value.every(Number.isInteger)) {
+    throw new MapFileError(`${path} must be a [from, to] or [from, to, weight] list of whole numbers`);
+  }
+  return { from: value[0], to: value[1], weight: value[2] ?? 1 };
+}
+
+function parsePoint(value: unknown, path: string): GridPoint {
+  if (!Array.isArray(value) || value.length !== 2 || !value.every(Number.isInteger)) {
+    throw new MapFileError(`${path} must be a [column, row] pair of whole numbers`);
+  }
+  return { col: value[0], row: value[1] };
+}
+
+function isInRange(point: GridPoint, maxCol: number, maxRow: number): boolean {
+  return Number.isInteger(point.col) && Number.isInteger(point.row) &&
+    point.col >= 0 && point.row >= 0 && point.col <= maxCol && point.row <= maxRow;
+}
+
+function isIndex(value: number, count: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value < count;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
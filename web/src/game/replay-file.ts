@@ -0,0 +1,344 @@
+// Compact binary format for recorded input replays
+//
+// Layout (little-endian):
+//   magic "TDRP", version u16, flags u16, seed u32, timestep f32, frame count u32,
+//   expected money/lives/wave/score (u32 each, present when flags has REPLAY_FLAG_EXPECTED),
+//   setup: tower catalog, wave script, map and level rules, each as a length u32 then the bytes the module imports,
+//   input count u32, then per input: frame u32, deltaTime f32, type u8, arguments
+//
+// A step input advances a paused game by its deltaTime without counting as a frame.
+
+import type { GameStats } from '../wasm/wasm-loader';
+import { decodeTowerCatalog, encodeTowerCatalog, TowerCatalogError, TOWER_TARGETINGS } from './tower-catalog';
+import type { TowerStats, TowerTargeting } from './tower-catalog';
+import { decodeWaveScript, encodeWaveScript, WaveScriptError } from './wave-script';
+import type { WaveDefinition } from './wave-script';
+import { decodeMap, encodeMap, MapError } from './game-map';
+import type { MapLayout } from './game-map';
+import { decodeLevel, encodeLevel, LevelError } from './game-level';
+import type { LevelRules } from './game-level';
+
+export const REPLAY_FILE_EXTENSION = '.tdreplay';
+
+const REPLAY_MAGIC = 'TDRP';
+const REPLAY_VERSION = 2;
+const REPLAY_FLAG_EXPECTED = 1;
+
+/**
+ * Input codes used in replay files
+ */
+enum ReplayInputCode {
+  Click = 1,
+  SelectTower = 2,
+  Reset = 3,
+  Pause = 4,
+  Resume = 5,
+  Step = 6,
+  UpgradeTower = 7,
+  SellTower = 8,
+  SetTargeting = 9
+}
+
+/**
+ * An input that affects the simulation
+ */
+export type ReplayAction =
+  | { type: 'click'; x: number; y: number }
+  | { type: 'selectTower'; towerType: number }
+  | { type: 'reset' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'step' }
+  | { type: 'upgradeTower'; towerId: number }
+  | { type: 'sellTower'; towerId: number }
+  | { type: 'setTargeting'; towerId: number; targeting: TowerTargeting };
+
+/**
+ * An input, stamped with the frame it was applied before and that frame's time step
+ */
+export type ReplayInput = ReplayAction & { frame: number; deltaTime: number };
+
+/**
+ * What the run was played with, loaded into the module before the replay resets the game
+ */
+export interface ReplaySetup {
+  towers: ReadonlyArray<TowerStats>;
+  waves: ReadonlyArray<WaveDefinition>;
+  map: MapLayout;
+  level: LevelRules;
+}
+
+/**
+ * A recorded run, replayed by loading its setup, resetting the game with the seed and feeding the inputs back
+ */
+export interface Replay {
+  seed: number;
+  timestep: number;
+  frameCount: number;
+  setup: ReplaySetup;
+  inputs: ReplayInput[];
+  expected: GameStats | null; // Final stats the replay must reproduce
+}
+
+/**
+ * Raised when a replay file cannot be decoded
+ */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/**
+ * Encode a replay as a compact binary file
+ */
+export function encodeReplay(replay: Replay): Uint8Array {
+  const setup = encodeSetup(replay.setup);
+  let size = 24 + 4 + (replay.expected ? 16 : 0);
+  for (const section of setup) {
+    size += 4 + section.length;
+  }
+  for (const input of replay.inputs) {
+    size += 9 + argumentSize(input);
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  for (let i = 0; i < REPLAY_MAGIC.length; i++) {
+    bytes[offset++] = REPLAY_MAGIC.charCodeAt(i);
+  }
+  view.setUint16(offset, REPLAY_VERSION, true); offset += 2;
+  view.setUint16(offset, replay.expected ? REPLAY_FLAG_EXPECTED : 0, true); offset += 2;
+  view.setUint32(offset, replay.seed, true); offset += 4;
+  view.setFloat32(offset, replay.timestep, true); offset += 4;
+  view.setUint32(offset, replay.frameCount, true); offset += 4;
+  view.setUint32(offset, 0, true); offset += 4; // Reserved
+
+  if (replay.expected) {
+    const { money, lives, wave, score } = replay.expected;
+    for (const value of [money, lives, wave, score]) {
+      view.setUint32(offset, value, true); offset += 4;
+    }
+  }
+
+  for (const section of setup) {
+    view.setUint32(offset, section.length, true); offset += 4;
+    bytes.set(section, offset); offset += section.length;
+  }
+
+  view.setUint32(offset, replay.inputs.length, true); offset += 4;
+  for (const input of replay.inputs) {
+    view.setUint32(offset, input.frame, true); offset += 4;
+    view.setFloat32(offset, input.deltaTime, true); offset += 4;
+
+    switch (input.type) {
+      case 'click':
+        bytes[offset++] = ReplayInputCode.Click;
+        view.setFloat32(offset, input.x, true); offset += 4;
+        view.setFloat32(offset, input.y, true); offset += 4;
+        break;
+      case 'selectTower':
+        bytes[offset++] = ReplayInputCode.SelectTower;
+        bytes[offset++] = input.towerType;
+        break;
+      case 'reset':
+        bytes[offset++] = ReplayInputCode.Reset;
+        break;
+      case 'pause':
+        bytes[offset++] = ReplayInputCode.Pause;
+        break;
+      case 'resume':
+        bytes[offset++] = ReplayInputCode.Resume;
+        break;
+      case 'step':
+        bytes[offset++] = ReplayInputCode.Step;
+        break;
+      case 'upgradeTower':
+        bytes[offset++] = ReplayInputCode.UpgradeTower;
+        view.setUint32(offset, input.towerId, true); offset += 4;
+        break;
+      case 'sellTower':
+        bytes[offset++] = ReplayInputCode.SellTower;
+        view.setUint32(offset, input.towerId, true); offset += 4;
+        break;
+      case 'setTargeting':
+        bytes[offset++] = ReplayInputCode.SetTargeting;
+        view.setUint32(offset, input.towerId, true); offset += 4;
+        bytes[offset++] = TOWER_TARGETINGS.indexOf(input.targeting);
+        break;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a replay file, throwing a ReplayFormatError if it is malformed
+ */
+export function decodeReplay(bytes: Uint8Array): Replay {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (count: number): void => {
+    if (offset + count > bytes.length) {
+      throw new ReplayFormatError('Replay file is truncated');
+    }
+  };
+
+  need(24);
+  const magic = String.fromCharCode(...bytes.subarray(0, 4));
+  if (magic !== REPLAY_MAGIC) {
+    throw new ReplayFormatError('Not a replay file');
+  }
+  offset = 4;
+
+  const version = view.getUint16(offset, true); offset += 2;
+  if (version !== REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version ${version}`);
+  }
+  const flags = view.getUint16(offset, true); offset += 2;
+  const seed = view.getUint32(offset, true); offset += 4;
+  const timestep = view.getFloat32(offset, true); offset += 4;
+  const frameCount = view.getUint32(offset, true); offset += 4;
+  offset += 4; // Reserved
+
+  if (!(timestep > 0 && timestep <= 1)) {
+    throw new ReplayFormatError('Replay has an invalid time step');
+  }
+
+  let expected: GameStats | null = null;
+  if (flags & REPLAY_FLAG_EXPECTED) {
+    need(16);
+    expected = {
+      money: view.getUint32(offset, true),
+      lives: view.getUint32(offset + 4, true),
+      wave: view.getUint32(offset + 8, true),
+      score: view.getUint32(offset + 12, true)
+    };
+    offset += 16;
+  }
+
+  const sections: Uint8Array[] = [];
+  for (let i = 0; i < SETUP_SECTIONS; i++) {
+    need(4);
+    const length = view.getUint32(offset, true); offset += 4;
+    need(length);
+    sections.push(bytes.subarray(offset, offset + length));
+    offset += length;
+  }
+  const setup = decodeSetup(sections);
+
+  need(4);
+  const inputCount = view.getUint32(offset, true); offset += 4;
+  const inputs: ReplayInput[] = [];
+  let lastFrame = 0;
+
+  for (let i = 0; i < inputCount; i++) {
+    need(9);
+    const frame = view.getUint32(offset, true); offset += 4;
+    const deltaTime = view.getFloat32(offset, true); offset += 4;
+    const code = bytes[offset++];
+
+    if (frame < lastFrame || frame > frameCount) {
+      throw new ReplayFormatError(`Input ${i} is out of order`);
+    }
+    lastFrame = frame;
+
+    switch (code) {
+      case ReplayInputCode.Click: {
+        need(8);
+        const x = view.getFloat32(offset, true);
+        const y = view.getFloat32(offset + 4, true);
+        offset += 8;
+        inputs.push({ type: 'click', x, y, frame, deltaTime });
+        break;
+      }
+      case ReplayInputCode.SelectTower:
+        need(1);
+        inputs.push({ type: 'selectTower', towerType: bytes[offset++], frame, deltaTime });
+        break;
+      case ReplayInputCode.Reset:
+        inputs.push({ type: 'reset', frame, deltaTime });
+        break;
+      case ReplayInputCode.Pause:
+        inputs.push({ type: 'pause', frame, deltaTime });
+        break;
+      case ReplayInputCode.Resume:
+        inputs.push({ type: 'resume', frame, deltaTime });
+        break;
+      case ReplayInputCode.Step:
+        inputs.push({ type: 'step', frame, deltaTime });
+        break;
+      case ReplayInputCode.UpgradeTower:
+        need(4);
+        inputs.push({ type: 'upgradeTower', towerId: view.getUint32(offset, true), frame, deltaTime });
+        offset += 4;
+        break;
+      case ReplayInputCode.SellTower:
+        need(4);
+        inputs.push({ type: 'sellTower', towerId: view.getUint32(offset, true), frame, deltaTime });
+        offset += 4;
+        break;
+      case ReplayInputCode.SetTargeting: {
+        need(5);
+        const towerId = view.getUint32(offset, true);
+        const targeting = TOWER_TARGETINGS[bytes[offset + 4]];
+        offset += 5;
+        if (!targeting) {
+          throw new ReplayFormatError(`Input ${i} has an unknown targeting mode`);
+        }
+        inputs.push({ type: 'setTargeting', towerId, targeting, frame, deltaTime });
+        break;
+      }
+      default:
+        throw new ReplayFormatError(`Unknown input type ${code}`);
+    }
+  }
+
+  if (offset !== bytes.length) {
+    throw new ReplayFormatError('Replay file has trailing data');
+  }
+
+  return { seed, timestep, frameCount, setup, inputs, expected };
+}
+
+// Tower catalog, wave script, map and level rules
+const SETUP_SECTIONS = 4;
+
+function encodeSetup(setup: ReplaySetup): Uint8Array[] {
+  return [encodeTowerCatalog(setup.towers), encodeWaveScript(setup.waves), encodeMap(setup.map), encodeLevel(setup.level)];
+}
+
+function decodeSetup([towers, waves, map, level]: Uint8Array[]): ReplaySetup {
+  try {
+    return { towers: decodeTowerCatalog(towers), waves: decodeWaveScript(waves), map: decodeMap(map), level: decodeLevel(level) };
+  } catch (error) {
+    const setupErrors = [TowerCatalogError, WaveScriptError, MapError, LevelError];
+    if (setupErrors.some(ErrorClass => error instanceof ErrorClass)) {
+      throw new ReplayFormatError(`Replay setup is invalid: ${(error as Error).message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Number of argument bytes following an input's type code
+ */
+function argumentSize(input: ReplayAction): number {
+  switch (input.type) {
+    case 'click':
+      return 8;
+    case 'selectTower':
+      return 1;
+    case 'upgradeTower':
+    case 'sellTower':
+      return 4;
+    case 'setTargeting':
+      return 5;
+    default:
+      return 0;
+  }
+}
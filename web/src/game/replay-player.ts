@@ -0,0 +1,210 @@
+// Replay player that feeds recorded inputs back into the simulation
+import type { GameStats } from '../wasm/wasm-loader';
+import type { WasmGame } from '../wasm/wasm-game';
+import type { Replay } from './replay-file';
+
+// Playback speeds offered by the replay controls
+export const REPLAY_SPEEDS = [1, 4, 16] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+// Most simulation steps run per animation frame, so a stall can't lock up the page
+const MAX_STEPS_PER_ADVANCE = 16 * 8;
+
+/**
+ * Raised when a replay does not reproduce its recorded result
+ */
+export class ReplayMismatchError extends Error {
+  readonly expected: GameStats;
+  readonly actual: GameStats;
+
+  constructor(expected: GameStats, actual: GameStats) {
+    const fields = (['money', 'lives', 'wave'] as const)
+      .filter(key => expected[key] !== actual[key])
+      .map(key => `${key}: expected ${expected[key]}, got ${actual[key]}`);
+    super(`Replay diverged (${fields.join('; ')})`);
+    this.name = 'ReplayMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+export class ReplayPlayer {
+  private wasmLoader: WasmGame;
+  private replay: Replay;
+  private frame: number = 0;
+  private nextInput: number = 0;
+  private speed: ReplaySpeed = 1;
+  private playing: boolean = false;
+  private accumulator: number = 0;
+  private simulation: Promise<unknown> = Promise.resolve(); // Last restart or step queued, they run one at a time
+
+  constructor(wasmLoader: WasmGame, replay: Replay) {
+    this.wasmLoader = wasmLoader;
+    this.replay = replay;
+  }
+
+  /**
+   * Get the replay being played
+   */
+  getReplay(): Replay {
+    return this.replay;
+  }
+
+  /**
+   * Get the number of frames simulated so far
+   */
+  getFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Get the total number of frames in the replay
+   */
+  getFrameCount(): number {
+    return this.replay.frameCount;
+  }
+
+  /**
+   * Check if every frame has been simulated
+   */
+  isFinished(): boolean {
+    return this.frame >= this.replay.frameCount;
+  }
+
+  /**
+   * Check if the replay is advancing with real time
+   */
+  isPlaying(): boolean {
+    return this.playing && !this.isFinished();
+  }
+
+  /**
+   * Get the playback speed multiplier
+   */
+  getSpeed(): ReplaySpeed {
+    return this.speed;
+  }
+
+  /**
+   * Set the playback speed multiplier
+   */
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+  }
+
+  /**
+   * Start advancing with real time
+   */
+  play(): void {
+    this.playing = true;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Stop advancing, the current frame stays on screen
+   */
+  pause(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Get how far real time has moved towards the next frame (0-1), for interpolated drawing
+   */
+  getInterpolation(): number {
+    return Math.min(this.accumulator / this.replay.timestep, 1);
+  }
+
+  /**
+   * Reset the game to the state the recording started from
+   */
+  restart(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.wasmLoader.setSeed(this.replay.seed);
+      await this.wasmLoader.applyInput({ type: 'reset' });
+      this.frame = 0;
+      this.nextInput = 0;
+      this.accumulator = 0;
+    });
+  }
+
+  /**
+   * Apply the inputs recorded for the current frame and simulate it
+   */
+  step(): Promise<void> {
+    return this.exclusive(async () => {
+      if (this.isFinished()) return;
+
+      const { inputs } = this.replay;
+      let deltaTime = this.replay.timestep;
+      while (this.nextInput < inputs.length && inputs[this.nextInput].frame === this.frame) {
+        const input = inputs[this.nextInput++];
+        await this.wasmLoader.applyInput(input, input.deltaTime);
+        if (input.type !== 'step') deltaTime = input.deltaTime;
+      }
+
+      await this.wasmLoader.updateGame(deltaTime);
+      this.frame++;
+    });
+  }
+
+  /**
+   * Simulate the frames due after some real time has passed
+   * @param elapsed Real time since the last call in seconds
+   * @returns The number of frames simulated
+   */
+  async advance(elapsed: number): Promise<number> {
+    if (!this.isPlaying()) return 0;
+
+    this.accumulator += elapsed * this.speed;
+    let steps = 0;
+    while (this.accumulator >= this.replay.timestep && steps < MAX_STEPS_PER_ADVANCE && !this.isFinished()) {
+      await this.step();
+      this.accumulator -= this.replay.timestep;
+      steps++;
+    }
+
+    // Drop time we could not catch up on instead of spiralling
+    if (steps === MAX_STEPS_PER_ADVANCE) {
+      this.accumulator = 0;
+    }
+    return steps;
+  }
+
+  // Run a restart or step once the ones queued before it have finished
+  // With the module in a worker every call is a round trip, and interleaving two steps' inputs and updates
+  // would apply an input a frame late
+  private exclusive<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.simulation.then(run);
+    this.simulation = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Jump to a frame, re-simulating from the start when seeking backwards
+   */
+  async seek(frame: number): Promise<void> {
+    const target = Math.max(0, Math.min(frame, this.replay.frameCount));
+    if (target < this.frame) {
+      await this.restart();
+    }
+    while (this.frame < target) {
+      await this.step();
+    }
+  }
+
+  /**
+   * Play the whole replay as fast as possible and check it reproduces the recorded result
+   * @returns The final game stats
+   */
+  async verify(): Promise<GameStats> {
+    await this.restart();
+    await this.seek(this.replay.frameCount);
+
+    const actual = await this.wasmLoader.getGameStats();
+    const expected = this.replay.expected;
+    if (expected && (expected.money !== actual.money || expected.lives !== actual.lives || expected.wave !== actual.wave)) {
+      throw new ReplayMismatchError(expected, actual);
+    }
+    return actual;
+  }
+}
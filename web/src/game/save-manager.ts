@@ -0,0 +1,257 @@
+// Save manager for storing game snapshots in localStorage and save files
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Snapshot status codes, must match statusCode in src/snapshot.zig
+ */
+export enum SaveStatus {
+  Ok = 0,
+  TooLarge = 1,
+  Truncated = 2,
+  BadMagic = 3,
+  UnsupportedVersion = 4,
+  ChecksumMismatch = 5,
+  InvalidData = 6
+}
+
+const STATUS_MESSAGES: Record<SaveStatus, string> = {
+  [SaveStatus.Ok]: 'Save loaded',
+  [SaveStatus.TooLarge]: 'Save is too large',
+  [SaveStatus.Truncated]: 'Save is truncated',
+  [SaveStatus.BadMagic]: 'Not a tower defense save',
+  [SaveStatus.UnsupportedVersion]: 'Save was made by an unsupported version of the game',
+  [SaveStatus.ChecksumMismatch]: 'Save is corrupt',
+  [SaveStatus.InvalidData]: 'Save contains invalid game state'
+};
+
+/**
+ * Raised when a save cannot be restored
+ */
+export class SaveValidationError extends Error {
+  readonly status: SaveStatus | null;
+
+  constructor(message: string, status: SaveStatus | null = null) {
+    super(message);
+    this.name = 'SaveValidationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Summary of a stored save, shown in the slot list
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number;
+  wave: number;
+  money: number;
+  lives: number;
+  score: number;
+}
+
+// Layout of a slot in localStorage
+interface StoredSave extends SaveSlotInfo {
+  format: number;
+  data: string; // Base64 snapshot
+}
+
+const STORAGE_PREFIX = 'towerd.save.';
+const STORAGE_FORMAT = 1;
+
+export const MANUAL_SLOT = 'manual';
+export const AUTOSAVE_SLOTS = ['autosave-1', 'autosave-2', 'autosave-3'];
+export const SAVE_FILE_EXTENSION = '.tdsave';
+
+export class SaveManager {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private storage: Storage | null;
+
+  constructor(wasmLoader: WasmGame, logger?: Logger, storage?: Storage | null) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+    this.storage = storage !== undefined ? storage : (typeof localStorage !== 'undefined' ? localStorage : null);
+  }
+
+  /**
+   * Save the current game to a slot
+   * @param slot Slot name
+   * @returns The stored slot summary
+   */
+  async save(slot: string = MANUAL_SLOT): Promise<SaveSlotInfo> {
+    if (!this.storage) {
+      throw new Error('Local storage is not available');
+    }
+
+    const bytes = await this.createSnapshot();
+    const stats = await this.wasmLoader.getGameStats();
+    const info: SaveSlotInfo = { slot, savedAt: Date.now(), ...stats };
+    const stored: StoredSave = { ...info, format: STORAGE_FORMAT, data: encodeBase64(bytes) };
+
+    this.storage.setItem(STORAGE_PREFIX + slot, JSON.stringify(stored));
+    this.logger.log(`Game saved to slot '${slot}' (${bytes.length} bytes)`);
+    return info;
+  }
+
+  /**
+   * Save to the least recently used autosave slot
+   */
+  async autosave(): Promise<SaveSlotInfo> {
+    const used = new Map(this.listSlots().map(info => [info.slot, info.savedAt]));
+    const slot = AUTOSAVE_SLOTS
+      .slice()
+      .sort((a, b) => (used.get(a) ?? 0) - (used.get(b) ?? 0))[0];
+    return this.save(slot);
+  }
+
+  /**
+   * Restore the game from a slot
+   * @param slot Slot name
+   */
+  async load(slot: string): Promise<void> {
+    const stored = this.readSlot(slot);
+    if (!stored) {
+      throw new SaveValidationError(`No save in slot '${slot}'`);
+    }
+
+    await this.restoreSnapshot(decodeBase64(stored.data));
+    this.logger.log(`Game loaded from slot '${slot}'`);
+  }
+
+  /**
+   * List the stored saves, newest first
+   */
+  listSlots(): SaveSlotInfo[] {
+    if (!this.storage) return [];
+
+    const slots: SaveSlotInfo[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key || !key.startsWith(STORAGE_PREFIX)) continue;
+
+      try {
+        const { slot, savedAt, wave, money, lives, score } = this.readSlot(key.slice(STORAGE_PREFIX.length))!;
+        slots.push({ slot, savedAt, wave, money, lives, score });
+      } catch (error) {
+        this.logger.warn(`Ignoring unreadable save '${key}': ${error}`);
+      }
+    }
+
+    return slots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Delete a stored save
+   */
+  deleteSlot(slot: string): void {
+    this.storage?.removeItem(STORAGE_PREFIX + slot);
+  }
+
+  /**
+   * Download the current game as a save file
+   */
+  async download(): Promise<void> {
+    const bytes = await this.createSnapshot();
+    const { wave } = await this.wasmLoader.getGameStats();
+
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `towerd-wave-${wave}${SAVE_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.logger.log(`Save file downloaded (${bytes.length} bytes)`);
+  }
+
+  /**
+   * Restore the game from an uploaded save file
+   */
+  async loadFile(file: Blob): Promise<void> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    await this.restoreSnapshot(bytes);
+    this.logger.log('Game loaded from file');
+  }
+
+  /**
+   * Serialize the game, throwing if the WASM module could not
+   */
+  private async createSnapshot(): Promise<Uint8Array> {
+    const bytes = await this.wasmLoader.exportSnapshot();
+    if (!bytes) {
+      throw new Error('Game state could not be serialized');
+    }
+    return bytes;
+  }
+
+  /**
+   * Hand a snapshot to the WASM module, throwing a SaveValidationError if it is rejected
+   */
+  private async restoreSnapshot(bytes: Uint8Array): Promise<void> {
+    const status: SaveStatus = await this.wasmLoader.importSnapshot(bytes);
+    if (status !== SaveStatus.Ok) {
+      throw new SaveValidationError(STATUS_MESSAGES[status] ?? `Save rejected (status ${status})`, status);
+    }
+  }
+
+  /**
+   * Read and validate a stored slot
+   * @returns The stored save, or null if the slot is empty
+   */
+  private readSlot(slot: string): StoredSave | null {
+    const raw = this.storage?.getItem(STORAGE_PREFIX + slot);
+    if (raw === null || raw === undefined) return null;
+
+    let stored: StoredSave;
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      throw new SaveValidationError(`Save in slot '${slot}' is corrupt`);
+    }
+
+    if (typeof stored !== 'object' || stored === null || typeof stored.data !== 'string') {
+      throw new SaveValidationError(`Save in slot '${slot}' is corrupt`);
+    }
+    if (stored.format !== STORAGE_FORMAT) {
+      throw new SaveValidationError(STATUS_MESSAGES[SaveStatus.UnsupportedVersion], SaveStatus.UnsupportedVersion);
+    }
+
+    return { ...stored, slot };
+  }
+}
+
+/**
+ * Encode bytes as base64 for storage in localStorage
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64 string produced by encodeBase64
+ */
+function decodeBase64(data: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(data);
+  } catch {
+    throw new SaveValidationError(STATUS_MESSAGES[SaveStatus.ChecksumMismatch], SaveStatus.ChecksumMismatch);
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
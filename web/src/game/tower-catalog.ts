@@ -0,0 +1,208 @@
+// Tower catalog exported by the WASM module, drives the tower picker, hotkeys and tooltips
+//
+// Wire layout (little-endian), must match src/entities/tower_catalog.zig:
+//   count u8, then per tower type: name length u8, name bytes,
+//   cost u32, range f32, damage f32, cooldown f32, colour u32 (0xRRGGBB), shape u8, attack u8, targeting u8
+
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Outline a tower is drawn with, indexed by Shape in src/entities/tower_catalog.zig
+ */
+export type TowerShape = 'cross' | 'triangle' | 'square' | 'circle';
+export const TOWER_SHAPES: TowerShape[] = ['cross', 'triangle', 'square', 'circle'];
+
+/**
+ * How a tower's projectiles affect enemies, indexed by Attack in src/entities/tower_catalog.zig
+ */
+export type TowerAttack = 'direct' | 'splash' | 'slow';
+export const TOWER_ATTACKS: TowerAttack[] = ['direct', 'splash', 'slow'];
+
+/**
+ * Which enemy in range a tower shoots at, indexed by Targeting in src/entities/tower_catalog.zig
+ */
+export type TowerTargeting = 'first' | 'last' | 'strongest' | 'weakest' | 'closest' | 'fastest';
+export const TOWER_TARGETINGS: TowerTargeting[] = ['first', 'last', 'strongest', 'weakest', 'closest', 'fastest'];
+
+// Limits enforced by the WASM module, must match constants.zig
+export const MAX_TOWER_TYPES = 16;
+export const MAX_TOWER_NAME_LENGTH = 16; // In UTF-8 bytes
+
+/**
+ * Stats and appearance of a tower type
+ */
+export interface TowerStats {
+  name: string;
+  cost: number;
+  range: number;
+  damage: number;
+  cooldown: number; // Seconds between shots
+  color: number; // 0xRRGGBB
+  shape: TowerShape;
+  attack: TowerAttack;
+  targeting: TowerTargeting; // Default for towers of this type
+}
+
+/**
+ * A tower type in the catalog
+ */
+export interface TowerDefinition extends TowerStats {
+  id: number; // Passed to selectTowerType, starting at 1
+  hotkey: string | null; // Number key that selects the tower, the first nine types get one
+}
+
+/**
+ * Raised when a catalog cannot be decoded or is rejected by the WASM module
+ */
+export class TowerCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TowerCatalogError';
+  }
+}
+
+/**
+ * Encode tower types in the WASM catalog format, ids follow the array order
+ */
+export function encodeTowerCatalog(towers: ReadonlyArray<TowerStats>): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = towers.map(tower => encoder.encode(tower.name));
+
+  let size = 1;
+  for (const name of names) {
+    size += 1 + name.length + 23;
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  bytes[offset++] = towers.length;
+  towers.forEach((tower, i) => {
+    bytes[offset++] = names[i].length;
+    bytes.set(names[i], offset); offset += names[i].length;
+    view.setUint32(offset, tower.cost, true); offset += 4;
+    view.setFloat32(offset, tower.range, true); offset += 4;
+    view.setFloat32(offset, tower.damage, true); offset += 4;
+    view.setFloat32(offset, tower.cooldown, true); offset += 4;
+    view.setUint32(offset, tower.color, true); offset += 4;
+    bytes[offset++] = TOWER_SHAPES.indexOf(tower.shape);
+    bytes[offset++] = TOWER_ATTACKS.indexOf(tower.attack);
+    bytes[offset++] = TOWER_TARGETINGS.indexOf(tower.targeting);
+  });
+
+  return bytes;
+}
+
+/**
+ * Decode a catalog exported by the WASM module, throwing a TowerCatalogError if it is malformed
+ */
+export function decodeTowerCatalog(bytes: Uint8Array): TowerDefinition[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8');
+  let offset = 0;
+
+  const need = (count: number): void => {
+    if (offset + count > bytes.length) {
+      throw new TowerCatalogError('Tower catalog is truncated');
+    }
+  };
+
+  need(1);
+  const count = bytes[offset++];
+  const towers: TowerDefinition[] = [];
+
+  for (let i = 0; i < count; i++) {
+    need(1);
+    const nameLength = bytes[offset++];
+    need(nameLength + 23);
+    const name = decoder.decode(bytes.subarray(offset, offset + nameLength));
+    offset += nameLength;
+
+    const cost = view.getUint32(offset, true);
+    const range = view.getFloat32(offset + 4, true);
+    const damage = view.getFloat32(offset + 8, true);
+    const cooldown = view.getFloat32(offset + 12, true);
+    const color = view.getUint32(offset + 16, true);
+    const shape = TOWER_SHAPES[bytes[offset + 20]];
+    const attack = TOWER_ATTACKS[bytes[offset + 21]];
+    const targeting = TOWER_TARGETINGS[bytes[offset + 22]];
+    offset += 23;
+
+    if (!shape || !attack || !targeting) {
+      throw new TowerCatalogError(`Tower type ${i + 1} has an unknown shape, attack or targeting`);
+    }
+
+    const id = i + 1;
+    towers.push({ id, hotkey: id <= 9 ? String(id) : null, name, cost, range, damage, cooldown, color, shape, attack, targeting });
+  }
+
+  return towers;
+}
+
+export class TowerCatalog {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private towers: TowerDefinition[] = [];
+
+  constructor(wasmLoader: WasmGame, logger?: Logger) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Get the tower types, in id order
+   */
+  getTowers(): ReadonlyArray<TowerDefinition> {
+    return this.towers;
+  }
+
+  /**
+   * Look up a tower type by id
+   */
+  getTower(id: number): TowerDefinition | undefined {
+    return this.towers[id - 1];
+  }
+
+  /**
+   * Look up the tower type selected by a key
+   */
+  getTowerByHotkey(key: string): TowerDefinition | undefined {
+    return this.towers.find(tower => tower.hotkey === key);
+  }
+
+  /**
+   * Read the catalog from the WASM module
+   */
+  async refresh(): Promise<ReadonlyArray<TowerDefinition>> {
+    const bytes = await this.wasmLoader.exportTowerCatalog();
+    if (!bytes) {
+      throw new TowerCatalogError('Tower catalog could not be exported');
+    }
+
+    this.towers = decodeTowerCatalog(bytes);
+    return this.towers;
+  }
+
+  /**
+   * Replace the catalog in the WASM module, towers already built keep their stats
+   * @param towers Tower types in id order
+   */
+  async apply(towers: ReadonlyArray<TowerStats>): Promise<ReadonlyArray<TowerDefinition>> {
+    const status = await this.wasmLoader.importTowerCatalog(encodeTowerCatalog(towers));
+    if (status !== 0) {
+      throw new TowerCatalogError(`Tower catalog rejected (status ${status})`);
+    }
+
+    await this.refresh();
+    this.logger.log(`Tower catalog updated: ${this.towers.map(tower => tower.name).join(', ')}`);
+    return this.towers;
+  }
+}
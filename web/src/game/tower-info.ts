@@ -0,0 +1,64 @@
+// Stats of a built tower, shown in the tower panel
+//
+// Wire layout (little-endian, 4 bytes each), must match Tower.writeInfo in src/entities/tower.zig:
+//   id u32, type u32, level u32, max level u32, x f32, y f32, damage f32, range f32,
+//   cooldown f32, kills u32, damage dealt f32, upgrade cost u32 (0 at the maximum level), sell value u32,
+//   targeting u32
+
+import { TOWER_TARGETINGS } from './tower-catalog';
+import type { TowerTargeting } from './tower-catalog';
+
+const TOWER_INFO_SIZE = 14 * 4;
+
+/**
+ * A built tower and what it has done so far
+ */
+export interface TowerInfo {
+  id: number; // Stable id passed to upgradeTower and sellTower
+  towerType: number; // Id in the tower catalog
+  level: number;
+  maxLevel: number;
+  x: number;
+  y: number;
+  damage: number;
+  range: number;
+  cooldown: number; // Seconds between shots
+  kills: number;
+  damageDealt: number;
+  upgradeCost: number | null; // Null at the maximum level
+  sellValue: number;
+  targeting: TowerTargeting;
+}
+
+/**
+ * Decode the tower stats written by the WASM module
+ * @returns The stats, or null if the block is too short or malformed
+ */
+export function decodeTowerInfo(bytes: Uint8Array): TowerInfo | null {
+  if (bytes.length < TOWER_INFO_SIZE) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const u32 = (index: number) => view.getUint32(index * 4, true);
+  const f32 = (index: number) => view.getFloat32(index * 4, true);
+
+  const targeting = TOWER_TARGETINGS[u32(13)];
+  if (!targeting) return null;
+
+  const upgradeCost = u32(11);
+  return {
+    id: u32(0),
+    towerType: u32(1),
+    level: u32(2),
+    maxLevel: u32(3),
+    x: f32(4),
+    y: f32(5),
+    damage: f32(6),
+    range: f32(7),
+    cooldown: f32(8),
+    kills: u32(9),
+    damageDealt: f32(10),
+    upgradeCost: u32(2) < u32(3) ? upgradeCost : null,
+    sellValue: u32(12),
+    targeting
+  };
+}
@@ -0,0 +1,157 @@
+// JSON wave file that lets designers script waves without rebuilding the WASM module
+//
+// Layout:
+//   { "version": 1, "waves": [
+//     { "boss": false, "groups": [
+//       { "enemy": "normal", "count": 7, "health": 25, "speed": 52, "bounty": 6, "interval": 1.0, "delay": 1.0, "spawn": 0 }, ...
+//     ] }, ...
+//   ] }
+//
+// Waves play in the order of the waves array. boss defaults to false, interval to 1 second and delay to 0.
+// spawn picks the map's spawn point the group enters at, counted from 0 in waypoint order and wrapping around
+// on maps with fewer. Without it the group's enemies take the spawn points in turn.
+
+import { ENEMY_KINDS } from './enemy-types';
+import type { EnemyKind } from './enemy-types';
+import { MAX_SPAWN_POINTS } from './game-map';
+import { MAX_GROUP_SIZE, MAX_WAVE_GROUPS, MAX_WAVES } from './wave-script';
+import type { WaveDefinition, WaveGroup } from './wave-script';
+
+export const WAVE_FILE_URL = 'waves.json';
+
+const WAVE_FILE_VERSION = 1;
+
+/**
+ * Raised when a wave file is malformed
+ */
+export class WaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaveFileError';
+  }
+}
+
+/**
+ * Fetch and parse a wave file
+ * @returns The waves, or null if there is no wave file at the URL
+ */
+export async function fetchWaveFile(url: string = WAVE_FILE_URL): Promise<WaveDefinition[] | null> {
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new WaveFileError(`Wave file could not be loaded (HTTP ${response.status})`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new WaveFileError('Wave file is not valid JSON');
+  }
+  return parseWaveFile(json);
+}
+
+/**
+ * Validate a parsed wave file, throwing a WaveFileError that names the offending field
+ */
+export function parseWaveFile(json: unknown): WaveDefinition[] {
+  if (!isObject(json)) {
+    throw new WaveFileError('Wave file must be a JSON object');
+  }
+  if (json.version !== WAVE_FILE_VERSION) {
+    throw new WaveFileError(`Unsupported wave file version ${json.version}`);
+  }
+
+  return parseWaves(json.waves);
+}
+
+/**
+ * Validate the waves array of a wave file, the wave editor checks its schedule with this before applying it
+ */
+export function parseWaves(waves: unknown): WaveDefinition[] {
+  if (!Array.isArray(waves) || waves.length === 0 || waves.length > MAX_WAVES) {
+    throw new WaveFileError(`waves must be an array of 1 to ${MAX_WAVES} waves`);
+  }
+
+  return waves.map((wave, i) => parseWave(wave, `waves[${i}]`));
+}
+
+/**
+ * Write waves as a wave file
+ */
+export function serializeWaveFile(waves: ReadonlyArray<WaveDefinition>): string {
+  const lines = waves.map(wave => {
+    const groups = wave.groups.map(group => `      ${JSON.stringify(group)}`).join(',\n');
+    return `    { "boss": ${wave.boss}, "groups": [\n${groups}\n    ] }`;
+  });
+  return `{\n  "version": ${WAVE_FILE_VERSION},\n  "waves": [\n${lines.join(',\n')}\n  ]\n}\n`;
+}
+
+function parseWave(wave: unknown, path: string): WaveDefinition {
+  if (!isObject(wave)) {
+    throw new WaveFileError(`${path} must be an object`);
+  }
+
+  const { boss = false, groups } = wave;
+
+  if (typeof boss !== 'boolean') {
+    throw new WaveFileError(`${path}.boss must be true or false`);
+  }
+  if (!Array.isArray(groups) || groups.length === 0 || groups.length > MAX_WAVE_GROUPS) {
+    throw new WaveFileError(`${path}.groups must be an array of 1 to ${MAX_WAVE_GROUPS} groups`);
+  }
+
+  return { boss, groups: groups.map((group, i) => parseGroup(group, `${path}.groups[${i}]`)) };
+}
+
+function parseGroup(group: unknown, path: string): WaveGroup {
+  if (!isObject(group)) {
+    throw new WaveFileError(`${path} must be an object`);
+  }
+
+  const { enemy, count, health, speed, bounty, interval = 1, delay = 0, spawn } = group;
+
+  if (!ENEMY_KINDS.includes(enemy as EnemyKind)) {
+    throw new WaveFileError(`${path}.enemy must be one of ${ENEMY_KINDS.join(', ')}`);
+  }
+  if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_GROUP_SIZE) {
+    throw new WaveFileError(`${path}.count must be a whole number from 1 to ${MAX_GROUP_SIZE}`);
+  }
+  if (!isNumberAbove(health, 0)) {
+    throw new WaveFileError(`${path}.health must be a positive number`);
+  }
+  if (!isNumberAbove(speed, 0)) {
+    throw new WaveFileError(`${path}.speed must be a positive number`);
+  }
+  if (!Number.isInteger(bounty) || (bounty as number) < 0 || (bounty as number) > 0xffffffff) {
+    throw new WaveFileError(`${path}.bounty must be a whole number of at least 0`);
+  }
+  if (!isNumberAbove(interval, 0, true)) {
+    throw new WaveFileError(`${path}.interval must be a number of seconds of at least 0`);
+  }
+  if (!isNumberAbove(delay, 0, true)) {
+    throw new WaveFileError(`${path}.delay must be a number of seconds of at least 0`);
+  }
+  if (spawn !== undefined && (!Number.isInteger(spawn) || (spawn as number) < 0 || (spawn as number) >= MAX_SPAWN_POINTS)) {
+    throw new WaveFileError(`${path}.spawn must be a whole number from 0 to ${MAX_SPAWN_POINTS - 1}`);
+  }
+
+  return {
+    enemy: enemy as EnemyKind,
+    count: count as number,
+    health,
+    speed,
+    bounty: bounty as number,
+    interval,
+    delay,
+    spawn: spawn as number | undefined
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberAbove(value: unknown, min: number, inclusive: boolean = false): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && (inclusive ? value >= min : value > min);
+}
@@ -0,0 +1,243 @@
+// Wave script exported by the WASM module, drives the wave editor and the next wave preview
+//
+// Wire layout (little-endian), must match src/entities/wave_script.zig:
+//   wave count u8, then per wave: flags u8 (bit 0 = boss wave), group count u8,
+//   then per group: enemy kind u8, count u16, health f32, speed f32, bounty u32, interval f32, delay f32,
+//   spawn point u8 (0 = the map's first, SPAWN_ANY = each in turn)
+
+import { ENEMY_KINDS } from './enemy-types';
+import type { EnemyKind } from './enemy-types';
+import type { WasmGame } from '../wasm/wasm-game';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+// Limits enforced by the WASM module, must match constants.zig
+export const MAX_WAVES = 50;
+export const MAX_WAVE_GROUPS = 8;
+export const MAX_GROUP_SIZE = 0xffff;
+
+const BOSS_FLAG = 1;
+const GROUP_SIZE = 24;
+const SPAWN_ANY = 0xff;
+
+/**
+ * A run of identical enemies spawned one after another
+ */
+export interface WaveGroup {
+  enemy: EnemyKind;
+  count: number;
+  health: number;
+  speed: number; // Pixels per second
+  bounty: number; // Money paid per kill
+  interval: number; // Seconds between spawns within the group
+  delay: number; // Seconds from the previous group's last spawn, or the start of the wave, to this group's first
+  spawn?: number; // Spawn point, from 0 in waypoint order and wrapping around on maps with fewer, each in turn if unset
+}
+
+/**
+ * The groups of one wave, spawned in order
+ */
+export interface WaveDefinition {
+  boss: boolean;
+  groups: WaveGroup[];
+}
+
+/**
+ * Totals shown by the wave editor and the next wave preview
+ */
+export interface WaveSummary {
+  enemies: number;
+  totalHealth: number;
+  totalBounty: number;
+  duration: number; // Seconds from the start of the wave to its last spawn, ignoring jitter
+  counts: Partial<Record<EnemyKind, number>>;
+}
+
+/**
+ * Raised when a wave script cannot be decoded or is rejected by the WASM module
+ */
+export class WaveScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaveScriptError';
+  }
+}
+
+/**
+ * Add up the enemies, health and bounty of a wave
+ */
+export function summarizeWave(wave: WaveDefinition): WaveSummary {
+  const summary: WaveSummary = { enemies: 0, totalHealth: 0, totalBounty: 0, duration: 0, counts: {} };
+
+  for (const group of wave.groups) {
+    summary.enemies += group.count;
+    summary.totalHealth += group.health * group.count;
+    summary.totalBounty += group.bounty * group.count;
+    summary.duration += group.delay + group.interval * (group.count - 1);
+    summary.counts[group.enemy] = (summary.counts[group.enemy] ?? 0) + group.count;
+  }
+
+  return summary;
+}
+
+/**
+ * Encode waves in the WASM wave script format
+ */
+export function encodeWaveScript(waves: ReadonlyArray<WaveDefinition>): Uint8Array {
+  let size = 1;
+  for (const wave of waves) {
+    size += 2 + wave.groups.length * GROUP_SIZE;
+  }
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  bytes[offset++] = waves.length;
+  for (const wave of waves) {
+    bytes[offset++] = wave.boss ? BOSS_FLAG : 0;
+    bytes[offset++] = wave.groups.length;
+    for (const group of wave.groups) {
+      bytes[offset++] = ENEMY_KINDS.indexOf(group.enemy);
+      view.setUint16(offset, group.count, true); offset += 2;
+      view.setFloat32(offset, group.health, true); offset += 4;
+      view.setFloat32(offset, group.speed, true); offset += 4;
+      view.setUint32(offset, group.bounty, true); offset += 4;
+      view.setFloat32(offset, group.interval, true); offset += 4;
+      view.setFloat32(offset, group.delay, true); offset += 4;
+      bytes[offset++] = group.spawn ?? SPAWN_ANY;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a wave script exported by the WASM module, throwing a WaveScriptError if it is malformed
+ */
+export function decodeWaveScript(bytes: Uint8Array): WaveDefinition[] {
+  const reader = new WaveReader(bytes);
+  const count = reader.u8();
+  const waves: WaveDefinition[] = [];
+
+  for (let i = 0; i < count; i++) {
+    waves.push(reader.wave(i + 1));
+  }
+
+  return waves;
+}
+
+/**
+ * Decode a single wave written by saveWavePreview
+ */
+export function decodeWave(bytes: Uint8Array): WaveDefinition {
+  return new WaveReader(bytes).wave(1);
+}
+
+class WaveReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    this.need(1);
+    return this.bytes[this.offset++];
+  }
+
+  wave(number: number): WaveDefinition {
+    const flags = this.u8();
+    const groupCount = this.u8();
+    this.need(groupCount * GROUP_SIZE);
+
+    const groups: WaveGroup[] = [];
+    for (let i = 0; i < groupCount; i++) {
+      const at = this.offset;
+      const enemy = ENEMY_KINDS[this.bytes[at]];
+      if (!enemy) {
+        throw new WaveScriptError(`Wave ${number} group ${i + 1} has an unknown enemy kind`);
+      }
+
+      const spawn = this.bytes[at + 23];
+      groups.push({
+        enemy,
+        count: this.view.getUint16(at + 1, true),
+        health: this.f32(at + 3),
+        speed: this.f32(at + 7),
+        bounty: this.view.getUint32(at + 11, true),
+        interval: this.f32(at + 15),
+        delay: this.f32(at + 19),
+        spawn: spawn === SPAWN_ANY ? undefined : spawn
+      });
+      this.offset += GROUP_SIZE;
+    }
+
+    return { boss: (flags & BOSS_FLAG) !== 0, groups };
+  }
+
+  // f32 fields are rounded to the precision they were stored with, so 0.1 reads back as 0.1
+  private f32(at: number): number {
+    return parseFloat(this.view.getFloat32(at, true).toPrecision(7));
+  }
+
+  private need(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new WaveScriptError('Wave script is truncated');
+    }
+  }
+}
+
+export class WaveScript {
+  private wasmLoader: WasmGame;
+  private logger: Logger;
+  private waves: WaveDefinition[] = [];
+
+  constructor(wasmLoader: WasmGame, logger?: Logger) {
+    this.wasmLoader = wasmLoader;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Get the waves, wave 1 first
+   */
+  getWaves(): ReadonlyArray<WaveDefinition> {
+    return this.waves;
+  }
+
+  /**
+   * Read the script from the WASM module
+   */
+  async refresh(): Promise<ReadonlyArray<WaveDefinition>> {
+    const bytes = await this.wasmLoader.exportWaveScript();
+    if (!bytes) {
+      throw new WaveScriptError('Wave script could not be exported');
+    }
+
+    this.waves = decodeWaveScript(bytes);
+    return this.waves;
+  }
+
+  /**
+   * Replace the script in the WASM module, a wave already under way finishes as it started
+   * @param waves Waves in play order
+   */
+  async apply(waves: ReadonlyArray<WaveDefinition>): Promise<ReadonlyArray<WaveDefinition>> {
+    const status = await this.wasmLoader.importWaveScript(encodeWaveScript(waves));
+    if (status !== 0) {
+      throw new WaveScriptError(`Wave script rejected (status ${status})`);
+    }
+
+    await this.refresh();
+    this.logger.log(`Wave script updated: ${this.waves.length} waves`);
+    return this.waves;
+  }
+}
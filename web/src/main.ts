@@ -1,49 +1,205 @@
 // Main TypeScript entry point for the game's frontend
 
 import { AudioManager } from './audio/audio-manager';
+import { AudioMixer } from './ui/audio-mixer';
 import { WasmLoader } from './wasm/wasm-loader';
+import { WasmWorkerClient, isWorkerModeSupported } from './wasm/wasm-worker-client';
+import { WASM_FILE_URL, WasmLoadError } from './wasm/wasm-fetch';
+import type { WasmLoadEvent } from './wasm/wasm-fetch';
+import { LoadErrorScreen } from './ui/load-error-screen';
+import type { WasmTrap } from './wasm/wasm-trap';
+import { CRASH_INPUTS, formatCrashReport } from './game/crash-report';
+import { CrashDialog } from './ui/crash-dialog';
+import { DEV_COMMANDS, DevCommandError, parseDevCommand } from './game/dev-commands';
+import type { DebugCommand, DevCommand } from './game/dev-commands';
+import { DevConsole } from './ui/dev-console';
+import { DEBUG_OVERLAY_LAYERS } from './renderer/debug-overlay';
+import type { DebugOverlayLayer } from './renderer/debug-overlay';
+import type { WasmGame } from './wasm/wasm-game';
 import { UIManager } from './ui/ui-manager';
 import { CanvasManager } from './renderer/canvas-manager';
+import { SaveManager, SaveValidationError } from './game/save-manager';
+import { InputRecorder } from './game/input-recorder';
+import { ReplayPlayer, ReplayMismatchError } from './game/replay-player';
+import type { ReplaySpeed } from './game/replay-player';
+import { decodeReplay, encodeReplay, ReplayFormatError, REPLAY_FILE_EXTENSION } from './game/replay-file';
+import type { Replay, ReplaySetup } from './game/replay-file';
+import { GAME_SPEEDS } from './game/game-speed';
+import { TowerCatalog } from './game/tower-catalog';
+import { BALANCE_FILE_URL, fetchBalanceFile } from './game/balance-file';
+import { WaveScript } from './game/wave-script';
+import type { WaveDefinition } from './game/wave-script';
+import { WAVE_FILE_URL, fetchWaveFile } from './game/wave-file';
+import { WaveEditor } from './ui/wave-editor';
+import { EnemyTypes, ENEMY_KIND_LABELS } from './game/enemy-types';
+import { Bestiary } from './game/bestiary';
+import { BestiaryPanel } from './ui/bestiary-panel';
+import { GameMap } from './game/game-map';
+import type { MapLayout } from './game/game-map';
+import { MAP_FILE_URL, fetchMapFile } from './game/map-file';
+import { MapEditor } from './ui/map-editor';
+import { GameLevel, endlessLevel } from './game/game-level';
+import type { LevelRules } from './game/game-level';
+import { CAMPAIGN_FILE_URL, CampaignFileError, fetchCampaignFile } from './game/campaign-file';
+import type { CampaignLevel } from './game/campaign-file';
+import { CampaignProgress, MAX_STARS, rateVictory } from './game/campaign-progress';
+import { LevelSelect } from './ui/level-select';
+import { GameState, GameStateMachine } from './game/game-state';
+import type { GameSpeed } from './game/game-speed';
+import { CommandBufferRenderer } from './renderer/command-buffer-renderer';
+import { isRenderBackendType } from './renderer/render-backend';
+import type { RenderBackendType } from './renderer/render-backend';
+
+// Log levels, ordered from most to least verbose
+type LogLevel = 'debug' | 'info' | 'game' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'game', 'warn', 'error'];
+
+interface LogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: number;
+}
 
 // Logger implementation
 class Logger {
   private logContainer: HTMLElement | null = null;
+  private searchInput: HTMLInputElement | null = null;
+  private entries: LogEntry[] = [];
+  private enabledLevels: Set<LogLevel> = new Set(LOG_LEVELS);
+  private searchText: string = '';
+  private readonly maxEntries: number = 500;
+  private readonly maxVisibleEntries: number = 100;
 
   constructor() {
-    // Wait for DOM to load
-    window.addEventListener('DOMContentLoaded', () => {
-      this.logContainer = document.getElementById('log-container');
-    });
+    // The app may be constructed after DOMContentLoaded has already fired
+    if (document.readyState === 'loading') {
+      window.addEventListener('DOMContentLoaded', () => this.bindElements());
+    } else {
+      this.bindElements();
+    }
   }
 
   log(message: string): void {
     console.log(message);
-    this.appendToLogContainer(message);
+    this.addEntry('info', message);
+  }
+
+  debug(message: string): void {
+    console.debug(message);
+    this.addEntry('debug', message);
+  }
+
+  game(message: string): void {
+    console.log(message);
+    this.addEntry('game', message);
   }
 
   error(message: string): void {
     console.error(message);
-    this.appendToLogContainer(`ERROR: ${message}`, 'error');
+    this.addEntry('error', message);
   }
 
   warn(message: string): void {
     console.warn(message);
-    this.appendToLogContainer(`WARNING: ${message}`, 'warning');
+    this.addEntry('warn', message);
   }
 
-  private appendToLogContainer(message: string, type: 'log' | 'error' | 'warning' = 'log'): void {
+  /**
+   * Show or hide entries of the given level in the log view
+   */
+  setLevelEnabled(level: LogLevel, enabled: boolean): void {
+    if (enabled) {
+      this.enabledLevels.add(level);
+    } else {
+      this.enabledLevels.delete(level);
+    }
+    this.renderEntries();
+  }
+
+  /**
+   * Only show entries containing the given text (case-insensitive)
+   */
+  setSearchText(text: string): void {
+    this.searchText = text.trim().toLowerCase();
+    this.renderEntries();
+  }
+
+  /**
+   * Get the recorded entries, oldest first
+   */
+  getEntries(): ReadonlyArray<LogEntry> {
+    return this.entries;
+  }
+
+  /**
+   * Look up the log view and its filter controls
+   */
+  private bindElements(): void {
+    this.logContainer = document.getElementById('log-container');
+    this.searchInput = document.getElementById('log-search') as HTMLInputElement | null;
+
+    if (this.searchInput) {
+      this.searchInput.addEventListener('input', () => {
+        this.setSearchText(this.searchInput?.value ?? '');
+      });
+    }
+
+    document.querySelectorAll<HTMLInputElement>('.log-level-filter input[data-level]').forEach(checkbox => {
+      const level = checkbox.dataset.level as LogLevel;
+      if (!LOG_LEVELS.includes(level)) return;
+
+      checkbox.checked = this.enabledLevels.has(level);
+      checkbox.addEventListener('change', () => this.setLevelEnabled(level, checkbox.checked));
+    });
+
+    this.renderEntries();
+  }
+
+  private addEntry(level: LogLevel, message: string): void {
+    const entry: LogEntry = { level, message, timestamp: Date.now() };
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    if (this.matchesFilter(entry)) {
+      this.appendToLogContainer(entry);
+    }
+  }
+
+  private matchesFilter(entry: LogEntry): boolean {
+    if (!this.enabledLevels.has(entry.level)) return false;
+    return this.searchText === '' || entry.message.toLowerCase().includes(this.searchText);
+  }
+
+  /**
+   * Rebuild the log view from the recorded entries using the current filters
+   */
+  private renderEntries(): void {
+    if (!this.logContainer) return;
+
+    this.logContainer.innerHTML = '';
+    const visible = this.entries.filter(entry => this.matchesFilter(entry));
+    for (const entry of visible.slice(-this.maxVisibleEntries)) {
+      this.appendToLogContainer(entry);
+    }
+  }
+
+  private appendToLogContainer(entry: LogEntry): void {
     if (!this.logContainer) return;
 
-    const entry = document.createElement('div');
-    entry.className = `log-entry log-${type}`;
-    entry.textContent = message;
-    this.logContainer.appendChild(entry);
+    const element = document.createElement('div');
+    element.className = `log-entry log-${entry.level}`;
+    element.textContent = `[${entry.level.toUpperCase()}] ${entry.message}`;
+    this.logContainer.appendChild(element);
     
     // Auto-scroll to bottom
     this.logContainer.scrollTop = this.logContainer.scrollHeight;
     
     // Limit number of entries (like in the original)
-    while (this.logContainer.children.length > 100) {
+    while (this.logContainer.children.length > this.maxVisibleEntries) {
       const firstChild = this.logContainer.firstChild;
       if (firstChild) {
         this.logContainer.removeChild(firstChild);
@@ -52,19 +208,104 @@ class Logger {
   }
 }
 
+// Simulation runs in fixed 60 Hz steps regardless of the display rate
+const FIXED_TIMESTEP = 1 / 60;
+
+// Longest real frame time simulated, so a backgrounded tab doesn't produce a huge catch-up
+const MAX_FRAME_TIME = 0.25;
+
+// Most steps run in one animation frame, remaining time is dropped
+const MAX_STEPS_PER_FRAME = 20;
+
+// Most updates sent and not yet finished, a worker that falls behind gets no more until it catches up
+const MAX_PENDING_STEPS = MAX_STEPS_PER_FRAME;
+
+// Format a byte count for the loading status
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Describe what a developer console command did, from the result of runDebugCommand
+function describeDebugCommand(command: DebugCommand, result: number): string {
+  switch (command.type) {
+    case 'money':
+      return `Money set to ${command.amount}`;
+    case 'lives':
+      return `Lives set to ${command.lives}`;
+    case 'wave':
+      return `Skipping to wave ${command.wave}`;
+    case 'spawn':
+      return `Spawned ${result} ${ENEMY_KIND_LABELS[command.kind]} ${result === 1 ? 'enemy' : 'enemies'}`
+        + (result < command.count ? `, the field has no room for ${command.count - result} more` : '');
+    case 'kill':
+      return `Killed ${result} ${result === 1 ? 'enemy' : 'enemies'}`;
+    case 'god':
+      return result ? 'God mode on, enemies reaching an exit cost no lives' : 'God mode off';
+    case 'tp':
+      return result
+        ? `Moved ${result} ${result === 1 ? 'enemy' : 'enemies'} to waypoint ${command.waypoint}`
+        : `Nothing moved, the field is empty or the path has no waypoint ${command.waypoint}`;
+  }
+}
+
+// Whether a key event was typed into a form field or editable element, where the game hotkeys shouldn't fire
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
+
 // Main application class
 class GameApplication {
   // Components
   public canvas: CanvasManager;
+  public renderer: CommandBufferRenderer | null = null;
   public audio: AudioManager;
+  public mixer: AudioMixer;
   public ui: UIManager;
-  public wasmLoader: WasmLoader;
+  public wasmLoader: WasmGame;
+  public saves: SaveManager;
+  public towers: TowerCatalog;
+  public waves: WaveScript;
+  public waveEditor: WaveEditor;
+  public enemyTypes: EnemyTypes;
+  public bestiary: Bestiary;
+  public bestiaryPanel: BestiaryPanel;
+  public map: GameMap;
+  public mapEditor: MapEditor;
+  public level: GameLevel;
+  public progress: CampaignProgress;
+  public levelSelect: LevelSelect;
+  public loadError: LoadErrorScreen = new LoadErrorScreen();
+  public crashDialog: CrashDialog;
+  public devConsole: DevConsole;
+  public recorder: InputRecorder = new InputRecorder(CRASH_INPUTS);
+  public replayPlayer: ReplayPlayer | null = null;
   public logger: Logger;
   
-  // Game state
-  private isPaused: boolean = false;
+  // Game state, mirrored from the WASM module
+  public readonly state: GameStateMachine;
+  private gameSpeed: GameSpeed = 1;
+  private accumulator: number = 0; // Simulation time not yet covered by a fixed step
   private lastTimestamp: number = 0;
   private animationFrameId: number | null = null;
+  private pendingSteps: number = 0; // Updates sent to the module that haven't finished
+  private replayFrame: Promise<void> | null = null; // Replay steps and draw still running, the next frame waits for them
+  private canvasSize: { width: number, height: number } | null = null; // Passed to the module again on restart
+  private crashed: boolean = false; // The module trapped, nothing is called until it is restarted
+  
+  // Next wave shown in the HUD, fetched once per wave
+  private nextWave: { wave: number; definition: WaveDefinition | null } | null = null;
+  
+  // Campaign levels in play order, and the map and waves endless play goes back to
+  private campaign: CampaignLevel[] = [];
+  private endless: { map: MapLayout; waves: ReadonlyArray<WaveDefinition> } | null = null;
+  
+  // Replay state
+  private lastReplay: Replay | null = null;
+  private seekTarget: number | null = null;
+  private isSeeking: boolean = false;
   
   constructor() {
     // Initialize logger
@@ -73,15 +314,67 @@ class GameApplication {
     // Initialize components
     this.canvas = new CanvasManager('canvas');
     this.audio = new AudioManager(this.logger);
+    this.mixer = new AudioMixer(this.audio);
     this.ui = new UIManager(this);
-    this.wasmLoader = new WasmLoader(this, this.logger);
+    this.wasmLoader = this.createWasmGame();
+    this.wasmLoader.setInputRecorder(this.recorder);
+    this.saves = new SaveManager(this.wasmLoader, this.logger);
+    this.towers = new TowerCatalog(this.wasmLoader, this.logger);
+    this.waves = new WaveScript(this.wasmLoader, this.logger);
+    this.waveEditor = new WaveEditor(this.waves, () => { this.nextWave = null; }, this.logger);
+    this.enemyTypes = new EnemyTypes(this.wasmLoader, this.logger);
+    this.bestiary = new Bestiary(this.logger);
+    this.bestiaryPanel = new BestiaryPanel(this.bestiary, this.enemyTypes);
+    this.map = new GameMap(this.wasmLoader, this.logger);
+    this.mapEditor = new MapEditor(this.map, editing => this.setMapEditing(editing), this.logger);
+    this.level = new GameLevel(this.wasmLoader, this.logger);
+    this.progress = new CampaignProgress(this.logger);
+    this.levelSelect = new LevelSelect(this.progress, index => this.startLevel(index));
+    this.crashDialog = new CrashDialog(() => this.restartAfterCrash());
+    this.devConsole = new DevConsole(line => {
+      this.runConsoleCommand(line).catch(error => this.logger.error(`Console command failed: ${error}`));
+    }, this.logger);
+    this.state = new GameStateMachine(message => this.logger.debug(message));
+    this.state.onChange((state, previous) => this.handleStateChange(state, previous));
+    
+    // Subscribe components to game events
+    this.audio.bindEvents(this.wasmLoader.events);
+    this.audio.bindUnlock();
+    this.ui.bindEvents(this.wasmLoader.events);
+    this.wasmLoader.events.on('waveCleared', () => {
+      // A replay's waves aren't the player's game, and scrubbing clears them many times over
+      if (this.replayPlayer) return;
+      this.saves.autosave()
+        .then(() => this.ui.updateSaveSlots(this.saves.listSlots()))
+        .catch(error => this.logger.warn(`Autosave failed: ${error}`));
+    });
+    this.wasmLoader.events.on('enemyDiscovered', ({ kind, health, speed }) => {
+      if (this.bestiary.record(kind, health, speed)) {
+        this.ui.showMessage(`New enemy: ${ENEMY_KIND_LABELS[kind]}`, 2000);
+      }
+      this.bestiaryPanel.render();
+    });
+    this.wasmLoader.events.on('crash', trap => this.handleCrash(trap));
+    this.wasmLoader.events.on('gameOver', ({ victory, score }) => {
+      this.updateStatus(victory ? `Victory! Final score: ${score}` : `Game over. Final score: ${score}`);
+      if (victory && !this.replayPlayer) {
+        this.recordVictory().catch(error => this.logger.warn(`Campaign progress not recorded: ${error}`));
+      }
+    });
     
     // Bind methods
     this.animate = this.animate.bind(this);
     this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleFrameError = this.handleFrameError.bind(this);
     
     // Add event listeners
     window.addEventListener('keydown', this.handleKeyDown);
+    
+    // Pause when the player switches away
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) this.autoPause('tab hidden');
+    });
+    window.addEventListener('blur', () => this.autoPause('window lost focus'));
   }
   
   // Initialize the application
@@ -89,6 +382,15 @@ class GameApplication {
     try {
       // First initialize UI
       this.ui.initialize();
+      this.mixer.initialize();
+      this.waveEditor.initialize();
+      this.bestiaryPanel.initialize();
+      this.mapEditor.initialize();
+      this.levelSelect.initialize();
+      this.loadError.initialize();
+      this.crashDialog.initialize();
+      this.devConsole.initialize();
+      this.ui.updateSaveSlots(this.saves.listSlots());
       
       // Update status
       this.updateStatus('Loading audio and WASM...');
@@ -96,28 +398,355 @@ class GameApplication {
       // Then load audio files
       await this.audio.loadSounds();
       
-      // Finally load WASM module
-      const { width, height } = this.canvas.initialize();
-      await this.wasmLoader.loadWasm();
+      // Finally load WASM module, in the worker or on the main thread
+      const requestedBackend = this.getRequestedBackend();
+      const wasmUrl = this.getWasmUrl();
+      const onLoad = (event: WasmLoadEvent) => this.showLoadProgress(event);
+      const loader = this.wasmLoader;
+      const { width, height } = loader instanceof WasmWorkerClient
+        ? await this.startWorker(loader, requestedBackend, wasmUrl, onLoad)
+        : await this.startMainThread(loader as WasmLoader, requestedBackend, wasmUrl, onLoad);
+      this.canvasSize = { width, height };
       await this.wasmLoader.initializeGame(width, height);
+      this.audio.setWorldWidth(width);
+      await this.loadTowerCatalog();
+      await this.loadWaveScript();
+      await this.loadMap();
+      await this.loadCampaign();
+      await this.level.refresh();
+      await this.enemyTypes.refresh();
+      this.bestiaryPanel.render();
       
       // Update status
       this.updateStatus('Game ready');
+      
+      // Run the loop from the start so the menu screen is drawn
+      await this.syncGameState();
+      this.startAnimationLoop();
     } catch (error) {
       this.logger.error(`Initialization error: ${error}`);
       this.updateStatus(`Error: ${error}`);
+      if (error instanceof WasmLoadError) this.loadError.show(error);
     }
   }
   
+  // Get the URL of the WASM module: the ?wasm= query parameter, or the towerd-wasm meta tag with its deploy hash
+  private getWasmUrl(): string {
+    const requested = new URLSearchParams(window.location.search).get('wasm');
+    if (requested) return requested;
+    
+    const url = document.querySelector<HTMLMetaElement>('meta[name="towerd-wasm"]')?.content || WASM_FILE_URL;
+    const hash = document.querySelector<HTMLMetaElement>('meta[name="towerd-wasm-hash"]')?.content;
+    if (!hash) return url;
+    
+    const versioned = new URL(url, document.baseURI);
+    versioned.searchParams.set('v', hash);
+    return versioned.href;
+  }
+  
+  // Show download progress and retries of the WASM module in the status line
+  private showLoadProgress(event: WasmLoadEvent): void {
+    if (event.type === 'retry') {
+      this.updateStatus(`Download failed (${event.reason}), retrying in ${Math.ceil(event.delay / 1000)}s (attempt ${event.attempt} of ${event.attempts})...`);
+      return;
+    }
+    
+    const loaded = formatMegabytes(event.loaded);
+    this.updateStatus(event.total
+      ? `Loading game: ${Math.floor(event.loaded / event.total * 100)}% (${loaded} of ${formatMegabytes(event.total)})`
+      : `Loading game: ${loaded}`);
+  }
+  
+  // Get the rendering backend requested with the ?renderer= query parameter
+  private getRequestedBackend(): RenderBackendType {
+    const requested = new URLSearchParams(window.location.search).get('renderer');
+    return isRenderBackendType(requested) ? requested : 'canvas2d';
+  }
+  
+  // Apply the balance file, or the one named by the ?balance= query parameter, and build the tower picker
+  private async loadTowerCatalog(): Promise<void> {
+    const url = new URLSearchParams(window.location.search).get('balance') || BALANCE_FILE_URL;
+    try {
+      const towers = await fetchBalanceFile(url);
+      if (towers) {
+        await this.towers.apply(towers);
+        this.logger.log(`Balance file '${url}' loaded`);
+      } else {
+        this.logger.log(`No balance file at '${url}', using the built-in towers`);
+      }
+    } catch (error) {
+      // A broken balance file shouldn't stop the game, the built-in towers stay in place
+      this.logger.error(`Balance file rejected: ${error instanceof Error ? error.message : error}`);
+      this.ui.showMessage('Balance file rejected, using the built-in towers', 3000);
+    }
+    
+    this.ui.setTowerCatalog(await this.towers.refresh());
+  }
+  
+  // Apply the wave file, or the one named by the ?waves= query parameter, and fill the wave editor
+  private async loadWaveScript(): Promise<void> {
+    const url = new URLSearchParams(window.location.search).get('waves') || WAVE_FILE_URL;
+    try {
+      const waves = await fetchWaveFile(url);
+      if (waves) {
+        await this.waves.apply(waves);
+        this.logger.log(`Wave file '${url}' loaded`);
+      } else {
+        this.logger.log(`No wave file at '${url}', using the built-in waves`);
+      }
+    } catch (error) {
+      // Like the balance file, a broken wave file leaves the built-in waves in place
+      this.logger.error(`Wave file rejected: ${error instanceof Error ? error.message : error}`);
+      this.ui.showMessage('Wave file rejected, using the built-in waves', 3000);
+    }
+    
+    this.waveEditor.load(await this.waves.refresh());
+  }
+  
+  // Apply the map file, or the one named by the ?map= query parameter, and fill the map editor
+  private async loadMap(): Promise<void> {
+    const url = new URLSearchParams(window.location.search).get('map') || MAP_FILE_URL;
+    try {
+      const layout = await fetchMapFile(url);
+      if (layout) {
+        await this.map.apply(layout);
+        this.logger.log(`Map file '${url}' loaded`);
+      } else {
+        this.logger.log(`No map file at '${url}', using the built-in map`);
+      }
+    } catch (error) {
+      // Like the wave file, a broken map file leaves the built-in map in place
+      this.logger.error(`Map file rejected: ${error instanceof Error ? error.message : error}`);
+      this.ui.showMessage('Map file rejected, using the built-in map', 3000);
+    }
+    
+    this.mapEditor.load(await this.map.refresh());
+  }
+  
+  // Read the campaign file, or the one named by the ?campaign= query parameter, and list its levels
+  private async loadCampaign(): Promise<void> {
+    const url = new URLSearchParams(window.location.search).get('campaign') || CAMPAIGN_FILE_URL;
+    try {
+      const levels = await fetchCampaignFile(url);
+      if (levels) {
+        this.campaign = levels;
+        this.logger.log(`Campaign file '${url}' loaded: ${levels.length} levels`);
+      } else {
+        this.logger.log(`No campaign file at '${url}', only endless play is available`);
+      }
+    } catch (error) {
+      // Endless play still works without a campaign
+      this.logger.error(`Campaign file rejected: ${error instanceof Error ? error.message : error}`);
+      this.ui.showMessage('Campaign file rejected, only endless play is available', 3000);
+    }
+    
+    this.levelSelect.setLevels(this.campaign);
+  }
+  
+  // Start a campaign level by its index, or endless play on the map and waves it was left with for null
+  async startLevel(index: number | null): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    const level = index === null ? null : this.campaign[index];
+    if (level === undefined) return;
+    
+    try {
+      // Leaving endless play, remember its map and waves, edits included, to come back to
+      if (level && this.level.getRules().number === 0) {
+        this.endless = { map: this.map.getLayout(), waves: this.waves.getWaves() };
+      }
+      
+      const map = level ? level.map : this.endless?.map;
+      const waves = level ? level.waves : this.endless?.waves;
+      if (map) this.mapEditor.load(await this.map.apply(map));
+      if (waves) this.waveEditor.load(await this.waves.apply(waves));
+      await this.level.apply(level && index !== null ? this.getLevelRules(level, index) : endlessLevel());
+    } catch (error) {
+      this.logger.error(`Level could not be started: ${error instanceof Error ? error.message : error}`);
+      this.ui.showMessage('Level could not be started', 3000);
+      return;
+    }
+    
+    this.startGame();
+    await this.refreshLevel();
+    this.ui.showMessage(level ? `Level ${this.level.getRules().number}: ${level.name}` : 'Endless play', 2000);
+  }
+  
+  // Build the WASM level rules for a campaign level, naming its towers by catalog id
+  private getLevelRules(level: CampaignLevel, index: number): LevelRules {
+    const catalog = this.towers.getTowers();
+    const towers = level.towers === null ? catalog.map(tower => tower.id) : level.towers.map(name => {
+      const tower = catalog.find(candidate => candidate.name === name);
+      if (!tower) {
+        throw new CampaignFileError(`Level '${level.name}' allows tower '${name}', which is not in the tower catalog`);
+      }
+      return tower.id;
+    });
+    
+    return { number: index + 1, money: level.money, lives: level.lives, waves: level.waves.length, towers };
+  }
+  
+  // Read the rules of the game under way and limit the tower picker to the towers they allow
+  private async refreshLevel(): Promise<void> {
+    const rules = await this.level.refresh();
+    this.ui.setAllowedTowers(rules.towers);
+    this.levelSelect.setCurrent(rules.number > 0 ? rules.number - 1 : null);
+  }
+  
+  // Stop the game after the WASM module trapped and show the crash report
+  private handleCrash(trap: WasmTrap): void {
+    if (this.crashed) return;
+    this.crashed = true;
+    
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.stopReplay();
+    this.audio.stopBackgroundMusic();
+    
+    // The run up to the crash, replaying it should reproduce the trap
+    const replay = this.recorder.isRecording() ? this.recorder.stop(null) : null;
+    const report = formatCrashReport({
+      time: new Date(),
+      userAgent: navigator.userAgent,
+      trap,
+      log: this.logger.getEntries().map(entry => `[${entry.level.toUpperCase()}] ${entry.message}`),
+      inputs: this.recorder.getRecentInputs(),
+      updates: this.recorder.getUpdates(),
+      replay
+    });
+    this.crashDialog.show(`${trap.message} (in ${trap.call})`, report);
+    this.updateStatus('The game crashed');
+  }
+  
+  // Start a fresh WASM instance after a crash, with the towers, waves, map and level that were in play
+  private async restartAfterCrash(): Promise<void> {
+    const size = this.canvasSize;
+    if (!size) return;
+    
+    const setup = this.getSetup();
+    try {
+      await this.wasmLoader.restart();
+      await this.wasmLoader.initializeGame(size.width, size.height);
+      await this.applySetup(setup);
+      await this.refreshLevel();
+    } catch (error) {
+      this.logger.error(`Restart failed: ${error instanceof Error ? error.message : error}`);
+      this.updateStatus('Restart failed, reload the page to play again');
+      this.crashDialog.enableRestart();
+      return;
+    }
+    
+    this.crashed = false;
+    this.nextWave = null;
+    this.crashDialog.hide();
+    this.updateStatus('Game restarted');
+    await this.syncGameState();
+    this.startAnimationLoop();
+  }
+  
+  // The towers, waves, map and level rules in play
+  private getSetup(): ReplaySetup {
+    return {
+      towers: this.towers.getTowers(),
+      waves: this.waves.getWaves(),
+      map: this.map.getLayout(),
+      level: this.level.getRules()
+    };
+  }
+  
+  // Load towers, waves, map and level rules into the module and the editors, the level takes effect on the next reset
+  private async applySetup(setup: ReplaySetup): Promise<void> {
+    this.ui.setTowerCatalog(await this.towers.apply(setup.towers));
+    this.waveEditor.load(await this.waves.apply(setup.waves));
+    this.mapEditor.load(await this.map.apply(setup.map));
+    await this.level.apply(setup.level);
+  }
+  
+  // Rate a won campaign level by the lives left and unlock the next one
+  private async recordVictory(): Promise<void> {
+    const rules = this.level.getRules();
+    const level = this.campaign[rules.number - 1];
+    if (!level) return;
+    
+    const stats = await this.wasmLoader.getGameStats();
+    const stars = rateVictory(stats.lives, rules.lives);
+    const best = this.progress.record(level.name, stars);
+    this.ui.showStars(stars, MAX_STARS, best);
+    this.levelSelect.render();
+    this.logger.log(`Level ${rules.number} won with ${stars} of ${MAX_STARS} stars`);
+  }
+  
+  // Enter or leave map editor mode, the game is paused while the canvas shows the map being edited
+  private setMapEditing(editing: boolean): void {
+    this.canvas.setMapEditor(editing ? this.mapEditor : null);
+    if (editing) this.autoPause('editing the map');
+  }
+  
+  // Run the game in a worker when requested with ?worker=1, falling back to the main thread without OffscreenCanvas
+  private createWasmGame(): WasmGame {
+    if (new URLSearchParams(window.location.search).get('worker') === '1') {
+      if (isWorkerModeSupported()) {
+        return new WasmWorkerClient(this.logger);
+      }
+      this.logger.warn('OffscreenCanvas is not supported, running the game on the main thread');
+    }
+    return new WasmLoader(this, this.logger);
+  }
+  
+  // Draw on the main thread with the requested backend
+  private createRenderer(loader: WasmLoader, requestedBackend: RenderBackendType): { width: number, height: number } {
+    const size = this.canvas.initialize(requestedBackend);
+    const backend = this.canvas.getBackend();
+    if (!backend) {
+      throw new Error('Rendering backend is not available');
+    }
+    if (backend.type !== requestedBackend) {
+      this.logger.warn(`Renderer '${requestedBackend}' is not supported, using '${backend.type}'`);
+    }
+    this.renderer = new CommandBufferRenderer(backend);
+    loader.setRenderer(this.renderer);
+    return size;
+  }
+  
+  // Draw on the main thread and load the WASM module there
+  private async startMainThread(
+    loader: WasmLoader,
+    requestedBackend: RenderBackendType,
+    wasmUrl: string,
+    onLoad: (event: WasmLoadEvent) => void
+  ): Promise<{ width: number, height: number }> {
+    const size = this.createRenderer(loader, requestedBackend);
+    await loader.loadWasm(wasmUrl, onLoad);
+    return size;
+  }
+  
+  // Hand the canvas to the game worker, which loads the WASM module and draws with the requested backend
+  private async startWorker(
+    client: WasmWorkerClient,
+    requestedBackend: RenderBackendType,
+    wasmUrl: string,
+    onLoad: (event: WasmLoadEvent) => void
+  ): Promise<{ width: number, height: number }> {
+    const { width, height, offscreen } = this.canvas.initializeOffscreen();
+    const backendType = await client.start(offscreen, requestedBackend, wasmUrl, onLoad);
+    if (backendType !== requestedBackend) {
+      this.logger.warn(`Renderer '${requestedBackend}' is not supported, using '${backendType}'`);
+    }
+    this.logger.log(`Game running in a worker with the '${backendType}' renderer`);
+    return { width, height };
+  }
+  
   // Start the game
   startGame(): void {
     if (!this.wasmLoader.isLoaded()) return;
     
+    this.stopReplay();
+    
     // Reset game state if needed
     this.wasmLoader.resetGame();
-    
-    this.isPaused = false;
-    this.updateStatus('Game started');
+    this.syncGameState();
     
     // Start animation loop if not already running
     if (!this.animationFrameId) {
@@ -126,52 +755,406 @@ class GameApplication {
   }
   
   // Toggle pause state
-  togglePause(): void {
+  async togglePause(): Promise<void> {
     if (!this.wasmLoader.isLoaded()) return;
     
-    this.isPaused = !this.isPaused;
-    this.updateStatus(this.isPaused ? 'Game paused' : 'Game resumed');
+    if (this.state.is(GameState.Playing)) {
+      await this.wasmLoader.pauseGame();
+    } else if (this.state.is(GameState.Paused)) {
+      await this.wasmLoader.resumeGame();
+    }
+    await this.syncGameState();
+  }
+  
+  // Pause a running game or replay because the player switched away
+  private async autoPause(reason: string): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    if (this.replayPlayer) {
+      if (this.replayPlayer.isPlaying()) {
+        this.replayPlayer.pause();
+        this.updateReplayControls();
+      }
+      return;
+    }
     
-    if (!this.isPaused && !this.animationFrameId) {
+    if (this.state.is(GameState.Playing)) {
+      this.logger.log(`Auto-paused: ${reason}`);
+      await this.wasmLoader.pauseGame();
+      await this.syncGameState();
+    }
+  }
+  
+  // Read the game state from the WASM module
+  private async syncGameState(): Promise<void> {
+    this.state.sync(await this.wasmLoader.getGameState());
+  }
+  
+  // Update the UI when the game state changes
+  private handleStateChange(state: GameState, previous: GameState): void {
+    this.ui.updateGameState(state);
+    
+    switch (state) {
+      case GameState.Menu:
+        this.updateStatus('Game ready');
+        break;
+      case GameState.Playing:
+        this.updateStatus(previous === GameState.Paused ? 'Game resumed' : 'Game started');
+        if (previous !== GameState.Paused) this.audio.playBackgroundMusic();
+        break;
+      case GameState.Paused:
+        this.updateStatus('Game paused');
+        break;
+      case GameState.GameOver:
+        // Status is set by the gameOver event, which carries the final score
+        this.audio.stopBackgroundMusic();
+        break;
+    }
+  }
+  
+  // Save the game to the manual slot
+  async saveGame(): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    try {
+      await this.saves.save();
+      this.ui.updateSaveSlots(this.saves.listSlots());
+      this.ui.showMessage('Game saved', 1500);
+    } catch (error) {
+      this.logger.error(`Save failed: ${error}`);
+      this.ui.showMessage('Save failed', 2000);
+    }
+  }
+  
+  // Load the game from a save slot
+  async loadGame(slot: string): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    await this.restoreSave(() => this.saves.load(slot));
+  }
+  
+  // Download the current game as a save file
+  async downloadSave(): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    try {
+      await this.saves.download();
+    } catch (error) {
+      this.logger.error(`Download failed: ${error}`);
+      this.ui.showMessage('Download failed', 2000);
+    }
+  }
+  
+  // Load the game from an uploaded save file
+  async uploadSave(file: File): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    await this.restoreSave(() => this.saves.loadFile(file));
+  }
+  
+  // Run a save restore and resume play, reporting rejected saves to the player
+  private async restoreSave(restore: () => Promise<void>): Promise<void> {
+    // A loaded save can't be reproduced from a replay's seed, so leave replay mode first
+    this.stopReplay();
+    if (this.recorder.isRecording()) {
+      await this.toggleRecording();
+    }
+    
+    try {
+      await restore();
+    } catch (error) {
+      if (error instanceof SaveValidationError) {
+        this.logger.warn(`Save rejected: ${error.message}`);
+        this.ui.showMessage(error.message, 3000);
+      } else {
+        this.logger.error(`Load failed: ${error}`);
+        this.ui.showMessage('Load failed', 2000);
+      }
+      return;
+    }
+    
+    this.ui.hideGameOver();
+    this.ui.showMessage('Game loaded', 1500);
+    this.updateStatus('Game loaded');
+    await this.refreshLevel();
+    
+    await this.syncGameState();
+    if (!this.animationFrameId) {
       this.startAnimationLoop();
-    } else if (this.isPaused && this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
     }
   }
   
+  // Start or stop recording inputs for a replay
+  async toggleRecording(): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    if (this.recorder.isRecording()) {
+      this.lastReplay = this.recorder.stop(await this.wasmLoader.getGameStats());
+      this.logger.log(`Recording stopped after ${this.lastReplay.frameCount} frames, ${this.lastReplay.inputs.length} inputs`);
+      this.ui.showMessage('Recording stopped', 1500);
+      this.updateReplayControls();
+      return;
+    }
+    
+    this.stopReplay();
+    
+    // Recordings start from a fresh game so playback can reproduce it from the seed
+    const seed = Math.floor(Math.random() * 0xffffffff) >>> 0;
+    await this.wasmLoader.setSeed(seed);
+    await this.wasmLoader.applyInput({ type: 'reset' });
+    await this.refreshLevel();
+    this.recorder.start(seed, FIXED_TIMESTEP, this.getSetup());
+    
+    this.ui.hideGameOver();
+    this.ui.showMessage('Recording', 1500);
+    this.updateStatus(`Recording (seed ${seed})`);
+    this.updateReplayControls();
+    
+    await this.syncGameState();
+    if (!this.animationFrameId) {
+      this.startAnimationLoop();
+    }
+  }
+  
+  // Download the last recording as a replay file
+  exportReplay(): void {
+    const replay = this.lastReplay;
+    if (!replay) return;
+    
+    const bytes = encodeReplay(replay);
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `towerd-wave-${replay.expected?.wave ?? 0}${REPLAY_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    this.logger.log(`Replay exported (${bytes.length} bytes)`);
+  }
+  
+  // Load a replay file and start playing it
+  async loadReplay(file: File): Promise<void> {
+    if (!this.wasmLoader.isLoaded()) return;
+    
+    let replay: Replay;
+    try {
+      replay = decodeReplay(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      if (error instanceof ReplayFormatError) {
+        this.logger.warn(`Replay rejected: ${error.message}`);
+        this.ui.showMessage(error.message, 3000);
+        return;
+      }
+      throw error;
+    }
+    
+    await this.startReplay(replay);
+  }
+  
+  // Play back a replay, taking over the simulation from the player
+  // Its towers, waves, map and level stay loaded afterwards, as a loaded save's do
+  async startReplay(replay: Replay): Promise<void> {
+    if (this.recorder.isRecording()) {
+      await this.toggleRecording();
+    }
+    this.stopReplay();
+    
+    try {
+      await this.applySetup(replay.setup);
+    } catch (error) {
+      const message = `Replay setup rejected: ${error instanceof Error ? error.message : error}`;
+      this.logger.warn(message);
+      this.ui.showMessage(message, 3000);
+      return;
+    }
+    
+    this.replayPlayer = new ReplayPlayer(this.wasmLoader, replay);
+    this.wasmLoader.setInputLocked(true);
+    await this.replayPlayer.restart();
+    await this.refreshLevel();
+    this.replayPlayer.play();
+    
+    this.ui.hideGameOver();
+    this.updateStatus(`Playing replay (${replay.frameCount} frames)`);
+    this.updateReplayControls();
+    
+    await this.syncGameState();
+    if (!this.animationFrameId) {
+      this.startAnimationLoop();
+    }
+  }
+  
+  // Play or pause the current replay, restarting it once finished
+  async toggleReplayPlayback(): Promise<void> {
+    const player = this.replayPlayer;
+    if (!player) return;
+    
+    if (player.isPlaying()) {
+      player.pause();
+    } else {
+      if (player.isFinished()) {
+        await player.restart();
+      }
+      player.play();
+    }
+    this.updateReplayControls();
+  }
+  
+  // Change the replay playback speed
+  setReplaySpeed(speed: ReplaySpeed): void {
+    if (!this.replayPlayer) return;
+    
+    this.replayPlayer.setSpeed(speed);
+    this.audio.setSuppressed(speed > 4);
+    this.updateReplayControls();
+  }
+  
+  // Jump to a frame of the current replay, coalescing requests made while a seek is running
+  async seekReplay(frame: number): Promise<void> {
+    if (!this.replayPlayer) return;
+    
+    this.seekTarget = frame;
+    if (this.isSeeking) return;
+    
+    this.isSeeking = true;
+    this.audio.setSuppressed(true);
+    try {
+      while (this.seekTarget !== null && this.replayPlayer) {
+        const target = this.seekTarget;
+        this.seekTarget = null;
+        await this.replayPlayer.seek(target);
+      }
+    } finally {
+      this.isSeeking = false;
+      this.audio.setSuppressed((this.replayPlayer?.getSpeed() ?? 1) > 4);
+    }
+    
+    this.updateReplayControls();
+  }
+  
+  // Play the current replay to the end and check it reproduces its recorded result
+  async verifyReplay(): Promise<void> {
+    const player = this.replayPlayer;
+    if (!player) return;
+    
+    player.pause();
+    this.audio.setSuppressed(true);
+    try {
+      const stats = await player.verify();
+      const message = player.getReplay().expected
+        ? `Replay verified: wave ${stats.wave}, $${stats.money}, ${stats.lives} lives`
+        : 'Replay has no recorded result to verify';
+      this.logger.log(message);
+      this.ui.showMessage(message, 3000);
+    } catch (error) {
+      if (!(error instanceof ReplayMismatchError)) throw error;
+      this.logger.error(error.message);
+      this.ui.showMessage(error.message, 5000);
+    } finally {
+      this.audio.setSuppressed(player.getSpeed() > 4);
+      this.updateReplayControls();
+    }
+  }
+  
+  // Leave replay mode and hand control back to the player
+  stopReplay(): void {
+    if (!this.replayPlayer) return;
+    
+    this.replayPlayer = null;
+    this.seekTarget = null;
+    this.wasmLoader.setInputLocked(false);
+    this.audio.setSuppressed(false);
+    this.updateStatus('Replay stopped');
+    this.updateReplayControls();
+  }
+  
+  // Sync the replay controls with the recorder and player
+  private updateReplayControls(): void {
+    const player = this.replayPlayer;
+    this.ui.updateReplayControls({
+      recording: this.recorder.isRecording(),
+      hasRecording: this.lastReplay !== null,
+      replayLoaded: player !== null,
+      playing: player?.isPlaying() ?? false,
+      frame: player ? player.getFrame() : this.recorder.getFrame(),
+      frameCount: player?.getFrameCount() ?? 0,
+      speed: player?.getSpeed() ?? 1
+    });
+  }
+  
   // Start animation loop
   private startAnimationLoop(): void {
     this.lastTimestamp = performance.now();
+    this.accumulator = 0;
     this.animationFrameId = requestAnimationFrame(this.animate);
   }
   
   // Animation frame handler
   private animate(timestamp: number): void {
-    // If paused, don't request next frame
-    if (this.isPaused) {
-      this.animationFrameId = null;
-      return;
-    }
+    // A frame requested before the crash, the instance takes no more calls until it is restarted
+    if (this.crashed) return;
     
-    // Calculate delta time in seconds
-    const deltaTime = (timestamp - this.lastTimestamp) / 1000;
+    // Calculate real time since the last frame in seconds, clamped after stalls
+    const elapsed = Math.min((timestamp - this.lastTimestamp) / 1000, MAX_FRAME_TIME);
+    this.canvas.recordFrameTime(timestamp - this.lastTimestamp);
     this.lastTimestamp = timestamp;
     
     try {
-      // Update game state through WASM
-      this.wasmLoader.updateGame(deltaTime);
-      
-      // Draw tower preview if hovering
-      const { x, y } = this.canvas.getHoverPosition();
-      if (x >= 0 && y >= 0) {
-        this.wasmLoader.canPlaceTower(x, y).then(canPlace => {
-          this.wasmLoader.getTowerRange().then(range => {
-            this.canvas.drawTowerPreview(x, y, canPlace, range);
+      if (this.replayPlayer) {
+        // The replay drives the simulation, draw once its steps have run
+        // Frames that come while the last one's steps and draw are still running are skipped
+        const player = this.replayPlayer;
+        if (!this.replayFrame) {
+          const steps = this.isSeeking ? Promise.resolve(0) : player.advance(elapsed);
+          this.replayFrame = steps.then(async () => {
+            if (this.crashed) return;
+            this.updateReplayControls();
+            await this.wasmLoader.renderFrame(
+              player.getInterpolation(),
+              this.canvas.getHoverPosition(),
+              this.canvas.getHighlightedTower(),
+              this.canvas.getMapOverlay(),
+              this.canvas.getDebugOverlay()
+            );
+          }).catch(this.handleFrameError).finally(() => {
+            this.replayFrame = null;
+          });
+        }
+      } else {
+        // Run as many fixed steps as the scaled frame time covers, while the module keeps up with them
+        this.accumulator += elapsed * this.gameSpeed;
+        let steps = 0;
+        while (this.accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME && this.pendingSteps < MAX_PENDING_STEPS) {
+          this.pendingSteps++;
+          this.wasmLoader.updateGame(FIXED_TIMESTEP).catch(this.handleFrameError).finally(() => {
+            this.pendingSteps--;
           });
-        });
+          this.accumulator -= FIXED_TIMESTEP;
+          steps++;
+        }
+        if (steps === MAX_STEPS_PER_FRAME || this.accumulator > MAX_FRAME_TIME) {
+          this.accumulator %= FIXED_TIMESTEP;
+        }
+        
+        // Draw between the last two steps, with the tower preview at the hovered cell
+        this.wasmLoader.renderFrame(
+          this.accumulator / FIXED_TIMESTEP,
+          this.canvas.getHoverPosition(),
+          this.canvas.getHighlightedTower(),
+          this.canvas.getMapOverlay(),
+          this.canvas.getDebugOverlay()
+        ).catch(this.handleFrameError);
       }
       
+      // Sync the HUD and state machine with the new game state
+      Promise.all([this.wasmLoader.getGameStats(), this.wasmLoader.getNextWaveIn()]).then(([stats, nextWaveIn]) => {
+        this.ui.updateHud(stats);
+        return this.updateWavePreview(stats.wave + 1, nextWaveIn);
+      }).catch(this.handleFrameError);
+      this.wasmLoader.getSelectedTower().then(tower => {
+        this.ui.updateTowerPanel(tower);
+        this.canvas.setHighlightedTower(tower && { x: tower.x, y: tower.y, range: tower.range });
+      }).catch(this.handleFrameError);
+      this.syncGameState().catch(this.handleFrameError);
+      
       // Continue animation loop
       this.animationFrameId = requestAnimationFrame(this.animate);
     } catch (error) {
@@ -186,33 +1169,177 @@ class GameApplication {
     }
   }
   
+  // Report a failed call made by a frame or a hotkey, the ones after a trap fail by design and the crash dialog already covers them
+  private handleFrameError(error: unknown): void {
+    if (this.crashed) return;
+    this.logger.error(`Frame error: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  // Show the next wave in the HUD during the countdown before it, hidden while a wave is under way
+  private async updateWavePreview(wave: number, secondsLeft: number | null): Promise<void> {
+    if (secondsLeft === null) {
+      this.ui.updateWavePreview(null);
+      return;
+    }
+    
+    let nextWave = this.nextWave;
+    if (nextWave?.wave !== wave) {
+      // Cache before fetching so the following frames don't ask again
+      nextWave = { wave, definition: null };
+      this.nextWave = nextWave;
+      nextWave.definition = await this.wasmLoader.getWavePreview(wave);
+    }
+    this.ui.updateWavePreview({ wave, definition: nextWave.definition, secondsLeft });
+  }
+  
   // Handle keyboard events
   private handleKeyDown(event: KeyboardEvent): void {
-    if (!this.wasmLoader.isLoaded()) return;
+    // A crashed module takes no calls until the crash dialog restarts it
+    if (!this.wasmLoader.isLoaded() || this.crashed || isTypingTarget(event.target)) return;
+    
+    // While a replay is shown, only Space (play/pause) is handled
+    if (this.replayPlayer) {
+      if (event.key === ' ') {
+        event.preventDefault();
+        this.toggleReplayPlayback().catch(this.handleFrameError);
+      }
+      return;
+    }
+    
+    // Number keys select towers, as listed in the tower catalog
+    if (this.ui.handleTowerHotkey(event.key)) return;
     
     switch(event.key) {
-      case '1': 
-        this.ui.selectTower(1);
+      case 'Escape': 
+        // Close the tower panel first, then drop the tower type being placed
+        if (!this.ui.closeTowerPanel()) this.ui.deselectTowers();
         break;
-      case '2': 
-        this.ui.selectTower(2);
+      case ' ': // Space bar
+        event.preventDefault();
+        this.togglePause().catch(this.handleFrameError);
         break;
-      case '3': 
-        this.ui.selectTower(3);
+      case '[':
+        this.changeGameSpeed(-1);
         break;
-      case '4': 
-        this.ui.selectTower(4);
+      case ']':
+        this.changeGameSpeed(1);
         break;
-      case 'Escape': 
-        this.ui.deselectTowers();
+      case '.':
+        this.stepFrame();
         break;
-      case ' ': // Space bar
+      case 't':
+      case 'T':
+        this.ui.cycleTowerTargeting();
+        break;
+      case 'm':
+      case 'M':
+        this.mixer.toggleMute();
+        break;
+      case '`':
         event.preventDefault();
-        this.togglePause();
+        this.devConsole.toggle();
         break;
     }
   }
   
+  // Run a line typed into the developer console, printing what it did to the log
+  private async runConsoleCommand(line: string): Promise<void> {
+    // Commands would change the game under a replay, and a crashed module can't run them
+    if (this.replayPlayer || this.crashed) {
+      this.logger.warn('Console commands are not available while a replay is shown or after a crash');
+      return;
+    }
+    
+    let command: DevCommand;
+    try {
+      command = parseDevCommand(line);
+    } catch (error) {
+      if (!(error instanceof DevCommandError)) throw error;
+      this.logger.warn(error.message);
+      return;
+    }
+    
+    switch (command.type) {
+      case 'help':
+        for (const { usage, description } of Object.values(DEV_COMMANDS)) {
+          this.logger.log(`${usage}: ${description}`);
+        }
+        return;
+      case 'speed':
+        this.setGameSpeed(command.speed);
+        return;
+      case 'overlay':
+        await this.toggleDebugOverlay(command.layer);
+        return;
+      case 'state':
+        await this.printGameState();
+        return;
+    }
+    
+    if (!await this.wasmLoader.hasDebugCommands()) {
+      this.logger.warn(`${command.type} needs a Debug build of the game module, the default for \`zig build\``);
+      return;
+    }
+    const result = await this.wasmLoader.runDebugCommand(command);
+    this.logger.game(describeDebugCommand(command, result));
+  }
+  
+  // Toggle a debug overlay, or switch them all on or off, for the overlay console command
+  private async toggleDebugOverlay(layer: DebugOverlayLayer | 'all' | 'off'): Promise<void> {
+    if (layer === 'all' || layer === 'off') {
+      for (const candidate of DEBUG_OVERLAY_LAYERS) this.canvas.setDebugLayer(candidate, layer === 'all');
+    } else {
+      this.canvas.setDebugLayer(layer, !this.canvas.getDebugLayers().includes(layer));
+    }
+    
+    const layers = this.canvas.getDebugLayers();
+    this.logger.log(layers.length > 0 ? `Debug overlays: ${layers.join(', ')}` : 'Debug overlays off');
+    
+    // Everything but the performance graph is drawn from the module's debug exports
+    if (layers.some(candidate => candidate !== 'perf') && !await this.wasmLoader.hasDebugCommands()) {
+      this.logger.warn('Only the perf overlay works without a Debug build of the game module');
+    }
+  }
+  
+  // Print the game state, stats, seed and entity counts for the state console command
+  private async printGameState(): Promise<void> {
+    const [state, stats, seed, counts] = await Promise.all([
+      this.wasmLoader.getGameState(),
+      this.wasmLoader.getGameStats(),
+      this.wasmLoader.getSeed(),
+      this.wasmLoader.getEntityCounts()
+    ]);
+    
+    this.logger.log(`State: ${GameState[state]}, speed ${this.gameSpeed}x, seed ${seed}`);
+    this.logger.log(`Money ${stats.money}, lives ${stats.lives}, wave ${stats.wave}, score ${stats.score}`);
+    this.logger.log(counts
+      ? `Enemies ${counts.enemies}, towers ${counts.towers}, projectiles ${counts.projectiles}`
+      : 'Entity counts need a Debug build of the game module');
+  }
+  
+  // Set the game speed multiplier
+  setGameSpeed(speed: GameSpeed): void {
+    this.gameSpeed = speed;
+    this.ui.updateGameSpeed(speed);
+    this.logger.log(`Game speed: ${speed}x`);
+  }
+  
+  // Move to the next slower (-1) or faster (1) game speed
+  private changeGameSpeed(direction: -1 | 1): void {
+    const index = GAME_SPEEDS.indexOf(this.gameSpeed) + direction;
+    if (index >= 0 && index < GAME_SPEEDS.length) {
+      this.setGameSpeed(GAME_SPEEDS[index]);
+    }
+  }
+  
+  // Advance a single fixed step while paused, for debugging
+  private stepFrame(): void {
+    if (!this.state.is(GameState.Paused)) return;
+    
+    // The running loop draws the result on its next frame
+    this.wasmLoader.stepFrame(FIXED_TIMESTEP).catch(this.handleFrameError);
+  }
+  
   // Update status message
   private updateStatus(message: string): void {
     const statusElement = document.getElementById('status');
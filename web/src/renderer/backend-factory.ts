@@ -0,0 +1,36 @@
+// Factory for rendering backends, shared by the main thread and the game worker
+import type { RenderBackend, RenderBackendType } from './render-backend';
+import { Canvas2DBackend } from './canvas2d-backend';
+import { WebGL2Backend } from './webgl2-backend';
+import { HeadlessBackend } from './headless-backend';
+
+/**
+ * Create a rendering backend for a canvas
+ * @param canvas Canvas element, or an OffscreenCanvas transferred to a worker
+ * @param backendType Backend to draw with, WebGL2 falls back to Canvas2D when unavailable
+ * @param width Logical width of the game
+ * @param height Logical height of the game
+ */
+export function createRenderBackend(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  backendType: RenderBackendType,
+  width: number,
+  height: number
+): RenderBackend {
+  if (backendType === 'headless') {
+    return new HeadlessBackend(width, height);
+  }
+
+  if (backendType === 'webgl2') {
+    const gl = canvas.getContext('webgl2', { antialias: true }) as WebGL2RenderingContext | null;
+    if (gl) {
+      return new WebGL2Backend(gl, width, height);
+    }
+  }
+
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Failed to get 2D context from canvas');
+  }
+  return new Canvas2DBackend(ctx, width, height);
+}
@@ -1,8 +1,35 @@
 // Canvas manager for handling rendering and canvas interactions
+import { packColor } from './render-backend';
+import type { RenderBackend, RenderBackendType } from './render-backend';
+import { createRenderBackend } from './backend-factory';
+import type { TowerHighlight } from '../wasm/wasm-game';
+import { GRID_COLS, GRID_ROWS, GRID_SIZE } from '../game/game-map';
+import type { GridPoint } from '../game/game-map';
+import type { MapOverlay } from './map-overlay';
+import { FRAME_HISTORY } from './debug-overlay';
+import type { DebugOverlay, DebugOverlayLayer } from './debug-overlay';
+
+/**
+ * Grid position under the pointer, in grid units
+ */
+export interface GridPointer {
+  cell: GridPoint; // Cell containing the pointer
+  corner: GridPoint; // Nearest grid intersection
+}
+
+/**
+ * Receives pointer input while the canvas is in map editor mode
+ */
+export interface MapEditInput {
+  press(pointer: GridPointer, erase: boolean, link: boolean): void; // erase for the right button, link with shift held
+  move(pointer: GridPointer | null): void; // null when the pointer leaves the canvas
+  release(): void;
+  getOverlay(): MapOverlay;
+}
 
 export class CanvasManager {
   private canvas: HTMLCanvasElement | null = null;
-  private ctx: CanvasRenderingContext2D | null = null;
+  private backend: RenderBackend | null = null;
   private originalWidth: number = 800;
   private originalHeight: number = 600;
   private scaleX: number = 1;
@@ -10,8 +37,13 @@ export class CanvasManager {
   private currentHoverX: number = -1;
   private currentHoverY: number = -1;
   private selectedTowerType: number = 0;
+  private highlightedTower: TowerHighlight | null = null;
+  private mapEditor: MapEditInput | null = null; // Set while the map is being edited
+  private debugLayers: Set<DebugOverlayLayer> = new Set();
+  private frameTimes: number[] = []; // Milliseconds between frames, for the performance graph
   private canvasId: string;
   private isTouchDevice: boolean;
+  private transferred: boolean = false; // Drawing happens in a worker through an OffscreenCanvas
 
   constructor(canvasId: string) {
     this.canvasId = canvasId;
@@ -20,20 +52,41 @@ export class CanvasManager {
 
   /**
    * Initialize the canvas and set up event listeners
+   * @param backendType Rendering backend to draw with, WebGL2 falls back to Canvas2D when unavailable
+   */
+  initialize(backendType: RenderBackendType = 'canvas2d'): { width: number, height: number } {
+    const canvas = this.bindCanvas();
+
+    // Create the rendering backend
+    this.backend = createRenderBackend(canvas, backendType, this.originalWidth, this.originalHeight);
+
+    return { width: this.originalWidth, height: this.originalHeight };
+  }
+
+  /**
+   * Initialize the canvas for drawing from a worker
+   *
+   * Input and resizing stay on the main thread, the returned OffscreenCanvas is drawn to by the worker.
+   */
+  initializeOffscreen(): { width: number, height: number, offscreen: OffscreenCanvas } {
+    const canvas = this.bindCanvas();
+
+    this.transferred = true;
+    const offscreen = canvas.transferControlToOffscreen();
+
+    return { width: this.originalWidth, height: this.originalHeight, offscreen };
+  }
+
+  /**
+   * Look up the canvas element, set up event listeners and size it to its container
    */
-  initialize(): { width: number, height: number } {
+  private bindCanvas(): HTMLCanvasElement {
     // Get canvas element
     this.canvas = document.getElementById(this.canvasId) as HTMLCanvasElement;
     if (!this.canvas) {
       throw new Error(`Canvas element with ID '${this.canvasId}' not found`);
     }
 
-    // Get 2D context
-    this.ctx = this.canvas.getContext('2d');
-    if (!this.ctx) {
-      throw new Error('Failed to get 2D context from canvas');
-    }
-
     // Store original dimensions
     this.originalWidth = this.canvas.width;
     this.originalHeight = this.canvas.height;
@@ -44,7 +97,7 @@ export class CanvasManager {
     // Initial resize
     this.handleResize();
 
-    return { width: this.originalWidth, height: this.originalHeight };
+    return this.canvas;
   }
 
   /**
@@ -57,6 +110,12 @@ export class CanvasManager {
     this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
     this.canvas.addEventListener('mouseleave', this.handleMouseLeave.bind(this));
     this.canvas.addEventListener('click', this.handleClick.bind(this));
+    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
+    window.addEventListener('mouseup', this.handleMouseUp.bind(this));
+    this.canvas.addEventListener('contextmenu', event => {
+      // Right click erases in the map editor
+      if (this.mapEditor) event.preventDefault();
+    });
     
     // Touch events for mobile
     if (this.isTouchDevice) {
@@ -85,9 +144,11 @@ export class CanvasManager {
     this.canvas.style.width = `${displayWidth}px`;
     this.canvas.style.height = `${displayHeight}px`;
     
-    // Set the canvas internal resolution (actual size)
-    this.canvas.width = this.originalWidth;
-    this.canvas.height = this.originalHeight;
+    // Set the canvas internal resolution (actual size), a transferred canvas is sized by the worker
+    if (!this.transferred) {
+      this.canvas.width = this.originalWidth;
+      this.canvas.height = this.originalHeight;
+    }
     
     // Calculate the new scale factors
     this.scaleX = this.canvas.width / this.originalWidth;
@@ -115,111 +176,50 @@ export class CanvasManager {
    * Clear the canvas
    */
   clear(): void {
-    if (!this.ctx || !this.canvas) return;
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.backend?.clear();
   }
 
   /**
    * Draw a rectangle
    */
   drawRect(x: number, y: number, width: number, height: number, r: number, g: number, b: number): void {
-    if (!this.ctx) return;
-    this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-    this.ctx.fillRect(x, y, width, height);
+    this.backend?.rect(x, y, width, height, packColor(r, g, b));
   }
 
   /**
    * Draw a circle
    */
   drawCircle(x: number, y: number, radius: number, r: number, g: number, b: number, fill: boolean): void {
-    if (!this.ctx) return;
-    this.ctx.beginPath();
-    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
-    if (fill) {
-      this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-      this.ctx.fill();
-    } else {
-      this.ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-      this.ctx.lineWidth = 2;
-      this.ctx.stroke();
-    }
+    this.backend?.circle(x, y, radius, packColor(r, g, b), fill);
   }
 
   /**
    * Draw a line
    */
   drawLine(x1: number, y1: number, x2: number, y2: number, thickness: number, r: number, g: number, b: number): void {
-    if (!this.ctx) return;
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-    this.ctx.lineWidth = thickness;
-    this.ctx.stroke();
+    this.backend?.line(x1, y1, x2, y2, thickness, packColor(r, g, b));
   }
 
   /**
    * Draw a triangle
    */
   drawTriangle(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, r: number, g: number, b: number, fill: boolean): void {
-    if (!this.ctx) return;
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.lineTo(x3, y3);
-    this.ctx.closePath();
-    if (fill) {
-      this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-      this.ctx.fill();
-    } else {
-      this.ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-      this.ctx.lineWidth = 2;
-      this.ctx.stroke();
-    }
+    this.backend?.triangle(x1, y1, x2, y2, x3, y3, packColor(r, g, b), fill);
   }
 
   /**
    * Draw text
    */
   drawText(x: number, y: number, text: string, size: number, r: number, g: number, b: number): void {
-    if (!this.ctx) return;
-    this.ctx.font = `${size}px sans-serif`;
-    this.ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-    this.ctx.fillText(text, x, y);
+    this.backend?.text(x, y, text, size, packColor(r, g, b));
   }
 
   /**
    * Draw tower placement preview
    */
   drawTowerPreview(x: number, y: number, canPlace: boolean, range: number): void {
-    if (!this.ctx || x < 0 || y < 0) return;
-    
-    // Draw tower placement indicator
-    this.ctx.beginPath();
-    this.ctx.arc(x, y, 20, 0, Math.PI * 2);
-    this.ctx.strokeStyle = canPlace ? 'rgba(0, 255, 238, 0.5)' : 'rgba(255, 0, 0, 0.5)';
-    this.ctx.lineWidth = 2;
-    this.ctx.stroke();
-    
-    // Draw tower range indicator if placement is valid
-    if (canPlace && range > 0) {
-      this.ctx.beginPath();
-      this.ctx.arc(x, y, range, 0, Math.PI * 2);
-      this.ctx.strokeStyle = 'rgba(0, 255, 238, 0.2)';
-      this.ctx.lineWidth = 1;
-      this.ctx.stroke();
-    }
-    
-    if (!canPlace) {
-      // Draw X
-      this.ctx.beginPath();
-      this.ctx.moveTo(x - 15, y - 15);
-      this.ctx.lineTo(x + 15, y + 15);
-      this.ctx.moveTo(x + 15, y - 15);
-      this.ctx.lineTo(x - 15, y + 15);
-      this.ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
-      this.ctx.stroke();
-    }
+    if (!this.backend || x < 0 || y < 0) return;
+    this.backend.preview(x, y, canPlace, range);
   }
 
   /**
@@ -235,9 +235,35 @@ export class CanvasManager {
     // Convert to world coordinates
     const worldPos = this.screenToWorld(x, y);
     
+    this.updateHover(worldPos);
+  }
+
+  /**
+   * Snap the hovered position to the centre of its grid cell, and pass it on to the map editor
+   */
+  private updateHover(worldPos: { x: number, y: number }): void {
     // Snap to grid (40x40)
-    this.currentHoverX = Math.floor(worldPos.x / 40) * 40 + 20;
-    this.currentHoverY = Math.floor(worldPos.y / 40) * 40 + 20;
+    this.currentHoverX = Math.floor(worldPos.x / GRID_SIZE) * GRID_SIZE + GRID_SIZE / 2;
+    this.currentHoverY = Math.floor(worldPos.y / GRID_SIZE) * GRID_SIZE + GRID_SIZE / 2;
+
+    this.mapEditor?.move(this.getGridPointer(worldPos));
+  }
+
+  /**
+   * Get the cell and grid intersection nearest a world position, kept on the grid
+   */
+  private getGridPointer(worldPos: { x: number, y: number }): GridPointer {
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return {
+      cell: {
+        col: clamp((this.currentHoverX - GRID_SIZE / 2) / GRID_SIZE, GRID_COLS - 1),
+        row: clamp((this.currentHoverY - GRID_SIZE / 2) / GRID_SIZE, GRID_ROWS - 1)
+      },
+      corner: {
+        col: clamp(Math.round(worldPos.x / GRID_SIZE), GRID_COLS),
+        row: clamp(Math.round(worldPos.y / GRID_SIZE), GRID_ROWS)
+      }
+    };
   }
 
   /**
@@ -246,13 +272,33 @@ export class CanvasManager {
   private handleMouseLeave(): void {
     this.currentHoverX = -1;
     this.currentHoverY = -1;
+    this.mapEditor?.move(null);
+  }
+
+  /**
+   * Start a map edit, the right button erases and shift links waypoints
+   */
+  private handleMouseDown(event: MouseEvent): void {
+    if (!this.canvas || !this.mapEditor) return;
+    
+    const rect = this.canvas.getBoundingClientRect();
+    const worldPos = this.screenToWorld(event.clientX - rect.left, event.clientY - rect.top);
+    this.updateHover(worldPos);
+    this.mapEditor.press(this.getGridPointer(worldPos), event.button === 2, event.shiftKey);
+  }
+
+  /**
+   * Finish a map edit, even if the pointer was released off the canvas
+   */
+  private handleMouseUp(): void {
+    this.mapEditor?.release();
   }
 
   /**
    * Handle canvas click
    */
   private handleClick(event: MouseEvent): void {
-    if (!this.canvas) return;
+    if (!this.canvas || this.mapEditor) return;
     
     // This will be delegated to the app through the WasmLoader
     const gameApp = (window as any).gameApp;
@@ -284,9 +330,8 @@ export class CanvasManager {
       // Convert to world coordinates
       const worldPos = this.screenToWorld(x, y);
       
-      // Snap to grid (40x40)
-      this.currentHoverX = Math.floor(worldPos.x / 40) * 40 + 20;
-      this.currentHoverY = Math.floor(worldPos.y / 40) * 40 + 20;
+      this.updateHover(worldPos);
+      this.mapEditor?.press(this.getGridPointer(worldPos), false, false);
     }
   }
 
@@ -306,9 +351,7 @@ export class CanvasManager {
       // Convert to world coordinates
       const worldPos = this.screenToWorld(x, y);
       
-      // Snap to grid (40x40)
-      this.currentHoverX = Math.floor(worldPos.x / 40) * 40 + 20;
-      this.currentHoverY = Math.floor(worldPos.y / 40) * 40 + 20;
+      this.updateHover(worldPos);
     }
   }
 
@@ -319,9 +362,12 @@ export class CanvasManager {
     if (!this.canvas) return;
     event.preventDefault();
     
-    // Handle as a click
+    // Handle as a click, or the end of a map edit
     const gameApp = (window as any).gameApp;
-    if (gameApp && gameApp.wasmLoader) {
+    if (this.mapEditor) {
+      this.mapEditor.release();
+      this.mapEditor.move(null);
+    } else if (gameApp && gameApp.wasmLoader) {
       gameApp.wasmLoader.handleClick(this.currentHoverX, this.currentHoverY);
     }
     
@@ -345,10 +391,10 @@ export class CanvasManager {
   }
 
   /**
-   * Get the canvas context
+   * Get the rendering backend
    */
-  getContext(): CanvasRenderingContext2D | null {
-    return this.ctx;
+  getBackend(): RenderBackend | null {
+    return this.backend;
   }
 
   /**
@@ -362,9 +408,76 @@ export class CanvasManager {
   }
 
   /**
-   * Get the current hover position
+   * Get the current hover position, off the canvas while the map is being edited
    */
   getHoverPosition(): { x: number, y: number } {
+    if (this.mapEditor) return { x: -1, y: -1 };
     return { x: this.currentHoverX, y: this.currentHoverY };
   }
+
+  /**
+   * Switch to map editor mode, pointer input goes to the editor instead of the game, or null to leave it
+   */
+  setMapEditor(editor: MapEditInput | null): void {
+    this.mapEditor?.move(null);
+    this.mapEditor = editor;
+  }
+
+  /**
+   * Get the map being edited, drawn over the playfield, or null outside map editor mode
+   */
+  getMapOverlay(): MapOverlay | null {
+    return this.mapEditor?.getOverlay() ?? null;
+  }
+
+  /**
+   * Switch a debug overlay on or off
+   */
+  setDebugLayer(layer: DebugOverlayLayer, enabled: boolean): void {
+    if (enabled) {
+      this.debugLayers.add(layer);
+    } else {
+      this.debugLayers.delete(layer);
+    }
+    if (!this.debugLayers.has('perf')) this.frameTimes = [];
+  }
+
+  /**
+   * Get the debug overlays switched on
+   */
+  getDebugLayers(): DebugOverlayLayer[] {
+    return [...this.debugLayers];
+  }
+
+  /**
+   * Record the time since the last animation frame, kept while the performance graph is shown
+   */
+  recordFrameTime(milliseconds: number): void {
+    if (!this.debugLayers.has('perf')) return;
+
+    this.frameTimes.push(milliseconds);
+    if (this.frameTimes.length > FRAME_HISTORY) this.frameTimes.shift();
+  }
+
+  /**
+   * Get the debug overlays to draw over the frame, or null when none is switched on
+   */
+  getDebugOverlay(): DebugOverlay | null {
+    if (this.debugLayers.size === 0) return null;
+    return { layers: this.getDebugLayers(), frameTimes: this.frameTimes };
+  }
+
+  /**
+   * Set the built tower to outline with its range, or null to clear the highlight
+   */
+  setHighlightedTower(tower: TowerHighlight | null): void {
+    this.highlightedTower = tower;
+  }
+
+  /**
+   * Get the built tower outlined on the canvas
+   */
+  getHighlightedTower(): TowerHighlight | null {
+    return this.highlightedTower;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,204 @@
+// Canvas 2D rendering backend
+
+import { OUTLINE_WIDTH } from './render-backend';
+import type { RenderBackend } from './render-backend';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export class Canvas2DBackend implements RenderBackend {
+  readonly type = 'canvas2d' as const;
+  readonly width: number;
+  readonly height: number;
+
+  private mainCtx: Context2D;
+  private ctx: Context2D; // Context currently drawn into
+  private staticCanvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+  private staticCtx: Context2D | null = null;
+  private colorCache: Map<number, string> = new Map();
+
+  // Style of the path currently being batched
+  private batchMode: 'fill' | 'stroke' | null = null;
+  private batchColor: number = -1;
+  private batchWidth: number = 0;
+
+  constructor(ctx: Context2D, width: number, height: number) {
+    this.mainCtx = ctx;
+    this.ctx = ctx;
+    this.width = width;
+    this.height = height;
+  }
+
+  beginFrame(): void {
+    this.ctx = this.mainCtx;
+    this.batchMode = null;
+  }
+
+  endFrame(): void {
+    this.flush();
+  }
+
+  clear(): void {
+    this.flush();
+    this.ctx.clearRect(0, 0, this.width, this.height);
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: number): void {
+    this.useStyle('fill', color, 0);
+    this.ctx.rect(x, y, width, height);
+  }
+
+  circle(x: number, y: number, radius: number, color: number, fill: boolean): void {
+    this.useStyle(fill ? 'fill' : 'stroke', color, OUTLINE_WIDTH);
+    this.ctx.moveTo(x + radius, y);
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, thickness: number, color: number): void {
+    this.useStyle('stroke', color, thickness);
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+  }
+
+  triangle(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, color: number, fill: boolean): void {
+    this.useStyle(fill ? 'fill' : 'stroke', color, OUTLINE_WIDTH);
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.lineTo(x3, y3);
+    this.ctx.closePath();
+  }
+
+  text(x: number, y: number, text: string, size: number, color: number): void {
+    this.flush();
+    this.ctx.font = `${size}px sans-serif`;
+    this.ctx.fillStyle = this.colorString(color);
+    this.ctx.fillText(text, x, y);
+  }
+
+  preview(x: number, y: number, canPlace: boolean, range: number): void {
+    this.flush();
+    const ctx = this.ctx;
+
+    // Draw tower placement indicator
+    ctx.beginPath();
+    ctx.arc(x, y, 20, 0, Math.PI * 2);
+    ctx.strokeStyle = canPlace ? 'rgba(0, 255, 238, 0.5)' : 'rgba(255, 0, 0, 0.5)';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Draw tower range indicator if placement is valid
+    if (canPlace && range > 0) {
+      ctx.beginPath();
+      ctx.arc(x, y, range, 0, Math.PI * 2);
+      ctx.strokeStyle = 'rgba(0, 255, 238, 0.2)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    if (!canPlace) {
+      // Draw X
+      ctx.beginPath();
+      ctx.moveTo(x - 15, y - 15);
+      ctx.lineTo(x + 15, y + 15);
+      ctx.moveTo(x + 15, y - 15);
+      ctx.lineTo(x - 15, y + 15);
+      ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  }
+
+  highlight(x: number, y: number, range: number): void {
+    this.flush();
+    const ctx = this.ctx;
+
+    // Outline the tower's grid cell
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x - 20, y - 20, 40, 40);
+
+    // Draw its range
+    ctx.beginPath();
+    ctx.arc(x, y, range, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  beginStaticLayer(): void {
+    this.flush();
+
+    if (!this.staticCanvas || !this.staticCtx) {
+      this.staticCanvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(this.width, this.height)
+        : document.createElement('canvas');
+      this.staticCanvas.width = this.width;
+      this.staticCanvas.height = this.height;
+      this.staticCtx = this.staticCanvas.getContext('2d') as Context2D | null;
+    }
+    if (!this.staticCtx) return;
+
+    this.staticCtx.clearRect(0, 0, this.width, this.height);
+    this.ctx = this.staticCtx;
+  }
+
+  endStaticLayer(): void {
+    this.flush();
+    this.ctx = this.mainCtx;
+  }
+
+  drawStaticLayer(): void {
+    this.flush();
+    if (this.staticCanvas) {
+      this.ctx.drawImage(this.staticCanvas, 0, 0);
+    }
+  }
+
+  /**
+   * Start a new batched path unless the current one already uses this style
+   */
+  private useStyle(mode: 'fill' | 'stroke', color: number, width: number): void {
+    if (this.batchMode === mode && this.batchColor === color && (mode === 'fill' || this.batchWidth === width)) {
+      return;
+    }
+
+    this.flush();
+
+    if (mode === 'fill') {
+      this.ctx.fillStyle = this.colorString(color);
+    } else {
+      this.ctx.strokeStyle = this.colorString(color);
+      this.ctx.lineWidth = width;
+    }
+
+    this.ctx.beginPath();
+    this.batchMode = mode;
+    this.batchColor = color;
+    this.batchWidth = width;
+  }
+
+  /**
+   * Fill or stroke the current batch
+   */
+  private flush(): void {
+    if (this.batchMode === 'fill') {
+      this.ctx.fill();
+    } else if (this.batchMode === 'stroke') {
+      this.ctx.stroke();
+    }
+    this.batchMode = null;
+  }
+
+  /**
+   * Convert a packed 0xRRGGBB colour to a CSS colour, caching the result
+   */
+  private colorString(color: number): string {
+    let style = this.colorCache.get(color);
+    if (style === undefined) {
+      style = `rgb(${(color >> 16) & 0xff}, ${(color >> 8) & 0xff}, ${color & 0xff})`;
+      this.colorCache.set(color, style);
+    }
+    return style;
+  }
+}
@@ -0,0 +1,239 @@
+// Renderer that replays the packed draw-command buffers written by src/rendering/draw.zig
+import { OUTLINE_WIDTH } from './render-backend';
+import type { RenderBackend } from './render-backend';
+import { StyleBatcher } from './style-batcher';
+
+/**
+ * Command opcodes, must match Opcode in src/rendering/draw.zig
+ */
+export enum DrawOpcode {
+  StaticLayer = 1,
+  Rect = 2,
+  Circle = 3,
+  Line = 4,
+  Triangle = 5,
+  Text = 6
+}
+
+/**
+ * Command buffers exposed by the WASM module, must match Layer in src/rendering/draw.zig
+ */
+export enum DrawLayer {
+  Frame = 0,
+  Static = 1
+}
+
+// Header flag marking a filled (rather than stroked) shape
+export const DRAW_FLAG_FILL = 1 << 8;
+
+// Number of argument words following the header and colour words of each command
+const ARGUMENT_COUNTS: Record<number, number> = {
+  [DrawOpcode.StaticLayer]: 0,
+  [DrawOpcode.Rect]: 4,
+  [DrawOpcode.Circle]: 3,
+  [DrawOpcode.Line]: 5,
+  [DrawOpcode.Triangle]: 6,
+  [DrawOpcode.Text]: 5
+};
+
+// How far a stroked triangle's corners can reach past its points, in line widths:
+// half of Canvas' default miter limit of 10
+const MITER_REACH = 5;
+
+/**
+ * Views over one layer's command buffer in WASM memory
+ */
+export interface DrawCommandList {
+  words: Uint32Array;
+  floats: Float32Array; // Same memory as words
+  text: Uint8Array;
+}
+
+/**
+ * Timing statistics for the last rendered frame
+ */
+export interface RenderStats {
+  backend: string;
+  commands: number;
+  batches: number; // Style batches the frame's commands were grouped into
+  frameTimeMs: number;
+  averageFrameTimeMs: number;
+}
+
+export class CommandBufferRenderer {
+  private backend: RenderBackend;
+  private staticVersion: number = -1;
+  private textDecoder: TextDecoder = new TextDecoder('utf-8');
+  private batcher: StyleBatcher = new StyleBatcher();
+  private stats: RenderStats;
+
+  constructor(backend: RenderBackend) {
+    this.backend = backend;
+    this.stats = { backend: backend.type, commands: 0, batches: 0, frameTimeMs: 0, averageFrameTimeMs: 0 };
+  }
+
+  /**
+   * Get the backend commands are drawn with
+   */
+  getBackend(): RenderBackend {
+    return this.backend;
+  }
+
+  /**
+   * Clear the surface and draw one frame
+   * @param frame Commands for this frame
+   * @param staticLayer Commands for the grid and path layer
+   * @param staticVersion Version of the static layer, it is only re-cached when this changes
+   */
+  render(frame: DrawCommandList, staticLayer: DrawCommandList, staticVersion: number): void {
+    const start = performance.now();
+    const backend = this.backend;
+
+    if (staticVersion !== this.staticVersion) {
+      backend.beginStaticLayer();
+      this.replay(staticLayer);
+      backend.endStaticLayer();
+      this.staticVersion = staticVersion;
+    }
+
+    backend.beginFrame();
+    backend.clear();
+    const commands = this.replay(frame);
+    backend.endFrame();
+
+    const frameTimeMs = performance.now() - start;
+    this.stats = {
+      backend: backend.type,
+      commands,
+      batches: this.batcher.getBatchCount(),
+      frameTimeMs,
+      averageFrameTimeMs: this.stats.averageFrameTimeMs === 0
+        ? frameTimeMs
+        : this.stats.averageFrameTimeMs * 0.95 + frameTimeMs * 0.05
+    };
+  }
+
+  /**
+   * Get statistics for the last rendered frame
+   */
+  getStats(): RenderStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Force the static layer to be redrawn on the next frame
+   */
+  invalidateStaticLayer(): void {
+    this.staticVersion = -1;
+  }
+
+  /**
+   * Decode a command list, group it by style and forward each command to the backend
+   *
+   * Shapes are drawn in style batches from StyleBatcher, which only moves a shape in front of
+   * ones it doesn't overlap. Text and the static layer keep their place in the buffer.
+   * @returns The number of commands drawn
+   */
+  private replay(list: DrawCommandList): number {
+    const { words, floats } = list;
+    const batcher = this.batcher;
+    batcher.reset();
+    let i = 0;
+
+    while (i < words.length) {
+      const header = words[i];
+      const opcode = header & 0xff;
+      const fill = (header & DRAW_FLAG_FILL) !== 0;
+      const color = words[i + 1];
+      const a = i + 2;
+
+      const argumentCount = ARGUMENT_COUNTS[opcode];
+      if (argumentCount === undefined || a + argumentCount > words.length) {
+        // Corrupt or truncated buffer, draw what we have
+        break;
+      }
+
+      switch (opcode) {
+        case DrawOpcode.Rect: {
+          const x = floats[a];
+          const y = floats[a + 1];
+          const right = x + floats[a + 2];
+          const bottom = y + floats[a + 3];
+          batcher.add(i, true, color, 0, Math.min(x, right), Math.min(y, bottom), Math.max(x, right), Math.max(y, bottom));
+          break;
+        }
+        case DrawOpcode.Circle: {
+          const reach = floats[a + 2] + (fill ? 0 : OUTLINE_WIDTH / 2);
+          batcher.add(i, fill, color, OUTLINE_WIDTH, floats[a] - reach, floats[a + 1] - reach, floats[a] + reach, floats[a + 1] + reach);
+          break;
+        }
+        case DrawOpcode.Line: {
+          const thickness = floats[a + 4];
+          const reach = thickness / 2;
+          batcher.add(i, false, color, thickness,
+            Math.min(floats[a], floats[a + 2]) - reach, Math.min(floats[a + 1], floats[a + 3]) - reach,
+            Math.max(floats[a], floats[a + 2]) + reach, Math.max(floats[a + 1], floats[a + 3]) + reach);
+          break;
+        }
+        case DrawOpcode.Triangle: {
+          const reach = fill ? 0 : OUTLINE_WIDTH * MITER_REACH;
+          batcher.add(i, fill, color, OUTLINE_WIDTH,
+            Math.min(floats[a], floats[a + 2], floats[a + 4]) - reach, Math.min(floats[a + 1], floats[a + 3], floats[a + 5]) - reach,
+            Math.max(floats[a], floats[a + 2], floats[a + 4]) + reach, Math.max(floats[a + 1], floats[a + 3], floats[a + 5]) + reach);
+          break;
+        }
+        default:
+          batcher.addBarrier(i);
+          break;
+      }
+
+      i = a + argumentCount;
+    }
+
+    const order = batcher.getOrder();
+    for (let n = 0; n < order.length; n++) {
+      this.draw(list, order[n]);
+    }
+    return order.length;
+  }
+
+  /**
+   * Forward one decoded command to the backend
+   * @param i Word offset of the command, already checked to fit in the buffer
+   */
+  private draw(list: DrawCommandList, i: number): void {
+    const { words, floats } = list;
+    const backend = this.backend;
+    const header = words[i];
+    const fill = (header & DRAW_FLAG_FILL) !== 0;
+    const color = words[i + 1];
+    const a = i + 2;
+
+    switch (header & 0xff) {
+      case DrawOpcode.StaticLayer:
+        backend.drawStaticLayer();
+        break;
+      case DrawOpcode.Rect:
+        backend.rect(floats[a], floats[a + 1], floats[a + 2], floats[a + 3], color);
+        break;
+      case DrawOpcode.Circle:
+        backend.circle(floats[a], floats[a + 1], floats[a + 2], color, fill);
+        break;
+      case DrawOpcode.Line:
+        backend.line(floats[a], floats[a + 1], floats[a + 2], floats[a + 3], floats[a + 4], color);
+        break;
+      case DrawOpcode.Triangle:
+        backend.triangle(floats[a], floats[a + 1], floats[a + 2], floats[a + 3], floats[a + 4], floats[a + 5], color, fill);
+        break;
+      case DrawOpcode.Text: {
+        const offset = words[a + 3];
+        const length = words[a + 4];
+        if (offset + length <= list.text.length) {
+          const text = this.textDecoder.decode(list.text.subarray(offset, offset + length));
+          backend.text(floats[a], floats[a + 1], text, floats[a + 2], color);
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,157 @@
+// Debug overlays drawn over the game frame, for seeing what targeting and collisions are doing
+import { GRID_COLS, GRID_SIZE } from '../game/game-map';
+import type { CellSite, DebugData } from '../game/debug-data';
+import type { RenderBackend } from './render-backend';
+
+/**
+ * What an overlay shows
+ * - ranges: every tower's range
+ * - targets: a line from each tower to the enemy it would shoot now
+ * - progress: each enemy's distance along the path and the waypoint it is heading to
+ * - splash: the area damaged by recent splash hits, and where the projectile actually hit
+ * - projectiles: the segment each projectile swept in the last update, which collisions are checked along
+ * - grid: whether each cell could take a tower, and what is in the way if not
+ * - perf: frame rate, frame times and entity counts
+ */
+export type DebugOverlayLayer = 'ranges' | 'targets' | 'progress' | 'splash' | 'projectiles' | 'grid' | 'perf';
+
+export const DEBUG_OVERLAY_LAYERS: DebugOverlayLayer[] = ['ranges', 'targets', 'progress', 'splash', 'projectiles', 'grid', 'perf'];
+
+// Frame times kept for the performance graph
+export const FRAME_HISTORY = 120;
+
+/**
+ * The overlays switched on, sent with every frame while any is
+ */
+export interface DebugOverlay {
+  layers: DebugOverlayLayer[];
+  frameTimes: number[]; // Milliseconds between animation frames, oldest first, only kept while perf is on
+}
+
+const CELL_COLORS: Record<CellSite, number> = {
+  buildable: 0x206020,
+  path: 0x602020,
+  occupied: 0x605020,
+  terrain: 0x404040
+};
+const RANGE = 0x4080ff;
+const TARGET = 0xff4040;
+const PROGRESS = 0xffffff;
+const SWEPT = 0xffff00;
+const SPLASH = 0xff8000;
+const GRAPH_BACKGROUND = 0x000000;
+const GRAPH_TEXT = 0xffffff;
+const GRAPH_BUDGET = 0x404040; // Line at the time a 60 FPS frame has
+const FRAME_FAST = 0x40ff40;
+const FRAME_SLOW = 0xffff40;
+const FRAME_DROPPED = 0xff4040;
+
+const CELL_INSET = 3;
+const PROGRESS_TEXT_SIZE = 10;
+const GRAPH_WIDTH = 180; // Wide enough for the entity counts, the bars take FRAME_HISTORY of it
+const GRAPH_HEIGHT = 40;
+const GRAPH_PADDING = 6;
+const GRAPH_TEXT_SIZE = 11;
+const GRAPH_TEXT_LINES = 2;
+const GRAPH_MAX_MS = 50; // Frame time at the top of the graph
+const FRAME_BUDGET_MS = 1000 / 60;
+
+/**
+ * Draw the overlays switched on over the frame
+ * @param data Entity state from the module, null on a release build, where only the performance graph is drawn
+ * @param alpha Fraction of the next update already elapsed, enemies are interpolated by it like the frame draws them
+ */
+export function drawDebugOverlay(backend: RenderBackend, overlay: DebugOverlay, data: DebugData | null, alpha: number): void {
+  const layers = new Set(overlay.layers);
+
+  if (data) {
+    const enemies = data.enemies.map(enemy => ({
+      ...enemy,
+      x: enemy.prevX + (enemy.x - enemy.prevX) * alpha,
+      y: enemy.prevY + (enemy.y - enemy.prevY) * alpha
+    }));
+
+    if (layers.has('grid')) {
+      data.cells.forEach((site, i) => {
+        const x = (i % GRID_COLS) * GRID_SIZE + CELL_INSET;
+        const y = Math.floor(i / GRID_COLS) * GRID_SIZE + CELL_INSET;
+        drawSquare(backend, x, y, GRID_SIZE - CELL_INSET * 2, CELL_COLORS[site]);
+      });
+    }
+
+    if (layers.has('ranges')) {
+      for (const tower of data.towers) backend.circle(tower.x, tower.y, tower.range, RANGE, false);
+    }
+
+    if (layers.has('targets')) {
+      for (const tower of data.towers) {
+        const target = tower.target === null ? undefined : enemies[tower.target];
+        if (target) backend.line(tower.x, tower.y, target.x, target.y, 1, TARGET);
+      }
+    }
+
+    if (layers.has('projectiles')) {
+      for (const projectile of data.projectiles) {
+        backend.line(projectile.prevX, projectile.prevY, projectile.x, projectile.y, 2, SWEPT);
+      }
+    }
+
+    if (layers.has('splash')) {
+      for (const impact of data.impacts) {
+        backend.circle(impact.x, impact.y, data.splashRadius, SPLASH, false);
+        backend.circle(impact.hitX, impact.hitY, 3, SPLASH, true);
+        backend.line(impact.hitX, impact.hitY, impact.x, impact.y, 1, SPLASH);
+      }
+    }
+
+    if (layers.has('progress')) {
+      for (const enemy of enemies) {
+        const label = `${Math.round(enemy.progress)} →${enemy.waypoint}`;
+        backend.text(enemy.x - enemy.radius, enemy.y - enemy.radius - 4, label, PROGRESS_TEXT_SIZE, PROGRESS);
+      }
+    }
+  }
+
+  if (layers.has('perf')) drawPerformanceGraph(backend, overlay.frameTimes, data);
+}
+
+function drawSquare(backend: RenderBackend, x: number, y: number, size: number, color: number): void {
+  backend.line(x, y, x + size, y, 1, color);
+  backend.line(x + size, y, x + size, y + size, 1, color);
+  backend.line(x + size, y + size, x, y + size, 1, color);
+  backend.line(x, y + size, x, y, 1, color);
+}
+
+// Frame time bars in the bottom left corner, with the frame rate and entity counts above them
+function drawPerformanceGraph(backend: RenderBackend, frameTimes: number[], data: DebugData | null): void {
+  const width = GRAPH_WIDTH + GRAPH_PADDING * 2;
+  const height = GRAPH_HEIGHT + (GRAPH_TEXT_SIZE + 4) * GRAPH_TEXT_LINES + GRAPH_PADDING * 2;
+  const left = GRAPH_PADDING;
+  const top = backend.height - height - GRAPH_PADDING;
+  backend.rect(left, top, width, height, GRAPH_BACKGROUND);
+
+  const average = frameTimes.length > 0 ? frameTimes.reduce((sum, time) => sum + time, 0) / frameTimes.length : 0;
+  const latest = frameTimes[frameTimes.length - 1] ?? 0;
+  const fps = average > 0 ? Math.round(1000 / average) : 0;
+  let textY = top + GRAPH_PADDING + GRAPH_TEXT_SIZE;
+  backend.text(left + GRAPH_PADDING, textY, `${fps} FPS, ${latest.toFixed(1)} ms`, GRAPH_TEXT_SIZE, GRAPH_TEXT);
+  textY += GRAPH_TEXT_SIZE + 4;
+  const counts = data
+    ? `${data.enemies.length} enemies, ${data.towers.length} towers, ${data.projectiles.length} shots`
+    : 'Entity counts need a Debug build';
+  backend.text(left + GRAPH_PADDING, textY, counts, GRAPH_TEXT_SIZE, GRAPH_TEXT);
+
+  const bottom = top + height - GRAPH_PADDING;
+  const budgetY = bottom - FRAME_BUDGET_MS / GRAPH_MAX_MS * GRAPH_HEIGHT;
+  backend.line(left + GRAPH_PADDING, budgetY, left + GRAPH_PADDING + GRAPH_WIDTH, budgetY, 1, GRAPH_BUDGET);
+
+  // Newest frame on the right
+  const start = left + GRAPH_PADDING + GRAPH_WIDTH - frameTimes.length;
+  frameTimes.forEach((time, i) => {
+    const barHeight = Math.min(time, GRAPH_MAX_MS) / GRAPH_MAX_MS * GRAPH_HEIGHT;
+    let color = FRAME_FAST;
+    if (time > FRAME_BUDGET_MS * 2) color = FRAME_DROPPED;
+    else if (time > FRAME_BUDGET_MS * 1.2) color = FRAME_SLOW;
+    backend.line(start + i + 0.5, bottom, start + i + 0.5, bottom - barHeight, 1, color);
+  });
+}
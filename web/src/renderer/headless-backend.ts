@@ -0,0 +1,155 @@
+// Headless rendering backend that records draw calls instead of drawing them
+//
+// Has no DOM dependencies, so the game can run under Node or Bun and tests can
+// assert on what would have been drawn.
+
+import type { RenderBackend } from './render-backend';
+
+/**
+ * A single recorded draw call
+ */
+export type RecordedDrawCall =
+  | { op: 'clear' }
+  | { op: 'rect'; x: number; y: number; width: number; height: number; color: number }
+  | { op: 'circle'; x: number; y: number; radius: number; color: number; fill: boolean }
+  | { op: 'line'; x1: number; y1: number; x2: number; y2: number; thickness: number; color: number }
+  | { op: 'triangle'; x1: number; y1: number; x2: number; y2: number; x3: number; y3: number; color: number; fill: boolean }
+  | { op: 'text'; x: number; y: number; text: string; size: number; color: number }
+  | { op: 'preview'; x: number; y: number; canPlace: boolean; range: number }
+  | { op: 'highlight'; x: number; y: number; range: number }
+  | { op: 'staticLayer' };
+
+export type DrawOp = RecordedDrawCall['op'];
+
+export class HeadlessBackend implements RenderBackend {
+  readonly type = 'headless' as const;
+  readonly width: number;
+  readonly height: number;
+
+  private frames: RecordedDrawCall[][] = [];
+  private current: RecordedDrawCall[] = [];
+  private staticCalls: RecordedDrawCall[] = [];
+  private recordingStatic: boolean = false;
+  private frameCalls: RecordedDrawCall[] = [];
+  private readonly maxFrames: number;
+
+  /**
+   * @param width Surface width
+   * @param height Surface height
+   * @param maxFrames Number of completed frames to keep
+   */
+  constructor(width: number, height: number, maxFrames: number = 60) {
+    this.width = width;
+    this.height = height;
+    this.maxFrames = maxFrames;
+  }
+
+  beginFrame(): void {
+    this.frameCalls = [];
+    this.current = this.frameCalls;
+  }
+
+  endFrame(): void {
+    this.frames.push(this.frameCalls);
+    if (this.frames.length > this.maxFrames) {
+      this.frames.shift();
+    }
+  }
+
+  clear(): void {
+    this.current.push({ op: 'clear' });
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: number): void {
+    this.current.push({ op: 'rect', x, y, width, height, color });
+  }
+
+  circle(x: number, y: number, radius: number, color: number, fill: boolean): void {
+    this.current.push({ op: 'circle', x, y, radius, color, fill });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, thickness: number, color: number): void {
+    this.current.push({ op: 'line', x1, y1, x2, y2, thickness, color });
+  }
+
+  triangle(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, color: number, fill: boolean): void {
+    this.current.push({ op: 'triangle', x1, y1, x2, y2, x3, y3, color, fill });
+  }
+
+  text(x: number, y: number, text: string, size: number, color: number): void {
+    this.current.push({ op: 'text', x, y, text, size, color });
+  }
+
+  preview(x: number, y: number, canPlace: boolean, range: number): void {
+    this.current.push({ op: 'preview', x, y, canPlace, range });
+  }
+
+  highlight(x: number, y: number, range: number): void {
+    this.current.push({ op: 'highlight', x, y, range });
+  }
+
+  beginStaticLayer(): void {
+    this.staticCalls = [];
+    this.current = this.staticCalls;
+    this.recordingStatic = true;
+  }
+
+  endStaticLayer(): void {
+    this.recordingStatic = false;
+    this.current = this.frameCalls;
+  }
+
+  drawStaticLayer(): void {
+    if (this.recordingStatic) return;
+    this.current.push({ op: 'staticLayer' });
+  }
+
+  /**
+   * Get the calls of the most recently completed frame
+   */
+  getLastFrame(): ReadonlyArray<RecordedDrawCall> {
+    return this.frames[this.frames.length - 1] ?? [];
+  }
+
+  /**
+   * Get all retained frames, oldest first
+   */
+  getFrames(): ReadonlyArray<ReadonlyArray<RecordedDrawCall>> {
+    return this.frames;
+  }
+
+  /**
+   * Get the calls recorded for the cached static layer
+   */
+  getStaticLayer(): ReadonlyArray<RecordedDrawCall> {
+    return this.staticCalls;
+  }
+
+  /**
+   * Count the calls of a given kind in the most recent frame
+   */
+  count(op: DrawOp): number {
+    return this.getLastFrame().filter(call => call.op === op).length;
+  }
+
+  /**
+   * Get every text string drawn in the most recent frame
+   */
+  getTexts(): string[] {
+    const texts: string[] = [];
+    for (const call of this.getLastFrame()) {
+      if (call.op === 'text') texts.push(call.text);
+    }
+    return texts;
+  }
+
+  /**
+   * Discard all recorded frames
+   */
+  reset(): void {
+    this.frames = [];
+    this.frameCalls = [];
+    this.current = this.frameCalls;
+    this.staticCalls = [];
+  }
+}
@@ -0,0 +1,121 @@
+// Map editor view, drawn over the game frame while the map is being edited
+import { GRID_COLS, GRID_ROWS, GRID_SIZE, isExit, isOnEdge, isSpawnPoint } from '../game/game-map';
+import type { GridPoint, MapLayout } from '../game/game-map';
+import type { RenderBackend } from './render-backend';
+
+/**
+ * What the map editor is placing: path waypoints on grid intersections, or blocked cells
+ */
+export type MapEditTool = 'path' | 'terrain';
+
+/**
+ * The map being edited, sent with every frame while the editor is open
+ */
+export interface MapOverlay {
+  layout: MapLayout;
+  tool: MapEditTool;
+  hover: GridPoint | null; // Intersection or cell under the pointer, depending on the tool
+  selected: number | null; // Waypoint new waypoints and links branch from
+}
+
+const BACKGROUND = 0x0a0a14;
+const GRID_LINE = 0x202030;
+const BLOCKED_FILL = 0x402020;
+const BLOCKED_MARK = 0x904040;
+const PATH_LINE = 0x1e1e50;
+const PATH_ARROW = 0x5050c0;
+const WAYPOINT = 0x2828a0;
+const WAYPOINT_OFF_EDGE = 0xff4040; // Spawn point or exit that isn't on the edge yet
+const SPAWN_POINT = 0x40ff40;
+const EXIT = 0xff8800;
+const SELECTED = 0xffff40;
+const HOVER = 0xffffff;
+
+const ARROW_SIZE = 8;
+
+/**
+ * Draw the map being edited in place of the playfield
+ */
+export function drawMapOverlay(backend: RenderBackend, overlay: MapOverlay): void {
+  const width = GRID_COLS * GRID_SIZE;
+  const height = GRID_ROWS * GRID_SIZE;
+  const { layout } = overlay;
+  const { waypoints, branches, blocked } = layout;
+
+  backend.rect(0, 0, width, height, BACKGROUND);
+  for (let col = 0; col <= GRID_COLS; col++) {
+    backend.line(col * GRID_SIZE, 0, col * GRID_SIZE, height, 1, GRID_LINE);
+  }
+  for (let row = 0; row <= GRID_ROWS; row++) {
+    backend.line(0, row * GRID_SIZE, width, row * GRID_SIZE, 1, GRID_LINE);
+  }
+
+  for (const cell of blocked) {
+    const x = cell.col * GRID_SIZE;
+    const y = cell.row * GRID_SIZE;
+    backend.rect(x + 2, y + 2, GRID_SIZE - 4, GRID_SIZE - 4, BLOCKED_FILL);
+    backend.line(x + 8, y + 8, x + GRID_SIZE - 8, y + GRID_SIZE - 8, 2, BLOCKED_MARK);
+    backend.line(x + GRID_SIZE - 8, y + 8, x + 8, y + GRID_SIZE - 8, 2, BLOCKED_MARK);
+  }
+
+  for (const branch of branches) {
+    const start = waypoints[branch.from];
+    const end = waypoints[branch.to];
+    if (!start || !end) continue;
+    backend.line(start.col * GRID_SIZE, start.row * GRID_SIZE, end.col * GRID_SIZE, end.row * GRID_SIZE, 20, PATH_LINE);
+  }
+
+  // Arrows halfway along each branch show which way enemies walk it
+  for (const branch of branches) {
+    const start = waypoints[branch.from];
+    const end = waypoints[branch.to];
+    if (!start || !end) continue;
+    drawArrow(backend, start, end);
+  }
+
+  waypoints.forEach((point, i) => {
+    const spawn = isSpawnPoint(layout, i);
+    const exit = isExit(layout, i);
+    let color = WAYPOINT;
+    if ((spawn || exit) && !isOnEdge(point)) color = WAYPOINT_OFF_EDGE;
+    else if (spawn) color = SPAWN_POINT;
+    else if (exit) color = EXIT;
+    backend.circle(point.col * GRID_SIZE, point.row * GRID_SIZE, 10, color, true);
+  });
+
+  const selected = overlay.selected === null ? undefined : waypoints[overlay.selected];
+  if (selected) {
+    backend.circle(selected.col * GRID_SIZE, selected.row * GRID_SIZE, 16, SELECTED, false);
+  }
+
+  const hover = overlay.hover;
+  if (!hover) return;
+  if (overlay.tool === 'path') {
+    backend.circle(hover.col * GRID_SIZE, hover.row * GRID_SIZE, 14, HOVER, false);
+  } else {
+    const x = hover.col * GRID_SIZE;
+    const y = hover.row * GRID_SIZE;
+    backend.line(x, y, x + GRID_SIZE, y, 2, HOVER);
+    backend.line(x + GRID_SIZE, y, x + GRID_SIZE, y + GRID_SIZE, 2, HOVER);
+    backend.line(x + GRID_SIZE, y + GRID_SIZE, x, y + GRID_SIZE, 2, HOVER);
+    backend.line(x, y + GRID_SIZE, x, y, 2, HOVER);
+  }
+}
+
+function drawArrow(backend: RenderBackend, start: GridPoint, end: GridPoint): void {
+  const dx = (end.col - start.col) * GRID_SIZE;
+  const dy = (end.row - start.row) * GRID_SIZE;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return;
+
+  const ux = dx / length;
+  const uy = dy / length;
+  const x = (start.col + end.col) * GRID_SIZE / 2 + ux * ARROW_SIZE / 2;
+  const y = (start.row + end.row) * GRID_SIZE / 2 + uy * ARROW_SIZE / 2;
+  backend.triangle(
+    x, y,
+    x - ux * ARROW_SIZE - uy * ARROW_SIZE, y - uy * ARROW_SIZE + ux * ARROW_SIZE,
+    x - ux * ARROW_SIZE + uy * ARROW_SIZE, y - uy * ARROW_SIZE - ux * ARROW_SIZE,
+    PATH_ARROW, true
+  );
+}
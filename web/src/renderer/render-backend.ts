@@ -0,0 +1,61 @@
+// Common interface implemented by every rendering backend
+
+/**
+ * Backends that can be selected at startup
+ */
+export type RenderBackendType = 'canvas2d' | 'webgl2' | 'headless';
+
+export const RENDER_BACKEND_TYPES: RenderBackendType[] = ['canvas2d', 'webgl2', 'headless'];
+
+/**
+ * Drawing surface used by the CommandBufferRenderer and CanvasManager
+ *
+ * Colours are packed as 0xRRGGBB. Calls between beginStaticLayer and endStaticLayer
+ * are cached by the backend and replayed by drawStaticLayer.
+ */
+export interface RenderBackend {
+  readonly type: RenderBackendType;
+  readonly width: number;
+  readonly height: number;
+
+  beginFrame(): void;
+  endFrame(): void;
+  clear(): void;
+
+  rect(x: number, y: number, width: number, height: number, color: number): void;
+  circle(x: number, y: number, radius: number, color: number, fill: boolean): void;
+  line(x1: number, y1: number, x2: number, y2: number, thickness: number, color: number): void;
+  triangle(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, color: number, fill: boolean): void;
+  text(x: number, y: number, text: string, size: number, color: number): void;
+
+  /**
+   * Draw the tower placement indicator and range on top of the frame
+   */
+  preview(x: number, y: number, canPlace: boolean, range: number): void;
+
+  /**
+   * Outline the selected tower's grid cell and range on top of the frame
+   */
+  highlight(x: number, y: number, range: number): void;
+
+  beginStaticLayer(): void;
+  endStaticLayer(): void;
+  drawStaticLayer(): void;
+}
+
+// Line width used for outlined circles and triangles
+export const OUTLINE_WIDTH = 2;
+
+/**
+ * Pack 8-bit colour channels into a 0xRRGGBB number
+ */
+export function packColor(r: number, g: number, b: number): number {
+  return ((r & 0xff) << 16) | ((g & 0xff) << 8) | (b & 0xff);
+}
+
+/**
+ * Check whether a string names a known backend
+ */
+export function isRenderBackendType(value: string | null | undefined): value is RenderBackendType {
+  return RENDER_BACKEND_TYPES.includes(value as RenderBackendType);
+}
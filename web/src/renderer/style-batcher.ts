@@ -0,0 +1,197 @@
+// Grouping of draw commands by style for the CommandBufferRenderer
+
+// Anti-aliased edges reach a little past a shape's exact bounds
+const EDGE_MARGIN = 1;
+
+// How far back a command may move to join a batch of its style, in batches and in the commands they hold
+const MAX_BATCHES_SKIPPED = 16;
+const MAX_COMMANDS_CHECKED = 128;
+
+// Batch styles, barriers are never joined or moved past
+const STYLE_BARRIER = 0;
+const STYLE_FILL = 1;
+const STYLE_STROKE = 2;
+
+/**
+ * Copy a typed array into one twice its size
+ */
+function grow<T extends Int32Array | Uint32Array | Uint8Array | Float32Array>(array: T, create: (length: number) => T): T {
+  const grown = create(array.length * 2);
+  grown.set(array);
+  return grown;
+}
+
+/**
+ * Reorders one layer's draw commands so commands of the same style are drawn together
+ *
+ * Colours are opaque, so a command can be drawn earlier than it was written as long as it
+ * doesn't overlap any command it moves in front of. Each command joins the latest batch of
+ * its style it can reach that way, otherwise it starts a new batch. Overlapping commands
+ * keep their order, so the frame looks the same as one drawn in buffer order.
+ */
+export class StyleBatcher {
+  private commandCount: number = 0;
+  private batchCount: number = 0;
+
+  // Per command, indexed in buffer order
+  private offsets: Int32Array = new Int32Array(256); // Word offset of the command in its buffer
+  private next: Int32Array = new Int32Array(256); // Next command in the same batch, -1 for the last
+  private bounds: Float32Array = new Float32Array(256 * 4); // minX, minY, maxX, maxY
+
+  // Per batch, in draw order. There are never more batches than commands
+  private batchFirst: Int32Array = new Int32Array(256);
+  private batchLast: Int32Array = new Int32Array(256);
+  private batchStyles: Uint8Array = new Uint8Array(256);
+  private batchColors: Uint32Array = new Uint32Array(256);
+  private batchWidths: Float32Array = new Float32Array(256); // Line width of strokes, 0 for fills
+  private batchBounds: Float32Array = new Float32Array(256 * 4); // Bounds of every command in the batch
+
+  private order: Int32Array = new Int32Array(256);
+
+  /**
+   * Forget the commands of the previous layer
+   */
+  reset(): void {
+    this.commandCount = 0;
+    this.batchCount = 0;
+  }
+
+  /**
+   * Add a filled or stroked shape
+   * @param offset Word offset of the command in its buffer
+   * @param width Line width of a stroke, ignored for fills
+   */
+  add(offset: number, fill: boolean, color: number, width: number, minX: number, minY: number, maxX: number, maxY: number): void {
+    const command = this.push(offset, minX - EDGE_MARGIN, minY - EDGE_MARGIN, maxX + EDGE_MARGIN, maxY + EDGE_MARGIN);
+    const style = fill ? STYLE_FILL : STYLE_STROKE;
+    const lineWidth = fill ? 0 : Math.fround(width);
+    const lowest = Math.max(0, this.batchCount - 1 - MAX_BATCHES_SKIPPED);
+    let checked = 0;
+
+    for (let batch = this.batchCount - 1; batch >= lowest; batch--) {
+      if (this.batchStyles[batch] === style && this.batchColors[batch] === color && this.batchWidths[batch] === lineWidth) {
+        this.append(batch, command);
+        return;
+      }
+      if (this.batchStyles[batch] === STYLE_BARRIER) break;
+
+      // The command would be drawn before this batch, so it must not overlap anything in it
+      checked = this.countOverlapChecks(batch, command, checked);
+      if (checked > MAX_COMMANDS_CHECKED) break;
+    }
+
+    this.startBatch(command, style, color, lineWidth);
+  }
+
+  /**
+   * Add a command that keeps its place, such as text or the cached static layer
+   * @param offset Word offset of the command in its buffer
+   */
+  addBarrier(offset: number): void {
+    const command = this.push(offset, 0, 0, 0, 0);
+    this.startBatch(command, STYLE_BARRIER, 0, 0);
+  }
+
+  /**
+   * Get the number of batches, each one a change of style for the backend
+   */
+  getBatchCount(): number {
+    return this.batchCount;
+  }
+
+  /**
+   * Get the word offsets of the commands in the order to draw them
+   */
+  getOrder(): Int32Array {
+    if (this.order.length < this.commandCount) {
+      this.order = new Int32Array(this.offsets.length);
+    }
+
+    let n = 0;
+    for (let batch = 0; batch < this.batchCount; batch++) {
+      for (let command = this.batchFirst[batch]; command !== -1; command = this.next[command]) {
+        this.order[n++] = this.offsets[command];
+      }
+    }
+    return this.order.subarray(0, n);
+  }
+
+  /**
+   * Check a command against the commands of a batch it would move in front of
+   * @param checked Commands checked so far for this command
+   * @returns The new count, or more than MAX_COMMANDS_CHECKED if the command overlaps one
+   */
+  private countOverlapChecks(batch: number, command: number, checked: number): number {
+    if (!this.overlaps(this.batchBounds, batch, command)) return checked;
+
+    for (let other = this.batchFirst[batch]; other !== -1; other = this.next[other]) {
+      if (++checked > MAX_COMMANDS_CHECKED || this.overlaps(this.bounds, other, command)) {
+        return MAX_COMMANDS_CHECKED + 1;
+      }
+    }
+    return checked;
+  }
+
+  /**
+   * Check whether a command's bounds overlap entry `index` of a bounds array
+   */
+  private overlaps(bounds: Float32Array, index: number, command: number): boolean {
+    const a = index * 4;
+    const b = command * 4;
+    const own = this.bounds;
+    return bounds[a] < own[b + 2] && own[b] < bounds[a + 2] && bounds[a + 1] < own[b + 3] && own[b + 1] < bounds[a + 3];
+  }
+
+  private push(offset: number, minX: number, minY: number, maxX: number, maxY: number): number {
+    if (this.commandCount === this.offsets.length) {
+      this.offsets = grow(this.offsets, length => new Int32Array(length));
+      this.next = grow(this.next, length => new Int32Array(length));
+      this.bounds = grow(this.bounds, length => new Float32Array(length));
+      this.batchFirst = grow(this.batchFirst, length => new Int32Array(length));
+      this.batchLast = grow(this.batchLast, length => new Int32Array(length));
+      this.batchStyles = grow(this.batchStyles, length => new Uint8Array(length));
+      this.batchColors = grow(this.batchColors, length => new Uint32Array(length));
+      this.batchWidths = grow(this.batchWidths, length => new Float32Array(length));
+      this.batchBounds = grow(this.batchBounds, length => new Float32Array(length));
+    }
+
+    const command = this.commandCount++;
+    const b = command * 4;
+    this.offsets[command] = offset;
+    this.next[command] = -1;
+    this.bounds[b] = minX;
+    this.bounds[b + 1] = minY;
+    this.bounds[b + 2] = maxX;
+    this.bounds[b + 3] = maxY;
+    return command;
+  }
+
+  private startBatch(command: number, style: number, color: number, width: number): void {
+    const batch = this.batchCount++;
+    this.batchFirst[batch] = command;
+    this.batchLast[batch] = command;
+    this.batchStyles[batch] = style;
+    this.batchColors[batch] = color;
+    this.batchWidths[batch] = width;
+
+    const a = batch * 4;
+    const b = command * 4;
+    this.batchBounds[a] = this.bounds[b];
+    this.batchBounds[a + 1] = this.bounds[b + 1];
+    this.batchBounds[a + 2] = this.bounds[b + 2];
+    this.batchBounds[a + 3] = this.bounds[b + 3];
+  }
+
+  private append(batch: number, command: number): void {
+    this.next[this.batchLast[batch]] = command;
+    this.batchLast[batch] = command;
+
+    const a = batch * 4;
+    const b = command * 4;
+    const bounds = this.batchBounds;
+    bounds[a] = Math.min(bounds[a], this.bounds[b]);
+    bounds[a + 1] = Math.min(bounds[a + 1], this.bounds[b + 1]);
+    bounds[a + 2] = Math.max(bounds[a + 2], this.bounds[b + 2]);
+    bounds[a + 3] = Math.max(bounds[a + 3], this.bounds[b + 3]);
+  }
+}
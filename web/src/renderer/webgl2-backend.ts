@@ -0,0 +1,457 @@
+// WebGL2 rendering backend drawing every shape as an instanced quad
+//
+// Shapes are collected into an instance buffer and drawn with a single call per
+// flush; the fragment shader cuts circles, lines and triangles out of each quad.
+// The static layer is uploaded once to its own instance buffer. Text has no GPU
+// path, so it is drawn to a 2D overlay canvas that is composited on top of the frame.
+
+import { OUTLINE_WIDTH } from './render-backend';
+import type { RenderBackend } from './render-backend';
+
+// Shape kinds, must match the constants in the shaders
+const KIND_RECT = 0;
+const KIND_CIRCLE_FILL = 1;
+const KIND_CIRCLE_STROKE = 2;
+const KIND_LINE = 3;
+const KIND_TRIANGLE_FILL = 4;
+const KIND_TRIANGLE_STROKE = 5;
+
+// Floats per instance: kind, p0 (vec4), p1 (vec4), color (vec4)
+const INSTANCE_FLOATS = 13;
+const INSTANCE_BYTES = INSTANCE_FLOATS * 4;
+
+const SHAPE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in float a_kind;
+layout(location = 2) in vec4 a_p0;
+layout(location = 3) in vec4 a_p1;
+layout(location = 4) in vec4 a_color;
+
+uniform vec2 u_resolution;
+
+flat out int v_kind;
+flat out vec4 v_p0;
+flat out vec4 v_p1;
+flat out vec4 v_color;
+out vec2 v_pos;
+
+void main() {
+  int kind = int(a_kind + 0.5);
+  vec2 pos;
+
+  if (kind == ${KIND_RECT}) {
+    pos = a_p0.xy + a_corner * a_p0.zw;
+  } else if (kind == ${KIND_CIRCLE_FILL} || kind == ${KIND_CIRCLE_STROKE}) {
+    float extent = a_p0.z + a_p0.w * 0.5 + 1.0;
+    pos = a_p0.xy - extent + a_corner * extent * 2.0;
+  } else if (kind == ${KIND_LINE}) {
+    vec2 dir = a_p0.zw - a_p0.xy;
+    float len = length(dir);
+    dir = len > 0.0 ? dir / len : vec2(1.0, 0.0);
+    vec2 normal = vec2(-dir.y, dir.x);
+    pos = a_p0.xy + dir * (a_corner.x * len) + normal * ((a_corner.y - 0.5) * a_p1.x);
+  } else {
+    float pad = a_p1.z + 1.0;
+    vec2 lo = min(min(a_p0.xy, a_p0.zw), a_p1.xy) - pad;
+    vec2 hi = max(max(a_p0.xy, a_p0.zw), a_p1.xy) + pad;
+    pos = mix(lo, hi, a_corner);
+  }
+
+  v_kind = kind;
+  v_p0 = a_p0;
+  v_p1 = a_p1;
+  v_color = a_color;
+  v_pos = pos;
+
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+const SHAPE_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+flat in int v_kind;
+flat in vec4 v_p0;
+flat in vec4 v_p1;
+flat in vec4 v_color;
+in vec2 v_pos;
+
+out vec4 outColor;
+
+float segmentDistance(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / max(dot(ba, ba), 0.0001), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+float edge(vec2 p, vec2 a, vec2 b) {
+  return (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+}
+
+void main() {
+  float coverage = 1.0;
+
+  if (v_kind == ${KIND_CIRCLE_FILL}) {
+    coverage = clamp(v_p0.z - length(v_pos - v_p0.xy) + 0.5, 0.0, 1.0);
+  } else if (v_kind == ${KIND_CIRCLE_STROKE}) {
+    float d = abs(length(v_pos - v_p0.xy) - v_p0.z);
+    coverage = clamp(v_p0.w * 0.5 - d + 0.5, 0.0, 1.0);
+  } else if (v_kind == ${KIND_TRIANGLE_FILL}) {
+    vec2 a = v_p0.xy;
+    vec2 b = v_p0.zw;
+    vec2 c = v_p1.xy;
+    float e0 = edge(v_pos, a, b);
+    float e1 = edge(v_pos, b, c);
+    float e2 = edge(v_pos, c, a);
+    bool inside = (e0 >= 0.0 && e1 >= 0.0 && e2 >= 0.0) || (e0 <= 0.0 && e1 <= 0.0 && e2 <= 0.0);
+    coverage = inside ? 1.0 : 0.0;
+  } else if (v_kind == ${KIND_TRIANGLE_STROKE}) {
+    float d = min(min(segmentDistance(v_pos, v_p0.xy, v_p0.zw), segmentDistance(v_pos, v_p0.zw, v_p1.xy)), segmentDistance(v_pos, v_p1.xy, v_p0.xy));
+    coverage = clamp(v_p1.z * 0.5 - d + 0.5, 0.0, 1.0);
+  }
+
+  if (coverage <= 0.0) discard;
+
+  float alpha = v_color.a * coverage;
+  outColor = vec4(v_color.rgb * alpha, alpha);
+}
+`;
+
+const OVERLAY_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+out vec2 v_uv;
+
+void main() {
+  v_uv = a_corner;
+  gl_Position = vec4(a_corner.x * 2.0 - 1.0, 1.0 - a_corner.y * 2.0, 0.0, 1.0);
+}
+`;
+
+const OVERLAY_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+in vec2 v_uv;
+uniform sampler2D u_texture;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_uv);
+}
+`;
+
+/**
+ * Growable CPU-side instance array
+ */
+class InstanceList {
+  data: Float32Array = new Float32Array(INSTANCE_FLOATS * 256);
+  count: number = 0;
+
+  push(kind: number, p0x: number, p0y: number, p0z: number, p0w: number, p1x: number, p1y: number, p1z: number, color: number, alpha: number): void {
+    if ((this.count + 1) * INSTANCE_FLOATS > this.data.length) {
+      const grown = new Float32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+
+    const d = this.data;
+    let o = this.count * INSTANCE_FLOATS;
+    d[o++] = kind;
+    d[o++] = p0x;
+    d[o++] = p0y;
+    d[o++] = p0z;
+    d[o++] = p0w;
+    d[o++] = p1x;
+    d[o++] = p1y;
+    d[o++] = p1z;
+    d[o++] = 0;
+    d[o++] = ((color >> 16) & 0xff) / 255;
+    d[o++] = ((color >> 8) & 0xff) / 255;
+    d[o++] = (color & 0xff) / 255;
+    d[o] = alpha;
+    this.count++;
+  }
+
+  view(): Float32Array {
+    return this.data.subarray(0, this.count * INSTANCE_FLOATS);
+  }
+}
+
+export class WebGL2Backend implements RenderBackend {
+  readonly type = 'webgl2' as const;
+  readonly width: number;
+  readonly height: number;
+
+  private gl: WebGL2RenderingContext;
+  private shapeProgram: WebGLProgram;
+  private overlayProgram: WebGLProgram;
+  private resolutionLocation: WebGLUniformLocation | null;
+  private cornerBuffer: WebGLBuffer;
+  private dynamicBuffer: WebGLBuffer;
+  private staticBuffer: WebGLBuffer;
+  private dynamicVao: WebGLVertexArrayObject;
+  private staticVao: WebGLVertexArrayObject;
+  private overlayVao: WebGLVertexArrayObject;
+  private overlayTexture: WebGLTexture;
+
+  private dynamicInstances: InstanceList = new InstanceList();
+  private staticInstances: InstanceList = new InstanceList();
+  private instances: InstanceList = this.dynamicInstances; // List currently drawn into
+  private staticCount: number = 0;
+
+  private overlayCanvas: HTMLCanvasElement | OffscreenCanvas;
+  private overlayCtx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  private overlayDirty: boolean = false;
+
+  constructor(gl: WebGL2RenderingContext, width: number, height: number) {
+    this.gl = gl;
+    this.width = width;
+    this.height = height;
+
+    this.shapeProgram = this.createProgram(SHAPE_VERTEX_SHADER, SHAPE_FRAGMENT_SHADER);
+    this.overlayProgram = this.createProgram(OVERLAY_VERTEX_SHADER, OVERLAY_FRAGMENT_SHADER);
+    this.resolutionLocation = gl.getUniformLocation(this.shapeProgram, 'u_resolution');
+
+    this.cornerBuffer = this.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+
+    this.dynamicBuffer = this.createBuffer();
+    this.staticBuffer = this.createBuffer();
+    this.dynamicVao = this.createShapeVao(this.dynamicBuffer);
+    this.staticVao = this.createShapeVao(this.staticBuffer);
+    this.overlayVao = this.createOverlayVao();
+
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('Failed to create WebGL texture');
+    this.overlayTexture = texture;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.overlayCanvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : document.createElement('canvas');
+    this.overlayCanvas.width = width;
+    this.overlayCanvas.height = height;
+    const overlayCtx = this.overlayCanvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!overlayCtx) throw new Error('Failed to create text overlay context');
+    this.overlayCtx = overlayCtx;
+
+    // Shaders output premultiplied alpha
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.viewport(0, 0, width, height);
+  }
+
+  beginFrame(): void {
+    this.instances = this.dynamicInstances;
+    this.instances.count = 0;
+    if (this.overlayDirty) {
+      this.overlayCtx.clearRect(0, 0, this.width, this.height);
+      this.overlayDirty = false;
+    }
+  }
+
+  endFrame(): void {
+    this.flush();
+    this.drawOverlay();
+  }
+
+  clear(): void {
+    this.instances.count = 0;
+    this.gl.clearColor(0, 0, 0, 0);
+    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: number): void {
+    this.instances.push(KIND_RECT, x, y, width, height, 0, 0, 0, color, 1);
+  }
+
+  circle(x: number, y: number, radius: number, color: number, fill: boolean): void {
+    this.instances.push(fill ? KIND_CIRCLE_FILL : KIND_CIRCLE_STROKE, x, y, radius, fill ? 0 : OUTLINE_WIDTH, 0, 0, 0, color, 1);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, thickness: number, color: number): void {
+    this.instances.push(KIND_LINE, x1, y1, x2, y2, thickness, 0, 0, color, 1);
+  }
+
+  triangle(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, color: number, fill: boolean): void {
+    this.instances.push(fill ? KIND_TRIANGLE_FILL : KIND_TRIANGLE_STROKE, x1, y1, x2, y2, x3, y3, fill ? 0 : OUTLINE_WIDTH, color, 1);
+  }
+
+  text(x: number, y: number, text: string, size: number, color: number): void {
+    this.overlayCtx.font = `${size}px sans-serif`;
+    this.overlayCtx.fillStyle = `rgb(${(color >> 16) & 0xff}, ${(color >> 8) & 0xff}, ${color & 0xff})`;
+    this.overlayCtx.fillText(text, x, y);
+    this.overlayDirty = true;
+  }
+
+  preview(x: number, y: number, canPlace: boolean, range: number): void {
+    const indicator = canPlace ? 0x00ffee : 0xff0000;
+    this.instances.push(KIND_CIRCLE_STROKE, x, y, 20, 2, 0, 0, 0, indicator, 0.5);
+
+    if (canPlace && range > 0) {
+      this.instances.push(KIND_CIRCLE_STROKE, x, y, range, 1, 0, 0, 0, 0x00ffee, 0.2);
+    }
+
+    if (!canPlace) {
+      this.instances.push(KIND_LINE, x - 15, y - 15, x + 15, y + 15, 2, 0, 0, 0xff0000, 0.5);
+      this.instances.push(KIND_LINE, x + 15, y - 15, x - 15, y + 15, 2, 0, 0, 0xff0000, 0.5);
+    }
+
+    // The preview is drawn after the frame has ended
+    this.flush();
+  }
+
+  highlight(x: number, y: number, range: number): void {
+    const corners = [[x - 20, y - 20], [x + 20, y - 20], [x + 20, y + 20], [x - 20, y + 20]];
+    corners.forEach(([x1, y1], i) => {
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      this.instances.push(KIND_LINE, x1, y1, x2, y2, 2, 0, 0, 0xffffff, 0.8);
+    });
+    this.instances.push(KIND_CIRCLE_FILL, x, y, range, 0, 0, 0, 0, 0xffffff, 0.05);
+    this.instances.push(KIND_CIRCLE_STROKE, x, y, range, 1, 0, 0, 0, 0xffffff, 0.4);
+
+    // Like the preview, the highlight is drawn after the frame has ended
+    this.flush();
+  }
+
+  beginStaticLayer(): void {
+    this.flush();
+    this.instances = this.staticInstances;
+    this.instances.count = 0;
+  }
+
+  endStaticLayer(): void {
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.staticBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.staticInstances.view(), gl.STATIC_DRAW);
+    this.staticCount = this.staticInstances.count;
+    this.instances = this.dynamicInstances;
+  }
+
+  drawStaticLayer(): void {
+    this.flush();
+    this.drawInstances(this.staticVao, this.staticCount);
+  }
+
+  /**
+   * Upload and draw the pending dynamic instances
+   */
+  private flush(): void {
+    if (this.instances !== this.dynamicInstances || this.dynamicInstances.count === 0) return;
+
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.dynamicBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.dynamicInstances.view(), gl.STREAM_DRAW);
+    this.drawInstances(this.dynamicVao, this.dynamicInstances.count);
+    this.dynamicInstances.count = 0;
+  }
+
+  private drawInstances(vao: WebGLVertexArrayObject, count: number): void {
+    if (count === 0) return;
+
+    const gl = this.gl;
+    gl.useProgram(this.shapeProgram);
+    gl.uniform2f(this.resolutionLocation, this.width, this.height);
+    gl.bindVertexArray(vao);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * Composite the text overlay on top of the frame
+   */
+  private drawOverlay(): void {
+    if (!this.overlayDirty) return;
+
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.overlayTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.overlayCanvas);
+    gl.useProgram(this.overlayProgram);
+    gl.bindVertexArray(this.overlayVao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+  }
+
+  private createShapeVao(instanceBuffer: WebGLBuffer): WebGLVertexArrayObject {
+    const gl = this.gl;
+    const vao = gl.createVertexArray();
+    if (!vao) throw new Error('Failed to create WebGL vertex array');
+
+    gl.bindVertexArray(vao);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    const attributes: [number, number, number][] = [
+      [1, 1, 0], // kind
+      [2, 4, 1], // p0
+      [3, 4, 5], // p1
+      [4, 4, 9] // color
+    ];
+    for (const [location, size, offset] of attributes) {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, INSTANCE_BYTES, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+    }
+
+    gl.bindVertexArray(null);
+    return vao;
+  }
+
+  private createOverlayVao(): WebGLVertexArrayObject {
+    const gl = this.gl;
+    const vao = gl.createVertexArray();
+    if (!vao) throw new Error('Failed to create WebGL vertex array');
+
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.bindVertexArray(null);
+    return vao;
+  }
+
+  private createBuffer(): WebGLBuffer {
+    const buffer = this.gl.createBuffer();
+    if (!buffer) throw new Error('Failed to create WebGL buffer');
+    return buffer;
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+    const gl = this.gl;
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create WebGL program');
+
+    gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertexSource));
+    gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.linkProgram(program);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  private compileShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create WebGL shader');
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Failed to compile WebGL shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  }
+}
@@ -0,0 +1,50 @@
+// Mixer controls: a volume slider per audio bus and the mute toggle
+import { AUDIO_BUSES } from '../audio/audio-engine';
+import type { AudioBus } from '../audio/audio-engine';
+import type { AudioManager } from '../audio/audio-manager';
+
+export class AudioMixer {
+  private audio: AudioManager;
+  private sliders = new Map<AudioBus, HTMLInputElement>();
+  private muteButton: HTMLButtonElement | null = null;
+
+  constructor(audio: AudioManager) {
+    this.audio = audio;
+  }
+
+  /**
+   * Find the sliders and mute button, and show the saved settings
+   */
+  initialize(): void {
+    for (const bus of AUDIO_BUSES) {
+      const slider = document.querySelector<HTMLInputElement>(`#audio-mixer input[data-bus="${bus}"]`);
+      if (!slider) continue;
+
+      slider.addEventListener('input', () => this.audio.setVolume(bus, Number(slider.value)));
+      this.sliders.set(bus, slider);
+    }
+
+    this.muteButton = document.getElementById('mute-button') as HTMLButtonElement | null;
+    this.muteButton?.addEventListener('click', () => this.toggleMute());
+
+    this.render();
+  }
+
+  /**
+   * Mute or unmute all audio, for the button and the M key
+   */
+  toggleMute(): void {
+    this.audio.toggleMute();
+    this.render();
+  }
+
+  private render(): void {
+    const mixer = this.audio.getMixer();
+    this.sliders.forEach((slider, bus) => { slider.value = String(mixer[bus]); });
+
+    if (this.muteButton) {
+      this.muteButton.textContent = mixer.muted ? 'Unmute' : 'Mute';
+      this.muteButton.classList.toggle('active', mixer.muted);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+// Bestiary panel listing the enemy archetypes met so far with their stats and traits
+import { ENEMY_KINDS, ENEMY_KIND_LABELS, describeTraits } from '../game/enemy-types';
+import type { EnemyArchetype, EnemyTypes } from '../game/enemy-types';
+import type { Bestiary, BestiaryEntry } from '../game/bestiary';
+
+const ICON_SIZE = 36;
+
+export class BestiaryPanel {
+  private bestiary: Bestiary;
+  private enemyTypes: EnemyTypes;
+  private list: HTMLElement | null = null;
+  private count: HTMLElement | null = null;
+
+  /**
+   * @param bestiary Archetypes the player has met
+   * @param enemyTypes Archetype stats exported by the WASM module
+   */
+  constructor(bestiary: Bestiary, enemyTypes: EnemyTypes) {
+    this.bestiary = bestiary;
+    this.enemyTypes = enemyTypes;
+  }
+
+  /**
+   * Find the panel elements
+   */
+  initialize(): void {
+    this.list = document.getElementById('bestiary-list');
+    this.count = document.getElementById('bestiary-count');
+    this.render();
+  }
+
+  /**
+   * Rebuild the list, called when an archetype is met or the archetypes are loaded
+   */
+  render(): void {
+    const entries = this.bestiary.getEntries();
+    if (this.count) {
+      this.count.textContent = `${entries.length} of ${ENEMY_KINDS.length} enemy types met`;
+    }
+    if (!this.list) return;
+
+    this.list.innerHTML = '';
+    for (const entry of entries) {
+      this.list.appendChild(this.renderEntry(entry, this.enemyTypes.get(entry.kind)));
+    }
+  }
+
+  private renderEntry(entry: BestiaryEntry, archetype: EnemyArchetype | undefined): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'bestiary-entry';
+    if (archetype) card.appendChild(drawIcon(archetype));
+
+    const details = document.createElement('div');
+    const name = document.createElement('strong');
+    name.textContent = ENEMY_KIND_LABELS[entry.kind];
+    details.appendChild(name);
+
+    const stats = document.createElement('div');
+    stats.className = 'bestiary-stats';
+    stats.textContent = `Up to ${Math.round(entry.maxHealth)} HP, speed ${Math.round(entry.maxSpeed)}`;
+    details.appendChild(stats);
+
+    const traits = archetype ? describeTraits(archetype) : [];
+    const traitList = document.createElement('div');
+    traitList.className = 'bestiary-traits';
+    traitList.textContent = traits.length > 0 ? traits.join(' · ') : 'No special traits';
+    details.appendChild(traitList);
+
+    card.appendChild(details);
+    return card;
+  }
+}
+
+/**
+ * Draw an archetype the way the game does, scaled to fit the icon
+ */
+function drawIcon(archetype: EnemyArchetype): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = ICON_SIZE;
+  canvas.height = ICON_SIZE;
+  canvas.className = 'bestiary-icon';
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const c = ICON_SIZE / 2;
+  const r = ICON_SIZE * 0.4;
+  const color = `#${archetype.color.toString(16).padStart(6, '0')}`;
+  ctx.fillStyle = color;
+
+  const polygon = (points: [number, number][]): void => {
+    ctx.beginPath();
+    points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(c + x * r, c + y * r) : ctx.lineTo(c + x * r, c + y * r)));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  switch (archetype.shape) {
+    case 'circle':
+    case 'ring':
+      ctx.beginPath();
+      ctx.arc(c, c, r, 0, Math.PI * 2);
+      ctx.fill();
+      if (archetype.shape === 'ring') {
+        ctx.fillStyle = '#000';
+        ctx.beginPath();
+        ctx.arc(c, c, r * 0.45, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+    case 'diamond':
+      polygon([[0, -1], [1, 0], [0, 1], [-1, 0]]);
+      break;
+    case 'square':
+      ctx.fillRect(c - r * 0.85, c - r * 0.85, r * 1.7, r * 1.7);
+      ctx.strokeStyle = '#fff';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(c - r * 0.85, c - r * 0.85, r * 1.7, r * 1.7);
+      break;
+    case 'star':
+      polygon([[0, -1], [-0.866, 0.5], [0.866, 0.5]]);
+      polygon([[0, 1], [-0.866, -0.5], [0.866, -0.5]]);
+      break;
+    case 'hexagon':
+      polygon([[1, 0], [0.5, 0.866], [-0.5, 0.866], [-1, 0], [-0.5, -0.866], [0.5, -0.866]]);
+      break;
+    case 'triangle':
+      polygon([[0, -1], [-1, 0.8], [1, 0.8]]);
+      break;
+    case 'cross':
+      ctx.fillRect(c - r, c - r / 3, r * 2, r * 2 / 3);
+      ctx.fillRect(c - r / 3, c - r, r * 2 / 3, r * 2);
+      break;
+  }
+
+  return canvas;
+}
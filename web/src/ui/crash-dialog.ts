@@ -0,0 +1,76 @@
+// Dialog shown when the game crashes, with the crash report to copy and a button to restart the game
+export class CrashDialog {
+  private onRestart: () => void;
+  private dialog: HTMLElement | null = null;
+  private summary: HTMLElement | null = null;
+  private report: HTMLElement | null = null;
+  private copyButton: HTMLButtonElement | null = null;
+  private restartButton: HTMLButtonElement | null = null;
+
+  /**
+   * @param onRestart Called when the player asks for a restart, the dialog stays open until hide()
+   */
+  constructor(onRestart: () => void) {
+    this.onRestart = onRestart;
+  }
+
+  /**
+   * Find the dialog elements
+   */
+  initialize(): void {
+    this.dialog = document.getElementById('crash-dialog');
+    this.summary = document.getElementById('crash-summary');
+    this.report = document.getElementById('crash-report');
+    this.copyButton = document.getElementById('crash-copy') as HTMLButtonElement | null;
+    this.restartButton = document.getElementById('crash-restart') as HTMLButtonElement | null;
+
+    this.copyButton?.addEventListener('click', () => this.copy());
+    this.restartButton?.addEventListener('click', () => {
+      if (this.restartButton) this.restartButton.disabled = true;
+      this.onRestart();
+    });
+  }
+
+  /**
+   * Show the dialog
+   * @param summary One line saying what went wrong
+   * @param report Full crash report text
+   */
+  show(summary: string, report: string): void {
+    if (this.summary) this.summary.textContent = summary;
+    if (this.report) this.report.textContent = report;
+    if (this.copyButton) this.copyButton.textContent = 'Copy report';
+    if (this.restartButton) this.restartButton.disabled = false;
+    this.dialog?.classList.add('visible');
+  }
+
+  /**
+   * Hide the dialog, once the game has restarted
+   */
+  hide(): void {
+    this.dialog?.classList.remove('visible');
+  }
+
+  /**
+   * Let the restart button be tried again after a failed restart
+   */
+  enableRestart(): void {
+    if (this.restartButton) this.restartButton.disabled = false;
+  }
+
+  private copy(): void {
+    const text = this.report?.textContent ?? '';
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        if (this.copyButton) this.copyButton.textContent = 'Copied';
+      })
+      .catch(() => {
+        // Without clipboard access, select the report so it can be copied by hand
+        if (!this.report) return;
+        const range = document.createRange();
+        range.selectNodeContents(this.report);
+        window.getSelection()?.removeAllRanges();
+        window.getSelection()?.addRange(range);
+      });
+  }
+}
@@ -0,0 +1,142 @@
+// Developer console: a command line over the playfield, opened with the backtick key, printing to the log
+import { completeDevCommand } from '../game/dev-commands';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+}
+
+// Lines kept for browsing with the arrow keys
+const MAX_HISTORY = 50;
+
+export class DevConsole {
+  private onCommand: (line: string) => void;
+  private logger: Logger;
+  private panel: HTMLElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private history: string[] = [];
+  private historyIndex: number = 0; // history.length while a new line is being typed
+  private draft: string = ''; // New line put aside while browsing the history
+
+  /**
+   * @param onCommand Called with each line entered, after it is echoed to the log
+   */
+  constructor(onCommand: (line: string) => void, logger: Logger) {
+    this.onCommand = onCommand;
+    this.logger = logger;
+  }
+
+  /**
+   * Find the console elements
+   */
+  initialize(): void {
+    this.panel = document.getElementById('dev-console');
+    this.input = document.getElementById('dev-console-input') as HTMLInputElement | null;
+    this.input?.addEventListener('keydown', event => this.handleKeyDown(event));
+  }
+
+  isOpen(): boolean {
+    return this.panel?.classList.contains('visible') ?? false;
+  }
+
+  /**
+   * Open or close the console, for the backtick key
+   */
+  toggle(): void {
+    if (this.isOpen()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open(): void {
+    this.panel?.classList.add('visible');
+    this.input?.focus();
+  }
+
+  close(): void {
+    this.panel?.classList.remove('visible');
+    this.input?.blur();
+  }
+
+  // Keys typed into the console never reach the game's hotkeys
+  private handleKeyDown(event: KeyboardEvent): void {
+    event.stopPropagation();
+
+    switch (event.key) {
+      case '`':
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+      case 'Enter':
+        event.preventDefault();
+        this.submit();
+        break;
+      case 'Tab':
+        event.preventDefault();
+        this.complete();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.browseHistory(-1);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.browseHistory(1);
+        break;
+    }
+  }
+
+  private submit(): void {
+    if (!this.input) return;
+
+    const line = this.input.value.trim();
+    this.input.value = '';
+    this.draft = '';
+    if (!line) return;
+
+    // Repeating the last line doesn't add it to the history again
+    if (this.history[this.history.length - 1] !== line) {
+      this.history.push(line);
+      if (this.history.length > MAX_HISTORY) this.history.shift();
+    }
+    this.historyIndex = this.history.length;
+
+    this.logger.log(`> ${line}`);
+    this.onCommand(line);
+  }
+
+  // Step back (-1) or forward (1) through the lines entered before, past the newest is the line being typed
+  private browseHistory(direction: -1 | 1): void {
+    if (!this.input) return;
+
+    const index = this.historyIndex + direction;
+    if (index < 0 || index > this.history.length) return;
+
+    if (this.historyIndex === this.history.length) this.draft = this.input.value;
+    this.historyIndex = index;
+    this.input.value = index === this.history.length ? this.draft : this.history[index];
+  }
+
+  // Complete the last word, or as much of it as all the matches share, listing them in the log
+  private complete(): void {
+    if (!this.input) return;
+
+    const matches = completeDevCommand(this.input.value);
+    if (matches.length === 0) return;
+
+    if (matches.length === 1) {
+      this.input.value = `${matches[0]} `;
+      return;
+    }
+
+    this.input.value = matches.reduce((shared, match) => {
+      let length = 0;
+      while (length < shared.length && shared[length] === match[length]) length++;
+      return shared.slice(0, length);
+    });
+    this.logger.log(matches.map(match => match.slice(match.lastIndexOf(' ') + 1)).join('  '));
+  }
+}
@@ -0,0 +1,100 @@
+// Level select panel listing the campaign levels with their star ratings, locked until the one before is won
+import { MAX_STARS } from '../game/campaign-progress';
+import type { CampaignProgress } from '../game/campaign-progress';
+import type { CampaignLevel } from '../game/campaign-file';
+
+export class LevelSelect {
+  private progress: CampaignProgress;
+  private onStart: (index: number | null) => void;
+  private levels: ReadonlyArray<CampaignLevel> = [];
+  private current: number | null = null;
+  private list: HTMLElement | null = null;
+  private summary: HTMLElement | null = null;
+
+  /**
+   * @param progress Ratings won so far
+   * @param onStart Called with the index of the level to play, or null for endless play
+   */
+  constructor(progress: CampaignProgress, onStart: (index: number | null) => void) {
+    this.progress = progress;
+    this.onStart = onStart;
+  }
+
+  /**
+   * Find the panel elements
+   */
+  initialize(): void {
+    this.list = document.getElementById('level-list');
+    this.summary = document.getElementById('campaign-summary');
+    document.getElementById('endless-button')?.addEventListener('click', () => this.onStart(null));
+    this.render();
+  }
+
+  /**
+   * Show the levels of a campaign, in play order
+   */
+  setLevels(levels: ReadonlyArray<CampaignLevel>): void {
+    this.levels = levels;
+    this.render();
+  }
+
+  /**
+   * Highlight the level being played, null for endless play
+   */
+  setCurrent(index: number | null): void {
+    this.current = index;
+    this.render();
+  }
+
+  /**
+   * Rebuild the list, called when the campaign is loaded or a level is won
+   */
+  render(): void {
+    const names = this.levels.map(level => level.name);
+    if (this.summary) {
+      const stars = names.reduce((total, name) => total + this.progress.getStars(name), 0);
+      this.summary.textContent = this.levels.length > 0
+        ? `${stars} of ${this.levels.length * MAX_STARS} stars won`
+        : 'No campaign loaded';
+    }
+    if (!this.list) return;
+
+    this.list.innerHTML = '';
+    this.levels.forEach((level, index) => {
+      this.list?.appendChild(this.renderLevel(level, index, this.progress.isUnlocked(names, index)));
+    });
+  }
+
+  private renderLevel(level: CampaignLevel, index: number, unlocked: boolean): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'level-entry';
+    card.classList.toggle('locked', !unlocked);
+    card.classList.toggle('current', index === this.current);
+
+    const details = document.createElement('div');
+    const name = document.createElement('strong');
+    name.textContent = `${index + 1}. ${level.name}`;
+    details.appendChild(name);
+
+    const stars = this.progress.getStars(level.name);
+    const rating = document.createElement('div');
+    rating.className = 'level-stars';
+    rating.textContent = '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+    details.appendChild(rating);
+
+    const description = document.createElement('div');
+    description.className = 'level-description';
+    description.textContent = `${level.description ? `${level.description} ` : ''}` +
+      `${level.waves.length} waves, $${level.money}, ${level.lives} lives`;
+    details.appendChild(description);
+    card.appendChild(details);
+
+    const play = document.createElement('button');
+    play.textContent = unlocked ? 'Play' : 'Locked';
+    play.disabled = !unlocked;
+    play.addEventListener('click', () => this.onStart(index));
+    card.appendChild(play);
+
+    return card;
+  }
+}
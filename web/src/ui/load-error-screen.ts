@@ -0,0 +1,59 @@
+// Full-screen message shown when the game module can't be loaded, explaining what went wrong and what to try
+import type { WasmLoadError, WasmLoadErrorKind } from '../wasm/wasm-fetch';
+
+interface ErrorCopy {
+  title: string;
+  advice: string;
+}
+
+const ERROR_COPY: Record<WasmLoadErrorKind, ErrorCopy> = {
+  missing: {
+    title: 'Game files not found',
+    advice: 'The server has no game module at this address. If you are running the game yourself, build it with `zig build deploy` or check the ?wasm= URL.'
+  },
+  mime: {
+    title: 'Game files could not be read',
+    advice: 'The server answered with something other than the game module, often an error page. Check that it serves .wasm files as application/wasm.'
+  },
+  network: {
+    title: 'Download failed',
+    advice: 'The game module could not be downloaded. Check your connection and try again.'
+  },
+  compile: {
+    title: 'Game could not be started',
+    advice: 'Your browser could not compile the game module. The download may be damaged, or the browser may not support WebAssembly.'
+  },
+  abi: {
+    title: 'Game files are out of date',
+    advice: 'The game module and the page come from different builds. Reload to fetch matching files, or rebuild both with `zig build`.'
+  }
+};
+
+export class LoadErrorScreen {
+  private screen: HTMLElement | null = null;
+  private title: HTMLElement | null = null;
+  private advice: HTMLElement | null = null;
+  private details: HTMLElement | null = null;
+
+  /**
+   * Find the screen elements
+   */
+  initialize(): void {
+    this.screen = document.getElementById('load-error');
+    this.title = document.getElementById('load-error-title');
+    this.advice = document.getElementById('load-error-advice');
+    this.details = document.getElementById('load-error-details');
+    document.getElementById('load-error-retry')?.addEventListener('click', () => window.location.reload());
+  }
+
+  /**
+   * Show the screen for a load failure
+   */
+  show(error: WasmLoadError): void {
+    const copy = ERROR_COPY[error.kind];
+    if (this.title) this.title.textContent = copy.title;
+    if (this.advice) this.advice.textContent = copy.advice;
+    if (this.details) this.details.textContent = error.message;
+    this.screen?.classList.add('visible');
+  }
+}
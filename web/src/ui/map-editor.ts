@@ -0,0 +1,359 @@
+// Map editor panel and canvas mode for laying out the path and blocked cells
+import { BRANCH_MODES, MAX_BRANCH_WEIGHT, MAX_PATH_BRANCHES, MAX_PATH_POINTS, isSpawnPoint } from '../game/game-map';
+import type { GameMap, GridPoint, MapLayout } from '../game/game-map';
+import { checkMapLayout, parseMapFile, serializeMapFile } from '../game/map-file';
+import type { GridPointer, MapEditInput } from '../renderer/canvas-manager';
+import type { MapEditTool, MapOverlay } from '../renderer/map-overlay';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+export class MapEditor implements MapEditInput {
+  private map: GameMap;
+  private logger: Logger;
+  private onEditingChange: (editing: boolean) => void;
+  private layout: MapLayout = emptyLayout();
+  private tool: MapEditTool = 'path';
+  private hover: GridPoint | null = null;
+  private selected: number | null = null; // Waypoint new waypoints and links branch from
+  private dragging: number | null = null; // Index of the waypoint being dragged
+  private moved = false; // Whether the waypoint being dragged has left where it was pressed
+  private wasSelected = false; // Whether the waypoint being dragged was already selected, a click then deselects it
+  private painting: boolean | null = null; // Whether cells dragged over are being blocked or cleared
+  private editing = false;
+  private editButton: HTMLButtonElement | null = null;
+  private applyButton: HTMLButtonElement | null = null;
+  private status: HTMLElement | null = null;
+  private branching: HTMLSelectElement | null = null;
+  private branchList: HTMLElement | null = null;
+
+  /**
+   * @param map Map the editor reads from and applies to
+   * @param onEditingChange Called when map editor mode is entered or left
+   */
+  constructor(map: GameMap, onEditingChange: (editing: boolean) => void, logger?: Logger) {
+    this.map = map;
+    this.onEditingChange = onEditingChange;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Wire up the editor controls
+   */
+  initialize(): void {
+    this.editButton = document.getElementById('map-edit-button') as HTMLButtonElement | null;
+    this.applyButton = document.getElementById('map-apply-button') as HTMLButtonElement | null;
+    this.status = document.getElementById('map-editor-status');
+    this.branching = document.getElementById('map-branching') as HTMLSelectElement | null;
+    this.branchList = document.getElementById('map-branch-list');
+
+    this.editButton?.addEventListener('click', () => this.setEditing(!this.editing));
+    this.applyButton?.addEventListener('click', () => this.apply());
+    document.getElementById('map-clear-button')?.addEventListener('click', () => this.load(emptyLayout()));
+    document.getElementById('map-revert-button')?.addEventListener('click', () => this.load(this.map.getLayout()));
+    document.getElementById('map-export-button')?.addEventListener('click', () => this.exportFile());
+
+    document.querySelectorAll<HTMLInputElement>('input[name="map-tool"]').forEach(input => {
+      input.addEventListener('change', () => {
+        if (input.checked) this.tool = input.value === 'terrain' ? 'terrain' : 'path';
+        this.hover = null;
+      });
+    });
+
+    this.branching?.addEventListener('change', () => {
+      this.layout.branching = BRANCH_MODES.find(mode => mode === this.branching?.value) ?? this.layout.branching;
+    });
+
+    const fileInput = document.getElementById('map-file-input') as HTMLInputElement | null;
+    if (fileInput) {
+      document.getElementById('map-import-button')?.addEventListener('click', () => fileInput.click());
+      fileInput.addEventListener('change', () => {
+        const file = fileInput.files?.[0];
+        if (file) this.importFile(file);
+        fileInput.value = '';
+      });
+    }
+  }
+
+  /**
+   * Show a map in the editor, edits are kept on a copy until applied
+   */
+  load(layout: MapLayout): void {
+    this.layout = {
+      waypoints: layout.waypoints.map(point => ({ ...point })),
+      branches: layout.branches.map(branch => ({ ...branch })),
+      branching: layout.branching,
+      blocked: layout.blocked.map(cell => ({ ...cell }))
+    };
+    if (this.branching) this.branching.value = layout.branching;
+    this.selected = null;
+    this.dragging = null;
+    this.painting = null;
+    this.refresh();
+  }
+
+  /**
+   * Enter or leave map editor mode, the canvas shows the map being edited while in it
+   */
+  setEditing(editing: boolean): void {
+    if (editing === this.editing) return;
+
+    this.editing = editing;
+    this.hover = null;
+    if (this.editButton) this.editButton.textContent = editing ? 'Done' : 'Edit Map';
+    this.onEditingChange(editing);
+  }
+
+  press(pointer: GridPointer, erase: boolean, link: boolean): void {
+    if (this.tool === 'terrain') {
+      const blocked = this.findCell(pointer.cell) >= 0;
+      this.painting = erase ? false : !blocked;
+      this.paint(pointer.cell);
+      return;
+    }
+
+    const index = this.findWaypoint(pointer.corner);
+    if (link && this.selected !== null && index >= 0 && index !== this.selected) {
+      if (erase) this.unlink(this.selected, index);
+      else this.link(this.selected, index);
+      return;
+    }
+
+    if (erase) {
+      if (index >= 0) this.removeWaypoint(index);
+      return;
+    }
+
+    if (index >= 0) {
+      this.wasSelected = this.selected === index;
+      this.select(index);
+    } else if (this.layout.waypoints.length < MAX_PATH_POINTS) {
+      // New waypoints branch from the selected one, or start a new spawn point if none is selected
+      this.layout.waypoints.push({ ...pointer.corner });
+      const added = this.layout.waypoints.length - 1;
+      if (this.selected !== null) this.link(this.selected, added);
+      this.wasSelected = false;
+      this.select(added);
+    } else {
+      return;
+    }
+    this.dragging = this.selected;
+    this.moved = false;
+  }
+
+  move(pointer: GridPointer | null): void {
+    this.hover = pointer && (this.tool === 'path' ? pointer.corner : pointer.cell);
+    if (!pointer) return;
+
+    if (this.dragging !== null) {
+      const point = this.layout.waypoints[this.dragging];
+      if (point && (point.col !== pointer.corner.col || point.row !== pointer.corner.row)) {
+        this.layout.waypoints[this.dragging] = { ...pointer.corner };
+        this.moved = true;
+        this.refresh();
+      }
+    } else if (this.painting !== null) {
+      this.paint(pointer.cell);
+    }
+  }
+
+  release(): void {
+    // Clicking the selected waypoint without moving it deselects it, so the next waypoint starts a new spawn point
+    if (this.dragging !== null && this.wasSelected && !this.moved) {
+      this.select(null);
+    }
+    this.dragging = null;
+    this.painting = null;
+  }
+
+  getOverlay(): MapOverlay {
+    return { layout: this.layout, tool: this.tool, hover: this.hover, selected: this.selected };
+  }
+
+  private findWaypoint(corner: GridPoint): number {
+    // The last match, so a waypoint dropped on another one is picked up again
+    for (let i = this.layout.waypoints.length - 1; i >= 0; i--) {
+      const point = this.layout.waypoints[i];
+      if (point.col === corner.col && point.row === corner.row) return i;
+    }
+    return -1;
+  }
+
+  private select(index: number | null): void {
+    this.selected = index;
+    this.renderBranches();
+  }
+
+  private link(from: number, to: number): void {
+    const branches = this.layout.branches;
+    if (branches.some(branch => branch.from === from && branch.to === to)) return;
+    if (branches.filter(branch => branch.from === from).length >= MAX_PATH_BRANCHES) {
+      this.setStatus(`A waypoint can have at most ${MAX_PATH_BRANCHES} branches`, true);
+      return;
+    }
+
+    // Linking back the other way reverses the branch rather than making a loop
+    this.layout.branches = branches.filter(branch => branch.from !== to || branch.to !== from);
+    this.layout.branches.push({ from, to, weight: 1 });
+    this.refresh();
+  }
+
+  private unlink(from: number, to: number): void {
+    this.layout.branches = this.layout.branches.filter(branch => branch.from !== from || branch.to !== to);
+    this.refresh();
+  }
+
+  /**
+   * Delete a waypoint and its branches, renumbering the waypoints after it
+   */
+  private removeWaypoint(index: number): void {
+    const renumber = (i: number) => i > index ? i - 1 : i;
+    this.layout.waypoints.splice(index, 1);
+    this.layout.branches = this.layout.branches
+      .filter(branch => branch.from !== index && branch.to !== index)
+      .map(branch => ({ ...branch, from: renumber(branch.from), to: renumber(branch.to) }));
+    if (this.selected !== null) this.selected = this.selected === index ? null : renumber(this.selected);
+    this.refresh();
+  }
+
+  private findCell(cell: GridPoint): number {
+    return this.layout.blocked.findIndex(other => other.col === cell.col && other.row === cell.row);
+  }
+
+  // Block or clear a cell, depending on what the drag started with
+  private paint(cell: GridPoint): void {
+    const index = this.findCell(cell);
+    if (this.painting && index < 0) {
+      this.layout.blocked.push({ ...cell });
+    } else if (!this.painting && index >= 0) {
+      this.layout.blocked.splice(index, 1);
+    } else {
+      return;
+    }
+    this.refresh();
+  }
+
+  /**
+   * Check the map and replace the one new games are played on with it
+   */
+  private async apply(): Promise<void> {
+    const layout = this.validate();
+    if (!layout) return;
+
+    try {
+      this.load(await this.map.apply(layout));
+      this.setStatus('Applied, new games are played on this map');
+    } catch (error) {
+      this.logger.error(`Map rejected: ${error instanceof Error ? error.message : error}`);
+      this.setStatus('The game rejected the map', true);
+    }
+  }
+
+  /**
+   * Download the map as a map file
+   */
+  private exportFile(): void {
+    const url = URL.createObjectURL(new Blob([serializeMapFile(this.layout)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'map.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Load a map file into the editor without applying it
+   */
+  private async importFile(file: File): Promise<void> {
+    try {
+      this.load(parseMapFile(JSON.parse(await file.text())));
+      this.setStatus(`Loaded '${file.name}', press Apply to use it`);
+    } catch (error) {
+      this.setStatus(`'${file.name}' rejected: ${error instanceof Error ? error.message : error}`, true);
+    }
+  }
+
+  /**
+   * Update the validation message after an edit
+   */
+  private refresh(): void {
+    this.renderBranches();
+    this.refreshStatus();
+  }
+
+  private refreshStatus(): void {
+    if (this.validate()) {
+      const spawns = this.layout.waypoints.filter((_, i) => isSpawnPoint(this.layout, i)).length;
+      this.setStatus(`${this.layout.waypoints.length} waypoints, ${spawns} spawn points, ` +
+        `${this.layout.blocked.length} blocked cells`);
+    }
+  }
+
+  /**
+   * List the branches leaving the selected waypoint, with their weights
+   */
+  private renderBranches(): void {
+    if (!this.branchList) return;
+    this.branchList.innerHTML = '';
+
+    const from = this.selected;
+    if (from === null) return;
+
+    const title = document.createElement('strong');
+    title.textContent = `Waypoint ${from + 1}`;
+    this.branchList.appendChild(title);
+
+    const branches = this.layout.branches.filter(branch => branch.from === from);
+    if (branches.length === 0) {
+      this.branchList.append(' is an exit');
+      return;
+    }
+
+    for (const branch of branches) {
+      const label = document.createElement('label');
+      const weight = document.createElement('input');
+      weight.type = 'number';
+      weight.min = '1';
+      weight.max = String(MAX_BRANCH_WEIGHT);
+      weight.step = '1';
+      weight.value = String(branch.weight);
+      // Left as NaN while the field is empty, validation names the branch
+      weight.addEventListener('input', () => {
+        branch.weight = weight.valueAsNumber;
+        this.refreshStatus();
+      });
+      label.append(`to ${branch.to + 1}, weight `, weight);
+      this.branchList.appendChild(label);
+    }
+  }
+
+  /**
+   * Check the map, showing the first problem found
+   * @returns The checked map, or null if it can't be played
+   */
+  private validate(): MapLayout | null {
+    try {
+      const layout = checkMapLayout(this.layout);
+      if (this.applyButton) this.applyButton.disabled = false;
+      return layout;
+    } catch (error) {
+      if (this.applyButton) this.applyButton.disabled = true;
+      this.setStatus(error instanceof Error ? error.message : String(error), true);
+      return null;
+    }
+  }
+
+  private setStatus(message: string, isError: boolean = false): void {
+    if (!this.status) return;
+    this.status.textContent = message;
+    this.status.classList.toggle('error', isError);
+  }
+}
+
+function emptyLayout(): MapLayout {
+  return { waypoints: [], branches: [], branching: 'weighted', blocked: [] };
+}
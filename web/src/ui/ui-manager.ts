@@ -1,8 +1,66 @@
 // UI manager for handling user interface elements and interactions
+import type { GameStats } from '../wasm/wasm-loader';
+import type { WasmGame } from '../wasm/wasm-game';
+import { WasmCrashedError } from '../wasm/wasm-trap';
+import type { GameEventBus, PlacementRejection } from '../wasm/game-events';
+import type { SaveSlotInfo } from '../game/save-manager';
+import { REPLAY_SPEEDS } from '../game/replay-player';
+import type { ReplaySpeed } from '../game/replay-player';
+import { isGameSpeed } from '../game/game-speed';
+import type { GameSpeed } from '../game/game-speed';
+import { GameState } from '../game/game-state';
+import { TOWER_TARGETINGS } from '../game/tower-catalog';
+import type { TowerDefinition, TowerTargeting } from '../game/tower-catalog';
+import type { TowerInfo } from '../game/tower-info';
+import { ENEMY_KINDS, ENEMY_KIND_LABELS } from '../game/enemy-types';
+import { summarizeWave } from '../game/wave-script';
+import type { WaveDefinition } from '../game/wave-script';
+
+// Player-facing text for rejected tower placements
+const REJECTION_MESSAGES: Record<PlacementRejection, string> = {
+  'no-tower-selected': 'Select a tower first',
+  'insufficient-funds': 'Not enough money',
+  'blocked-by-path': 'Cannot build on the path',
+  'occupied': 'A tower is already there',
+  'tower-limit': 'Tower limit reached',
+  'blocked-terrain': 'Cannot build on blocked ground'
+};
+
+// Player-facing names of the tower targeting modes
+const TARGETING_LABELS: Record<TowerTargeting, string> = {
+  first: 'First',
+  last: 'Last',
+  strongest: 'Strongest',
+  weakest: 'Weakest',
+  closest: 'Closest',
+  fastest: 'Fastest'
+};
+
+/**
+ * State shown by the replay controls
+ */
+export interface ReplayControlsState {
+  recording: boolean;
+  hasRecording: boolean;
+  replayLoaded: boolean;
+  playing: boolean;
+  frame: number;
+  frameCount: number;
+  speed: ReplaySpeed;
+}
+
+/**
+ * Next wave shown in the HUD during the countdown between waves
+ */
+export interface WavePreview {
+  wave: number;
+  definition: WaveDefinition | null; // Null until the WASM module has written it
+  secondsLeft: number;
+}
 
 interface GameApp {
   canvas: any;
-  wasmLoader: any;
+  wasmLoader: WasmGame;
   audio: any;
   logger: {
     log(message: string): void;
@@ -10,28 +68,69 @@ interface GameApp {
     warn(message: string): void;
   };
   startGame(): void;
-  togglePause(): void;
+  togglePause(): Promise<void>;
+  saveGame(): void;
+  loadGame(slot: string): void;
+  downloadSave(): void;
+  uploadSave(file: File): void;
+  toggleRecording(): void;
+  exportReplay(): void;
+  loadReplay(file: File): Promise<void>;
+  toggleReplayPlayback(): void;
+  setReplaySpeed(speed: ReplaySpeed): void;
+  seekReplay(frame: number): void;
+  verifyReplay(): void;
+  stopReplay(): void;
+  setGameSpeed(speed: GameSpeed): void;
 }
 
 export class UIManager {
   private gameApp: GameApp;
   private selectedTowerType: number = 0;
   private startButton: HTMLElement | null = null;
-  private pauseButton: HTMLElement | null = null;
-  private towerButtons: {
-    line: HTMLElement | null;
-    triangle: HTMLElement | null;
-    square: HTMLElement | null;
-    pentagon: HTMLElement | null;
-  } = {
-    line: null,
-    triangle: null,
-    square: null,
-    pentagon: null
-  };
+  private pauseButton: HTMLButtonElement | null = null;
+  private restartButton: HTMLElement | null = null;
+  private saveSlotSelect: HTMLSelectElement | null = null;
+  private replayControls: {
+    record: HTMLButtonElement | null;
+    export: HTMLButtonElement | null;
+    play: HTMLButtonElement | null;
+    speed: HTMLSelectElement | null;
+    scrubber: HTMLInputElement | null;
+    frame: HTMLElement | null;
+    verify: HTMLButtonElement | null;
+    stop: HTMLButtonElement | null;
+  } | null = null;
+  private towerPicker: HTMLElement | null = null;
+  private towerButtons: Map<number, HTMLButtonElement> = new Map();
+  private towerHotkeys: Map<string, number> = new Map();
+  private towerNames: Map<number, string> = new Map();
+  private allowedTowers: Set<number> | null = null; // Tower types the level allows, null for every type
+  private towerPanel: {
+    root: HTMLElement;
+    title: HTMLElement | null;
+    level: HTMLElement | null;
+    damage: HTMLElement | null;
+    range: HTMLElement | null;
+    rate: HTMLElement | null;
+    kills: HTMLElement | null;
+    dealt: HTMLElement | null;
+    targeting: HTMLSelectElement | null;
+    upgrade: HTMLButtonElement | null;
+    sell: HTMLButtonElement | null;
+  } | null = null;
+  private shownTower: TowerInfo | null = null;
+  private wavePreview: {
+    root: HTMLElement;
+    title: HTMLElement | null;
+    enemies: HTMLElement | null;
+    totals: HTMLElement | null;
+  } | null = null;
+  private shownPreview: { wave: number; hasDefinition: boolean; tenths: number } | null = null;
   private logContainer: HTMLElement | null = null;
   private logToggle: HTMLElement | null = null;
   private logBuffer: string[] = [];
+  private lastStats: GameStats | null = null;
 
   constructor(gameApp: GameApp) {
     this.gameApp = gameApp;
@@ -43,17 +142,14 @@ export class UIManager {
   initialize(): void {
     // Get UI elements
     this.startButton = document.getElementById('start-button');
-    this.pauseButton = document.getElementById('pause-button');
+    this.pauseButton = document.getElementById('pause-button') as HTMLButtonElement | null;
+    this.restartButton = document.getElementById('restart-button');
     this.logContainer = document.getElementById('log-container');
     this.logToggle = document.getElementById('log-toggle');
+    this.saveSlotSelect = document.getElementById('save-slot-select') as HTMLSelectElement | null;
     
-    // Tower buttons
-    this.towerButtons = {
-      line: document.getElementById('tower-line'),
-      triangle: document.getElementById('tower-triangle'),
-      square: document.getElementById('tower-square'),
-      pentagon: document.getElementById('tower-pentagon')
-    };
+    // Tower buttons are generated from the tower catalog once the WASM module is loaded
+    this.towerPicker = document.getElementById('tower-buttons');
     
     // Add event listeners
     if (this.startButton) {
@@ -61,26 +157,56 @@ export class UIManager {
     }
     
     if (this.pauseButton) {
-      this.pauseButton.addEventListener('click', () => this.gameApp.togglePause());
+      this.pauseButton.addEventListener('click', () => this.gameApp.togglePause().catch(error => this.reportError(error)));
     }
     
-    // Tower selection buttons
-    if (this.towerButtons.line) {
-      this.towerButtons.line.addEventListener('click', () => this.selectTower(1));
+    if (this.restartButton) {
+      this.restartButton.addEventListener('click', () => {
+        this.hideGameOver();
+        this.gameApp.startGame();
+      });
     }
     
-    if (this.towerButtons.triangle) {
-      this.towerButtons.triangle.addEventListener('click', () => this.selectTower(2));
-    }
+    // Save buttons
+    document.getElementById('save-button')?.addEventListener('click', () => this.gameApp.saveGame());
+    document.getElementById('load-button')?.addEventListener('click', () => {
+      if (this.saveSlotSelect && this.saveSlotSelect.value) {
+        this.gameApp.loadGame(this.saveSlotSelect.value);
+      }
+    });
+    document.getElementById('download-save-button')?.addEventListener('click', () => this.gameApp.downloadSave());
     
-    if (this.towerButtons.square) {
-      this.towerButtons.square.addEventListener('click', () => this.selectTower(3));
+    const saveFileInput = document.getElementById('save-file-input') as HTMLInputElement | null;
+    if (saveFileInput) {
+      document.getElementById('upload-save-button')?.addEventListener('click', () => saveFileInput.click());
+      saveFileInput.addEventListener('change', () => {
+        const file = saveFileInput.files?.[0];
+        if (file) this.gameApp.uploadSave(file);
+        saveFileInput.value = '';
+      });
     }
     
-    if (this.towerButtons.pentagon) {
-      this.towerButtons.pentagon.addEventListener('click', () => this.selectTower(4));
+    this.initializeReplayControls();
+    this.initializeTowerPanel();
+    
+    const wavePreview = document.getElementById('wave-preview');
+    if (wavePreview) {
+      this.wavePreview = {
+        root: wavePreview,
+        title: document.getElementById('wave-preview-title'),
+        enemies: document.getElementById('wave-preview-enemies'),
+        totals: document.getElementById('wave-preview-totals')
+      };
     }
     
+    // Game speed buttons
+    document.querySelectorAll<HTMLButtonElement>('.speed-button[data-speed]').forEach(button => {
+      button.addEventListener('click', () => {
+        const speed = Number(button.dataset.speed);
+        if (isGameSpeed(speed)) this.gameApp.setGameSpeed(speed);
+      });
+    });
+    
     // Log toggle
     if (this.logToggle) {
       this.logToggle.addEventListener('click', () => this.toggleLog());
@@ -92,6 +218,197 @@ export class UIManager {
     this.gameApp.logger.log('UI initialized');
   }
 
+  /**
+   * Wire up the replay recording and playback controls
+   */
+  private initializeReplayControls(): void {
+    const controls = {
+      record: document.getElementById('record-button') as HTMLButtonElement | null,
+      export: document.getElementById('export-replay-button') as HTMLButtonElement | null,
+      play: document.getElementById('replay-play-button') as HTMLButtonElement | null,
+      speed: document.getElementById('replay-speed') as HTMLSelectElement | null,
+      scrubber: document.getElementById('replay-scrubber') as HTMLInputElement | null,
+      frame: document.getElementById('replay-frame'),
+      verify: document.getElementById('verify-replay-button') as HTMLButtonElement | null,
+      stop: document.getElementById('stop-replay-button') as HTMLButtonElement | null
+    };
+    this.replayControls = controls;
+
+    controls.record?.addEventListener('click', () => this.gameApp.toggleRecording());
+    controls.export?.addEventListener('click', () => this.gameApp.exportReplay());
+    controls.play?.addEventListener('click', () => this.gameApp.toggleReplayPlayback());
+    controls.verify?.addEventListener('click', () => this.gameApp.verifyReplay());
+    controls.stop?.addEventListener('click', () => this.gameApp.stopReplay());
+    controls.scrubber?.addEventListener('input', () => {
+      if (controls.scrubber) this.gameApp.seekReplay(Number(controls.scrubber.value));
+    });
+    controls.speed?.addEventListener('change', () => {
+      const speed = Number(controls.speed?.value);
+      const match = REPLAY_SPEEDS.find(option => option === speed);
+      if (match) this.gameApp.setReplaySpeed(match);
+    });
+
+    const replayFileInput = document.getElementById('replay-file-input') as HTMLInputElement | null;
+    if (replayFileInput) {
+      document.getElementById('load-replay-button')?.addEventListener('click', () => replayFileInput.click());
+      replayFileInput.addEventListener('change', () => {
+        const file = replayFileInput.files?.[0];
+        if (file) this.gameApp.loadReplay(file).catch(error => this.reportError(error));
+        replayFileInput.value = '';
+      });
+    }
+  }
+
+  /**
+   * Wire up the panel shown for a selected built tower
+   */
+  private initializeTowerPanel(): void {
+    const root = document.getElementById('tower-panel');
+    if (!root) return;
+
+    const panel = {
+      root,
+      title: document.getElementById('tower-panel-title'),
+      level: document.getElementById('tower-panel-level'),
+      damage: document.getElementById('tower-panel-damage'),
+      range: document.getElementById('tower-panel-range'),
+      rate: document.getElementById('tower-panel-rate'),
+      kills: document.getElementById('tower-panel-kills'),
+      dealt: document.getElementById('tower-panel-dealt'),
+      targeting: document.getElementById('tower-targeting') as HTMLSelectElement | null,
+      upgrade: document.getElementById('tower-upgrade-button') as HTMLButtonElement | null,
+      sell: document.getElementById('tower-sell-button') as HTMLButtonElement | null
+    };
+    this.towerPanel = panel;
+
+    if (panel.targeting) {
+      for (const targeting of TOWER_TARGETINGS) {
+        panel.targeting.add(new Option(TARGETING_LABELS[targeting], targeting));
+      }
+      panel.targeting.addEventListener('change', () => {
+        const targeting = TOWER_TARGETINGS.find(option => option === panel.targeting?.value);
+        if (this.shownTower && targeting) this.gameApp.wasmLoader.setTowerTargeting(this.shownTower.id, targeting).catch(error => this.reportError(error));
+      });
+    }
+    panel.upgrade?.addEventListener('click', () => {
+      if (this.shownTower) this.gameApp.wasmLoader.upgradeTower(this.shownTower.id).catch(error => this.reportError(error));
+    });
+    panel.sell?.addEventListener('click', () => {
+      if (this.shownTower) this.gameApp.wasmLoader.sellTower(this.shownTower.id).catch(error => this.reportError(error));
+    });
+    document.getElementById('tower-panel-close')?.addEventListener('click', () => this.closeTowerPanel());
+  }
+
+  /**
+   * Show the selected built tower's stats, or hide the panel when none is selected
+   */
+  updateTowerPanel(tower: TowerInfo | null): void {
+    const panel = this.towerPanel;
+    const money = this.lastStats?.money ?? 0;
+    const canAfford = tower?.upgradeCost != null && money >= tower.upgradeCost;
+
+    // Skip the DOM work while nothing shown has changed
+    const last = this.shownTower;
+    this.shownTower = tower;
+    if (!panel || (last && tower && isSameTowerInfo(last, tower) && panel.upgrade?.disabled === !canAfford)) return;
+
+    panel.root.classList.toggle('visible', tower !== null);
+    if (!tower) return;
+
+    const setText = (element: HTMLElement | null, text: string) => {
+      if (element) element.textContent = text;
+    };
+    setText(panel.title, this.towerNames.get(tower.towerType) ?? 'Tower');
+    setText(panel.level, `${tower.level} / ${tower.maxLevel}`);
+    setText(panel.damage, tower.damage.toFixed(1));
+    setText(panel.range, tower.range.toFixed(0));
+    setText(panel.rate, `${(1 / tower.cooldown).toFixed(2)}/s`);
+    setText(panel.kills, String(tower.kills));
+    setText(panel.dealt, tower.damageDealt.toFixed(0));
+    if (panel.targeting && document.activeElement !== panel.targeting) {
+      panel.targeting.value = tower.targeting;
+    }
+
+    if (panel.upgrade) {
+      panel.upgrade.textContent = tower.upgradeCost === null ? 'Max level' : `Upgrade ($${tower.upgradeCost})`;
+      panel.upgrade.disabled = !canAfford;
+    }
+    setText(panel.sell, `Sell ($${tower.sellValue})`);
+  }
+
+  /**
+   * Switch the selected built tower to the next targeting mode
+   * @returns True if a tower is selected
+   */
+  cycleTowerTargeting(): boolean {
+    const tower = this.shownTower;
+    if (!tower) return false;
+
+    const targeting = TOWER_TARGETINGS[(TOWER_TARGETINGS.indexOf(tower.targeting) + 1) % TOWER_TARGETINGS.length];
+    this.gameApp.wasmLoader.setTowerTargeting(tower.id, targeting).catch(error => this.reportError(error));
+    this.showMessage(`Targeting: ${TARGETING_LABELS[targeting]}`, 1000);
+    return true;
+  }
+
+  /**
+   * Clear the built tower selection
+   * @returns True if the tower panel was open
+   */
+  closeTowerPanel(): boolean {
+    if (!this.shownTower) return false;
+
+    this.gameApp.wasmLoader.selectTower(0).catch(error => this.reportError(error));
+    this.updateTowerPanel(null);
+    return true;
+  }
+
+  /**
+   * Sync the replay controls with the recorder and player
+   */
+  updateReplayControls(state: ReplayControlsState): void {
+    const controls = this.replayControls;
+    if (!controls) return;
+
+    if (controls.record) {
+      controls.record.textContent = state.recording ? 'Stop Recording' : 'Record';
+      controls.record.classList.toggle('active', state.recording);
+    }
+    if (controls.export) controls.export.disabled = !state.hasRecording || state.recording;
+    if (controls.play) {
+      controls.play.disabled = !state.replayLoaded;
+      controls.play.textContent = state.playing ? 'Pause Replay' : 'Play Replay';
+    }
+    if (controls.speed) {
+      controls.speed.disabled = !state.replayLoaded;
+      controls.speed.value = String(state.speed);
+    }
+    if (controls.scrubber) {
+      controls.scrubber.disabled = !state.replayLoaded;
+      controls.scrubber.max = String(state.frameCount);
+      // Don't fight the user while they drag
+      if (document.activeElement !== controls.scrubber) {
+        controls.scrubber.value = String(state.frame);
+      }
+    }
+    if (controls.frame) {
+      controls.frame.textContent = state.replayLoaded ? `${state.frame} / ${state.frameCount}` : `${state.frame}`;
+    }
+    if (controls.verify) controls.verify.disabled = !state.replayLoaded;
+    if (controls.stop) controls.stop.disabled = !state.replayLoaded;
+  }
+
+  /**
+   * Subscribe to game events that drive the UI
+   */
+  bindEvents(events: GameEventBus): void {
+    events.on('waveStarted', ({ wave, boss }) => this.showMessage(boss ? `Wave ${wave} - boss incoming!` : `Wave ${wave}`, boss ? 2500 : 1500));
+    events.on('waveCleared', ({ wave, bonus }) => this.showMessage(`Wave ${wave} cleared! +${bonus}`, 2000));
+    events.on('towerRejected', ({ reason }) => this.showMessage(REJECTION_MESSAGES[reason], 1500));
+    events.on('gameOver', ({ victory, score }) => this.showGameOver(score, victory));
+    events.on('towerUpgraded', ({ level }) => this.showMessage(`Tower upgraded to level ${level}`, 1500));
+    events.on('towerSold', ({ refund }) => this.showMessage(`Tower sold for $${refund}`, 1500));
+  }
+
   /**
    * Process any log messages that were received before UI was ready
    */
@@ -110,35 +427,108 @@ export class UIManager {
     }
   }
 
+  /**
+   * Build the tower picker, hotkeys and tooltips from the tower catalog
+   */
+  setTowerCatalog(towers: ReadonlyArray<TowerDefinition>): void {
+    this.towerButtons.clear();
+    this.towerHotkeys.clear();
+    this.towerNames.clear();
+    if (this.towerPicker) this.towerPicker.innerHTML = '';
+
+    for (const tower of towers) {
+      if (tower.hotkey) this.towerHotkeys.set(tower.hotkey, tower.id);
+      this.towerNames.set(tower.id, tower.name);
+      if (!this.towerPicker) continue;
+
+      const button = document.createElement('button');
+      button.className = 'tower-button';
+      button.style.setProperty('--tower-color', `#${tower.color.toString(16).padStart(6, '0')}`);
+      button.title = this.describeTower(tower);
+
+      if (tower.hotkey) {
+        const hotkey = document.createElement('span');
+        hotkey.className = 'tower-hotkey';
+        hotkey.textContent = tower.hotkey;
+        button.appendChild(hotkey);
+      }
+      button.appendChild(document.createTextNode(`${tower.name} ($${tower.cost})`));
+      button.addEventListener('click', () => this.pickTower(tower.id));
+
+      this.towerPicker.appendChild(button);
+      this.towerButtons.set(tower.id, button);
+    }
+
+    this.applyAllowedTowers();
+  }
+
+  /**
+   * Limit the tower picker and hotkeys to the tower types a level allows
+   * @param towers Allowed tower catalog ids, or null for every type
+   */
+  setAllowedTowers(towers: ReadonlyArray<number> | null): void {
+    this.allowedTowers = towers ? new Set(towers) : null;
+    this.applyAllowedTowers();
+  }
+
+  private isTowerAllowed(towerType: number): boolean {
+    return this.allowedTowers === null || this.allowedTowers.has(towerType);
+  }
+
+  private applyAllowedTowers(): void {
+    this.towerButtons.forEach((button, id) => { button.hidden = !this.isTowerAllowed(id); });
+
+    // Keep the selection if the tower type still exists and is allowed, otherwise start with the first one
+    const ids = [...this.towerButtons.keys()].filter(id => this.isTowerAllowed(id));
+    this.selectTower(ids.includes(this.selectedTowerType) ? this.selectedTowerType : ids[0] ?? 0);
+  }
+
+  /**
+   * Tooltip text for a tower button
+   */
+  private describeTower(tower: TowerDefinition): string {
+    const lines = [
+      `${tower.name} - $${tower.cost}`,
+      `Damage: ${tower.damage} (${tower.attack})`,
+      `Range: ${tower.range}`,
+      `Fire rate: ${(1 / tower.cooldown).toFixed(2)}/s`,
+      `Targeting: ${TARGETING_LABELS[tower.targeting]}`
+    ];
+    if (tower.hotkey) lines.push(`Hotkey: ${tower.hotkey}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Select the tower type bound to a key
+   * @returns True if the key is a tower hotkey
+   */
+  handleTowerHotkey(key: string): boolean {
+    const towerType = this.towerHotkeys.get(key);
+    if (towerType === undefined || !this.isTowerAllowed(towerType)) return false;
+
+    this.pickTower(towerType);
+    return true;
+  }
+
+  /**
+   * Select a tower type the player picked, with the selection sound
+   */
+  private pickTower(towerType: number): void {
+    this.selectTower(towerType);
+    this.gameApp.audio.playSound('towerSelected');
+  }
+
   /**
    * Select tower type
    */
   selectTower(towerType: number): void {
-    // Update UI
-    Object.values(this.towerButtons).forEach(btn => {
-      if (btn) btn.classList.remove('active');
-    });
+    this.selectedTowerType = towerType;
     
-    // Set active class based on selection
-    switch(towerType) {
-      case 1: 
-        if (this.towerButtons.line) this.towerButtons.line.classList.add('active'); 
-        break;
-      case 2: 
-        if (this.towerButtons.triangle) this.towerButtons.triangle.classList.add('active'); 
-        break;
-      case 3: 
-        if (this.towerButtons.square) this.towerButtons.square.classList.add('active'); 
-        break;
-      case 4: 
-        if (this.towerButtons.pentagon) this.towerButtons.pentagon.classList.add('active'); 
-        break;
-      default: 
-        break; // For ESC key (deselect)
-    }
+    // Highlight the selected button, none for ESC (deselect)
+    this.towerButtons.forEach((button, id) => button.classList.toggle('active', id === towerType));
     
     // Call WASM function to set selected tower type
-    this.gameApp.wasmLoader.selectTowerType(towerType);
+    this.gameApp.wasmLoader.selectTowerType(towerType).catch(error => this.reportError(error));
     
     // Update canvas manager
     this.gameApp.canvas.setSelectedTowerType(towerType);
@@ -197,6 +587,20 @@ export class UIManager {
     this.logToggle.classList.toggle('collapsed');
   }
 
+  /**
+   * Sync the HUD with the latest game stats, touching only the values that changed
+   */
+  updateHud(stats: GameStats): void {
+    const last = this.lastStats;
+
+    if (!last || last.money !== stats.money) this.updateMoneyDisplay(stats.money);
+    if (!last || last.lives !== stats.lives) this.updateLivesDisplay(stats.lives);
+    if (!last || last.wave !== stats.wave) this.updateWaveDisplay(stats.wave);
+    if (!last || last.score !== stats.score) this.updateScoreDisplay(stats.score);
+
+    this.lastStats = { ...stats };
+  }
+
   /**
    * Update the money display
    */
@@ -207,6 +611,16 @@ export class UIManager {
     }
   }
 
+  /**
+   * Update the lives display
+   */
+  updateLivesDisplay(newLives?: number): void {
+    const livesElement = document.getElementById('lives');
+    if (livesElement && newLives !== undefined) {
+      livesElement.textContent = `Lives: ${newLives}`;
+    }
+  }
+
   /**
    * Update the score display
    */
@@ -227,6 +641,98 @@ export class UIManager {
     }
   }
 
+  /**
+   * Show what the next wave brings while the countdown runs, or hide the preview once the wave starts
+   */
+  updateWavePreview(preview: WavePreview | null): void {
+    const panel = this.wavePreview;
+    if (!panel) return;
+
+    // Redraw only when the wave, its contents or the countdown's tenths change
+    const shown = preview && {
+      wave: preview.wave,
+      hasDefinition: preview.definition !== null,
+      tenths: Math.ceil(preview.secondsLeft * 10)
+    };
+    const last = this.shownPreview;
+    this.shownPreview = shown;
+    if (shown && last && shown.wave === last.wave && shown.hasDefinition === last.hasDefinition && shown.tenths === last.tenths) return;
+
+    panel.root.classList.toggle('visible', preview !== null);
+    if (!preview || !shown) return;
+
+    const definition = preview.definition;
+    panel.root.classList.toggle('boss', definition?.boss ?? false);
+    if (panel.title) {
+      const boss = definition?.boss ? ' - BOSS' : '';
+      panel.title.textContent = `Wave ${preview.wave}${boss} in ${(shown.tenths / 10).toFixed(1)}s`;
+    }
+
+    const summary = definition && summarizeWave(definition);
+    if (panel.enemies) {
+      panel.enemies.textContent = summary
+        ? ENEMY_KINDS
+          .filter(kind => summary.counts[kind])
+          .map(kind => `${summary.counts[kind]} ${ENEMY_KIND_LABELS[kind]}`)
+          .join(', ')
+        : '';
+    }
+    if (panel.totals) {
+      panel.totals.textContent = summary ? `${Math.round(summary.totalHealth)} HP, $${summary.totalBounty} bounty` : '';
+    }
+  }
+
+  /**
+   * Update button labels and the game over overlay for a new game state
+   */
+  updateGameState(state: GameState): void {
+    if (this.startButton) {
+      this.startButton.textContent = state === GameState.Menu ? 'Start Game' : 'Restart';
+    }
+
+    if (this.pauseButton) {
+      this.pauseButton.textContent = state === GameState.Paused ? 'Resume' : 'Pause';
+      this.pauseButton.disabled = state !== GameState.Playing && state !== GameState.Paused;
+    }
+
+    if (state === GameState.GameOver) {
+      // The gameOver event normally shows the overlay first, with the victory flag
+      const gameOverElement = document.getElementById('game-over');
+      if (gameOverElement && !gameOverElement.classList.contains('visible')) {
+        this.showGameOver(this.lastStats?.score ?? 0);
+      }
+    } else {
+      this.hideGameOver();
+    }
+  }
+
+  /**
+   * Highlight the active game speed button
+   */
+  updateGameSpeed(speed: number): void {
+    document.querySelectorAll<HTMLButtonElement>('.speed-button[data-speed]').forEach(button => {
+      button.classList.toggle('active', Number(button.dataset.speed) === speed);
+    });
+  }
+
+  /**
+   * Fill the save slot list, newest save first
+   */
+  updateSaveSlots(slots: SaveSlotInfo[]): void {
+    if (!this.saveSlotSelect) return;
+
+    this.saveSlotSelect.innerHTML = '';
+    if (slots.length === 0) {
+      this.saveSlotSelect.add(new Option('No saves', ''));
+      return;
+    }
+
+    for (const info of slots) {
+      const savedAt = new Date(info.savedAt).toLocaleString();
+      this.saveSlotSelect.add(new Option(`${info.slot} - Wave ${info.wave} (${savedAt})`, info.slot));
+    }
+  }
+
   /**
    * Show a message to the player
    */
@@ -242,6 +748,17 @@ export class UIManager {
     }, duration);
   }
 
+  /**
+   * Log and show a failed game call, the ones after a trap are left to the crash dialog
+   */
+  private reportError(error: unknown): void {
+    if (error instanceof WasmCrashedError) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    this.gameApp.logger.error(`Action failed: ${message}`);
+    this.showMessage(message, 3000);
+  }
+
   /**
    * Show the game over screen
    */
@@ -252,15 +769,34 @@ export class UIManager {
     
     if (!gameOverElement || !gameOverTitleElement || !gameOverScoreElement) return;
     
-    // Set title and score
+    // Set title and score, campaign victories add their rating with showStars
     gameOverTitleElement.textContent = victory ? 'Victory!' : 'Game Over';
+    gameOverElement.classList.toggle('victory', victory);
     gameOverScoreElement.textContent = `Final Score: ${finalScore}`;
+    this.showStars(0, 0);
     
     // Show the game over screen
     gameOverElement.classList.add('visible');
-    
-    // Play appropriate sound
-    this.gameApp.audio.playSound(victory ? 'levelComplete' : 'levelFail');
+  }
+
+  /**
+   * Show the rating won on a campaign level on the game over screen, hidden when max is 0
+   */
+  showStars(stars: number, max: number, best: boolean = false): void {
+    const starsElement = document.getElementById('game-over-stars');
+    if (!starsElement) return;
+
+    starsElement.textContent = max > 0 ? '★'.repeat(stars) + '☆'.repeat(max - stars) + (best ? ' New best!' : '') : '';
+  }
+
+  /**
+   * Hide the game over screen
+   */
+  hideGameOver(): void {
+    const gameOverElement = document.getElementById('game-over');
+    if (gameOverElement) {
+      gameOverElement.classList.remove('visible');
+    }
   }
 
   /**
@@ -269,4 +805,8 @@ export class UIManager {
   getSelectedTowerType(): number {
     return this.selectedTowerType;
   }
-} 
\ No newline at end of file
+}
+
+function isSameTowerInfo(a: TowerInfo, b: TowerInfo): boolean {
+  return (Object.keys(a) as (keyof TowerInfo)[]).every(key => a[key] === b[key]);
+}
@@ -0,0 +1,308 @@
+// Wave editor panel for authoring, checking and applying the wave script
+import { ENEMY_KINDS, ENEMY_KIND_LABELS } from '../game/enemy-types';
+import { MAX_SPAWN_POINTS } from '../game/game-map';
+import { MAX_WAVE_GROUPS, MAX_WAVES, summarizeWave } from '../game/wave-script';
+import type { WaveDefinition, WaveGroup, WaveScript } from '../game/wave-script';
+import { parseWaveFile, parseWaves, serializeWaveFile } from '../game/wave-file';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+// Numeric group fields, in the order of the editor columns
+type GroupField = 'count' | 'health' | 'speed' | 'bounty' | 'interval' | 'delay';
+
+const GROUP_FIELDS: { field: GroupField; label: string; step: string }[] = [
+  { field: 'count', label: 'Count', step: '1' },
+  { field: 'health', label: 'Health', step: '1' },
+  { field: 'speed', label: 'Speed', step: '1' },
+  { field: 'bounty', label: 'Bounty', step: '1' },
+  { field: 'interval', label: 'Interval (s)', step: '0.1' },
+  { field: 'delay', label: 'Delay (s)', step: '0.1' }
+];
+
+// Group added by "Add group", close to the built-in first wave
+const NEW_GROUP: WaveGroup = { enemy: 'normal', count: 5, health: 25, speed: 52, bounty: 6, interval: 1, delay: 1 };
+
+export class WaveEditor {
+  private script: WaveScript;
+  private logger: Logger;
+  private onApplied: () => void;
+  private waves: WaveDefinition[] = [];
+  private list: HTMLElement | null = null;
+  private totals: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private applyButton: HTMLButtonElement | null = null;
+  private waveSummaries: HTMLElement[] = [];
+
+  /**
+   * @param script Wave script the editor reads from and applies to
+   * @param onApplied Called after a new schedule has been applied
+   */
+  constructor(script: WaveScript, onApplied: () => void, logger?: Logger) {
+    this.script = script;
+    this.onApplied = onApplied;
+    this.logger = logger || console;
+  }
+
+  /**
+   * Wire up the editor controls
+   */
+  initialize(): void {
+    this.list = document.getElementById('wave-list');
+    this.totals = document.getElementById('wave-editor-totals');
+    this.status = document.getElementById('wave-editor-status');
+    this.applyButton = document.getElementById('wave-apply-button') as HTMLButtonElement | null;
+
+    document.getElementById('wave-add-button')?.addEventListener('click', () => this.addWave());
+    this.applyButton?.addEventListener('click', () => this.apply());
+    document.getElementById('wave-revert-button')?.addEventListener('click', () => this.load(this.script.getWaves()));
+    document.getElementById('wave-export-button')?.addEventListener('click', () => this.exportFile());
+
+    const fileInput = document.getElementById('wave-file-input') as HTMLInputElement | null;
+    if (fileInput) {
+      document.getElementById('wave-import-button')?.addEventListener('click', () => fileInput.click());
+      fileInput.addEventListener('change', () => {
+        const file = fileInput.files?.[0];
+        if (file) this.importFile(file);
+        fileInput.value = '';
+      });
+    }
+  }
+
+  /**
+   * Show a schedule in the editor, edits are kept on a copy until applied
+   */
+  load(waves: ReadonlyArray<WaveDefinition>): void {
+    this.waves = waves.map(wave => ({ boss: wave.boss, groups: wave.groups.map(group => ({ ...group })) }));
+    this.render();
+  }
+
+  /**
+   * Check the schedule and replace the wave script with it, taking effect from the next wave
+   */
+  private async apply(): Promise<void> {
+    const waves = this.validate();
+    if (!waves) return;
+
+    try {
+      this.load(await this.script.apply(waves));
+      this.setStatus('Applied, the new schedule starts with the next wave');
+      this.onApplied();
+    } catch (error) {
+      this.logger.error(`Wave script rejected: ${error instanceof Error ? error.message : error}`);
+      this.setStatus('The game rejected the wave script', true);
+    }
+  }
+
+  /**
+   * Download the schedule as a wave file
+   */
+  private exportFile(): void {
+    const url = URL.createObjectURL(new Blob([serializeWaveFile(this.waves)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'waves.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Load a wave file into the editor without applying it
+   */
+  private async importFile(file: File): Promise<void> {
+    try {
+      this.load(parseWaveFile(JSON.parse(await file.text())));
+      this.setStatus(`Loaded '${file.name}', press Apply to use it`);
+    } catch (error) {
+      this.setStatus(`'${file.name}' rejected: ${error instanceof Error ? error.message : error}`, true);
+    }
+  }
+
+  private addWave(): void {
+    if (this.waves.length >= MAX_WAVES) return;
+
+    // Start from a copy of the last wave, designers usually build on it
+    const last = this.waves[this.waves.length - 1];
+    this.waves.push(last
+      ? { boss: false, groups: last.groups.map(group => ({ ...group })) }
+      : { boss: false, groups: [{ ...NEW_GROUP }] });
+    this.render();
+  }
+
+  /**
+   * Rebuild the whole list, used when waves or groups are added or removed
+   */
+  private render(): void {
+    this.waveSummaries = [];
+    if (this.list) {
+      this.list.innerHTML = '';
+      this.waves.forEach((wave, index) => this.list?.appendChild(this.renderWave(wave, index)));
+    }
+    this.refreshSummaries();
+  }
+
+  private renderWave(wave: WaveDefinition, index: number): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'wave-card';
+
+    const header = document.createElement('div');
+    header.className = 'wave-card-header';
+    const title = document.createElement('strong');
+    title.textContent = `Wave ${index + 1}`;
+    header.appendChild(title);
+
+    const bossLabel = document.createElement('label');
+    const boss = document.createElement('input');
+    boss.type = 'checkbox';
+    boss.checked = wave.boss;
+    boss.addEventListener('change', () => {
+      wave.boss = boss.checked;
+      this.refreshSummaries();
+    });
+    bossLabel.append(boss, ' Boss wave');
+    header.appendChild(bossLabel);
+
+    const summary = document.createElement('span');
+    summary.className = 'wave-card-summary';
+    header.appendChild(summary);
+    this.waveSummaries.push(summary);
+
+    header.appendChild(this.button('Remove wave', this.waves.length <= 1, () => {
+      this.waves.splice(index, 1);
+      this.render();
+    }));
+    card.appendChild(header);
+
+    const table = document.createElement('table');
+    table.className = 'wave-groups';
+    const head = table.createTHead().insertRow();
+    for (const label of ['Enemy', ...GROUP_FIELDS.map(column => column.label), 'Spawn', '']) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      head.appendChild(cell);
+    }
+
+    const body = table.createTBody();
+    wave.groups.forEach((group, groupIndex) => {
+      const row = body.insertRow();
+
+      const enemy = document.createElement('select');
+      for (const kind of ENEMY_KINDS) {
+        enemy.add(new Option(ENEMY_KIND_LABELS[kind], kind));
+      }
+      enemy.value = group.enemy;
+      enemy.addEventListener('change', () => {
+        group.enemy = ENEMY_KINDS.find(kind => kind === enemy.value) ?? group.enemy;
+        this.refreshSummaries();
+      });
+      row.insertCell().appendChild(enemy);
+
+      for (const { field, step } of GROUP_FIELDS) {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = '0';
+        input.step = step;
+        input.value = String(group[field]);
+        // Left as NaN while the field is empty, validation names the field
+        input.addEventListener('input', () => {
+          group[field] = input.valueAsNumber;
+          this.refreshSummaries();
+        });
+        row.insertCell().appendChild(input);
+      }
+
+      // Spawn points are numbered from 1 here, and from 0 in wave files
+      const spawn = document.createElement('select');
+      spawn.add(new Option('Any', ''));
+      for (let point = 0; point < MAX_SPAWN_POINTS; point++) {
+        spawn.add(new Option(String(point + 1), String(point)));
+      }
+      spawn.value = group.spawn === undefined ? '' : String(group.spawn);
+      spawn.addEventListener('change', () => {
+        group.spawn = spawn.value === '' ? undefined : Number(spawn.value);
+      });
+      row.insertCell().appendChild(spawn);
+
+      row.insertCell().appendChild(this.button('Remove', wave.groups.length <= 1, () => {
+        wave.groups.splice(groupIndex, 1);
+        this.render();
+      }));
+    });
+    card.appendChild(table);
+
+    card.appendChild(this.button('Add group', wave.groups.length >= MAX_WAVE_GROUPS, () => {
+      wave.groups.push({ ...NEW_GROUP });
+      this.render();
+    }));
+
+    return card;
+  }
+
+  private button(label: string, disabled: boolean, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.disabled = disabled;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Update the per-wave and overall totals and the validation message
+   */
+  private refreshSummaries(): void {
+    let enemies = 0;
+    let totalHealth = 0;
+    let totalBounty = 0;
+
+    this.waves.forEach((wave, index) => {
+      const summary = summarizeWave(wave);
+      enemies += summary.enemies;
+      totalHealth += summary.totalHealth;
+      totalBounty += summary.totalBounty;
+
+      const element = this.waveSummaries[index];
+      if (element) {
+        element.textContent = `${summary.enemies} enemies, ${formatNumber(summary.totalHealth)} HP, ` +
+          `$${formatNumber(summary.totalBounty)} bounty, ${formatNumber(summary.duration)}s`;
+      }
+    });
+
+    if (this.totals) {
+      this.totals.textContent = `${this.waves.length} waves, ${enemies} enemies, ` +
+        `${formatNumber(totalHealth)} HP and $${formatNumber(totalBounty)} bounty in total`;
+    }
+
+    this.validate();
+  }
+
+  /**
+   * Check the schedule, showing the first problem found
+   * @returns The checked waves, or null if the schedule is invalid
+   */
+  private validate(): WaveDefinition[] | null {
+    try {
+      const waves = parseWaves(this.waves);
+      if (this.applyButton) this.applyButton.disabled = false;
+      this.setStatus('');
+      return waves;
+    } catch (error) {
+      if (this.applyButton) this.applyButton.disabled = true;
+      this.setStatus(error instanceof Error ? error.message : String(error), true);
+      return null;
+    }
+  }
+
+  private setStatus(message: string, isError: boolean = false): void {
+    if (!this.status) return;
+    this.status.textContent = message;
+    this.status.classList.toggle('error', isError);
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? Math.round(value).toLocaleString() : '?';
+}
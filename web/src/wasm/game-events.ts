@@ -0,0 +1,201 @@
+// Typed event channel for game lifecycle events sent from WASM
+import { ENEMY_KINDS } from '../game/enemy-types';
+import type { EnemyKind } from '../game/enemy-types';
+import type { WasmTrap } from './wasm-trap';
+
+/**
+ * Event type codes, must match EventType in src/utils/events.zig
+ */
+export enum GameEventType {
+  WaveStarted = 1,
+  WaveCleared = 2,
+  EnemyKilled = 3,
+  LifeLost = 4,
+  TowerPlaced = 5,
+  TowerRejected = 6,
+  GameOver = 7,
+  TowerUpgraded = 8,
+  TowerSold = 9,
+  EnemyDiscovered = 10
+}
+
+/**
+ * Reasons a tower placement can be rejected, indexed by PlacementResult in src/entities/tower.zig
+ */
+export type PlacementRejection =
+  | 'no-tower-selected'
+  | 'insufficient-funds'
+  | 'blocked-by-path'
+  | 'occupied'
+  | 'tower-limit'
+  | 'blocked-terrain';
+
+const PLACEMENT_REJECTIONS: Record<number, PlacementRejection> = {
+  1: 'no-tower-selected',
+  2: 'insufficient-funds',
+  3: 'blocked-by-path',
+  4: 'occupied',
+  5: 'tower-limit',
+  6: 'blocked-terrain'
+};
+
+/**
+ * Sound effect codes, must match Sound in src/utils/sounds.zig
+ */
+export enum SoundType {
+  TowerShoot = 1,
+  EnemyHit = 2,
+  EnemyExplosion = 3,
+  TowerPlaced = 4,
+  TowerRejected = 5,
+  WaveStarted = 6,
+  WaveCleared = 7,
+  Victory = 8,
+  Defeat = 9
+}
+
+/**
+ * Names of the sound effects, those the game requests and towerSelected played by the tower picker
+ */
+export type SoundName =
+  | 'towerShoot'
+  | 'enemyHit'
+  | 'enemyExplosion'
+  | 'towerPlaced'
+  | 'towerRejected'
+  | 'waveStarted'
+  | 'waveCleared'
+  | 'victory'
+  | 'defeat'
+  | 'towerSelected';
+
+const SOUND_NAMES: Record<number, SoundName> = {
+  [SoundType.TowerShoot]: 'towerShoot',
+  [SoundType.EnemyHit]: 'enemyHit',
+  [SoundType.EnemyExplosion]: 'enemyExplosion',
+  [SoundType.TowerPlaced]: 'towerPlaced',
+  [SoundType.TowerRejected]: 'towerRejected',
+  [SoundType.WaveStarted]: 'waveStarted',
+  [SoundType.WaveCleared]: 'waveCleared',
+  [SoundType.Victory]: 'victory',
+  [SoundType.Defeat]: 'defeat'
+};
+
+/**
+ * A sound effect requested by the game
+ */
+export interface SoundRequest {
+  name: SoundName;
+  x: number | null; // Position on the playfield, null for sounds that aren't placed in the world
+  y: number | null;
+  variant: number; // Tower catalog id for tower sounds, EnemyKind index for enemy sounds, 1 for boss waves
+}
+
+/**
+ * Payload of every event, keyed by event name
+ */
+export interface GameEventMap {
+  waveStarted: { wave: number; enemyCount: number; boss: boolean };
+  waveCleared: { wave: number; bonus: number };
+  enemyKilled: { x: number; y: number; bounty: number };
+  lifeLost: { livesRemaining: number };
+  towerPlaced: { x: number; y: number; towerType: number };
+  towerRejected: { x: number; y: number; reason: PlacementRejection };
+  gameOver: { victory: boolean; score: number; wave: number };
+  towerUpgraded: { x: number; y: number; level: number };
+  towerSold: { x: number; y: number; refund: number };
+  enemyDiscovered: { kind: EnemyKind; health: number; speed: number };
+  sound: SoundRequest;
+  crash: WasmTrap; // Raised by the loader when the module traps, not by the game
+}
+
+export type GameEventName = keyof GameEventMap;
+
+export const GAME_EVENT_NAMES: GameEventName[] = [
+  'waveStarted', 'waveCleared', 'enemyKilled', 'lifeLost', 'towerPlaced', 'towerRejected', 'gameOver', 'towerUpgraded',
+  'towerSold', 'enemyDiscovered', 'sound', 'crash'
+];
+
+export type GameEventListener<K extends GameEventName> = (detail: GameEventMap[K]) => void;
+
+/**
+ * Strongly-typed wrapper around EventTarget for game events
+ */
+export class GameEventBus extends EventTarget {
+  /**
+   * Subscribe to an event
+   * @returns A function that removes the listener
+   */
+  on<K extends GameEventName>(type: K, listener: GameEventListener<K>): () => void {
+    const handler = (event: Event) => listener((event as CustomEvent<GameEventMap[K]>).detail);
+    this.addEventListener(type, handler);
+    return () => this.removeEventListener(type, handler);
+  }
+
+  /**
+   * Dispatch an event to all subscribers
+   */
+  emit<K extends GameEventName>(type: K, detail: GameEventMap[K]): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  /**
+   * Decode a sound from the playSound import and dispatch it as a sound event
+   * @returns False if the sound type is unknown
+   */
+  emitSound(soundType: number, x: number, y: number, variant: number): boolean {
+    const name = SOUND_NAMES[soundType];
+    if (!name) return false;
+
+    const placed = !Number.isNaN(x) && !Number.isNaN(y);
+    this.emit('sound', { name, x: placed ? x : null, y: placed ? y : null, variant });
+    return true;
+  }
+
+  /**
+   * Decode a raw event from the emitGameEvent import and dispatch it
+   * @returns False if the event type is unknown
+   */
+  emitRaw(eventType: number, a: number, b: number, c: number): boolean {
+    switch (eventType) {
+      case GameEventType.WaveStarted:
+        this.emit('waveStarted', { wave: a, enemyCount: b, boss: c === 1 });
+        return true;
+      case GameEventType.WaveCleared:
+        this.emit('waveCleared', { wave: a, bonus: b });
+        return true;
+      case GameEventType.EnemyKilled:
+        this.emit('enemyKilled', { x: a, y: b, bounty: c });
+        return true;
+      case GameEventType.LifeLost:
+        this.emit('lifeLost', { livesRemaining: a });
+        return true;
+      case GameEventType.TowerPlaced:
+        this.emit('towerPlaced', { x: a, y: b, towerType: c });
+        return true;
+      case GameEventType.TowerRejected: {
+        const reason = PLACEMENT_REJECTIONS[c];
+        if (!reason) return false;
+        this.emit('towerRejected', { x: a, y: b, reason });
+        return true;
+      }
+      case GameEventType.GameOver:
+        this.emit('gameOver', { victory: a !== 0, score: b, wave: c });
+        return true;
+      case GameEventType.TowerUpgraded:
+        this.emit('towerUpgraded', { x: a, y: b, level: c });
+        return true;
+      case GameEventType.TowerSold:
+        this.emit('towerSold', { x: a, y: b, refund: c });
+        return true;
+      case GameEventType.EnemyDiscovered: {
+        const kind = ENEMY_KINDS[a];
+        if (!kind) return false;
+        this.emit('enemyDiscovered', { kind, health: b, speed: c });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+// Checks a compiled towerd.wasm against the ABI the frontend was generated for (see src/abi.json)
+import { ABI_VERSION, WASM_EXPORTS, WASM_IMPORTS } from './wasm-abi';
+import type { WasmExports } from './wasm-abi';
+import { WasmLoadError } from './wasm-fetch';
+
+/**
+ * Error thrown when towerd.wasm doesn't match the frontend, listing every mismatch found
+ */
+export class WasmAbiError extends WasmLoadError {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super('abi', `towerd.wasm does not match the frontend (ABI v${ABI_VERSION}), rebuild both with \`zig build\`:\n`
+      + problems.map(problem => `  - ${problem}`).join('\n'));
+    this.name = 'WasmAbiError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * List the functions a module imports that the frontend doesn't provide
+ *
+ * Run before instantiating, which would otherwise fail with a LinkError naming only the first one.
+ */
+export function findImportProblems(module: WebAssembly.Module): string[] {
+  const provided = new Set(WASM_IMPORTS.map(fn => `${fn.module}.${fn.name}`));
+  return WebAssembly.Module.imports(module)
+    .filter(entry => entry.kind === 'function' && !provided.has(`${entry.module}.${entry.name}`))
+    .map(entry => `imports ${entry.module}.${entry.name}, which the frontend does not provide`);
+}
+
+/**
+ * List the expected exports an instance is missing or declares with a different number of parameters
+ */
+export function findExportProblems(exports: WebAssembly.Exports): string[] {
+  const problems: string[] = [];
+
+  const getAbiVersion = exports.getAbiVersion;
+  if (typeof getAbiVersion !== 'function') {
+    problems.push('does not export getAbiVersion, it predates ABI versioning');
+  } else {
+    const version = (getAbiVersion as WasmExports['getAbiVersion'])();
+    if (version !== ABI_VERSION) problems.push(`reports ABI v${version}, expected v${ABI_VERSION}`);
+  }
+
+  if (!(exports.memory instanceof WebAssembly.Memory)) {
+    problems.push('does not export its memory');
+  }
+
+  for (const { name, params, debug } of WASM_EXPORTS) {
+    const fn = exports[name];
+    if (typeof fn !== 'function') {
+      // Release builds leave out the debug exports
+      if (name !== 'getAbiVersion' && !debug) problems.push(`is missing export ${name}`);
+    } else if (fn.length !== params) {
+      problems.push(`exports ${name} with ${fn.length} parameters, expected ${params}`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,212 @@
+// Generated by scripts/gen-abi.ts from src/abi.json, do not edit
+// Run `bun run abi` after changing the manifest
+//
+// Pointers are byte offsets into memory, and bool results arrive as 0 or 1.
+
+// Version of the ABI these bindings were generated for, must match getAbiVersion()
+export const ABI_VERSION = 3;
+
+/**
+ * Functions exported by towerd.wasm
+ */
+export interface WasmExports {
+  // ABI version, checked by the loader before anything else is called
+  getAbiVersion(): number;
+
+  // Game initialization
+  init(width: number, height: number): void;
+  resetGame(): void;
+
+  // Game update and interaction
+  setSeed(seed: number): void;
+  getSeed(): number;
+  update(deltaTime: number): void;
+  render(alpha: number): void;
+  pauseGame(): void;
+  resumeGame(): void;
+  stepFrame(deltaTime: number): void;
+  getGameState(): number;
+  handleClick(x: number, y: number): void;
+
+  // Tower placement and selection
+  selectTowerType(towerType: number): void;
+  canPlaceTower(x: number, y: number): number;
+  getTowerRange(): number;
+
+  // Built towers (inspect, upgrade and sell)
+  getSelectedTower(): number;
+  selectTower(id: number): void;
+  upgradeTower(id: number): void;
+  sellTower(id: number): void;
+  setTowerTargeting(id: number, mode: number): void;
+  getTowerInfoPtr(): number;
+  saveTowerInfo(id: number): number;
+
+  // Game state queries
+  getMoney(): number;
+  getLives(): number;
+  getWave(): number;
+  getNextWaveIn(): number;
+  getScore(): number;
+
+  // Draw-command buffers (layer 0 = frame, 1 = static grid and path)
+  getDrawCommandsPtr(layer: number): number;
+  getDrawCommandsLen(layer: number): number;
+  getDrawTextPtr(layer: number): number;
+  getDrawTextLen(layer: number): number;
+  getStaticLayerVersion(): number;
+
+  // Save snapshots (see src/snapshot.zig)
+  getSnapshotPtr(): number;
+  getSnapshotCapacity(): number;
+  saveSnapshot(): number;
+  loadSnapshot(len: number): number;
+
+  // Tower catalog (see src/entities/tower_catalog.zig)
+  getTowerCatalogPtr(): number;
+  getTowerCatalogCapacity(): number;
+  saveTowerCatalog(): number;
+  loadTowerCatalog(len: number): number;
+
+  // Wave script (see src/entities/wave_script.zig)
+  getWaveScriptPtr(): number;
+  getWaveScriptCapacity(): number;
+  saveWaveScript(): number;
+  loadWaveScript(len: number): number;
+  saveWavePreview(wave: number): number;
+
+  // Enemy archetypes (see src/entities/enemy_types.zig)
+  getEnemyTypesPtr(): number;
+  saveEnemyTypes(): number;
+
+  // Map (see src/entities/map.zig)
+  getMapPtr(): number;
+  getMapCapacity(): number;
+  saveMap(): number;
+  loadMap(len: number): number;
+
+  // Level rules (see src/entities/level.zig)
+  getLevelPtr(): number;
+  getLevelCapacity(): number;
+  saveLevel(): number;
+  loadLevel(len: number): number;
+
+  // Developer console and debug overlays, only exported from Debug builds
+  debugSetMoney?(amount: number): void;
+  debugSetLives?(lives: number): void;
+  debugSkipToWave?(wave: number): void;
+  debugSpawn?(kind: number, count: number): number;
+  debugKillAll?(): number;
+  debugToggleGodMode?(): number;
+  debugTeleport?(waypoint: number): number;
+  debugGetEnemyCount?(): number;
+  debugGetTowerCount?(): number;
+  debugGetProjectileCount?(): number;
+  debugGetDataPtr?(): number;
+  debugSaveData?(): number;
+
+  // Linear memory the pointers above point into
+  memory: WebAssembly.Memory;
+}
+
+/**
+ * Functions towerd.wasm imports from the page, by module
+ */
+export interface WasmImports {
+  env: {
+    // Logging (see src/utils/logger.zig)
+    consoleLog(ptr: number, len: number): void;
+
+    // Game events (see src/utils/events.zig)
+    emitGameEvent(eventType: number, a: number, b: number, c: number): void;
+
+    // Sound effects (see src/utils/sounds.zig)
+    playSound(sound: number, x: number, y: number, variant: number): void;
+  };
+}
+
+/**
+ * A function the ABI expects to find, and how many parameters it takes
+ */
+export interface AbiFunction {
+  module?: string; // Only set for imports
+  name: string;
+  params: number;
+  debug?: boolean; // Only exported from Debug builds
+}
+
+export const WASM_EXPORTS: readonly AbiFunction[] = [
+  { name: 'getAbiVersion', params: 0 },
+  { name: 'init', params: 2 },
+  { name: 'resetGame', params: 0 },
+  { name: 'setSeed', params: 1 },
+  { name: 'getSeed', params: 0 },
+  { name: 'update', params: 1 },
+  { name: 'render', params: 1 },
+  { name: 'pauseGame', params: 0 },
+  { name: 'resumeGame', params: 0 },
+  { name: 'stepFrame', params: 1 },
+  { name: 'getGameState', params: 0 },
+  { name: 'handleClick', params: 2 },
+  { name: 'selectTowerType', params: 1 },
+  { name: 'canPlaceTower', params: 2 },
+  { name: 'getTowerRange', params: 0 },
+  { name: 'getSelectedTower', params: 0 },
+  { name: 'selectTower', params: 1 },
+  { name: 'upgradeTower', params: 1 },
+  { name: 'sellTower', params: 1 },
+  { name: 'setTowerTargeting', params: 2 },
+  { name: 'getTowerInfoPtr', params: 0 },
+  { name: 'saveTowerInfo', params: 1 },
+  { name: 'getMoney', params: 0 },
+  { name: 'getLives', params: 0 },
+  { name: 'getWave', params: 0 },
+  { name: 'getNextWaveIn', params: 0 },
+  { name: 'getScore', params: 0 },
+  { name: 'getDrawCommandsPtr', params: 1 },
+  { name: 'getDrawCommandsLen', params: 1 },
+  { name: 'getDrawTextPtr', params: 1 },
+  { name: 'getDrawTextLen', params: 1 },
+  { name: 'getStaticLayerVersion', params: 0 },
+  { name: 'getSnapshotPtr', params: 0 },
+  { name: 'getSnapshotCapacity', params: 0 },
+  { name: 'saveSnapshot', params: 0 },
+  { name: 'loadSnapshot', params: 1 },
+  { name: 'getTowerCatalogPtr', params: 0 },
+  { name: 'getTowerCatalogCapacity', params: 0 },
+  { name: 'saveTowerCatalog', params: 0 },
+  { name: 'loadTowerCatalog', params: 1 },
+  { name: 'getWaveScriptPtr', params: 0 },
+  { name: 'getWaveScriptCapacity', params: 0 },
+  { name: 'saveWaveScript', params: 0 },
+  { name: 'loadWaveScript', params: 1 },
+  { name: 'saveWavePreview', params: 1 },
+  { name: 'getEnemyTypesPtr', params: 0 },
+  { name: 'saveEnemyTypes', params: 0 },
+  { name: 'getMapPtr', params: 0 },
+  { name: 'getMapCapacity', params: 0 },
+  { name: 'saveMap', params: 0 },
+  { name: 'loadMap', params: 1 },
+  { name: 'getLevelPtr', params: 0 },
+  { name: 'getLevelCapacity', params: 0 },
+  { name: 'saveLevel', params: 0 },
+  { name: 'loadLevel', params: 1 },
+  { name: 'debugSetMoney', params: 1, debug: true },
+  { name: 'debugSetLives', params: 1, debug: true },
+  { name: 'debugSkipToWave', params: 1, debug: true },
+  { name: 'debugSpawn', params: 2, debug: true },
+  { name: 'debugKillAll', params: 0, debug: true },
+  { name: 'debugToggleGodMode', params: 0, debug: true },
+  { name: 'debugTeleport', params: 1, debug: true },
+  { name: 'debugGetEnemyCount', params: 0, debug: true },
+  { name: 'debugGetTowerCount', params: 0, debug: true },
+  { name: 'debugGetProjectileCount', params: 0, debug: true },
+  { name: 'debugGetDataPtr', params: 0, debug: true },
+  { name: 'debugSaveData', params: 0, debug: true }
+];
+
+export const WASM_IMPORTS: readonly AbiFunction[] = [
+  { module: 'env', name: 'consoleLog', params: 2 },
+  { module: 'env', name: 'emitGameEvent', params: 4 },
+  { module: 'env', name: 'playSound', params: 4 }
+];
@@ -0,0 +1,170 @@
+// Downloads and compiles towerd.wasm, streaming when the server allows it and retrying failed downloads
+
+interface Logger {
+  log(message: string): void;
+  warn(message: string): void;
+}
+
+// Default location of the module, relative to index.html
+export const WASM_FILE_URL = 'towerd.wasm';
+
+// Downloads tried before giving up, and the wait before the first retry, doubled for each one after it
+const FETCH_ATTEMPTS = 4;
+const RETRY_DELAY_MS = 500;
+
+// Statuses worth retrying, everything else is an answer that won't change
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Every WebAssembly binary starts with "\0asm"
+const WASM_MAGIC = [0x00, 0x61, 0x73, 0x6d];
+
+/**
+ * Why the module could not be loaded, each kind has its own error screen
+ * - missing: the server has no module at the URL
+ * - mime: the server answered with something that isn't a WebAssembly module, e.g. an HTML page
+ * - network: the download kept failing
+ * - compile: the browser rejected the module
+ * - abi: the module was built from a different version of src/abi.json than the frontend
+ */
+export type WasmLoadErrorKind = 'missing' | 'mime' | 'network' | 'compile' | 'abi';
+
+/**
+ * Error thrown when the module can't be loaded, the message carries the technical details
+ */
+export class WasmLoadError extends Error {
+  readonly kind: WasmLoadErrorKind;
+
+  constructor(kind: WasmLoadErrorKind, message: string) {
+    super(message);
+    this.name = 'WasmLoadError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Something that happened while loading, for showing progress
+ */
+export type WasmLoadEvent =
+  | { type: 'progress'; loaded: number; total: number | null } // Bytes downloaded, total is null without a Content-Length
+  | { type: 'retry'; attempt: number; attempts: number; delay: number; reason: string }; // Delay in milliseconds
+
+export type WasmLoadListener = (event: WasmLoadEvent) => void;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wrap a response so reading its body reports download progress
+ */
+function trackProgress(response: Response, listener: WasmLoadListener): Response {
+  const body = response.body;
+  if (!body) return response;
+
+  const header = Number(response.headers.get('Content-Length'));
+  // A compressed response's Content-Length counts compressed bytes, while the stream yields decompressed ones
+  const total = header > 0 && !response.headers.get('Content-Encoding') ? header : null;
+  let loaded = 0;
+
+  const reader = body.getReader();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      listener({ type: 'progress', loaded, total });
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(stream, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Compile module bytes, turning a rejection by the browser into a WasmLoadError
+ */
+export async function compileWasm(bytes: BufferSource): Promise<WebAssembly.Module> {
+  const view = ArrayBuffer.isView(bytes)
+    ? new Uint8Array(bytes.buffer, bytes.byteOffset, Math.min(bytes.byteLength, WASM_MAGIC.length))
+    : new Uint8Array(bytes, 0, Math.min(bytes.byteLength, WASM_MAGIC.length));
+  if (view.length < WASM_MAGIC.length || WASM_MAGIC.some((byte, index) => view[index] !== byte)) {
+    throw new WasmLoadError('compile', 'The file is not a WebAssembly module');
+  }
+
+  try {
+    return await WebAssembly.compile(bytes);
+  } catch (error) {
+    throw new WasmLoadError('compile', `The module could not be compiled: ${error}`);
+  }
+}
+
+/**
+ * Compile a fetched response, streaming when the server labels it application/wasm
+ */
+async function compileResponse(url: string, response: Response, logger: Logger): Promise<WebAssembly.Module> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const isWasmType = contentType.split(';')[0].trim() === 'application/wasm';
+
+  if (isWasmType && typeof WebAssembly.compileStreaming === 'function') {
+    try {
+      return await WebAssembly.compileStreaming(response);
+    } catch (error) {
+      if (error instanceof WebAssembly.CompileError) {
+        throw new WasmLoadError('compile', `The module could not be compiled: ${error}`);
+      }
+      throw error;
+    }
+  }
+
+  if (!isWasmType) {
+    logger.warn(`${url} was served as "${contentType || 'no type'}" instead of application/wasm, compiling without streaming`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (!isWasmType && WASM_MAGIC.some((byte, index) => bytes[index] !== byte)) {
+    throw new WasmLoadError('mime', `${url} was served as "${contentType || 'no type'}" and is not a WebAssembly module`);
+  }
+  return compileWasm(bytes);
+}
+
+/**
+ * Download and compile the module, retrying with backoff while the download fails
+ * @param listener Told about download progress and retries
+ */
+export async function fetchWasm(url: string, logger: Logger, listener?: WasmLoadListener): Promise<WebAssembly.Module> {
+  for (let attempt = 1; ; attempt++) {
+    let reason: string;
+    try {
+      const response = await fetch(url);
+      if (response.status === 404 || response.status === 410) {
+        throw new WasmLoadError('missing', `${url} was not found (HTTP ${response.status})`);
+      }
+      if (response.ok) {
+        return await compileResponse(url, listener ? trackProgress(response, listener) : response, logger);
+      }
+      if (!RETRY_STATUSES.includes(response.status)) {
+        throw new WasmLoadError('network', `${url} could not be downloaded (HTTP ${response.status})`);
+      }
+      reason = `HTTP ${response.status}`;
+    } catch (error) {
+      if (error instanceof WasmLoadError) throw error;
+      // fetch and body reads reject with a TypeError when the connection fails
+      reason = String(error);
+    }
+
+    if (attempt >= FETCH_ATTEMPTS) {
+      throw new WasmLoadError('network', `${url} could not be downloaded after ${attempt} attempts: ${reason}`);
+    }
+
+    const wait = RETRY_DELAY_MS * 2 ** (attempt - 1);
+    logger.warn(`Downloading ${url} failed (${reason}), retrying in ${wait} ms`);
+    listener?.({ type: 'retry', attempt: attempt + 1, attempts: FETCH_ATTEMPTS, delay: wait, reason });
+    await delay(wait);
+  }
+}
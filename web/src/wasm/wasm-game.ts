@@ -0,0 +1,106 @@
+// Interface to the game simulation, implemented on the main thread by WasmLoader
+// and in worker mode by WasmWorkerClient
+import type { GameEventBus } from './game-events';
+import type { GameStats } from './wasm-loader';
+import type { InputRecorder } from '../game/input-recorder';
+import type { ReplayAction } from '../game/replay-file';
+import type { DebugCommand, EntityCounts } from '../game/dev-commands';
+import type { GameState } from '../game/game-state';
+import type { TowerInfo } from '../game/tower-info';
+import type { TowerTargeting } from '../game/tower-catalog';
+import type { WaveDefinition } from '../game/wave-script';
+import type { MapOverlay } from '../renderer/map-overlay';
+import type { DebugOverlay } from '../renderer/debug-overlay';
+
+/**
+ * Grid cell the tower placement preview is drawn at, negative when the pointer is off the canvas
+ */
+export interface HoverPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Built tower outlined on top of the frame, with its range
+ */
+export interface TowerHighlight {
+  x: number;
+  y: number;
+  range: number;
+}
+
+export interface WasmGame {
+  readonly events: GameEventBus;
+
+  isLoaded(): boolean;
+  initializeGame(width: number, height: number): Promise<void>;
+
+  /**
+   * Replace the WASM instance with a fresh one, after a crash event its memory can't be trusted
+   * The game has to be initialized again afterwards
+   */
+  restart(): Promise<void>;
+
+  resetGame(): Promise<void>;
+  updateGame(deltaTime: number): Promise<void>;
+  pauseGame(): Promise<void>;
+  resumeGame(): Promise<void>;
+  stepFrame(deltaTime: number): Promise<void>;
+  handleClick(x: number, y: number): Promise<void>;
+  selectTowerType(towerType: number): Promise<void>;
+
+  getGameState(): Promise<GameState>;
+  getGameStats(): Promise<GameStats>;
+  canPlaceTower(x: number, y: number): Promise<boolean>;
+  getTowerRange(): Promise<number>;
+  getNextWaveIn(): Promise<number | null>;
+  getWavePreview(wave: number): Promise<WaveDefinition | null>;
+
+  getSelectedTower(): Promise<TowerInfo | null>;
+  selectTower(id: number): Promise<void>;
+  upgradeTower(id: number): Promise<void>;
+  sellTower(id: number): Promise<void>;
+  setTowerTargeting(id: number, targeting: TowerTargeting): Promise<void>;
+
+  setSeed(seed: number): Promise<void>;
+  getSeed(): Promise<number>;
+  setInputRecorder(recorder: InputRecorder | null): void;
+  setInputLocked(locked: boolean): void;
+  applyInput(action: ReplayAction, deltaTime?: number): Promise<void>;
+
+  /**
+   * Developer console commands, backed by exports only Debug builds of the module have
+   * runDebugCommand rejects on a release build, getEntityCounts resolves to null
+   */
+  hasDebugCommands(): Promise<boolean>;
+  runDebugCommand(command: DebugCommand): Promise<number>;
+  getEntityCounts(): Promise<EntityCounts | null>;
+
+  /**
+   * Record and draw the current frame
+   * @param alpha Fraction of the next update already elapsed, moving entities are interpolated by it
+   * @param hover Where to draw the tower placement preview
+   * @param highlight Built tower to outline, usually the one selected
+   * @param mapOverlay Map being edited, drawn over the playfield
+   * @param debugOverlay Debug overlays switched on, drawn over everything else
+   */
+  renderFrame(
+    alpha?: number,
+    hover?: HoverPosition | null,
+    highlight?: TowerHighlight | null,
+    mapOverlay?: MapOverlay | null,
+    debugOverlay?: DebugOverlay | null
+  ): Promise<void>;
+
+  exportSnapshot(): Promise<Uint8Array | null>;
+  importSnapshot(bytes: Uint8Array): Promise<number>;
+  exportTowerCatalog(): Promise<Uint8Array | null>;
+  importTowerCatalog(bytes: Uint8Array): Promise<number>;
+  exportWaveScript(): Promise<Uint8Array | null>;
+  importWaveScript(bytes: Uint8Array): Promise<number>;
+  exportEnemyTypes(): Promise<Uint8Array | null>;
+  exportMap(): Promise<Uint8Array | null>;
+  importMap(bytes: Uint8Array): Promise<number>;
+  exportLevel(): Promise<Uint8Array | null>;
+  importLevel(bytes: Uint8Array): Promise<number>;
+}
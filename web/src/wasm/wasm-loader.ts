@@ -1,17 +1,65 @@
 // TypeScript implementation of the WASM loader
-import type { WasmModule } from "../../types/wasm.d.ts";
+import type { WasmExports, WasmImports } from "./wasm-abi";
+import { WasmAbiError, findExportProblems, findImportProblems } from "./wasm-abi-check";
+import { WASM_FILE_URL, compileWasm, fetchWasm } from "./wasm-fetch";
+import type { WasmLoadListener } from "./wasm-fetch";
+import { guardExports } from "./wasm-trap";
+import { GameEventBus } from "./game-events";
+import { DrawLayer } from "../renderer/command-buffer-renderer";
+import type { CommandBufferRenderer, DrawCommandList } from "../renderer/command-buffer-renderer";
+import type { InputRecorder } from "../game/input-recorder";
+import type { ReplayAction } from "../game/replay-file";
+import type { DebugCommand, EntityCounts } from "../game/dev-commands";
+import { ENEMY_KINDS } from "../game/enemy-types";
+import { GameState, isGameState } from "../game/game-state";
+import type { HoverPosition, TowerHighlight, WasmGame } from "./wasm-game";
+import { decodeTowerInfo } from "../game/tower-info";
+import type { TowerInfo } from "../game/tower-info";
+import { TOWER_TARGETINGS } from "../game/tower-catalog";
+import type { TowerTargeting } from "../game/tower-catalog";
+import { decodeWave } from "../game/wave-script";
+import type { WaveDefinition } from "../game/wave-script";
+import { drawMapOverlay } from "../renderer/map-overlay";
+import type { MapOverlay } from "../renderer/map-overlay";
+import { drawDebugOverlay } from "../renderer/debug-overlay";
+import type { DebugOverlay } from "../renderer/debug-overlay";
+import { decodeDebugData } from "../game/debug-data";
+import type { DebugData } from "../game/debug-data";
 
 // Define logger type for compatibility
 interface Logger {
   log(message: string): void;
   error(message: string): void;
   warn(message: string): void;
+  debug?(message: string): void;
+  game?(message: string): void;
 }
 
-export class WasmLoader {
-  private wasmModule: WasmModule | null = null;
+// Prefixes added by the helpers in src/utils/logger.zig
+const WASM_LOG_PREFIXES: { prefix: string, level: 'error' | 'debug' | 'game' }[] = [
+  { prefix: 'ERROR: ', level: 'error' },
+  { prefix: 'DEBUG: ', level: 'debug' },
+  { prefix: 'GAME: ', level: 'game' }
+];
+
+// Snapshot of the values shown in the HUD
+export interface GameStats {
+  money: number;
+  lives: number;
+  wave: number;
+  score: number;
+}
+
+export class WasmLoader implements WasmGame {
+  public readonly events: GameEventBus = new GameEventBus();
+  private wasmModule: WasmExports | null = null;
+  private compiled: WebAssembly.Module | null = null; // Kept to start a fresh instance after a trap
   private logger: Logger;
   private gameApp: any; // Reference to the main game application
+  private textDecoder: TextDecoder = new TextDecoder('utf-8');
+  private inputRecorder: InputRecorder | null = null;
+  private inputLocked: boolean = false; // Player input is ignored while a replay drives the game
+  private renderer: CommandBufferRenderer | null = null;
 
   constructor(gameApp: any, logger?: Logger) {
     this.gameApp = gameApp;
@@ -26,161 +74,165 @@ export class WasmLoader {
     return this.wasmModule !== null;
   }
 
+  /**
+   * Decode a UTF-8 string from WASM linear memory
+   * @param ptr Byte offset of the string
+   * @param len Length of the string in bytes
+   * @returns The decoded string, or null if memory is not available or the range is invalid
+   */
+  private readString(ptr: number, len: number): string | null {
+    if (!this.wasmModule || !this.wasmModule.memory) return null;
+
+    const buffer = this.wasmModule.memory.buffer;
+    if (ptr < 0 || len < 0 || ptr + len > buffer.byteLength) return null;
+
+    return this.textDecoder.decode(new Uint8Array(buffer, ptr, len));
+  }
+
+  /**
+   * Route a message from the Zig logger to the matching log level
+   * @param message Decoded message, possibly carrying an ERROR:/DEBUG:/GAME: prefix
+   */
+  private routeWasmLog(message: string): void {
+    for (const { prefix, level } of WASM_LOG_PREFIXES) {
+      if (!message.startsWith(prefix)) continue;
+
+      const text = `[WASM] ${message.slice(prefix.length)}`;
+      switch (level) {
+        case 'error':
+          this.logger.error(text);
+          return;
+        case 'debug':
+          (this.logger.debug ?? this.logger.log).call(this.logger, text);
+          return;
+        case 'game':
+          (this.logger.game ?? this.logger.log).call(this.logger, text);
+          return;
+      }
+    }
+
+    this.logger.log(`[WASM] ${message}`);
+  }
+
   /**
    * Load and instantiate the WebAssembly module
+   * @param url Location of towerd.wasm, workers pass an absolute URL since they resolve relative to their script
+   * @param listener Told about download progress and retries
    * @returns Promise resolving to the initialized WASM module
+   * @throws WasmLoadError describing why the module could not be loaded
    */
-  async loadWasm(): Promise<WasmModule> {
+  async loadWasm(url: string = WASM_FILE_URL, listener?: WasmLoadListener): Promise<WasmExports> {
     if (this.wasmModule) return this.wasmModule;
     
     try {
-      this.logger.log("Loading WASM module...");
+      this.logger.log(`Loading WASM module from ${url}...`);
       
-      // Define JavaScript functions that will be called from Zig
-      const importObject = {
-        env: {
-          // Example of a logging function that can be called from Zig
-          consoleLog: (ptr: number, len: number) => {
-            // Implementation would depend on how strings are passed from Zig
-            // This is a placeholder
-            this.logger.log(`[WASM] Log message from ptr ${ptr}, len: ${len}`);
-          },
-          // Audio functions called from Zig
-          playLevelCompleteSound: () => {
-            this.logger.log("Playing level complete sound");
-            this.gameApp.audio.playSound('levelComplete');
-          },
-          playLevelFailSound: () => {
-            this.logger.log("Playing level fail sound");
-            this.gameApp.audio.playSound('levelFail');
-          },
-          playTowerShootSound: () => {
-            this.logger.log("Playing tower shoot sound");
-            this.gameApp.audio.playSound('towerShoot');
-          },
-          playEnemyExplosionSound: () => {
-            this.logger.log("Playing enemy explosion sound");
-            this.gameApp.audio.playSound('enemyExplosion');
-          },
-          playEnemyHitSound: () => {
-            this.logger.log("Playing enemy hit sound");
-            this.gameApp.audio.playSound('enemyHit');
-          },
-          // Canvas rendering functions
-          clearCanvas: () => {
-            const ctx = this.gameApp.canvas.getContext();
-            const { width, height } = this.gameApp.canvas.getDimensions();
-            if (ctx) {
-              ctx.clearRect(0, 0, width, height);
-            }
-          },
-          drawRect: (x: number, y: number, width: number, height: number, r: number, g: number, b: number) => {
-            const ctx = this.gameApp.canvas.getContext();
-            if (ctx) {
-              ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-              ctx.fillRect(x, y, width, height);
-            }
-          },
-          drawCircle: (x: number, y: number, radius: number, r: number, g: number, b: number, fill: boolean) => {
-            const ctx = this.gameApp.canvas.getContext();
-            if (ctx) {
-              ctx.beginPath();
-              ctx.arc(x, y, radius, 0, Math.PI * 2);
-              if (fill) {
-                ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-                ctx.fill();
-              } else {
-                ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-                ctx.stroke();
-              }
-            }
-          },
-          drawLine: (x1: number, y1: number, x2: number, y2: number, thickness: number, r: number, g: number, b: number) => {
-            const ctx = this.gameApp.canvas.getContext();
-            if (ctx) {
-              ctx.beginPath();
-              ctx.moveTo(x1, y1);
-              ctx.lineTo(x2, y2);
-              ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-              ctx.lineWidth = thickness;
-              ctx.stroke();
-            }
-          },
-          drawTriangle: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, r: number, g: number, b: number, fill: boolean) => {
-            const ctx = this.gameApp.canvas.getContext();
-            if (ctx) {
-              ctx.beginPath();
-              ctx.moveTo(x1, y1);
-              ctx.lineTo(x2, y2);
-              ctx.lineTo(x3, y3);
-              ctx.closePath();
-              if (fill) {
-                ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-                ctx.fill();
-              } else {
-                ctx.strokeStyle = `rgb(${r}, ${g}, ${b})`;
-                ctx.stroke();
-              }
-            }
-          },
-          drawText: (x: number, y: number, text_ptr: number, text_len: number, size: number, r: number, g: number, b: number) => {
-            const ctx = this.gameApp.canvas.getContext();
-            if (!ctx) return;
-            
-            try {
-              // We need to wait until the WASM module is instantiated to access memory
-              if (!this.wasmModule || !this.wasmModule.memory) {
-                // Draw a placeholder rectangle until WASM is fully loaded
-                ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-                ctx.fillRect(x, y - size, size * 5, size);
-                return;
-              }
-              
-              // Create a view into the WebAssembly memory
-              const memoryView = new Uint8Array(this.wasmModule.memory.buffer);
-              
-              // Extract the text from memory
-              const textBytes = memoryView.slice(text_ptr, text_ptr + text_len);
-              const text = new TextDecoder().decode(textBytes);
-              
-              // Draw the text
-              ctx.font = `${size}px sans-serif`;
-              ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-              ctx.fillText(text, x, y);
-            } catch (error) {
-              this.logger.error(`Error drawing text: ${error}`);
-              
-              // Fallback to drawing a placeholder rectangle
-              ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-              ctx.fillRect(x, y - size, size * 5, size);
-            }
-          }
-        }
-      };
-      
-      // Fetch and instantiate the WASM module
-      const response = await fetch('towerd.wasm');
-      const bytes = await response.arrayBuffer();
-      const { instance } = await WebAssembly.instantiate(bytes, importObject);
-      
-      // Cast the exports to our WasmModule interface
-      this.wasmModule = instance.exports as unknown as WasmModule;
-      
-      // Verify that memory is accessible
-      if (!this.wasmModule.memory) {
-        this.logger.warn("WebAssembly memory not exported. Text rendering may not work correctly.");
-      } else {
-        this.logger.log("WebAssembly memory initialized successfully");
-      }
-      
-      this.logger.log("WASM module loaded successfully");
-      return this.wasmModule;
+      // Fetch, compile and instantiate the WASM module
+      const module = await fetchWasm(url, this.logger, listener);
+      return this.link(module);
     } catch (error) {
       this.logger.error(`Failed to load WASM module: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Instantiate the WebAssembly module from already loaded bytes
+   *
+   * Lets the game run outside the browser (e.g. under Node or Bun with the headless backend).
+   * @param bytes Contents of towerd.wasm
+   * @returns Promise resolving to the initialized WASM module
+   */
+  async instantiate(bytes: BufferSource): Promise<WasmExports> {
+    if (this.wasmModule) return this.wasmModule;
+    
+    return this.link(await compileWasm(bytes));
+  }
+
+  /**
+   * Instantiate a compiled module with the imports it calls back into
+   */
+  private async link(module: WebAssembly.Module): Promise<WasmExports> {
+    // Check the module needs nothing the page doesn't provide before linking it
+    const importProblems = findImportProblems(module);
+    if (importProblems.length > 0) throw new WasmAbiError(importProblems);
+
+    // Define JavaScript functions that will be called from Zig
+    const importObject: WasmImports = {
+      env: {
+        // Logging function called from src/utils/logger.zig
+        consoleLog: (ptr: number, len: number) => {
+          const message = this.readString(ptr, len);
+          if (message === null) {
+            this.logger.warn(`[WASM] Unreadable log message (ptr ${ptr}, len ${len})`);
+            return;
+          }
+          this.routeWasmLog(message);
+        },
+        // Game lifecycle events called from src/utils/events.zig
+        emitGameEvent: (eventType: number, a: number, b: number, c: number) => {
+          if (!this.events.emitRaw(eventType, a, b, c)) {
+            this.logger.warn(`[WASM] Unknown game event type: ${eventType}`);
+          }
+        },
+        // Sound effects called from src/utils/sounds.zig, forwarded as sound events
+        playSound: (soundType: number, x: number, y: number, variant: number) => {
+          if (!this.events.emitSound(soundType, x, y, variant)) {
+            this.logger.warn(`[WASM] Unknown sound type: ${soundType}`);
+          }
+        }
+      }
+    };
+    
+    const instance = await WebAssembly.instantiate(module, importObject as unknown as WebAssembly.Imports);
+
+    // Every export the frontend calls must be there with the expected signature, and the ABI version must match
+    const exportProblems = findExportProblems(instance.exports);
+    if (exportProblems.length > 0) throw new WasmAbiError(exportProblems);
+    this.compiled = module;
+
+    // A trap leaves the instance in an unknown state, so calls after one fail until restart() replaces it
+    const exports = instance.exports as unknown as WasmExports;
+    this.wasmModule = guardExports(exports, (call, error) => this.handleTrap(exports, call, error));
+    
+    this.logger.log(`WASM module loaded successfully (ABI v${this.wasmModule.getAbiVersion()})`);
+    return this.wasmModule;
+  }
+
+  /**
+   * Report a trap as a crash event, with a snapshot of the game if the instance can still write one
+   */
+  private handleTrap(exports: WasmExports, call: string, error: Error): void {
+    this.logger.error(`[WASM] Trap in ${call}: ${error.message}`);
+
+    let snapshot: Uint8Array | null = null;
+    try {
+      const length = exports.saveSnapshot();
+      if (length > 0) snapshot = new Uint8Array(exports.memory.buffer, exports.getSnapshotPtr(), length).slice();
+    } catch (snapshotError) {
+      this.logger.warn(`No snapshot could be taken after the trap: ${snapshotError}`);
+    }
+
+    this.events.emit('crash', { call, message: error.message, stack: error.stack ?? null, snapshot });
+  }
+
+  /**
+   * Replace the instance with a fresh one from the already compiled module, discarding its memory
+   *
+   * Used to recover from a trap, the game has to be initialized again afterwards.
+   */
+  async restart(): Promise<void> {
+    const module = this.compiled;
+    if (!module) {
+      throw new Error('WASM module has not been loaded');
+    }
+
+    this.wasmModule = null;
+    await this.link(module);
+    this.renderer?.invalidateStaticLayer();
+    this.logger.log('WASM module restarted');
+  }
+
   /**
    * Initialize the WASM module with the canvas dimensions
    * @param width Canvas width
@@ -196,27 +248,278 @@ export class WasmLoader {
    * Reset the game state
    */
   async resetGame(): Promise<void> {
+    if (this.inputLocked) return;
     const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'reset' });
     wasm.resetGame();
     this.logger.log("Game reset");
   }
 
   /**
-   * Update the game state
-   * @param deltaTime Time elapsed since the last frame in seconds
+   * Advance the simulation by one step
+   * @param deltaTime Length of the step in seconds
    */
   async updateGame(deltaTime: number): Promise<void> {
     const wasm = await this.loadWasm();
+    this.inputRecorder?.recordFrame(deltaTime);
     wasm.update(deltaTime);
   }
 
+  /**
+   * Pause the game if it is being played
+   */
+  async pauseGame(): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'pause' });
+    wasm.pauseGame();
+  }
+
+  /**
+   * Resume a paused game
+   */
+  async resumeGame(): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'resume' });
+    wasm.resumeGame();
+  }
+
+  /**
+   * Advance a paused game by a single step
+   * @param deltaTime Length of the step in seconds
+   */
+  async stepFrame(deltaTime: number): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'step' }, deltaTime);
+    wasm.stepFrame(deltaTime);
+  }
+
+  /**
+   * Get the state of the game's state machine
+   * @returns The current state, Menu if the module reports an unknown value
+   */
+  async getGameState(): Promise<GameState> {
+    const wasm = await this.loadWasm();
+    const state = wasm.getGameState();
+    return isGameState(state) ? state : GameState.Menu;
+  }
+
+  /**
+   * Seed the simulation RNG, takes effect from the next reset
+   * @param seed 32-bit seed
+   */
+  async setSeed(seed: number): Promise<void> {
+    const wasm = await this.loadWasm();
+    wasm.setSeed(seed >>> 0);
+  }
+
+  /**
+   * Get the seed the simulation RNG restarts from on reset
+   */
+  async getSeed(): Promise<number> {
+    const wasm = await this.loadWasm();
+    return wasm.getSeed();
+  }
+
+  /**
+   * Record player inputs and updates with a recorder, or stop recording with null
+   */
+  setInputRecorder(recorder: InputRecorder | null): void {
+    this.inputRecorder = recorder;
+  }
+
+  /**
+   * Ignore player input, used while a replay drives the game
+   */
+  setInputLocked(locked: boolean): void {
+    this.inputLocked = locked;
+  }
+
+  /**
+   * Apply a recorded input directly, bypassing the input lock and recorder
+   * @param action The input to apply
+   * @param deltaTime Time step recorded with the input, used by step inputs
+   */
+  async applyInput(action: ReplayAction, deltaTime: number = 0): Promise<void> {
+    const wasm = await this.loadWasm();
+    switch (action.type) {
+      case 'click':
+        wasm.handleClick(action.x, action.y);
+        break;
+      case 'selectTower':
+        wasm.selectTowerType(action.towerType);
+        break;
+      case 'reset':
+        wasm.resetGame();
+        break;
+      case 'pause':
+        wasm.pauseGame();
+        break;
+      case 'resume':
+        wasm.resumeGame();
+        break;
+      case 'step':
+        wasm.stepFrame(deltaTime);
+        break;
+      case 'upgradeTower':
+        wasm.upgradeTower(action.towerId);
+        break;
+      case 'sellTower':
+        wasm.sellTower(action.towerId);
+        break;
+      case 'setTargeting':
+        wasm.setTowerTargeting(action.towerId, TOWER_TARGETINGS.indexOf(action.targeting));
+        break;
+    }
+  }
+
+  /**
+   * Check whether the module has the debug exports the developer console runs on, only Debug builds do
+   */
+  async hasDebugCommands(): Promise<boolean> {
+    const wasm = await this.loadWasm();
+    return typeof wasm.debugSetMoney === 'function';
+  }
+
+  /**
+   * Run a developer console command on the module's debug exports
+   * @returns Enemies spawned, killed or moved, 1 if god mode was turned on, 0 for the other commands
+   * @throws Error if the module is a release build without debug exports
+   */
+  async runDebugCommand(command: DebugCommand): Promise<number> {
+    const wasm = await this.loadWasm();
+    if (typeof wasm.debugSetMoney !== 'function') {
+      throw new Error('Developer console commands need a Debug build of the game module');
+    }
+
+    // The debug exports are built together, so having one means having them all
+    const debug = wasm as Required<WasmExports>;
+    switch (command.type) {
+      case 'money':
+        debug.debugSetMoney(command.amount);
+        return 0;
+      case 'lives':
+        debug.debugSetLives(command.lives);
+        return 0;
+      case 'wave':
+        debug.debugSkipToWave(command.wave);
+        return 0;
+      case 'spawn':
+        return debug.debugSpawn(ENEMY_KINDS.indexOf(command.kind), command.count);
+      case 'kill':
+        return debug.debugKillAll();
+      case 'god':
+        return debug.debugToggleGodMode();
+      case 'tp':
+        return debug.debugTeleport(command.waypoint);
+    }
+  }
+
+  /**
+   * Count the entities alive in the module
+   * @returns The counts, or null on a release build without debug exports
+   */
+  async getEntityCounts(): Promise<EntityCounts | null> {
+    const wasm = await this.loadWasm();
+    if (!wasm.debugGetEnemyCount || !wasm.debugGetTowerCount || !wasm.debugGetProjectileCount) return null;
+    return {
+      enemies: wasm.debugGetEnemyCount(),
+      towers: wasm.debugGetTowerCount(),
+      projectiles: wasm.debugGetProjectileCount()
+    };
+  }
+
+  /**
+   * Set the renderer frames are drawn with
+   * @param renderer Renderer that replays the command buffers
+   */
+  setRenderer(renderer: CommandBufferRenderer | null): void {
+    this.renderer = renderer;
+  }
+
+  /**
+   * Record and draw the current frame, does nothing until a renderer is set
+   * @param alpha Fraction of the next update already elapsed, moving entities are interpolated by it
+   * @param hover Where to draw the tower placement preview
+   * @param highlight Built tower to outline, usually the one selected
+   * @param mapOverlay Map being edited, drawn over the playfield in place of the tower preview, highlight and debug overlays
+   * @param debugOverlay Debug overlays switched on, drawn over everything else
+   */
+  async renderFrame(
+    alpha: number = 1,
+    hover: HoverPosition | null = null,
+    highlight: TowerHighlight | null = null,
+    mapOverlay: MapOverlay | null = null,
+    debugOverlay: DebugOverlay | null = null
+  ): Promise<void> {
+    const wasm = await this.loadWasm();
+    const renderer = this.renderer;
+    if (!renderer) return;
+
+    wasm.render(alpha);
+    renderer.render(
+      this.readDrawCommands(wasm, DrawLayer.Frame),
+      this.readDrawCommands(wasm, DrawLayer.Static),
+      wasm.getStaticLayerVersion()
+    );
+
+    if (mapOverlay) {
+      drawMapOverlay(renderer.getBackend(), mapOverlay);
+      return;
+    }
+
+    // Draw the selected tower highlight and the tower placement preview on top of the frame
+    if (highlight) {
+      renderer.getBackend().highlight(highlight.x, highlight.y, highlight.range);
+    }
+    if (hover && hover.x >= 0 && hover.y >= 0) {
+      renderer.getBackend().preview(hover.x, hover.y, wasm.canPlaceTower(hover.x, hover.y) !== 0, wasm.getTowerRange());
+    }
+    if (debugOverlay) {
+      drawDebugOverlay(renderer.getBackend(), debugOverlay, this.readDebugData(wasm), alpha);
+    }
+  }
+
+  /**
+   * Read what the debug overlays draw from the module
+   * @returns The data, or null on a release build without debug exports
+   */
+  private readDebugData(wasm: WasmExports): DebugData | null {
+    if (!wasm.debugSaveData || !wasm.debugGetDataPtr) return null;
+
+    const length = wasm.debugSaveData();
+    if (length === 0) return null;
+    return decodeDebugData(new Uint8Array(wasm.memory.buffer, wasm.debugGetDataPtr(), length));
+  }
+
+  /**
+   * Create views over a layer's draw-command buffer in WASM memory
+   * @param wasm The loaded WASM module
+   * @param layer The layer to read
+   * @returns Views over the command words and text bytes
+   */
+  private readDrawCommands(wasm: WasmExports, layer: DrawLayer): DrawCommandList {
+    const buffer = wasm.memory.buffer;
+    const wordsPtr = wasm.getDrawCommandsPtr(layer);
+    const wordsLen = wasm.getDrawCommandsLen(layer);
+    return {
+      words: new Uint32Array(buffer, wordsPtr, wordsLen),
+      floats: new Float32Array(buffer, wordsPtr, wordsLen),
+      text: new Uint8Array(buffer, wasm.getDrawTextPtr(layer), wasm.getDrawTextLen(layer))
+    };
+  }
+
   /**
    * Handle mouse click at the specified coordinates
    * @param x X coordinate
    * @param y Y coordinate
    */
   async handleClick(x: number, y: number): Promise<void> {
+    if (this.inputLocked) return;
     const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'click', x, y });
     wasm.handleClick(x, y);
   }
 
@@ -225,7 +528,9 @@ export class WasmLoader {
    * @param towerType Tower type identifier
    */
   async selectTowerType(towerType: number): Promise<void> {
+    if (this.inputLocked) return;
     const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'selectTower', towerType });
     wasm.selectTowerType(towerType);
   }
 
@@ -237,7 +542,7 @@ export class WasmLoader {
    */
   async canPlaceTower(x: number, y: number): Promise<boolean> {
     const wasm = await this.loadWasm();
-    return wasm.canPlaceTower(x, y);
+    return wasm.canPlaceTower(x, y) !== 0;
   }
 
   /**
@@ -248,4 +553,271 @@ export class WasmLoader {
     const wasm = await this.loadWasm();
     return wasm.getTowerRange();
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the time left before the next wave starts
+   * @returns Seconds until the next wave, or null while a wave is under way or the game isn't running
+   */
+  async getNextWaveIn(): Promise<number | null> {
+    const wasm = await this.loadWasm();
+    const seconds = wasm.getNextWaveIn();
+    return seconds < 0 ? null : seconds;
+  }
+
+  /**
+   * Get a wave as it will be played, including the scaling applied past the end of the wave script
+   * @param wave Wave number, starting at 1
+   * @returns The wave, or null if it could not be serialized
+   */
+  async getWavePreview(wave: number): Promise<WaveDefinition | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveWavePreview(wave);
+    if (length === 0) return null;
+    return decodeWave(new Uint8Array(wasm.memory.buffer, wasm.getWaveScriptPtr(), length));
+  }
+
+  /**
+   * Get the stats of the tower shown in the tower panel
+   * @returns The tower's stats, or null if no tower is selected
+   */
+  async getSelectedTower(): Promise<TowerInfo | null> {
+    const wasm = await this.loadWasm();
+    const id = wasm.getSelectedTower();
+    if (id === 0) return null;
+
+    const length = wasm.saveTowerInfo(id);
+    if (length === 0) return null;
+    return decodeTowerInfo(new Uint8Array(wasm.memory.buffer, wasm.getTowerInfoPtr(), length));
+  }
+
+  /**
+   * Show a built tower in the tower panel
+   * @param id Tower id, 0 clears the selection
+   */
+  async selectTower(id: number): Promise<void> {
+    const wasm = await this.loadWasm();
+    wasm.selectTower(id);
+  }
+
+  /**
+   * Upgrade a built tower to its next level
+   * @param id Tower id
+   */
+  async upgradeTower(id: number): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'upgradeTower', towerId: id });
+    wasm.upgradeTower(id);
+  }
+
+  /**
+   * Sell a built tower for part of the money spent on it
+   * @param id Tower id
+   */
+  async sellTower(id: number): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'sellTower', towerId: id });
+    wasm.sellTower(id);
+  }
+
+  /**
+   * Change which enemies a built tower shoots at first
+   * @param id Tower id
+   * @param targeting The new targeting mode
+   */
+  async setTowerTargeting(id: number, targeting: TowerTargeting): Promise<void> {
+    if (this.inputLocked) return;
+    const wasm = await this.loadWasm();
+    this.inputRecorder?.record({ type: 'setTargeting', towerId: id, targeting });
+    wasm.setTowerTargeting(id, TOWER_TARGETINGS.indexOf(targeting));
+  }
+
+  /**
+   * Get the player's current money
+   * @returns The money value
+   */
+  async getMoney(): Promise<number> {
+    const wasm = await this.loadWasm();
+    return wasm.getMoney();
+  }
+
+  /**
+   * Get the player's remaining lives
+   * @returns The number of lives
+   */
+  async getLives(): Promise<number> {
+    const wasm = await this.loadWasm();
+    return wasm.getLives();
+  }
+
+  /**
+   * Get the current wave number
+   * @returns The wave number (0 before the first wave)
+   */
+  async getWave(): Promise<number> {
+    const wasm = await this.loadWasm();
+    return wasm.getWave();
+  }
+
+  /**
+   * Get the player's current score
+   * @returns The score value
+   */
+  async getScore(): Promise<number> {
+    const wasm = await this.loadWasm();
+    return wasm.getScore();
+  }
+
+  /**
+   * Get all HUD values in a single call
+   * @returns The current money, lives, wave and score
+   */
+  async getGameStats(): Promise<GameStats> {
+    const wasm = await this.loadWasm();
+    return {
+      money: wasm.getMoney(),
+      lives: wasm.getLives(),
+      wave: wasm.getWave(),
+      score: wasm.getScore()
+    };
+  }
+
+  /**
+   * Serialize the full game state
+   * @returns A copy of the snapshot bytes, or null if the game could not be serialized
+   */
+  async exportSnapshot(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveSnapshot();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getSnapshotPtr(), length).slice();
+  }
+
+  /**
+   * Restore the game state from a snapshot
+   * @param bytes Snapshot produced by exportSnapshot
+   * @returns 0 on success, otherwise the status code the WASM module rejected the snapshot with
+   */
+  async importSnapshot(bytes: Uint8Array): Promise<number> {
+    const wasm = await this.loadWasm();
+    // Oversized snapshots are not copied, the module rejects them by length
+    if (bytes.length <= wasm.getSnapshotCapacity()) {
+      new Uint8Array(wasm.memory.buffer, wasm.getSnapshotPtr(), bytes.length).set(bytes);
+    }
+    return wasm.loadSnapshot(bytes.length);
+  }
+
+  /**
+   * Serialize the tower catalog
+   * @returns A copy of the catalog bytes, or null if the catalog could not be serialized
+   */
+  async exportTowerCatalog(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveTowerCatalog();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getTowerCatalogPtr(), length).slice();
+  }
+
+  /**
+   * Replace the tower catalog
+   * @param bytes Catalog in the format produced by exportTowerCatalog
+   * @returns 0 on success, otherwise the status code the WASM module rejected the catalog with
+   */
+  async importTowerCatalog(bytes: Uint8Array): Promise<number> {
+    const wasm = await this.loadWasm();
+    if (bytes.length <= wasm.getTowerCatalogCapacity()) {
+      new Uint8Array(wasm.memory.buffer, wasm.getTowerCatalogPtr(), bytes.length).set(bytes);
+    }
+    return wasm.loadTowerCatalog(bytes.length);
+  }
+
+  /**
+   * Serialize the wave script
+   * @returns A copy of the script bytes, or null if the script could not be serialized
+   */
+  async exportWaveScript(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveWaveScript();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getWaveScriptPtr(), length).slice();
+  }
+
+  /**
+   * Replace the wave script, taking effect from the next wave
+   * @param bytes Script in the format produced by exportWaveScript
+   * @returns 0 on success, otherwise the status code the WASM module rejected the script with
+   */
+  async importWaveScript(bytes: Uint8Array): Promise<number> {
+    const wasm = await this.loadWasm();
+    if (bytes.length <= wasm.getWaveScriptCapacity()) {
+      new Uint8Array(wasm.memory.buffer, wasm.getWaveScriptPtr(), bytes.length).set(bytes);
+    }
+    return wasm.loadWaveScript(bytes.length);
+  }
+
+  /**
+   * Serialize the enemy archetypes
+   * @returns A copy of the archetype bytes, or null if they could not be serialized
+   */
+  async exportEnemyTypes(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveEnemyTypes();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getEnemyTypesPtr(), length).slice();
+  }
+
+  /**
+   * Serialize the map new games are played on
+   * @returns A copy of the map bytes, or null if the map could not be serialized
+   */
+  async exportMap(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveMap();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getMapPtr(), length).slice();
+  }
+
+  /**
+   * Replace the map, used straight away on the menu screen and otherwise from the next game
+   * @param bytes Map in the format produced by exportMap
+   * @returns 0 on success, otherwise the status code the WASM module rejected the map with
+   */
+  async importMap(bytes: Uint8Array): Promise<number> {
+    const wasm = await this.loadWasm();
+    if (bytes.length <= wasm.getMapCapacity()) {
+      new Uint8Array(wasm.memory.buffer, wasm.getMapPtr(), bytes.length).set(bytes);
+    }
+    return wasm.loadMap(bytes.length);
+  }
+
+  /**
+   * Serialize the rules of the level being played
+   * @returns A copy of the level bytes, or null if the level could not be serialized
+   */
+  async exportLevel(): Promise<Uint8Array | null> {
+    const wasm = await this.loadWasm();
+    const length = wasm.saveLevel();
+    if (length === 0) return null;
+
+    return new Uint8Array(wasm.memory.buffer, wasm.getLevelPtr(), length).slice();
+  }
+
+  /**
+   * Replace the level rules, used from the next game
+   * @param bytes Level in the format produced by exportLevel
+   * @returns 0 on success, otherwise the status code the WASM module rejected the level with
+   */
+  async importLevel(bytes: Uint8Array): Promise<number> {
+    const wasm = await this.loadWasm();
+    if (bytes.length <= wasm.getLevelCapacity()) {
+      new Uint8Array(wasm.memory.buffer, wasm.getLevelPtr(), bytes.length).set(bytes);
+    }
+    return wasm.loadLevel(bytes.length);
+  }
+}
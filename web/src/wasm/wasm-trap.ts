@@ -0,0 +1,62 @@
+// Detects WASM traps (Zig panics, unreachable, out of bounds accesses) and stops calls into the poisoned instance
+import { WASM_EXPORTS } from './wasm-abi';
+import type { WasmExports } from './wasm-abi';
+
+/**
+ * A trap raised inside the module, and what could be saved from the instance afterwards
+ */
+export interface WasmTrap {
+  call: string; // Export that was running
+  message: string;
+  stack: string | null;
+  snapshot: Uint8Array | null; // Save snapshot taken after the trap, null if that trapped as well
+}
+
+/**
+ * Error thrown by calls made after the module trapped, its memory can't be trusted until it is restarted
+ */
+export class WasmCrashedError extends Error {
+  readonly call: string;
+
+  constructor(call: string) {
+    super(`The game crashed in ${call} and has to be restarted`);
+    this.name = 'WasmCrashedError';
+    this.call = call;
+  }
+}
+
+/**
+ * Check whether an error thrown by an export is a trap, stack overflows surface as a RangeError
+ */
+export function isTrap(error: unknown): boolean {
+  return error instanceof WebAssembly.RuntimeError || error instanceof RangeError;
+}
+
+/**
+ * Wrap every export so the first trap is reported and every call after it throws a WasmCrashedError
+ * Debug exports missing from release builds stay missing
+ * @param onTrap Called once, synchronously, before the trap is rethrown to the caller
+ */
+export function guardExports(exports: WasmExports, onTrap: (call: string, error: Error) => void): WasmExports {
+  const guarded: Record<string, unknown> = { memory: exports.memory };
+  let crashedIn: string | null = null;
+
+  for (const { name } of WASM_EXPORTS) {
+    const fn = exports[name as keyof WasmExports] as ((...args: number[]) => number | void) | undefined;
+    if (typeof fn !== 'function') continue;
+    guarded[name] = (...args: number[]) => {
+      if (crashedIn !== null) throw new WasmCrashedError(crashedIn);
+      try {
+        return fn(...args);
+      } catch (error) {
+        if (isTrap(error)) {
+          crashedIn = name;
+          onTrap(name, error as Error);
+        }
+        throw error;
+      }
+    };
+  }
+
+  return guarded as unknown as WasmExports;
+}
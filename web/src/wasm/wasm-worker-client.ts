@@ -0,0 +1,394 @@
+// Main-thread side of worker mode, proxies the game to the worker in web/src/worker.ts
+import { GameEventBus } from './game-events';
+import type { GameStats } from './wasm-loader';
+import type { HoverPosition, TowerHighlight, WasmGame } from './wasm-game';
+import type {
+  WorkerCallArgs,
+  WorkerCallName,
+  WorkerCallResult,
+  WorkerLogLevel,
+  WorkerRequest,
+  WorkerResponse
+} from './worker-protocol';
+import { WasmLoadError } from './wasm-fetch';
+import type { WasmLoadListener } from './wasm-fetch';
+import type { InputRecorder } from '../game/input-recorder';
+import type { ReplayAction } from '../game/replay-file';
+import type { DebugCommand, EntityCounts } from '../game/dev-commands';
+import type { GameState } from '../game/game-state';
+import type { TowerInfo } from '../game/tower-info';
+import type { TowerTargeting } from '../game/tower-catalog';
+import type { WaveDefinition } from '../game/wave-script';
+import type { RenderBackendType } from '../renderer/render-backend';
+import type { MapOverlay } from '../renderer/map-overlay';
+import type { DebugOverlay } from '../renderer/debug-overlay';
+
+// Define logger type for compatibility
+interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+  debug?(message: string): void;
+  game?(message: string): void;
+}
+
+// Bundled worker entry point, relative to index.html
+const WORKER_SCRIPT_URL = 'js/worker.js';
+
+interface PendingCall {
+  resolve(value: unknown): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Check if the game can run in a worker, which needs a canvas that can be transferred as an OffscreenCanvas
+ */
+export function isWorkerModeSupported(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof HTMLCanvasElement !== 'undefined'
+    && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+export class WasmWorkerClient implements WasmGame {
+  public readonly events: GameEventBus = new GameEventBus();
+  private worker: Worker | null = null;
+  private logger: Logger;
+  private ready: boolean = false;
+  private nextId: number = 1;
+  private pending: Map<number, PendingCall> = new Map();
+  private renderPending: boolean = false;
+  private inputRecorder: InputRecorder | null = null;
+  private inputLocked: boolean = false; // Player input is ignored while a replay drives the game
+  private loadListener: WasmLoadListener | null = null;
+
+  constructor(logger?: Logger) {
+    this.logger = logger || console;
+  }
+
+  /**
+   * Check if the worker has loaded the WASM module
+   */
+  isLoaded(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Start the worker, hand it the canvas and load the WASM module in it
+   * @param canvas Canvas transferred from the page, the worker draws to it from now on
+   * @param backend Rendering backend to draw with, WebGL2 falls back to Canvas2D when unavailable
+   * @param wasmUrl Location of towerd.wasm, made absolute since the worker resolves URLs against its own script
+   * @param listener Told about download progress and retries
+   * @returns The backend the worker draws with
+   * @throws WasmLoadError describing why the module could not be loaded
+   */
+  async start(
+    canvas: OffscreenCanvas,
+    backend: RenderBackendType,
+    wasmUrl: string,
+    listener?: WasmLoadListener
+  ): Promise<RenderBackendType> {
+    if (this.worker) {
+      throw new Error('Game worker is already running');
+    }
+
+    this.logger.log('Starting game worker...');
+    this.worker = new Worker(WORKER_SCRIPT_URL, { type: 'module' });
+    this.worker.addEventListener('message', event => this.handleMessage(event.data as WorkerResponse));
+    this.worker.addEventListener('error', event => this.failPending(`Game worker error: ${event.message}`));
+    this.worker.addEventListener('messageerror', () => this.failPending('Game worker sent an unreadable message'));
+
+    const options = { wasmUrl: new URL(wasmUrl, document.baseURI).href, canvas, backend, width: canvas.width, height: canvas.height };
+    this.loadListener = listener ?? null;
+    let backendType: RenderBackendType;
+    try {
+      backendType = await this.call('init', [options], [canvas]);
+    } finally {
+      this.loadListener = null;
+    }
+
+    this.ready = true;
+    return backendType;
+  }
+
+  /**
+   * Send a call to the worker
+   * @param transfer Objects moved to the worker instead of copied
+   * @returns Promise resolving to the call's result
+   */
+  private call<K extends WorkerCallName>(
+    call: K,
+    args: WorkerCallArgs<K>,
+    transfer: Transferable[] = []
+  ): Promise<WorkerCallResult<K>> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new Error('Game worker is not running'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      worker.postMessage({ id, call, args } as WorkerRequest, transfer);
+    });
+  }
+
+  /**
+   * Dispatch a message from the worker
+   */
+  private handleMessage(message: WorkerResponse): void {
+    switch (message.type) {
+      case 'result':
+      case 'error': {
+        const pending = this.pending.get(message.id);
+        if (!pending) return;
+        this.pending.delete(message.id);
+        if (message.type === 'result') {
+          pending.resolve(message.result);
+        } else if (message.loadError) {
+          pending.reject(new WasmLoadError(message.loadError, message.message));
+        } else {
+          pending.reject(new Error(message.message));
+        }
+        return;
+      }
+      case 'log':
+        this.routeLog(message.level, message.message);
+        return;
+      case 'event':
+        this.events.emit(message.event.name, message.event.detail);
+        return;
+      case 'load':
+        this.loadListener?.(message.event);
+        return;
+    }
+  }
+
+  /**
+   * Pass a message from the worker's logger to the matching log level
+   */
+  private routeLog(level: WorkerLogLevel, message: string): void {
+    switch (level) {
+      case 'error':
+        this.logger.error(message);
+        return;
+      case 'warn':
+        this.logger.warn(message);
+        return;
+      case 'debug':
+        (this.logger.debug ?? this.logger.log).call(this.logger, message);
+        return;
+      case 'game':
+        (this.logger.game ?? this.logger.log).call(this.logger, message);
+        return;
+      default:
+        this.logger.log(message);
+    }
+  }
+
+  /**
+   * Reject every call still waiting for the worker
+   */
+  private failPending(reason: string): void {
+    this.logger.error(reason);
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error(reason));
+    }
+    this.pending.clear();
+    this.renderPending = false;
+  }
+
+  /**
+   * Apply a player input unless a replay holds the lock, recording it if requested
+   */
+  private async sendInput(action: ReplayAction, deltaTime: number = 0): Promise<void> {
+    if (this.inputLocked) return;
+    this.inputRecorder?.record(action, action.type === 'step' ? deltaTime : undefined);
+    await this.call('applyInput', [action, deltaTime]);
+  }
+
+  /**
+   * Initialize the WASM module with the canvas dimensions
+   */
+  async initializeGame(width: number, height: number): Promise<void> {
+    await this.call('initializeGame', [width, height]);
+  }
+
+  /**
+   * Have the worker replace its WASM instance, the worker itself and its canvas are kept
+   */
+  async restart(): Promise<void> {
+    await this.call('restart', []);
+  }
+
+  async resetGame(): Promise<void> {
+    await this.sendInput({ type: 'reset' });
+  }
+
+  async updateGame(deltaTime: number): Promise<void> {
+    this.inputRecorder?.recordFrame(deltaTime);
+    await this.call('updateGame', [deltaTime]);
+  }
+
+  async pauseGame(): Promise<void> {
+    await this.sendInput({ type: 'pause' });
+  }
+
+  async resumeGame(): Promise<void> {
+    await this.sendInput({ type: 'resume' });
+  }
+
+  async stepFrame(deltaTime: number): Promise<void> {
+    await this.sendInput({ type: 'step' }, deltaTime);
+  }
+
+  async handleClick(x: number, y: number): Promise<void> {
+    await this.sendInput({ type: 'click', x, y });
+  }
+
+  async selectTowerType(towerType: number): Promise<void> {
+    await this.sendInput({ type: 'selectTower', towerType });
+  }
+
+  getGameState(): Promise<GameState> {
+    return this.call('getGameState', []);
+  }
+
+  getGameStats(): Promise<GameStats> {
+    return this.call('getGameStats', []);
+  }
+
+  canPlaceTower(x: number, y: number): Promise<boolean> {
+    return this.call('canPlaceTower', [x, y]);
+  }
+
+  getTowerRange(): Promise<number> {
+    return this.call('getTowerRange', []);
+  }
+
+  getNextWaveIn(): Promise<number | null> {
+    return this.call('getNextWaveIn', []);
+  }
+
+  getWavePreview(wave: number): Promise<WaveDefinition | null> {
+    return this.call('getWavePreview', [wave]);
+  }
+
+  getSelectedTower(): Promise<TowerInfo | null> {
+    return this.call('getSelectedTower', []);
+  }
+
+  async selectTower(id: number): Promise<void> {
+    await this.call('selectTower', [id]);
+  }
+
+  async upgradeTower(id: number): Promise<void> {
+    await this.sendInput({ type: 'upgradeTower', towerId: id });
+  }
+
+  async sellTower(id: number): Promise<void> {
+    await this.sendInput({ type: 'sellTower', towerId: id });
+  }
+
+  async setTowerTargeting(id: number, targeting: TowerTargeting): Promise<void> {
+    await this.sendInput({ type: 'setTargeting', towerId: id, targeting });
+  }
+
+  async setSeed(seed: number): Promise<void> {
+    await this.call('setSeed', [seed >>> 0]);
+  }
+
+  getSeed(): Promise<number> {
+    return this.call('getSeed', []);
+  }
+
+  setInputRecorder(recorder: InputRecorder | null): void {
+    this.inputRecorder = recorder;
+  }
+
+  setInputLocked(locked: boolean): void {
+    this.inputLocked = locked;
+  }
+
+  async applyInput(action: ReplayAction, deltaTime: number = 0): Promise<void> {
+    await this.call('applyInput', [action, deltaTime]);
+  }
+
+  hasDebugCommands(): Promise<boolean> {
+    return this.call('hasDebugCommands', []);
+  }
+
+  runDebugCommand(command: DebugCommand): Promise<number> {
+    return this.call('runDebugCommand', [command]);
+  }
+
+  getEntityCounts(): Promise<EntityCounts | null> {
+    return this.call('getEntityCounts', []);
+  }
+
+  /**
+   * Ask the worker to draw the current frame
+   *
+   * Frames requested while the worker is still drawing are dropped, so a slow worker doesn't build up a queue.
+   */
+  async renderFrame(
+    alpha: number = 1,
+    hover: HoverPosition | null = null,
+    highlight: TowerHighlight | null = null,
+    mapOverlay: MapOverlay | null = null,
+    debugOverlay: DebugOverlay | null = null
+  ): Promise<void> {
+    if (this.renderPending) return;
+
+    this.renderPending = true;
+    try {
+      await this.call('renderFrame', [alpha, hover, highlight, mapOverlay, debugOverlay]);
+    } finally {
+      this.renderPending = false;
+    }
+  }
+
+  exportSnapshot(): Promise<Uint8Array | null> {
+    return this.call('exportSnapshot', []);
+  }
+
+  importSnapshot(bytes: Uint8Array): Promise<number> {
+    return this.call('importSnapshot', [bytes]);
+  }
+
+  exportTowerCatalog(): Promise<Uint8Array | null> {
+    return this.call('exportTowerCatalog', []);
+  }
+
+  importTowerCatalog(bytes: Uint8Array): Promise<number> {
+    return this.call('importTowerCatalog', [bytes]);
+  }
+
+  exportWaveScript(): Promise<Uint8Array | null> {
+    return this.call('exportWaveScript', []);
+  }
+
+  importWaveScript(bytes: Uint8Array): Promise<number> {
+    return this.call('importWaveScript', [bytes]);
+  }
+
+  exportEnemyTypes(): Promise<Uint8Array | null> {
+    return this.call('exportEnemyTypes', []);
+  }
+
+  exportMap(): Promise<Uint8Array | null> {
+    return this.call('exportMap', []);
+  }
+
+  importMap(bytes: Uint8Array): Promise<number> {
+    return this.call('importMap', [bytes]);
+  }
+
+  exportLevel(): Promise<Uint8Array | null> {
+    return this.call('exportLevel', []);
+  }
+
+  importLevel(bytes: Uint8Array): Promise<number> {
+    return this.call('importLevel', [bytes]);
+  }
+}
@@ -0,0 +1,99 @@
+// Typed messages exchanged between WasmWorkerClient and the game worker (web/src/worker.ts)
+import type { GameEventMap, GameEventName } from './game-events';
+import type { GameStats } from './wasm-loader';
+import type { HoverPosition, TowerHighlight } from './wasm-game';
+import type { TowerInfo } from '../game/tower-info';
+import type { WaveDefinition } from '../game/wave-script';
+import type { ReplayAction } from '../game/replay-file';
+import type { DebugCommand, EntityCounts } from '../game/dev-commands';
+import type { GameState } from '../game/game-state';
+import type { RenderBackendType } from '../renderer/render-backend';
+import type { MapOverlay } from '../renderer/map-overlay';
+import type { DebugOverlay } from '../renderer/debug-overlay';
+import type { WasmLoadErrorKind, WasmLoadEvent } from './wasm-fetch';
+
+/**
+ * Everything the worker needs to load the game and draw it
+ */
+export interface WorkerInitOptions {
+  wasmUrl: string; // Absolute, a worker resolves relative URLs against its own script
+  canvas: OffscreenCanvas;
+  backend: RenderBackendType;
+  width: number;
+  height: number;
+}
+
+/**
+ * Calls the main thread can make into the worker, with their arguments and results
+ */
+export interface WorkerCalls {
+  init(options: WorkerInitOptions): RenderBackendType; // Backend actually used
+  initializeGame(width: number, height: number): void;
+  restart(): void;
+  applyInput(action: ReplayAction, deltaTime: number): void;
+  hasDebugCommands(): boolean;
+  runDebugCommand(command: DebugCommand): number;
+  getEntityCounts(): EntityCounts | null;
+  updateGame(deltaTime: number): void;
+  renderFrame(
+    alpha: number,
+    hover: HoverPosition | null,
+    highlight: TowerHighlight | null,
+    mapOverlay: MapOverlay | null,
+    debugOverlay: DebugOverlay | null
+  ): void;
+  getGameState(): GameState;
+  getGameStats(): GameStats;
+  canPlaceTower(x: number, y: number): boolean;
+  getTowerRange(): number;
+  getNextWaveIn(): number | null;
+  getWavePreview(wave: number): WaveDefinition | null;
+  getSelectedTower(): TowerInfo | null;
+  selectTower(id: number): void;
+  setSeed(seed: number): void;
+  getSeed(): number;
+  exportSnapshot(): Uint8Array | null;
+  importSnapshot(bytes: Uint8Array): number;
+  exportTowerCatalog(): Uint8Array | null;
+  importTowerCatalog(bytes: Uint8Array): number;
+  exportWaveScript(): Uint8Array | null;
+  importWaveScript(bytes: Uint8Array): number;
+  exportEnemyTypes(): Uint8Array | null;
+  exportMap(): Uint8Array | null;
+  importMap(bytes: Uint8Array): number;
+  exportLevel(): Uint8Array | null;
+  importLevel(bytes: Uint8Array): number;
+}
+
+export type WorkerCallName = keyof WorkerCalls;
+export type WorkerCallArgs<K extends WorkerCallName> = Parameters<WorkerCalls[K]>;
+export type WorkerCallResult<K extends WorkerCallName> = ReturnType<WorkerCalls[K]>;
+
+/**
+ * A call sent to the worker, answered by a result or error message with the same id
+ */
+export type WorkerRequest = {
+  [K in WorkerCallName]: { id: number; call: K; args: WorkerCallArgs<K> }
+}[WorkerCallName];
+
+/**
+ * Log levels forwarded from the worker's logger
+ */
+export type WorkerLogLevel = 'log' | 'debug' | 'game' | 'warn' | 'error';
+
+/**
+ * A game event forwarded from the worker's event bus
+ */
+export type WorkerGameEvent = {
+  [K in GameEventName]: { name: K; detail: GameEventMap[K] }
+}[GameEventName];
+
+/**
+ * Messages the worker sends back to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string; loadError?: WasmLoadErrorKind } // Set when the module failed to load
+  | { type: 'log'; level: WorkerLogLevel; message: string }
+  | { type: 'event'; event: WorkerGameEvent }
+  | { type: 'load'; event: WasmLoadEvent }; // Progress of the module download during init
@@ -0,0 +1,117 @@
+// Game worker entry point, runs the WASM simulation off the main thread and draws to a transferred OffscreenCanvas
+import { WasmLoader } from './wasm/wasm-loader';
+import { GAME_EVENT_NAMES } from './wasm/game-events';
+import { WasmLoadError } from './wasm/wasm-fetch';
+import { CommandBufferRenderer } from './renderer/command-buffer-renderer';
+import { createRenderBackend } from './renderer/backend-factory';
+import type {
+  WorkerCallArgs,
+  WorkerCallName,
+  WorkerCallResult,
+  WorkerGameEvent,
+  WorkerLogLevel,
+  WorkerRequest,
+  WorkerResponse
+} from './wasm/worker-protocol';
+
+// The parts of DedicatedWorkerGlobalScope used here, the DOM lib doesn't describe worker globals
+interface WorkerScope {
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+}
+
+type WorkerHandlers = {
+  [K in WorkerCallName]: (...args: WorkerCallArgs<K>) => Promise<WorkerCallResult<K>>
+};
+
+const scope = self as unknown as WorkerScope;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer);
+}
+
+// Log messages are shown by the main thread's logger
+function forwardLog(level: WorkerLogLevel): (message: string) => void {
+  return message => post({ type: 'log', level, message });
+}
+
+const logger = {
+  log: forwardLog('log'),
+  debug: forwardLog('debug'),
+  game: forwardLog('game'),
+  warn: forwardLog('warn'),
+  error: forwardLog('error')
+};
+
+// Input locking and recording are handled by the client, the worker's loader only runs the module
+const loader = new WasmLoader(null, logger);
+
+for (const name of GAME_EVENT_NAMES) {
+  loader.events.on(name, detail => post({ type: 'event', event: { name, detail } as WorkerGameEvent }));
+}
+
+const handlers: WorkerHandlers = {
+  async init({ wasmUrl, canvas, backend, width, height }) {
+    const renderBackend = createRenderBackend(canvas, backend, width, height);
+    loader.setRenderer(new CommandBufferRenderer(renderBackend));
+    await loader.loadWasm(wasmUrl, event => post({ type: 'load', event }));
+    return renderBackend.type;
+  },
+  initializeGame: (width, height) => loader.initializeGame(width, height),
+  restart: () => loader.restart(),
+  applyInput: (action, deltaTime) => loader.applyInput(action, deltaTime),
+  hasDebugCommands: () => loader.hasDebugCommands(),
+  runDebugCommand: command => loader.runDebugCommand(command),
+  getEntityCounts: () => loader.getEntityCounts(),
+  updateGame: deltaTime => loader.updateGame(deltaTime),
+  renderFrame: (alpha, hover, highlight, mapOverlay, debugOverlay) =>
+    loader.renderFrame(alpha, hover, highlight, mapOverlay, debugOverlay),
+  getGameState: () => loader.getGameState(),
+  getGameStats: () => loader.getGameStats(),
+  canPlaceTower: (x, y) => loader.canPlaceTower(x, y),
+  getTowerRange: () => loader.getTowerRange(),
+  getNextWaveIn: () => loader.getNextWaveIn(),
+  getWavePreview: wave => loader.getWavePreview(wave),
+  getSelectedTower: () => loader.getSelectedTower(),
+  selectTower: id => loader.selectTower(id),
+  setSeed: seed => loader.setSeed(seed),
+  getSeed: () => loader.getSeed(),
+  exportSnapshot: () => loader.exportSnapshot(),
+  importSnapshot: bytes => loader.importSnapshot(bytes),
+  exportTowerCatalog: () => loader.exportTowerCatalog(),
+  importTowerCatalog: bytes => loader.importTowerCatalog(bytes),
+  exportWaveScript: () => loader.exportWaveScript(),
+  importWaveScript: bytes => loader.importWaveScript(bytes),
+  exportEnemyTypes: () => loader.exportEnemyTypes(),
+  exportMap: () => loader.exportMap(),
+  importMap: bytes => loader.importMap(bytes),
+  exportLevel: () => loader.exportLevel(),
+  importLevel: bytes => loader.importLevel(bytes)
+};
+
+/**
+ * Run a call and post its result, or the error it failed with
+ */
+async function handleRequest(request: WorkerRequest): Promise<void> {
+  try {
+    const handler = handlers[request.call] as (...args: unknown[]) => Promise<unknown>;
+    const result = await handler(...request.args);
+
+    // Snapshots, catalogs, wave scripts, enemy types and maps are already a copy, hand the buffer over instead of cloning it
+    const transfer = result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : [];
+    post({ type: 'result', id: request.id, result }, transfer);
+  } catch (error) {
+    if (error instanceof WasmLoadError) {
+      post({ type: 'error', id: request.id, message: error.message, loadError: error.kind });
+    } else {
+      post({ type: 'error', id: request.id, message: String(error) });
+    }
+  }
+}
+
+// Calls run one at a time in the order they were sent, so an update is never interleaved with a draw
+let queue: Promise<void> = Promise.resolve();
+scope.addEventListener('message', event => {
+  const request = event.data;
+  queue = queue.then(() => handleRequest(request));
+});
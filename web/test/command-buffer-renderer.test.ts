@@ -0,0 +1,291 @@
+// Draw command buffers in the src/rendering/draw.zig layout, replayed into the headless backend
+import { describe, expect, test } from 'bun:test';
+import { CommandBufferRenderer, DRAW_FLAG_FILL, DrawOpcode } from '../src/renderer/command-buffer-renderer';
+import type { DrawCommandList } from '../src/renderer/command-buffer-renderer';
+import { HeadlessBackend } from '../src/renderer/headless-backend';
+import type { RecordedDrawCall } from '../src/renderer/headless-backend';
+import { OUTLINE_WIDTH } from '../src/renderer/render-backend';
+
+// Scratch word for storing an f32 argument as its raw bits
+const floatBits = new Float32Array(1);
+const floatWord = new Uint32Array(floatBits.buffer);
+
+// Writes commands the way CommandBuffer in draw.zig does: header, colour, then f32 arguments
+class CommandListBuilder {
+  private words: number[] = [];
+  private textArena: number[] = [];
+
+  rect(x: number, y: number, width: number, height: number, color: number): this {
+    return this.command(DrawOpcode.Rect, 0, color, [x, y, width, height]);
+  }
+
+  circle(x: number, y: number, radius: number, color: number, fill: boolean): this {
+    return this.command(DrawOpcode.Circle, fill ? DRAW_FLAG_FILL : 0, color, [x, y, radius]);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, thickness: number, color: number): this {
+    return this.command(DrawOpcode.Line, 0, color, [x1, y1, x2, y2, thickness]);
+  }
+
+  triangle(points: [number, number, number, number, number, number], color: number, fill: boolean): this {
+    return this.command(DrawOpcode.Triangle, fill ? DRAW_FLAG_FILL : 0, color, points);
+  }
+
+  text(x: number, y: number, text: string, size: number, color: number): this {
+    const bytes = new TextEncoder().encode(text);
+    const offset = this.textArena.length;
+    this.textArena.push(...bytes);
+    this.command(DrawOpcode.Text, 0, color, [x, y, size]);
+    this.words.push(offset, bytes.length);
+    return this;
+  }
+
+  staticLayer(): this {
+    return this.command(DrawOpcode.StaticLayer, 0, 0, []);
+  }
+
+  call(call: RecordedDrawCall): this {
+    switch (call.op) {
+      case 'rect': return this.rect(call.x, call.y, call.width, call.height, call.color);
+      case 'circle': return this.circle(call.x, call.y, call.radius, call.color, call.fill);
+      case 'line': return this.line(call.x1, call.y1, call.x2, call.y2, call.thickness, call.color);
+      case 'triangle': return this.triangle([call.x1, call.y1, call.x2, call.y2, call.x3, call.y3], call.color, call.fill);
+      case 'text': return this.text(call.x, call.y, call.text, call.size, call.color);
+      case 'staticLayer': return this.staticLayer();
+      default: throw new Error(`No command for ${call.op}`);
+    }
+  }
+
+  build(): DrawCommandList {
+    const words = new Uint32Array(this.words);
+    return { words, floats: new Float32Array(words.buffer), text: new Uint8Array(this.textArena) };
+  }
+
+  private command(opcode: DrawOpcode, flags: number, color: number, args: number[]): this {
+    this.words.push(opcode | flags, color);
+    for (const arg of args) {
+      floatBits[0] = arg;
+      this.words.push(floatWord[0]);
+    }
+    return this;
+  }
+}
+
+// Style a Canvas 2D backend draws a call with, null for calls that always start a new one
+function styleOf(call: RecordedDrawCall): string | null {
+  switch (call.op) {
+    case 'rect': return `fill ${call.color}`;
+    case 'circle':
+    case 'triangle': return call.fill ? `fill ${call.color}` : `stroke ${call.color} ${OUTLINE_WIDTH}`;
+    case 'line': return `stroke ${call.color} ${call.thickness}`;
+    default: return null;
+  }
+}
+
+function countStyleChanges(calls: ReadonlyArray<RecordedDrawCall>): number {
+  let changes = 0;
+  let current: string | null = null;
+  for (const call of calls) {
+    const style = styleOf(call);
+    if (style === null || style !== current) changes++;
+    current = style;
+  }
+  return changes;
+}
+
+// Exact bounds of a shape, without the margin the renderer adds
+function boundsOf(call: RecordedDrawCall): [number, number, number, number] | null {
+  switch (call.op) {
+    case 'rect': return [call.x, call.y, call.x + call.width, call.y + call.height];
+    case 'circle': return [call.x - call.radius, call.y - call.radius, call.x + call.radius, call.y + call.radius];
+    case 'line': return [Math.min(call.x1, call.x2), Math.min(call.y1, call.y2), Math.max(call.x1, call.x2), Math.max(call.y1, call.y2)];
+    case 'triangle': return [Math.min(call.x1, call.x2, call.x3), Math.min(call.y1, call.y2, call.y3), Math.max(call.x1, call.x2, call.x3), Math.max(call.y1, call.y2, call.y3)];
+    default: return null;
+  }
+}
+
+function overlap(a: RecordedDrawCall, b: RecordedDrawCall): boolean {
+  const first = boundsOf(a);
+  const second = boundsOf(b);
+  if (!first || !second) return true;
+  return first[0] <= second[2] && second[0] <= first[2] && first[1] <= second[3] && second[1] <= first[3];
+}
+
+// A frame at the entity limits, MAX_ENEMIES enemies drawn as in enemy.zig and MAX_PROJECTILES projectiles,
+// spread along three lanes of the path
+function fullFrame(): RecordedDrawCall[] {
+  let seed = 1;
+  const random = (): number => (seed = (seed * 1664525 + 1013904223) >>> 0) / 2 ** 32;
+  const at = (value: number): number => Math.fround(Math.round(value * 4) / 4);
+  const lane = (): number => [100, 300, 500][Math.floor(random() * 3)] + random() * 40 - 20;
+  const calls: RecordedDrawCall[] = [];
+
+  for (let enemy = 0; enemy < 100; enemy++) {
+    const x = at(random() * 800);
+    const y = at(lane());
+    const radius = 10 + Math.floor(random() * 3) * 2;
+    const health = random();
+    calls.push({ op: 'circle', x, y, radius, color: [0xff0000, 0xff8800, 0xaa00ff][enemy % 3], fill: true });
+
+    const barX = x - radius;
+    const barY = y - radius - 10;
+    const barColor = (Math.floor(255 * (1 - health)) << 16) | (Math.floor(255 * health) << 8);
+    calls.push({ op: 'rect', x: barX, y: barY, width: radius * 2, height: 5, color: 0x000000 });
+    calls.push({ op: 'rect', x: barX, y: barY, width: at(radius * 2 * health), height: 5, color: barColor });
+    calls.push({ op: 'line', x1: barX, y1: barY, x2: barX + radius * 2, y2: barY, thickness: 1, color: 0xffffff });
+    calls.push({ op: 'line', x1: barX + radius * 2, y1: barY, x2: barX + radius * 2, y2: barY + 5, thickness: 1, color: 0xffffff });
+    calls.push({ op: 'line', x1: barX + radius * 2, y1: barY + 5, x2: barX, y2: barY + 5, thickness: 1, color: 0xffffff });
+    calls.push({ op: 'line', x1: barX, y1: barY + 5, x2: barX, y2: barY, thickness: 1, color: 0xffffff });
+  }
+
+  for (let projectile = 0; projectile < 200; projectile++) {
+    calls.push({ op: 'circle', x: at(random() * 800), y: at(lane()), radius: 3 + (projectile % 3), color: [0x00ffff, 0xff8000, 0x8080ff][projectile % 3], fill: true });
+  }
+
+  return calls;
+}
+
+describe('CommandBufferRenderer', () => {
+  test('replays every opcode into the backend', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const frame = new CommandListBuilder()
+      .staticLayer()
+      .rect(10, 20, 30, 40, 0xff0000)
+      .circle(100, 100, 12.5, 0x00ff00, true)
+      .circle(100, 100, 150, 0x00ff00, false)
+      .line(0, 0, 40, 80, 2, 0x0000ff)
+      .triangle([1, 2, 3, 4, 5, 6], 0xffff00, true)
+      .text(5, 15, 'Wave 3', 14, 0xffffff)
+      .build();
+
+    renderer.render(frame, new CommandListBuilder().build(), 0);
+
+    expect(backend.getLastFrame()).toEqual([
+      { op: 'clear' },
+      { op: 'staticLayer' },
+      { op: 'rect', x: 10, y: 20, width: 30, height: 40, color: 0xff0000 },
+      { op: 'circle', x: 100, y: 100, radius: 12.5, color: 0x00ff00, fill: true },
+      { op: 'circle', x: 100, y: 100, radius: 150, color: 0x00ff00, fill: false },
+      { op: 'line', x1: 0, y1: 0, x2: 40, y2: 80, thickness: 2, color: 0x0000ff },
+      { op: 'triangle', x1: 1, y1: 2, x2: 3, y2: 4, x3: 5, y3: 6, color: 0xffff00, fill: true },
+      { op: 'text', x: 5, y: 15, text: 'Wave 3', size: 14, color: 0xffffff }
+    ]);
+    expect(renderer.getStats().commands).toBe(7);
+  });
+
+  test('caches the static layer until its version changes', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const frame = new CommandListBuilder().staticLayer().build();
+    const grid = new CommandListBuilder().line(0, 0, 0, 600, 1, 0x333333).build();
+    const path = new CommandListBuilder().rect(0, 0, 40, 40, 0x444444).build();
+
+    renderer.render(frame, grid, 1);
+    expect(backend.getStaticLayer()).toEqual([{ op: 'line', x1: 0, y1: 0, x2: 0, y2: 600, thickness: 1, color: 0x333333 }]);
+
+    renderer.render(frame, path, 1);
+    expect(backend.getStaticLayer()[0].op).toBe('line');
+
+    renderer.render(frame, path, 2);
+    expect(backend.getStaticLayer()).toEqual([{ op: 'rect', x: 0, y: 0, width: 40, height: 40, color: 0x444444 }]);
+    expect(backend.getFrames()).toHaveLength(3);
+  });
+
+  test('stops at a truncated command and keeps the ones before it', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const full = new CommandListBuilder().rect(1, 2, 3, 4, 0x123456).circle(5, 6, 7, 0x654321, false).build();
+    const truncated = { ...full, words: full.words.subarray(0, full.words.length - 1), floats: full.floats.subarray(0, full.words.length - 1) };
+
+    renderer.render(truncated, new CommandListBuilder().build(), 0);
+
+    expect(backend.count('rect')).toBe(1);
+    expect(backend.count('circle')).toBe(0);
+  });
+
+  test('skips text whose range runs past the text arena', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const list = new CommandListBuilder().text(0, 0, 'Lives', 12, 0xffffff).build();
+
+    renderer.render({ ...list, text: list.text.subarray(0, 2) }, new CommandListBuilder().build(), 0);
+
+    expect(backend.getTexts()).toEqual([]);
+    expect(renderer.getStats().commands).toBe(1);
+  });
+
+  test('draws shapes of one style together when they do not overlap', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const frame = new CommandListBuilder()
+      .circle(100, 100, 10, 0xff0000, true)
+      .rect(90, 80, 20, 5, 0x000000)
+      .circle(400, 100, 10, 0xff0000, true)
+      .rect(390, 80, 20, 5, 0x000000)
+      .build();
+
+    renderer.render(frame, new CommandListBuilder().build(), 0);
+
+    expect(backend.getLastFrame()).toEqual([
+      { op: 'clear' },
+      { op: 'circle', x: 100, y: 100, radius: 10, color: 0xff0000, fill: true },
+      { op: 'circle', x: 400, y: 100, radius: 10, color: 0xff0000, fill: true },
+      { op: 'rect', x: 90, y: 80, width: 20, height: 5, color: 0x000000 },
+      { op: 'rect', x: 390, y: 80, width: 20, height: 5, color: 0x000000 }
+    ]);
+    expect(renderer.getStats().batches).toBe(2);
+  });
+
+  test('keeps overlapping shapes and text in buffer order', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const frame = new CommandListBuilder()
+      .rect(0, 0, 50, 50, 0x000000)
+      .circle(50, 50, 10, 0xff0000, true) // On top of the first rect
+      .rect(55, 55, 10, 10, 0x000000) // On top of the circle
+      .text(200, 200, 'Wave 1', 12, 0xffffff)
+      .circle(300, 300, 10, 0xff0000, true) // Can't move back past the text
+      .line(0, 0, 40, 80, 2, 0x0000ff)
+      .line(0, 0, 40, 80, 1, 0x0000ff) // Another line width is another style
+      .build();
+
+    renderer.render(frame, new CommandListBuilder().build(), 0);
+
+    expect(backend.getLastFrame().map(call => call.op)).toEqual(['clear', 'rect', 'circle', 'rect', 'text', 'circle', 'line', 'line']);
+    expect(renderer.getStats().batches).toBe(7);
+  });
+
+  test('a frame at the entity limits keeps overlapping shapes in order with far fewer style changes', () => {
+    const backend = new HeadlessBackend(800, 600);
+    const renderer = new CommandBufferRenderer(backend);
+    const calls = fullFrame();
+    const builder = new CommandListBuilder();
+    for (const call of calls) builder.call(call);
+
+    renderer.render(builder.build(), new CommandListBuilder().build(), 0);
+    const drawn = backend.getLastFrame().slice(1);
+
+    // Every command is drawn once
+    const key = (call: RecordedDrawCall): string => JSON.stringify(call);
+    expect(drawn.map(key).sort()).toEqual(calls.map(key).sort());
+
+    // Where each command was drawn, in buffer order
+    const queues = new Map<string, number[]>();
+    drawn.forEach((call, position) => queues.set(key(call), [...(queues.get(key(call)) ?? []), position]));
+    const positions = calls.map(call => queues.get(key(call))!.shift()!);
+
+    for (let later = 0; later < calls.length; later++) {
+      for (let earlier = 0; earlier < later; earlier++) {
+        if (styleOf(calls[earlier]) !== styleOf(calls[later]) && overlap(calls[earlier], calls[later])) {
+          expect(positions[earlier]).toBeLessThan(positions[later]);
+        }
+      }
+    }
+
+    const before = countStyleChanges(calls);
+    const after = countStyleChanges(drawn);
+    expect(after).toBe(renderer.getStats().batches);
+    expect(after).toBeLessThan(before / 2);
+  });
+});
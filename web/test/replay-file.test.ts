@@ -0,0 +1,125 @@
+// Replay files written by encodeReplay and read back by decodeReplay
+import { describe, expect, test } from 'bun:test';
+import { decodeReplay, encodeReplay, ReplayFormatError } from '../src/game/replay-file';
+import type { Replay } from '../src/game/replay-file';
+import { endlessLevel } from '../src/game/game-level';
+import type { TowerShape } from '../src/game/tower-catalog';
+
+// Time steps and coordinates are stored as f32, so the replay uses values an f32 holds exactly
+const TIMESTEP = 1 / 64;
+
+function sampleReplay(): Replay {
+  return {
+    seed: 0xdeadbeef,
+    timestep: TIMESTEP,
+    frameCount: 600,
+    setup: {
+      towers: [
+        { name: 'Basic', cost: 50, range: 100, damage: 10, cooldown: 0.5, color: 0x00ffff, shape: 'cross', attack: 'direct', targeting: 'first' },
+        { name: 'Splash', cost: 80, range: 90, damage: 8, cooldown: 1.25, color: 0xff8000, shape: 'circle', attack: 'splash', targeting: 'strongest' }
+      ],
+      waves: [
+        { boss: false, groups: [{ enemy: 'normal', count: 10, health: 50, speed: 60, bounty: 5, interval: 0.75, delay: 0, spawn: undefined }] },
+        { boss: true, groups: [{ enemy: 'boss', count: 1, health: 900, speed: 30, bounty: 100, interval: 0, delay: 2, spawn: 1 }] }
+      ],
+      map: {
+        waypoints: [{ col: 0, row: 2 }, { col: 10, row: 2 }, { col: 19, row: 12 }],
+        branches: [{ from: 0, to: 1, weight: 1 }, { from: 1, to: 2, weight: 1 }],
+        branching: 'weighted',
+        blocked: [{ col: 4, row: 7 }, { col: 5, row: 7 }]
+      },
+      level: { number: 2, money: 300, lives: 15, waves: 2, towers: [1, 2] }
+    },
+    inputs: [
+      { type: 'selectTower', towerType: 1, frame: 0, deltaTime: TIMESTEP },
+      { type: 'click', x: 120.5, y: 80, frame: 0, deltaTime: TIMESTEP },
+      { type: 'setTargeting', towerId: 1, targeting: 'closest', frame: 30, deltaTime: TIMESTEP },
+      { type: 'pause', frame: 90, deltaTime: TIMESTEP },
+      { type: 'step', frame: 90, deltaTime: 0.03125 },
+      { type: 'resume', frame: 90, deltaTime: TIMESTEP },
+      { type: 'upgradeTower', towerId: 1, frame: 200, deltaTime: TIMESTEP },
+      { type: 'sellTower', towerId: 1, frame: 400, deltaTime: TIMESTEP },
+      { type: 'reset', frame: 600, deltaTime: TIMESTEP }
+    ],
+    expected: { money: 1234, lives: 12, wave: 2, score: 5678 }
+  };
+}
+
+function expectFormatError(bytes: Uint8Array, message: string): void {
+  expect(() => decodeReplay(bytes)).toThrow(ReplayFormatError);
+  expect(() => decodeReplay(bytes)).toThrow(message);
+}
+
+describe('replay files', () => {
+  test('round-trip every input type, the setup and the expected result', () => {
+    const replay = sampleReplay();
+    const decoded = decodeReplay(encodeReplay(replay));
+
+    expect(decoded.seed).toBe(replay.seed);
+    expect(decoded.timestep).toBe(replay.timestep);
+    expect(decoded.frameCount).toBe(replay.frameCount);
+    expect(decoded.inputs).toEqual(replay.inputs);
+    expect(decoded.expected).toEqual(replay.expected);
+    expect(decoded.setup.towers).toMatchObject(replay.setup.towers);
+    expect(decoded.setup.waves).toEqual(replay.setup.waves);
+    expect(decoded.setup.map).toEqual(replay.setup.map);
+    expect(decoded.setup.level).toEqual(replay.setup.level);
+  });
+
+  test('round-trip a recording stopped without a result', () => {
+    const replay = { ...sampleReplay(), inputs: [], expected: null, setup: { ...sampleReplay().setup, level: endlessLevel() } };
+    const decoded = decodeReplay(encodeReplay(replay));
+
+    expect(decoded.expected).toBeNull();
+    expect(decoded.inputs).toEqual([]);
+    expect(decoded.setup.level).toEqual(endlessLevel());
+  });
+
+  test('reject a file with the wrong magic', () => {
+    const bytes = encodeReplay(sampleReplay());
+    bytes.set([0x00, 0x61, 0x73, 0x6d], 0); // A WASM module picked by mistake
+
+    expectFormatError(bytes, 'Not a replay file');
+  });
+
+  test('reject a file written by another version', () => {
+    const bytes = encodeReplay(sampleReplay());
+    new DataView(bytes.buffer).setUint16(4, 1, true);
+
+    expectFormatError(bytes, 'Unsupported replay version 1');
+  });
+
+  test('reject a truncated file at every length', () => {
+    const bytes = encodeReplay(sampleReplay());
+
+    for (let length = 0; length < bytes.length; length++) {
+      expect(() => decodeReplay(bytes.subarray(0, length))).toThrow(ReplayFormatError);
+    }
+  });
+
+  test('reject trailing data', () => {
+    const bytes = encodeReplay(sampleReplay());
+    const padded = new Uint8Array(bytes.length + 1);
+    padded.set(bytes);
+
+    expectFormatError(padded, 'Replay file has trailing data');
+  });
+
+  test('reject inputs out of frame order', () => {
+    const replay = sampleReplay();
+    replay.inputs = [
+      { type: 'pause', frame: 10, deltaTime: TIMESTEP },
+      { type: 'resume', frame: 5, deltaTime: TIMESTEP }
+    ];
+
+    expectFormatError(encodeReplay(replay), 'Input 1 is out of order');
+  });
+
+  test('reject a setup the module formats cannot hold', () => {
+    const replay = sampleReplay();
+    // Encoded as shape 0xFF, which decodeTowerCatalog doesn't know
+    replay.setup.towers = [{ ...replay.setup.towers[0], shape: 'hexagon' as TowerShape }];
+
+    expectFormatError(encodeReplay(replay), 'Replay setup is invalid');
+  });
+});